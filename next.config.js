@@ -25,6 +25,8 @@ const nextConfig = {
     ]
   },
   reactStrictMode: true,
+  // chromadb lazily imports optional embedding packages we don't install; load it from node_modules instead of bundling
+  serverExternalPackages: ['chromadb'],
   // Ensure CSS modules are properly handled
   webpack(config) {
     return config;
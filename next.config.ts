@@ -26,6 +26,8 @@ const nextConfig: NextConfig = {
     ]
   },
   reactStrictMode: true,
+  // chromadb lazily imports optional embedding packages we don't install; load it from node_modules instead of bundling
+  serverExternalPackages: ['chromadb'],
   swcMinify: true,
   optimizeFonts: true,
   webpack(config) {
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { isAdmin } from '@/lib/auth/admin';
+import { initDB } from '@/lib/db';
+import type { DBLLMUsageReportRow } from '@/lib/db/adapters/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addRow<T extends UsageTotals>(totals: T, row: DBLLMUsageReportRow): T {
+  totals.requests += row.requests;
+  totals.promptTokens += row.prompt_tokens;
+  totals.completionTokens += row.completion_tokens;
+  totals.totalTokens += row.total_tokens;
+  totals.costUsd += row.cost_usd;
+  return totals;
+}
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * LLM usage and cost for every user, for admins (ADMIN_USERNAMES).
+ *
+ *   from, to    ISO dates; the range is [from, to). Defaults to the last 30 days
+ *   username    limit the report to one user
+ *
+ * Returns per-user totals (most expensive first) and per-user, per-model daily rows.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.username)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const to = parseDate(params.get('to'));
+    const from = parseDate(params.get('from'));
+    if (to === null || from === null) {
+      return NextResponse.json({ error: 'from and to must be ISO dates' }, { status: 400 });
+    }
+
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    if (start >= end) {
+      return NextResponse.json({ error: 'from must be before to' }, { status: 400 });
+    }
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json({ error: `Range cannot exceed ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+
+    const db = await initDB();
+
+    let userId: string | undefined;
+    const username = params.get('username');
+    if (username) {
+      const user = await db.getUserByUsername(username.replace(/^@/, ''));
+      if (!user) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      userId = user.id;
+    }
+
+    const rows = await db.getLLMUsageReport({ from: start, to: end, userId });
+
+    const byUser = new Map<string, UsageTotals & { userId: string; username: string }>();
+    for (const row of rows) {
+      const entry = byUser.get(row.user_id) ?? { userId: row.user_id, username: row.username, ...emptyTotals() };
+      byUser.set(row.user_id, addRow(entry, row));
+    }
+
+    return NextResponse.json({
+      from: start.toISOString(),
+      to: end.toISOString(),
+      totals: rows.reduce<UsageTotals>(addRow, emptyTotals()),
+      users: Array.from(byUser.values()).sort((a, b) => b.costUsd - a.costUsd),
+      rows: rows.map(row => ({
+        userId: row.user_id,
+        username: row.username,
+        model: row.model,
+        day: row.day,
+        requests: row.requests,
+        promptTokens: row.prompt_tokens,
+        completionTokens: row.completion_tokens,
+        totalTokens: row.total_tokens,
+        costUsd: row.cost_usd
+      }))
+    });
+  } catch (error) {
+    console.error('Error building usage report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build usage report' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,8 +7,53 @@ import { CommunicationLevel, PersonalityAnalysis } from '@/lib/openai/types'
 import { PersonalityTuning } from '@/types/scraper'
 import { MissingInterestsError, MissingPsychoanalysisError, PersonalityAnalysisError } from '@/lib/openai/types'
 import { initDB } from '@/lib/db'
+import type { DBScrapeState } from '@/lib/db/adapters/types'
+import { describeScrapeSpec } from '@/lib/twitter/scrape-spec'
+import { ProgressBus } from '@/lib/progress-bus'
+import { savePersonalitySnapshot } from '@/lib/analysis/snapshots'
+import { resolvePersona, PersonaAccessError } from '@/lib/personas'
+import { BudgetExceededError } from '@/lib/llm/usage'
+import { RateLimitExceededError, rateLimitHeaders } from '@/lib/rate-limiter'
 
+// Client-generated job ids are only used as progress stream keys
+const JOB_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/
+
+// What analyzePersonality resolves with: an analysis, or the answer to a custom prompt
+type AnalysisResult = PersonalityAnalysis | { response: string }
+
+function isAnalysisResult(result: unknown): result is AnalysisResult {
+  return typeof result === 'object' && result !== null && ('traits' in result || 'response' in result)
+}
+
+// The date range of the tweets actually analyzed, which may not be the last
+// scrape's, plus the spec that scrape ran with
+function tweetSlice(tweets: Tweet[], scrapeState: DBScrapeState | null): NonNullable<PersonalityAnalysis['tweetSlice']> {
+  const times = tweets
+    .map(tweet => new Date(tweet.timestamp).getTime())
+    .filter(time => !isNaN(time))
+  const from = times.length > 0 ? new Date(Math.min(...times)).toISOString() : null
+  const to = times.length > 0 ? new Date(Math.max(...times)).toISOString() : null
+  const count = `${tweets.length} tweet${tweets.length === 1 ? '' : 's'}`
+  const description = from && to ? `${count} from ${from.slice(0, 10)} to ${to.slice(0, 10)}` : count
+
+  if (!scrapeState) {
+    return { tweetCount: tweets.length, from, to, description }
+  }
+  return {
+    tweetCount: tweets.length,
+    from,
+    to,
+    spec: scrapeState.spec,
+    scrapedAt: new Date(scrapeState.updated_at).toISOString(),
+    description: `${description}, scraped with ${describeScrapeSpec(scrapeState.spec)}`
+  }
+}
+
+// POST /api/analyze?target=<handle> analyzes an account the user cloned
 export async function POST(req: Request) {
+  // Set once the user is known, so failures also reach the progress stream
+  let progressJob: { id: string; userId: string; username: string } | null = null
+
   try {
     // Log environment configuration (safely)
     console.log('[Analyze Route] Environment check:', {
@@ -26,12 +71,16 @@ export async function POST(req: Request) {
       )
     }
 
-    const { tweets, profile, prompt, context, currentTuning } = await req.json() as { 
+    const { tweets, profile, prompt, context, currentTuning, jobId, resumeJobId } = await req.json() as { 
       tweets: Tweet[]
       profile: TwitterProfile
       prompt?: string
       context?: string
       currentTuning?: PersonalityTuning
+      // Lets the client follow /api/jobs/:id/events if this response never reaches it
+      jobId?: string
+      // analysis.partial.jobId of an earlier result: only its failed chunks run again
+      resumeJobId?: number
     }
     
     // Log analysis request details (safely)
@@ -52,6 +101,10 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Invalid profile data' }, { status: 400 })
     }
 
+    if (resumeJobId !== undefined && !(Number.isInteger(resumeJobId) && resumeJobId > 0)) {
+      return NextResponse.json({ error: 'Invalid resumeJobId' }, { status: 400 })
+    }
+
     // Initialize database and get/create user
     const db = await initDB();
     let user = await db.getUserByUsername(session.username);
@@ -63,14 +116,41 @@ export async function POST(req: Request) {
       });
     }
 
-    // Update last analysis time
-    await db.updateLastOperationTime(user.id, 'analyze');
+    // The account being analyzed: the user's own, or one they cloned
+    let persona = user
+    try {
+      persona = await resolvePersona(user, new URL(req.url).searchParams.get('target'))
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      throw error
+    }
+
+    // Update last analysis time (cooldowns are per analyzed account)
+    await db.updateLastOperationTime(persona.id, 'analyze');
+
+    const progressBus = ProgressBus.getInstance()
+    progressJob = {
+      id: jobId && JOB_ID_PATTERN.test(jobId) ? jobId : crypto.randomUUID(),
+      userId: user.id,
+      username: session.username
+    }
+    await progressBus.publish(progressJob.id, user.id, {
+      type: 'progress',
+      jobId: progressJob.id,
+      username: session.username,
+      progress: 0,
+      phase: 'queued',
+      status: 'Queued for analysis'
+    })
 
     // Get queue instance
     const queue = OpenAIQueueManager.getInstance()
+    const job = progressJob
 
     // Create a promise to handle the queued request
-    const analysis = await new Promise((resolve, reject) => {
+    const analysis = await new Promise<AnalysisResult>((resolve, reject) => {
       // Ensure username is available (we already checked this at the start of the function)
       if (!session.username) {
         reject(new Error('User session not found'))
@@ -87,21 +167,37 @@ export async function POST(req: Request) {
           prompt: prompt || undefined,
           context: context || undefined,
           currentTuning,
-          userId: user.id
+          userId: user.id,
+          resumeJobId,
+          onChunkProgress: (chunks) => {
+            const completed = chunks.filter(chunk => chunk.status === 'completed').length
+            progressBus.publish(job.id, job.userId, {
+              type: 'progress',
+              jobId: job.id,
+              username: job.username,
+              progress: Math.round((completed / chunks.length) * 100),
+              phase: 'analyzing',
+              status: `Analyzing personality (${completed}/${chunks.length} sections)`,
+              analysisChunks: chunks
+            }).catch(error => console.error('[Analyze Route] Failed to publish chunk progress:', error))
+          }
         },
         session.username,
         (result) => {
+          if (!isAnalysisResult(result)) {
+            reject(new Error('Invalid analysis response from OpenAI'))
+            return
+          }
           console.log('[Analyze Route] Analysis completed successfully');
-          // Convert numeric values to boolean if needed
-          if (result && typeof result === 'object' && 'communicationStyle' in result) {
-            const style = (result as PersonalityAnalysis).communicationStyle;
+          if ('communicationStyle' in result) {
+            const style = result.communicationStyle;
             if (style && currentTuning) {
               // Preserve existing communication style values if they exist
               style.formality = currentTuning.communicationStyle.formality;
               style.enthusiasm = currentTuning.communicationStyle.enthusiasm;
               style.technicalLevel = currentTuning.communicationStyle.technicalLevel;
               style.emojiUsage = currentTuning.communicationStyle.emojiUsage;
-            } else {
+            } else if (style) {
               style.formality = style.formality as CommunicationLevel;
               style.enthusiasm = style.enthusiasm as CommunicationLevel;
               style.technicalLevel = style.technicalLevel as CommunicationLevel;
@@ -113,6 +209,24 @@ export async function POST(req: Request) {
         (error) => {
           console.error('[Analyze Route] Analysis failed:', error);
           reject(error);
+        },
+        {
+          // The progress job id doubles as the queue id, so the client can cancel by it
+          id: job.id,
+          onStatus: (status) => {
+            progressBus.publish(job.id, job.userId, {
+              type: 'progress',
+              jobId: job.id,
+              username: job.username,
+              progress: 0,
+              phase: status.state === 'queued' ? 'queued' : 'analyzing',
+              status: status.state === 'queued'
+                ? `Queued for analysis (position ${status.position})`
+                : 'Analyzing personality',
+              queuePosition: status.position,
+              etaMs: status.etaMs
+            }).catch(error => console.error('[Analyze Route] Failed to publish queue status:', error))
+          }
         }
       )
     }).catch(error => {
@@ -120,16 +234,61 @@ export async function POST(req: Request) {
       throw error
     })
 
-    // Validate the analysis response
-    if (!analysis || typeof analysis !== 'object') {
-      throw new Error('Invalid analysis response from OpenAI')
+    // Record which slice of history the analyzed tweets came from
+    const result: AnalysisResult = 'traits' in analysis
+      ? { ...analysis, tweetSlice: tweetSlice(tweets, await db.getScrapeState(persona.id)) }
+      : analysis
+
+    // Keep every finished analysis as a snapshot for /api/personality/:username/history.
+    // Partial ones wait for the retry that completes them.
+    if ('traits' in result && !result.partial) {
+      await savePersonalitySnapshot(persona.id, result, {
+        source: 'manual',
+        tweetCount: tweets.length
+      }).catch(error => console.error('[Analyze Route] Failed to save analysis snapshot:', error))
     }
 
-    return NextResponse.json(analysis)
+    await progressBus.publish(progressJob.id, user.id, {
+      type: 'complete',
+      jobId: progressJob.id,
+      username: session.username,
+      progress: 100,
+      phase: 'complete',
+      status: 'partial' in result && result.partial ? 'Analysis partly complete' : 'Analysis complete',
+      result
+    })
+
+    return NextResponse.json(result, {
+      headers: { 'X-Job-Id': progressJob.id }
+    })
   } catch (error: unknown) {
     console.error('[Analyze Route] Error in analyze route:', error)
+
+    if (progressJob) {
+      await ProgressBus.getInstance().publish(progressJob.id, progressJob.userId, {
+        type: 'error',
+        jobId: progressJob.id,
+        username: progressJob.username,
+        error: error instanceof Error ? error.message : 'Failed to analyze personality',
+        progress: 0
+      })
+    }
     
     // Handle specific error types
+    if (error instanceof RateLimitExceededError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: rateLimitHeaders(error.result) }
+      )
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
     if (error instanceof MissingInterestsError) {
       return NextResponse.json(
         { error: 'Failed to generate interests after multiple attempts. Please try again.' },
@@ -2,8 +2,10 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import { initDB } from '@/lib/db';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
 
-export async function POST() {
+// ?target=<handle> updates a cloned account instead of the user's own
+export async function POST(request: Request) {
   try {
     // Validate session
     const session = await getServerSession(authOptions);
@@ -26,8 +28,21 @@ export async function POST() {
       );
     }
 
+    let persona = user;
+    try {
+      persona = await resolvePersona(user, new URL(request.url).searchParams.get('target'));
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
     // Update last analysis time
-    await db.updateLastOperationTime(user.id, 'analyze');
+    await db.updateLastOperationTime(persona.id, 'analyze');
 
     return NextResponse.json({ success: true });
   } catch (error) {
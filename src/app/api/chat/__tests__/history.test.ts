@@ -0,0 +1,176 @@
+import type { LLMCompletion, LLMCompletionRequest } from '@/lib/llm';
+import type { ConversationMetadata, Message } from '@/types/conversation';
+import { DEFAULT_CONSCIOUSNESS, modifyConsciousness } from '@/lib/consciousness';
+import { assembleHistory, historyLimits } from '../history';
+
+let branch: Message[] = [];
+let tree: Message[] = [];
+
+const conversation = {
+  getMessages: jest.fn(async () => branch),
+  getMessageTree: jest.fn(async () => tree),
+  saveSummary: jest.fn(async () => undefined)
+};
+
+jest.mock('@/lib/db', () => ({
+  initDB: async () => ({ conversation })
+}));
+
+const summarizer = {
+  complete: jest.fn<Promise<LLMCompletion>, [LLMCompletionRequest]>(async () => ({
+    content: 'They talked about compilers.',
+    finishReason: 'stop'
+  }))
+};
+
+jest.mock('@/lib/llm/usage', () => ({
+  ...jest.requireActual('@/lib/llm/usage'),
+  getMeteredProvider: async () => summarizer
+}));
+
+// A single branch of messages, taking turns from the user's first
+function thread(count: number, content: (n: number) => string = n => `message ${n}`): Message[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    conversationId: 1,
+    parentId: index === 0 ? null : index,
+    content: content(index + 1),
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    createdAt: new Date(Date.UTC(2025, 0, 1, 12, index)),
+    metadata: {}
+  }));
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('historyLimits', () => {
+  it('scales with short-term memory and context retention', () => {
+    const full = modifyConsciousness(DEFAULT_CONSCIOUSNESS, { shortTermMemory: 100, contextRetention: 100 });
+    const none = modifyConsciousness(DEFAULT_CONSCIOUSNESS, { shortTermMemory: 0, contextRetention: 0 });
+
+    expect(historyLimits(full)).toEqual({ recentMessages: 20, tokenBudget: 4000, summaryTokens: 400 });
+    expect(historyLimits(none)).toEqual({ recentMessages: 2, tokenBudget: 1000, summaryTokens: 0 });
+    expect(historyLimits(DEFAULT_CONSCIOUSNESS)).toEqual({ recentMessages: 11, tokenBudget: 1900, summaryTokens: 120 });
+  });
+
+  it('leaves out summaries too short to be worth writing', () => {
+    expect(historyLimits(modifyConsciousness(DEFAULT_CONSCIOUSNESS, { contextRetention: 10 })).summaryTokens).toBe(0);
+  });
+});
+
+describe('assembleHistory', () => {
+  let conversationId = 0;
+
+  // Each test gets its own conversation, so background summaries don't overlap
+  function assemble(replyParentId: number | null, options: {
+    metadata?: ConversationMetadata;
+    consciousness?: Partial<typeof DEFAULT_CONSCIOUSNESS>;
+  } = {}) {
+    return assembleHistory({
+      conversationId: ++conversationId,
+      userId: 'user-1',
+      personaUsername: 'alice',
+      replyParentId,
+      metadata: options.metadata,
+      consciousness: modifyConsciousness(DEFAULT_CONSCIOUSNESS, options.consciousness ?? {})
+    });
+  }
+
+  const contents = (history: { messages: Array<{ content: string }> }) =>
+    history.messages.map(message => message.content);
+
+  beforeEach(() => {
+    branch = [];
+    tree = [];
+    jest.clearAllMocks();
+  });
+
+  it('returns the turns before the message being answered', async () => {
+    branch = thread(5);
+
+    const history = await assemble(5);
+
+    expect(history).toEqual({
+      summary: null,
+      messages: [
+        { role: 'user', content: 'message 1' },
+        { role: 'assistant', content: 'message 2' },
+        { role: 'user', content: 'message 3' },
+        { role: 'assistant', content: 'message 4' }
+      ]
+    });
+    expect(await assemble(null)).toEqual({ summary: null, messages: [] });
+  });
+
+  it('drops the oldest turns past the token budget but always keeps the last exchange', async () => {
+    const consciousness = { shortTermMemory: 0, contextRetention: 0 };
+
+    // 400 tokens each against a budget of 1000
+    branch = thread(7, n => `${n}`.padEnd(1600, '.'));
+    expect((await assemble(7, { consciousness })).messages).toHaveLength(2);
+
+    // 2000 tokens each: over budget on their own
+    branch = thread(7, n => `${n}`.padEnd(8000, '.'));
+    expect((await assemble(7, { consciousness })).messages.map(message => message.content[0])).toEqual(['5', '6']);
+  });
+
+  it('uses the stored summary and only the turns after it', async () => {
+    branch = thread(21);
+
+    const history = await assemble(21, { metadata: { summary: 'They met.', summaryThroughId: 5 } });
+
+    expect(history.summary).toBe('They met.');
+    expect(contents(history)[0]).toBe('message 6');
+    expect(history.messages).toHaveLength(15);
+    expect(summarizer.complete).not.toHaveBeenCalled();
+  });
+
+  it('starts over when the summary is from another branch', async () => {
+    branch = thread(21);
+
+    const history = await assemble(21, { metadata: { summary: 'Elsewhere.', summaryThroughId: 99 } });
+    await flush();
+
+    expect(history.summary).toBeNull();
+    expect(contents(history)[0]).toBe('message 1');
+  });
+
+  it('summarizes older turns in the background once enough pile up', async () => {
+    branch = thread(21);
+
+    const history = await assemble(21);
+    await flush();
+
+    // The reply doesn't wait for the summary
+    expect(history.summary).toBeNull();
+    const [request] = summarizer.complete.mock.calls[0];
+    expect(request.maxTokens).toBe(120);
+    expect(request.messages[1].content).toContain('User: message 1\n\n@alice: message 2');
+    expect(request.messages[1].content).toContain('message 9');
+    expect(request.messages[1].content).not.toContain('message 10');
+    expect(conversation.saveSummary).toHaveBeenCalledWith(conversationId, 'user-1', 'They talked about compilers.', 9);
+  });
+
+  it('forgets older turns instead when the persona retains little context', async () => {
+    branch = thread(21);
+
+    const history = await assemble(21, {
+      metadata: { summary: 'They met.', summaryThroughId: 5 },
+      consciousness: { contextRetention: 10 }
+    });
+    await flush();
+
+    expect(history.summary).toBeNull();
+    expect(summarizer.complete).not.toHaveBeenCalled();
+  });
+
+  it('follows the answered message\'s own branch when it is not the one on show', async () => {
+    tree = thread(4);
+    tree.push({ ...tree[3], id: 5, parentId: 2, content: 'another take' }, { ...tree[2], id: 6, parentId: 5, content: 'follow-up' });
+    branch = tree.slice(0, 4);
+
+    const history = await assemble(6);
+
+    expect(contents(history)).toEqual(['message 1', 'message 2', 'another take']);
+  });
+});
@@ -0,0 +1,199 @@
+import { initDB } from '@/lib/db'
+import { estimateTokens, getMeteredProvider } from '@/lib/llm/usage'
+import type { ConsciousnessConfig } from '@/lib/consciousness'
+import type { ConversationMetadata, Message } from '@/types/conversation'
+
+/*
+ * Chat history is read from the conversation on the server rather than sent by
+ * the client. The newest messages go to the model word for word; older ones
+ * are folded into a rolling summary kept in the conversation's metadata. How
+ * much of each the persona gets follows its consciousness settings:
+ * shortTermMemory sets how many recent messages are kept verbatim and
+ * contextRetention how many tokens of history (and of summary) it can hold.
+ */
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatHistory {
+  summary: string | null     // Older turns, summarized
+  messages: HistoryMessage[]  // The turns after the summary that fit the budget, oldest first
+}
+
+// Tokens of history at full context retention; a quarter of it at none
+const HISTORY_TOKEN_BUDGET = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '4000')
+
+// Recent messages kept verbatim, from no short-term memory to full
+const MIN_RECENT_MESSAGES = 2
+const MAX_RECENT_MESSAGES = 20
+
+// Summaries are only rewritten once this many older messages are left out of one
+const SUMMARY_BATCH = 6
+// Longest summary at full context retention; below MIN_SUMMARY_TOKENS older turns are just forgotten
+const SUMMARY_MAX_TOKENS = 400
+const MIN_SUMMARY_TOKENS = 50
+// Most of the backlog read per rewrite; long chats catch up over several turns
+const SUMMARY_INPUT_TOKENS = 6000
+
+// Conversations with a summary being rewritten, so each runs once at a time
+const summarizing = new Set<number>()
+
+export function historyLimits(config: ConsciousnessConfig): {
+  recentMessages: number
+  tokenBudget: number
+  summaryTokens: number
+} {
+  const shortTerm = config.shortTermMemory / 100
+  const retention = config.contextRetention / 100
+  const summaryTokens = Math.round(SUMMARY_MAX_TOKENS * retention)
+
+  return {
+    recentMessages: Math.round(MIN_RECENT_MESSAGES + (MAX_RECENT_MESSAGES - MIN_RECENT_MESSAGES) * shortTerm),
+    tokenBudget: Math.round(HISTORY_TOKEN_BUDGET * (0.25 + 0.75 * retention)),
+    summaryTokens: summaryTokens >= MIN_SUMMARY_TOKENS ? summaryTokens : 0
+  }
+}
+
+function toHistoryMessage(message: Message): HistoryMessage {
+  return { role: message.role, content: message.content }
+}
+
+// The messages before the one being answered, on whichever branch it is on
+async function pathBefore(conversationId: number, userId: string, messageId: number | null): Promise<Message[]> {
+  if (messageId === null) return []
+
+  const db = await initDB()
+  const branch = await db.conversation.getMessages(conversationId, userId)
+  const index = branch.findIndex(message => message.id === messageId)
+  if (index !== -1) return branch.slice(0, index)
+
+  // Regenerating a reply on a branch that isn't on show
+  const tree = await db.conversation.getMessageTree(conversationId, userId)
+  const byId = new Map(tree.map(message => [message.id, message]))
+  const path: Message[] = []
+  let current = byId.get(messageId)?.parentId ?? null
+  while (current !== null) {
+    const message = byId.get(current)
+    if (!message) break
+    path.unshift(message)
+    current = message.parentId
+  }
+  return path
+}
+
+/**
+ * The history to answer a message with. replyParentId is the user message
+ * being answered, which the caller sends on its own. When enough older turns
+ * have piled up outside the summary, a rewrite starts in the background; this
+ * reply goes ahead with what is stored.
+ */
+export async function assembleHistory({
+  conversationId,
+  userId,
+  personaUsername,
+  replyParentId,
+  metadata,
+  consciousness
+}: {
+  conversationId: number
+  userId: string
+  personaUsername: string
+  replyParentId: number | null
+  metadata?: ConversationMetadata
+  consciousness: ConsciousnessConfig
+}): Promise<ChatHistory> {
+  const path = await pathBefore(conversationId, userId, replyParentId)
+  const limits = historyLimits(consciousness)
+
+  const recent = path.slice(-limits.recentMessages)
+  const older = path.slice(0, path.length - recent.length)
+
+  // There is one summary per conversation; on a branch that doesn't contain it, it starts over
+  const summarizedIndex = typeof metadata?.summaryThroughId === 'number'
+    ? older.findIndex(message => message.id === metadata.summaryThroughId)
+    : -1
+  const summary = limits.summaryTokens > 0 && summarizedIndex !== -1 && metadata?.summary ? metadata.summary : null
+  const unsummarized = older.slice(summarizedIndex + 1)
+
+  if (limits.summaryTokens > 0 && unsummarized.length >= SUMMARY_BATCH && !summarizing.has(conversationId)) {
+    summarizing.add(conversationId)
+    updateSummary(conversationId, userId, personaUsername, summary, unsummarized, limits.summaryTokens)
+      .catch(error => console.warn(`Failed to summarize conversation ${conversationId}:`, error))
+      .finally(() => summarizing.delete(conversationId))
+  }
+
+  // Newest first until the budget runs out, always keeping the last exchange
+  const candidates = [...unsummarized, ...recent]
+  let remaining = limits.tokenBudget - (summary ? estimateTokens(summary) : 0)
+  let start = candidates.length
+  while (start > 0) {
+    const tokens = estimateTokens(candidates[start - 1].content)
+    if (tokens > remaining && candidates.length - start >= MIN_RECENT_MESSAGES) break
+    remaining -= tokens
+    start--
+  }
+
+  return {
+    summary,
+    messages: candidates.slice(start).map(toHistoryMessage)
+  }
+}
+
+async function updateSummary(
+  conversationId: number,
+  userId: string,
+  personaUsername: string,
+  previous: string | null,
+  unsummarized: Message[],
+  maxTokens: number
+): Promise<void> {
+  const batch: Message[] = []
+  let tokens = 0
+  for (const message of unsummarized) {
+    tokens += estimateTokens(message.content)
+    if (batch.length > 0 && tokens > SUMMARY_INPUT_TOKENS) break
+    batch.push(message)
+  }
+
+  const transcript = batch
+    .map(message => `${message.role === 'user' ? 'User' : `@${personaUsername}`}: ${message.content}`)
+    .join('\n\n')
+
+  // Summaries count against the user's chat budget like replies do
+  const provider = await getMeteredProvider('chat', userId)
+  const completion = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content: `You keep the running summary of a chat between a user and @${personaUsername}.
+Rewrite the summary so it also covers the new messages. Keep what the conversation would need later:
+- what the user said about themselves, their situation and what they want
+- questions asked and the answers @${personaUsername} gave
+- opinions, promises and plans either of them stated
+- anything left unresolved
+Write plain prose in the past tense, third person, in the language of the chat. Drop small talk. Stay under ${Math.round(maxTokens * 0.75)} words.`
+      },
+      {
+        role: 'user',
+        content: `${previous ? `SUMMARY SO FAR:\n${previous}\n\n` : ''}NEW MESSAGES:\n${transcript}`
+      }
+    ],
+    temperature: 0.2,
+    maxTokens
+  })
+
+  const summary = completion.content.trim()
+  if (!summary) return
+
+  const db = await initDB()
+  await db.conversation.saveSummary(conversationId, userId, summary, batch[batch.length - 1].id)
+}
+
+export function buildSummaryPrompt(summary: string): string {
+  return `EARLIER IN THIS CONVERSATION (summary of older messages):
+${summary}
+
+The messages that follow pick up where this summary ends. Treat it as what I remember of our chat: build on it when it matters, but don't recite it.`
+}
@@ -0,0 +1,49 @@
+import { LanguageHabits, PersonalityAnalysis } from '../../../lib/openai/types'
+import { detectLanguage, languageName } from '@/lib/analysis/language'
+
+// The language of the newest text that gives enough to go on, so a short "ok"
+// or "lol" doesn't switch languages mid-conversation. Newest first.
+export function conversationLanguage(texts: string[]): string | null {
+  for (const text of texts) {
+    const language = detectLanguage(text)
+    if (language) return language
+  }
+  return null
+}
+
+function habitLines(habits: LanguageHabits): string[] {
+  return [
+    habits.capitalization ? `  - Capitalization: ${habits.capitalization}` : '',
+    habits.commonPhrases.length > 0 ? `  - Common Phrases: ${habits.commonPhrases.join(', ')}` : '',
+    habits.enthusiasmMarkers.length > 0 ? `  - Enthusiasm Markers: ${habits.enthusiasmMarkers.join(', ')}` : '',
+    habits.openings.length > 0 ? `  - Openings: ${habits.openings.join(', ')}` : '',
+    habits.framing.length > 0 ? `  - Framing: ${habits.framing.join(', ')}` : '',
+    habits.closings.length > 0 ? `  - Closings: ${habits.closings.join(', ')}` : ''
+  ].filter(Boolean)
+}
+
+/**
+ * Which language to reply in and how the persona writes in it. Habits
+ * measured from their tweets in that language replace the general ones; in a
+ * language they don't tweet in, their usual voice carries over.
+ */
+export function buildLanguageInstructions(analysis: PersonalityAnalysis, language: string | null): string {
+  if (!language) {
+    return `LANGUAGE:
+- Reply in the language the conversation is in`
+  }
+
+  const name = languageName(language)
+  const habits = analysis.languages?.find(entry => entry.language === language)
+  const others = (analysis.languages ?? [])
+    .filter(entry => entry.language !== language)
+    .map(entry => languageName(entry.language))
+
+  return `LANGUAGE:
+- The conversation is in ${name}. Reply in ${name}, even though these instructions are in English
+${habits
+  ? `- ${Math.round(habits.share)}% of my tweets are in ${name}. When I write in ${name}, I follow these habits over the general ones:
+${habitLines(habits).join('\n')}`
+  : `- I don't usually tweet in ${name}: keep my usual voice, tone and habits, carried over naturally rather than translated word for word`}${others.length > 0 ? `
+- Switch into ${others.join(' or ')} only where I naturally would, not to reuse phrases from those tweets` : ''}`
+}
@@ -0,0 +1,36 @@
+import { recallTweets, type RecalledTweet } from '@/lib/tweet-memory'
+
+// Below this many characters a message ("why?", "lol") is searched together with the one before it
+const SHORT_MESSAGE_CHARS = 30
+
+/**
+ * The persona's real tweets that bear on the user's message. Recall is best
+ * effort: with Chroma down or the persona not indexed yet, chat goes on without it.
+ */
+export async function recallForMessage(
+  username: string,
+  message: string,
+  history: Array<{ role: 'user' | 'assistant'; content: string }>
+): Promise<RecalledTweet[]> {
+  const previous = history.filter(msg => msg.role === 'user').slice(-1)[0]?.content
+  const query = message.length < SHORT_MESSAGE_CHARS && previous ? `${previous}\n${message}` : message
+
+  try {
+    return await recallTweets(username, query)
+  } catch (error) {
+    console.warn(`Tweet memory recall failed for ${username}:`, error)
+    return []
+  }
+}
+
+export function buildTweetMemoryPrompt(tweets: RecalledTweet[]): string {
+  return `THINGS I HAVE ACTUALLY TWEETED (most relevant first):
+${tweets.map(tweet => `- ${tweet.createdAt ? `[${tweet.createdAt.slice(0, 10)}${tweet.isReply ? ', reply' : ''}] ` : ''}${tweet.text.replace(/\s*\n\s*/g, ' / ')}`).join('\n')}
+
+How to use these:
+- They are my real positions and my real voice. When the topic comes up, stand by what I said and word it the way I word things
+- Paraphrase or quote them naturally - never list them, number them or say you are looking them up
+- Don't bring them up if they aren't relevant to what the user said
+- If a newer tweet contradicts an older one, the newer one is what I think now
+- Don't claim opinions on this topic that go beyond or against these tweets`
+}
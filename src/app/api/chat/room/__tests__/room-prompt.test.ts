@@ -0,0 +1,123 @@
+import type { PersonalityAnalysis } from '@/lib/openai/types';
+import type { Message } from '@/types/conversation';
+import { DEFAULT_CONSCIOUSNESS } from '@/lib/consciousness';
+import { defaultTuning } from '../../tuning';
+import { buildRoomMessages, nextRoomSpeaker, RoomSpeaker } from '../room-prompt';
+
+const participants = ['alice', 'bob', 'carol'];
+const moderator = 'mod';
+
+// Only what the room prompt reads from an analysis
+const analysis = {
+  traits: [{ name: 'Curious', score: 8, explanation: 'Asks a lot of questions' }],
+  interests: ['compilers: advanced'],
+  communicationStyle: {
+    formality: 'low',
+    enthusiasm: 'high',
+    technicalLevel: 'high',
+    emojiUsage: 'low',
+    verbosity: 'medium',
+    description: 'Short, direct tweets',
+    patterns: { capitalization: 'mostly-lowercase', lineBreaks: 'minimal' }
+  },
+  vocabulary: { commonPhrases: [{ phrase: 'ship it', frequency: 4, percentage: 2 }] },
+  emotionalTone: 'upbeat',
+  emotionalIntelligence: { challengeResponse: 'asks for data' },
+  thoughtProcess: { initialApproach: 'first principles', processingStyle: 'fast', expressionStyle: 'blunt' }
+} as unknown as PersonalityAnalysis;
+
+function speaker(username: string): RoomSpeaker {
+  return { username, analysis, tuning: defaultTuning(analysis), consciousness: DEFAULT_CONSCIOUSNESS };
+}
+
+let nextId = 1;
+
+function message(role: Message['role'], content: string, speakerName?: string): Message {
+  const id = nextId++;
+  return {
+    id,
+    conversationId: 1,
+    parentId: id > 1 ? id - 1 : null,
+    content,
+    role,
+    createdAt: new Date(),
+    metadata: speakerName ? { speaker: speakerName } : {}
+  };
+}
+
+describe('nextRoomSpeaker', () => {
+  it('starts with the first participant', () => {
+    expect(nextRoomSpeaker(participants, [])).toBe('alice');
+    expect(nextRoomSpeaker(participants, [message('user', 'kick things off', moderator)])).toBe('alice');
+  });
+
+  it('goes round in order, wrapping after the last participant', () => {
+    const transcript = [message('assistant', 'hi', 'alice')];
+    expect(nextRoomSpeaker(participants, transcript)).toBe('bob');
+
+    transcript.push(message('assistant', 'hey', 'bob'), message('assistant', 'yo', 'carol'));
+    expect(nextRoomSpeaker(participants, transcript)).toBe('alice');
+  });
+
+  it('carries on after the last persona when the moderator interjects', () => {
+    const transcript = [
+      message('assistant', 'hi', 'alice'),
+      message('user', 'bob, what do you think?', moderator)
+    ];
+    expect(nextRoomSpeaker(participants, transcript)).toBe('bob');
+  });
+
+  it('starts over when the last speaker is no longer in the room', () => {
+    expect(nextRoomSpeaker(participants, [message('assistant', 'bye', 'dave')])).toBe('alice');
+  });
+});
+
+describe('buildRoomMessages', () => {
+  it('gives the speaker its own lines and attributes everyone else\'s', () => {
+    const transcript = [
+      message('user', 'tabs or spaces?', moderator),
+      message('assistant', 'tabs, obviously', 'alice'),
+      message('assistant', 'spaces, and it is not close', 'bob')
+    ];
+
+    const messages = buildRoomMessages(speaker('bob'), participants, 'code style', moderator, transcript);
+
+    expect(messages.slice(1, 4)).toEqual([
+      { role: 'user', content: '@mod: tabs or spaces?' },
+      { role: 'user', content: '@alice: tabs, obviously' },
+      { role: 'assistant', content: 'spaces, and it is not close' }
+    ]);
+    expect(messages[messages.length - 1].content).toBe('It\'s your turn, @bob. Write your next message.');
+  });
+
+  it('names the other participants in the system prompt, not the speaker', () => {
+    const [system] = buildRoomMessages(speaker('alice'), participants, 'code style', moderator, []);
+
+    expect(system.content).toContain('You are @alice, taking part in a group conversation on Twitter with @bob, @carol.');
+    expect(system.content).toContain('TOPIC: code style');
+  });
+
+  it('asks the first speaker to open the conversation', () => {
+    const messages = buildRoomMessages(speaker('alice'), participants, 'code style', moderator, []);
+    expect(messages[messages.length - 1].content).toBe('You speak first, @alice. Open the conversation on the topic.');
+  });
+
+  it('only shows the latest 20 messages', () => {
+    const transcript = Array.from({ length: 25 }, (_, index) =>
+      message('assistant', `point ${index + 1}`, participants[index % participants.length]));
+
+    const messages = buildRoomMessages(speaker('carol'), participants, 'code style', moderator, transcript);
+    const history = messages.slice(1, -2);
+
+    expect(history).toHaveLength(20);
+    expect(history[0]).toEqual({ role: 'assistant', content: 'point 6' });
+  });
+
+  it('follows the language of the moderator\'s latest message', () => {
+    const transcript = [message('user', 'qué opinan de los lenguajes de programación que se usan en la web', moderator)];
+
+    const messages = buildRoomMessages(speaker('alice'), participants, 'web languages', moderator, transcript);
+
+    expect(messages[messages.length - 2].content).toContain('Reply in Spanish');
+  });
+});
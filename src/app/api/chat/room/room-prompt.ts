@@ -0,0 +1,129 @@
+import { ChatCompletionMessage } from 'openai/resources/chat/completions'
+import { PersonalityAnalysis } from '../../../../lib/openai/types'
+import { ConsciousnessConfig, generateConsciousnessInstructions } from '../../../../lib/consciousness'
+import type { Message } from '@/types/conversation'
+import { ChatTuning } from '../tuning'
+import { buildLanguageInstructions, conversationLanguage } from '../language'
+
+// How much of the transcript each speaker sees
+const ROOM_CONTEXT_MESSAGES = 20
+
+export interface RoomSpeaker {
+  username: string
+  analysis: PersonalityAnalysis
+  tuning: ChatTuning
+  consciousness: ConsciousnessConfig
+}
+
+function activeTraits(speaker: RoomSpeaker): string[] {
+  return speaker.analysis.traits
+    .filter(trait => speaker.tuning.traitModifiers[trait.name] > 50)
+    .map(trait => `- ${trait.name} (${trait.score}/10): ${trait.explanation}`)
+}
+
+function activeInterests(speaker: RoomSpeaker): string[] {
+  return speaker.analysis.interests.filter(interest => {
+    const [interestName] = interest.split(':').map(s => s.trim())
+    return speaker.tuning.interestWeights[interestName] > 50
+  })
+}
+
+// One clone's view of the room: who it is, who else is here, and what the topic is
+export function buildRoomSystemPrompt(speaker: RoomSpeaker, participants: string[], topic: string, moderator: string): string {
+  const { analysis, tuning } = speaker
+  const others = participants.filter(p => p !== speaker.username).map(p => `@${p}`)
+  const traits = activeTraits(speaker)
+  const interests = activeInterests(speaker)
+  const patterns = analysis.communicationStyle.patterns
+
+  return `You are @${speaker.username}, taking part in a group conversation on Twitter with ${others.join(', ')}.
+@${moderator} set the topic and may jump in at any time.
+
+TOPIC: ${topic}
+
+CORE IDENTITY:
+I AM @${speaker.username}. I am not an AI or an assistant, and I do not speak for anyone else in this room.
+I only ever write my own message - never lines for the other participants.
+
+1. Personality Traits (ONLY EXPRESS THESE):
+${traits.length > 0 ? traits.join('\n') : 'No active traits - keep your personality muted.'}
+
+2. Interests (STEER TOWARDS THESE WHERE IT FITS THE TOPIC):
+${interests.length > 0 ? interests.join('\n') : 'No active interests - stay on the topic at hand.'}
+
+3. Communication Style (STRICTLY FOLLOW THESE):
+- Formality: ${tuning.communicationStyle.formality}
+- Enthusiasm: ${tuning.communicationStyle.enthusiasm}
+- Technical Level: ${tuning.communicationStyle.technicalLevel}
+- Emoji Usage: ${tuning.communicationStyle.emojiUsage}
+- Verbosity: ${tuning.communicationStyle.verbosity}
+- Capitalization: ${patterns.capitalization}
+- Line Breaks: ${patterns.lineBreaks}
+- Common Phrases: ${analysis.vocabulary.commonPhrases.slice(0, 5).map(p => p.phrase).join(', ')}
+${analysis.communicationStyle.description}
+
+4. Emotional Tone: ${analysis.emotionalTone}
+Challenge Response: ${analysis.emotionalIntelligence.challengeResponse}
+
+5. Thought Process:
+- Initial Approach: ${analysis.thoughtProcess.initialApproach}
+- Processing Style: ${analysis.thoughtProcess.processingStyle}
+- Expression Style: ${analysis.thoughtProcess.expressionStyle}
+
+6. Consciousness:
+${generateConsciousnessInstructions(speaker.consciousness)}
+
+ROOM RULES:
+1. React to what the others actually said - agree, push back, joke or build on it, in character
+2. If @${moderator} just said something, respond to them first
+3. Don't repeat points already made in the room
+4. Write ONE message, without prefixing it with your name
+5. Keep it conversational - this is a thread, not an essay`
+}
+
+/**
+ * The chat messages for the next turn. The speaker's own lines become assistant
+ * messages; everyone else's are user messages prefixed with who said them.
+ */
+export function buildRoomMessages(
+  speaker: RoomSpeaker,
+  participants: string[],
+  topic: string,
+  moderator: string,
+  transcript: Message[]
+): ChatCompletionMessage[] {
+  const history = transcript.slice(-ROOM_CONTEXT_MESSAGES).map(msg => {
+    const author = msg.metadata?.speaker ?? (msg.role === 'user' ? moderator : participants[0])
+    if (msg.role === 'assistant' && author === speaker.username) {
+      return { role: 'assistant', content: msg.content }
+    }
+    return { role: 'user', content: `@${author}: ${msg.content}` }
+  })
+
+  // The room follows the moderator's language: their latest message, else the topic
+  const language = conversationLanguage([
+    ...transcript.filter(msg => msg.role === 'user').map(msg => msg.content).reverse(),
+    topic
+  ])
+
+  return [
+    { role: 'system', content: buildRoomSystemPrompt(speaker, participants, topic, moderator) },
+    ...history,
+    { role: 'system', content: buildLanguageInstructions(speaker.analysis, language) },
+    {
+      role: 'system',
+      content: history.length === 0
+        ? `You speak first, @${speaker.username}. Open the conversation on the topic.`
+        : `It's your turn, @${speaker.username}. Write your next message.`
+    }
+  ] as ChatCompletionMessage[]
+}
+
+// Round robin, picking up after whichever persona spoke last
+export function nextRoomSpeaker(participants: string[], transcript: Message[]): string {
+  const lastPersonaMessage = [...transcript].reverse().find(msg => msg.role === 'assistant')
+  const lastIndex = lastPersonaMessage?.metadata?.speaker
+    ? participants.indexOf(lastPersonaMessage.metadata.speaker)
+    : -1
+  return participants[(lastIndex + 1) % participants.length]
+}
@@ -0,0 +1,278 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '../../../../lib/auth/config'
+import { ConsciousnessConfig, DEFAULT_CONSCIOUSNESS, generateConsciousnessInstructions, applyConsciousnessEffects } from '../../../../lib/consciousness'
+import { OpenAIQueueManager } from '../../../../lib/queue/openai-queue'
+import { PersonalityAnalysis } from '../../../../lib/openai/types'
+import { initDB } from '@/lib/db'
+import { ConversationError } from '@/lib/db/conversation'
+import { snapshotAnalysis } from '@/lib/analysis/snapshots'
+import { resolvePersona, PersonaAccessError } from '@/lib/personas'
+import { BudgetExceededError } from '@/lib/llm/usage'
+import { RateLimitExceededError, rateLimitHeaders } from '@/lib/rate-limiter'
+import type { DBUser } from '@/lib/db/adapters/types'
+import type { Conversation, Message } from '@/types/conversation'
+import { ChatTuning, calculateTemperature, defaultTuning } from '../tuning'
+import { RoomSpeaker, buildRoomMessages, nextRoomSpeaker } from './room-prompt'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const MAX_ROOM_PARTICIPANTS = 4
+const MAX_TURNS_PER_REQUEST = MAX_ROOM_PARTICIPANTS  // One full round
+const MAX_TOPIC_LENGTH = 280
+const MAX_RETRIES = 3
+const TIMEOUT_MS = 30000 // 30 seconds
+
+interface RoomParticipantInput {
+  username: string
+  tuning?: ChatTuning
+  consciousness?: ConsciousnessConfig
+}
+
+interface RoomRequestBody {
+  conversationId?: number
+  topic?: string
+  participants?: RoomParticipantInput[]
+  message?: string  // The user interjecting before the next turn
+  turns?: number
+}
+
+class RoomError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'RoomError'
+  }
+}
+
+// A clone's latest full analysis: the tuned cache if it's fresh, else the newest snapshot
+async function loadAnalysis(persona: DBUser): Promise<PersonalityAnalysis> {
+  const db = await initDB()
+  const cache = await db.personality.getPersonalityCache(persona.id)
+  if (cache) {
+    return cache.analysisData as unknown as PersonalityAnalysis
+  }
+
+  const snapshot = await db.getLatestAnalysis(persona.id)
+  if (!snapshot?.analysis_data) {
+    throw new RoomError(`@${persona.username} has not been analyzed yet`, 400)
+  }
+  return snapshotAnalysis(snapshot)
+}
+
+async function loadSpeakers(user: DBUser, participants: RoomParticipantInput[]): Promise<RoomSpeaker[]> {
+  const speakers: RoomSpeaker[] = []
+  for (const participant of participants) {
+    const persona = await resolvePersona(user, participant.username)
+    if (speakers.some(s => s.username === persona.username)) {
+      throw new RoomError(`@${persona.username} is already in the room`, 400)
+    }
+
+    const analysis = await loadAnalysis(persona)
+    speakers.push({
+      username: persona.username,
+      analysis,
+      tuning: participant.tuning ?? defaultTuning(analysis),
+      consciousness: participant.consciousness ?? DEFAULT_CONSCIOUSNESS
+    })
+  }
+  return speakers
+}
+
+async function generateTurn(speaker: RoomSpeaker, room: Conversation, moderator: string, transcript: Message[], retryCount = 0): Promise<string> {
+  const queue = OpenAIQueueManager.getInstance()
+  const messages = buildRoomMessages(speaker, room.participants ?? [], room.metadata.topic ?? room.title, moderator, transcript)
+  // Aborted on timeout, so the queue drops or stops the request instead of running it anyway
+  const cancel = new AbortController()
+  let timeout: NodeJS.Timeout | undefined
+
+  try {
+    return await Promise.race([
+      new Promise<string>((resolve, reject) => {
+        queue.enqueueRequest(
+          'chat',
+          {
+            messages,
+            tuning: {
+              temperature: calculateTemperature(speaker.tuning),
+              presencePenalty: 0.6,
+              frequencyPenalty: 0.3
+            },
+            consciousness: {
+              state: generateConsciousnessInstructions(speaker.consciousness),
+              effects: speaker.consciousness.quirks.length > 0 ? speaker.consciousness.quirks : ['normal conversation']
+            },
+            signal: cancel.signal
+          },
+          moderator,
+          (result) => {
+            const content = typeof result === 'object' && result !== null && 'content' in result
+              ? result.content as string
+              : String(result)
+
+            // Some models still prefix their own handle; strip it
+            const text = applyConsciousnessEffects(content, speaker.consciousness)
+              .replace(new RegExp(`^@?${speaker.username}:\\s*`, 'i'), '')
+              .trim()
+
+            if (text) {
+              resolve(text)
+              return
+            }
+            reject(new Error('Invalid or empty response'))
+          },
+          reject
+        )
+      }),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+          cancel.abort('Request timeout')
+          reject(new Error('Request timeout'))
+        }, TIMEOUT_MS)
+      })
+    ]).finally(() => clearTimeout(timeout))
+  } catch (error) {
+    console.error(`Room turn for @${speaker.username} attempt ${retryCount + 1} failed:`, error)
+
+    if (error instanceof BudgetExceededError || error instanceof RateLimitExceededError) throw error
+
+    if (retryCount < MAX_RETRIES - 1) {
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000))
+      return generateTurn(speaker, room, moderator, transcript, retryCount + 1)
+    }
+
+    throw new Error(`@${speaker.username} failed to respond after multiple attempts`)
+  }
+}
+
+/**
+ * Start or continue a group chat between several analyzed clones.
+ *
+ * Without a conversationId this opens a new room from `participants` (two or
+ * more of the user's own and cloned personas) and a `topic`. Each call then
+ * optionally records the user's `message` as an interjection and runs up to
+ * `turns` persona turns, round robin. Every message carries its speaker in
+ * its metadata.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { conversationId, topic, participants = [], message, turns = 1 } = await req.json() as RoomRequestBody
+
+    const db = await initDB()
+    let user = await db.getUserByUsername(session.username)
+    if (!user) {
+      user = await db.createUser({
+        username: session.username,
+        twitter_username: session.username,
+        created_at: new Date()
+      })
+    }
+
+    let room: Conversation
+    let speakers: RoomSpeaker[]
+    if (conversationId) {
+      room = await db.conversation.getConversation(conversationId, user.id)
+      if (!room.participants) {
+        return NextResponse.json({ error: 'Not a room conversation' }, { status: 400 })
+      }
+
+      // Tuning and consciousness overrides are optional on later turns
+      speakers = await loadSpeakers(user, room.participants.map(username => ({
+        ...participants.find(p => p.username.replace(/^@/, '').toLowerCase() === username.toLowerCase()),
+        username
+      })))
+    } else {
+      const trimmedTopic = topic?.trim()
+      if (!trimmedTopic || trimmedTopic.length > MAX_TOPIC_LENGTH) {
+        return NextResponse.json(
+          { error: `A topic of up to ${MAX_TOPIC_LENGTH} characters is required` },
+          { status: 400 }
+        )
+      }
+      if (participants.length < 2 || participants.length > MAX_ROOM_PARTICIPANTS) {
+        return NextResponse.json(
+          { error: `Pick between 2 and ${MAX_ROOM_PARTICIPANTS} personas` },
+          { status: 400 }
+        )
+      }
+
+      speakers = await loadSpeakers(user, participants)
+      room = await db.conversation.startRoomChat({
+        userId: user.id,
+        participants: speakers.map(s => s.username),
+        topic: trimmedTopic
+      })
+    }
+
+    const transcript: Message[] = [...(room.messages ?? [])]
+    const added: Message[] = []
+
+    if (message?.trim()) {
+      const interjection = await db.conversation.addMessage({
+        conversationId: room.id,
+        content: message.trim(),
+        role: 'user',
+        metadata: { speaker: user.username }
+      })
+      transcript.push(interjection)
+      added.push(interjection)
+    }
+
+    const turnCount = Math.min(Math.max(Math.floor(turns) || 1, 1), MAX_TURNS_PER_REQUEST)
+    for (let i = 0; i < turnCount; i++) {
+      const speakerName = nextRoomSpeaker(room.participants ?? [], transcript)
+      const speaker = speakers.find(s => s.username === speakerName) ?? speakers[0]
+
+      const content = await generateTurn(speaker, room, user.username, transcript)
+      const saved = await db.conversation.addMessage({
+        conversationId: room.id,
+        content,
+        role: 'assistant',
+        metadata: {
+          speaker: speaker.username,
+          turn: transcript.filter(msg => msg.role === 'assistant').length + 1
+        }
+      })
+      transcript.push(saved)
+      added.push(saved)
+    }
+
+    return NextResponse.json({
+      conversationId: room.id,
+      participants: room.participants,
+      topic: room.metadata.topic,
+      messages: added,
+      nextSpeaker: nextRoomSpeaker(room.participants ?? [], transcript)
+    })
+  } catch (error) {
+    if (error instanceof PersonaAccessError || error instanceof RoomError || error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof RateLimitExceededError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: rateLimitHeaders(error.result) }
+      )
+    }
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+
+    console.error('Room chat error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to process room chat request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
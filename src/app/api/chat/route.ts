@@ -7,66 +7,47 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '../../../lib/auth/config'
 import { ChatCompletionMessage } from 'openai/resources/chat/completions'
 import { initDB } from '@/lib/db'
-import { CommunicationLevel } from '@/lib/openai/openai'
+import { ConversationError } from '@/lib/db/conversation'
+import type { Conversation } from '@/types/conversation'
 import { detectSpecialPrompt, formatSpecialPrompt } from './special-prompting'
+import { ChatTuning, calculateTemperature } from './tuning'
+import { buildLanguageInstructions, conversationLanguage } from './language'
+import { buildTweetMemoryPrompt, recallForMessage } from './memory'
+import { assembleHistory, buildSummaryPrompt } from './history'
+import { resolvePersona, PersonaAccessError } from '@/lib/personas'
+import { BudgetExceededError } from '@/lib/llm/usage'
+import { RateLimiter, RateLimitExceededError, rateLimitHeaders } from '@/lib/rate-limiter'
 
 interface RequestBody {
   message: string
   profile: TwitterProfile
   analysis: PersonalityAnalysis
-  tuning: {
-    traitModifiers: { [key: string]: number }
-    interestWeights: { [key: string]: number }
-    communicationStyle: {
-      formality: CommunicationLevel
-      enthusiasm: CommunicationLevel
-      technicalLevel: CommunicationLevel
-      emojiUsage: CommunicationLevel
-      verbosity: CommunicationLevel
-    }
-  }
+  tuning: ChatTuning
   consciousness?: ConsciousnessConfig
-  conversationHistory?: Array<{
-    role: 'user' | 'assistant'
-    content: string
-  }>
-  conversationId?: number
+  conversationId?: number  // History is read from here; without one a new conversation starts
   regenerationKey?: string
   isRegeneration?: boolean
+  regenerateMessageId?: number  // With isRegeneration: the reply to write an alternative to
+  parentMessageId?: number | null  // Branch off here instead of the end of the branch on show, to edit an earlier message
   specialPromptInputs?: Record<string, string | string[]>
+  stream?: boolean  // Reply over SSE, delta by delta, instead of one JSON response
 }
 
-// Calculate dynamic temperature based on style settings
-const calculateTemperature = (tuning: RequestBody['tuning']): number => {
-  // Convert tri-state values to numeric values (0-1)
-  const getNumericValue = (level: CommunicationLevel): number => {
-    switch (level) {
-      case 'low': return 0;
-      case 'medium': return 0.5;
-      case 'high': return 1;
-    }
-  };
-
-  const formalityTemp = 1 - getNumericValue(tuning.communicationStyle.formality); // Inverse for formality
-  const enthusiasmTemp = getNumericValue(tuning.communicationStyle.enthusiasm);
-  const technicalTemp = getNumericValue(tuning.communicationStyle.technicalLevel);
-  
-  // Count extreme parameters (high or low) to reduce temperature more aggressively
-  const extremeParams = Object.values(tuning.communicationStyle)
-    .filter(value => value === 'high' || value === 'low')
-    .length;
-
-  // Base temperature weighted more heavily on formality and technical level
-  const baseTemp = Math.min(Math.max((formalityTemp * 0.4 + enthusiasmTemp * 0.2 + technicalTemp * 0.4), 0.3), 0.9);
-  
-  // Apply reduction based on number of extreme parameters
-  const reductionFactor = extremeParams * 0.1; // 0.1 reduction per extreme parameter
-  return Math.max(0.1, baseTemp - reductionFactor); // Ensure minimum of 0.1
-};
+// Events sent to the client on a streaming reply
+type ChatStreamEvent =
+  | { type: 'start'; conversationId: number }
+  | { type: 'queued'; position: number; etaMs: number }
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: string; conversationId: number; messageId?: number; parentId: number | null; regenerationKey?: string }
+  | { type: 'cancelled'; conversationId: number }
+  | { type: 'error'; error: string }
 
 const MAX_RETRIES = 3;
 const TIMEOUT_MS = 30000; // 30 seconds
 
+// 20 chat turns per minute per user, across all instances
+const rateLimiter = new RateLimiter('chat', 20, 60 * 1000)
+
 // Basic validation - just check if we have a non-empty response
 function isValidResponse(response: string): boolean {
   if (!response || response.length < 20) return false;
@@ -88,6 +69,8 @@ interface ChatRequestWithRegeneration {
     effects?: string[]
   }
   regenerationKey?: string
+  onDelta?: (delta: string) => void
+  signal?: AbortSignal
 }
 
 export async function POST(req: Request) {
@@ -103,17 +86,27 @@ export async function POST(req: Request) {
     // Store username in a const to preserve type narrowing
     const username = session.username
 
+    const rateLimit = await rateLimiter.checkLimit(username)
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
     const { 
       message: originalMessage, 
       profile, 
       analysis, 
       tuning, 
       consciousness, 
-      conversationHistory = [], 
       conversationId,
       regenerationKey,
       isRegeneration,
-      specialPromptInputs = {}
+      regenerateMessageId,
+      parentMessageId,
+      specialPromptInputs = {},
+      stream = false
     } = await req.json() as RequestBody
 
     if (!originalMessage || !analysis) {
@@ -163,16 +156,29 @@ export async function POST(req: Request) {
     }
     console.log(`User found/created with ID: ${user.id}`)
 
+    // The clone being chatted with: the user's own, or an account they cloned
+    let persona = user
+    try {
+      persona = await resolvePersona(user, profile?.name)
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      throw error
+    }
+
     // Get or create conversation with proper error handling
     let activeConversationId: number
+    let existingConversation: Conversation | null = null
     if (conversationId) {
-      // Verify the conversation exists and belongs to the user
+      // Verify the conversation exists, belongs to the user and is with this persona
       const conversation = await db.conversation.getConversation(conversationId, user.id)
-      if (!conversation) {
+      if (!conversation || conversation.personaUsername !== persona.username) {
         // Instead of returning 404, create a new conversation
         try {
           const newConversation = await db.conversation.startNewChat({
             userId: user.id,
+            personaUsername: persona.username,
             initialMessage: message,
             title: `Chat with ${profile.name || 'AI'}`,
             metadata: {
@@ -192,12 +198,14 @@ export async function POST(req: Request) {
         }
       } else {
         activeConversationId = conversationId
+        existingConversation = conversation
       }
     } else {
       // Create a new conversation
       try {
         const conversation = await db.conversation.startNewChat({
           userId: user.id,
+          personaUsername: persona.username,
           initialMessage: message,
           title: `Chat with ${profile.name || 'AI'}`,
           metadata: {
@@ -217,23 +225,65 @@ export async function POST(req: Request) {
       }
     }
 
-    // Save user message with error handling
-    try {
-      console.log('Saving user message to database')
-      await db.conversation.addMessage({
-        conversationId: activeConversationId,
-        content: message,
-        role: 'user'
-      })
-      console.log('User message saved successfully')
-    } catch (error) {
-      console.error('Failed to save user message:', error)
-      return NextResponse.json(
-        { error: 'Failed to save message' },
-        { status: 500 }
-      )
+    // Where the reply goes in the message tree. A regenerated reply becomes a
+    // sibling of the one it replaces, both answering the same user message
+    let replyParentId: number | null
+    if (isRegeneration && regenerateMessageId) {
+      const replaced = await db.conversation.getMessage(regenerateMessageId, user.id)
+      if (replaced.conversationId !== activeConversationId || replaced.role !== 'assistant') {
+        return NextResponse.json(
+          { error: 'Only replies in this conversation can be regenerated' },
+          { status: 400 }
+        )
+      }
+      replyParentId = replaced.parentId
+    } else {
+      // Save user message with error handling
+      try {
+        console.log('Saving user message to database')
+        const saved = await db.conversation.addMessage({
+          conversationId: activeConversationId,
+          content: message,
+          role: 'user',
+          parentId: parentMessageId
+        })
+        replyParentId = saved.id
+        console.log('User message saved successfully')
+      } catch (error) {
+        console.error('Failed to save user message:', error)
+        if (error instanceof ConversationError && error.status === 404) {
+          return NextResponse.json({ error: error.message }, { status: 404 })
+        }
+        return NextResponse.json(
+          { error: 'Failed to save message' },
+          { status: 500 }
+        )
+      }
     }
 
+    // The history the persona remembers, sized by its consciousness settings
+    const config = consciousness ?? DEFAULT_CONSCIOUSNESS
+    const history = existingConversation
+      ? await assembleHistory({
+          conversationId: activeConversationId,
+          userId: user.id,
+          personaUsername: persona.username,
+          replyParentId,
+          metadata: existingConversation.metadata,
+          consciousness: config
+        })
+      : { summary: null, messages: [] }
+    const conversationHistory = history.messages
+
+    // Reply in the language the user writes in, falling back to their earlier messages
+    const replyLanguage = conversationLanguage([
+      originalMessage,
+      ...conversationHistory.filter(msg => msg.role === 'user').map(msg => msg.content).reverse()
+    ])
+
+    // The persona's real tweets on the topic, as exemplars of their positions and voice
+    const recalledTweets = await recallForMessage(persona.username, originalMessage, conversationHistory)
+
     // Adjust traits based on modifiers
     const adjustedTraits = analysis.traits.map(trait => ({
       ...trait,
@@ -955,8 +1005,11 @@ ${Array.from(conversationContext.previousResponses).slice(-3).map(resp => `
      tuning.communicationStyle.verbosity === 'low' ? 'be concise' :
      tuning.communicationStyle.verbosity === 'medium' ? 'balanced length' :
      'elaborate when appropriate'})` },
+      ...(recalledTweets.length > 0 ? [{ role: "system", content: buildTweetMemoryPrompt(recalledTweets) }] : []),
+      ...(history.summary ? [{ role: "system", content: buildSummaryPrompt(history.summary) }] : []),
       ...processedHistory,
       { role: "user", content: message },
+      { role: "system", content: buildLanguageInstructions(analysis, replyLanguage) },
       { role: "system", content: `FINAL VERIFICATION:
 1. CONVERSATION FIRST:
    - Is the response natural and engaging?
@@ -1056,11 +1109,129 @@ VIOLATION OF THESE RULES IS NOT ALLOWED UNDER ANY CIRCUMSTANCES.` }
     // Get queue instance
     const queue = OpenAIQueueManager.getInstance()
 
+    if (stream) {
+      const encoder = new TextEncoder()
+      const cancel = new AbortController()
+      req.signal.addEventListener('abort', () => cancel.abort())
+      const streamKey = isRegeneration ? (regenerationKey || activeConversationId.toString()) : undefined
+
+      const body = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          let closed = false
+          let streamed = ''
+
+          const send = (event: ChatStreamEvent) => {
+            if (closed) return
+            try {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+            } catch {
+              // The client has gone away
+            }
+          }
+
+          const close = () => {
+            if (closed) return
+            closed = true
+            try {
+              controller.close()
+            } catch {
+              // Already closed by a client disconnect
+            }
+          }
+
+          send({ type: 'start', conversationId: activeConversationId })
+
+          queue.enqueueRequest(
+            'chat',
+            {
+              messages,
+              tuning: {
+                temperature: calculateTemperature(tuning),
+                presencePenalty: 0.6,
+                frequencyPenalty: 0.3
+              },
+              consciousness: {
+                state: generateConsciousnessInstructions(config),
+                effects: config.quirks.length > 0 ? config.quirks : ['normal conversation']
+              },
+              regenerationKey: streamKey,
+              onDelta: (delta: string) => {
+                streamed += delta
+                send({ type: 'delta', content: delta })
+              },
+              signal: cancel.signal
+            } as ChatRequestWithRegeneration,
+            username,
+            async (result) => {
+              const content = typeof result === 'object' && result !== null && 'content' in result
+                ? result.content as string
+                : String(result)
+              // Effects apply to the finished text, so the client swaps it in for the deltas
+              const response = applyConsciousnessEffects(content, config)
+
+              try {
+                const saved = await db.conversation.addMessage({
+                  conversationId: activeConversationId,
+                  content: response,
+                  role: 'assistant',
+                  parentId: replyParentId
+                })
+                send({ type: 'done', response, conversationId: activeConversationId, messageId: saved.id, parentId: replyParentId, regenerationKey: streamKey })
+              } catch (error) {
+                console.error('Failed to save streamed response:', error)
+                send({ type: 'done', response, conversationId: activeConversationId, parentId: replyParentId, regenerationKey: streamKey })
+              }
+              close()
+            },
+            async (error) => {
+              if (cancel.signal.aborted) {
+                // Keep what was said before the user stopped it
+                if (streamed.trim()) {
+                  await db.conversation.addMessage({
+                    conversationId: activeConversationId,
+                    content: streamed,
+                    role: 'assistant',
+                    parentId: replyParentId,
+                    metadata: { cancelled: true }
+                  }).catch(saveError => console.error('Failed to save cancelled response:', saveError))
+                }
+                send({ type: 'cancelled', conversationId: activeConversationId })
+              } else {
+                console.error('Chat stream failed:', error)
+                send({ type: 'error', error: error.message || 'Failed to generate response' })
+              }
+              close()
+            },
+            {
+              // Only worth telling the client while it is actually waiting
+              onStatus: (status) => {
+                if (status.state === 'queued' && status.position > 0) {
+                  send({ type: 'queued', position: status.position, etaMs: status.etaMs })
+                }
+              }
+            }
+          )
+        },
+        cancel: () => cancel.abort()
+      })
+
+      return new Response(body, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          ...rateLimitHeaders(rateLimit)
+        }
+      })
+    }
+
     // Create a function to generate response with retries
     const generateResponse = async (retryCount = 0): Promise<string> => {
       try {
-        const config = consciousness ?? DEFAULT_CONSCIOUSNESS
         const effects = config.quirks.length > 0 ? config.quirks : ['normal conversation']
+        // Aborted on timeout, so the queue drops or stops the request instead of running it anyway
+        const cancel = new AbortController()
+        let timeout: NodeJS.Timeout | undefined
 
         const response = await Promise.race([
           new Promise<string>((resolve, reject) => {
@@ -1077,7 +1248,8 @@ VIOLATION OF THESE RULES IS NOT ALLOWED UNDER ANY CIRCUMSTANCES.` }
                   state: generateConsciousnessInstructions(config),
                   effects
                 },
-                regenerationKey: isRegeneration ? (regenerationKey || activeConversationId.toString()) : undefined
+                regenerationKey: isRegeneration ? (regenerationKey || activeConversationId.toString()) : undefined,
+                signal: cancel.signal
               } as ChatRequestWithRegeneration,
               username,
               (result) => {
@@ -1099,14 +1271,20 @@ VIOLATION OF THESE RULES IS NOT ALLOWED UNDER ANY CIRCUMSTANCES.` }
               reject
             )
           }),
-          new Promise<never>((_, reject) => 
-            setTimeout(() => reject(new Error('Request timeout')), TIMEOUT_MS)
-          )
-        ])
+          new Promise<never>((_, reject) => {
+            timeout = setTimeout(() => {
+              cancel.abort('Request timeout')
+              reject(new Error('Request timeout'))
+            }, TIMEOUT_MS)
+          })
+        ]).finally(() => clearTimeout(timeout))
 
         return response
       } catch (error) {
         console.error(`Chat generation attempt ${retryCount + 1} failed:`, error)
+
+        // Retrying won't help until the budget or rate limit resets
+        if (error instanceof BudgetExceededError || error instanceof RateLimitExceededError) throw error
         
         if (retryCount < MAX_RETRIES - 1) {
           console.log(`Retrying... (${retryCount + 2}/${MAX_RETRIES})`)
@@ -1124,13 +1302,16 @@ VIOLATION OF THESE RULES IS NOT ALLOWED UNDER ANY CIRCUMSTANCES.` }
     console.log('AI response generated successfully')
 
     // Save AI response with error handling
+    let messageId: number | undefined
     try {
       console.log('Saving assistant response to database')
-      await db.conversation.addMessage({
+      const saved = await db.conversation.addMessage({
         conversationId: activeConversationId,
         content: response,
-        role: 'assistant'
+        role: 'assistant',
+        parentId: replyParentId
       })
+      messageId = saved.id
       console.log('Assistant response saved successfully')
     } catch (error) {
       console.error('Failed to save assistant response:', error)
@@ -1140,9 +1321,31 @@ VIOLATION OF THESE RULES IS NOT ALLOWED UNDER ANY CIRCUMSTANCES.` }
     return NextResponse.json({
       response,
       conversationId: activeConversationId,
+      // Where the reply sits in the message tree: its id and the user message it answers,
+      // which a regenerated reply shares with the one it replaced
+      messageId,
+      parentId: replyParentId,
       regenerationKey: isRegeneration ? (regenerationKey || activeConversationId.toString()) : undefined
+    }, {
+      headers: rateLimitHeaders(rateLimit)
     })
   } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: rateLimitHeaders(error.result) }
+      )
+    }
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+    if (error instanceof ConversationError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Chat error:', error)
     return NextResponse.json(
       { 
@@ -0,0 +1,76 @@
+import { PersonalityAnalysis } from '../../../lib/openai/types'
+import { CommunicationLevel } from '@/lib/openai/openai'
+
+// Tuning the client sends with each chat request
+export interface ChatTuning {
+  traitModifiers: { [key: string]: number }
+  interestWeights: { [key: string]: number }
+  communicationStyle: {
+    formality: CommunicationLevel
+    enthusiasm: CommunicationLevel
+    technicalLevel: CommunicationLevel
+    emojiUsage: CommunicationLevel
+    verbosity: CommunicationLevel
+  }
+}
+
+// Calculate dynamic temperature based on style settings
+export const calculateTemperature = (tuning: ChatTuning): number => {
+  // Convert tri-state values to numeric values (0-1)
+  const getNumericValue = (level: CommunicationLevel): number => {
+    switch (level) {
+      case 'low': return 0;
+      case 'medium': return 0.5;
+      case 'high': return 1;
+    }
+  };
+
+  const formalityTemp = 1 - getNumericValue(tuning.communicationStyle.formality); // Inverse for formality
+  const enthusiasmTemp = getNumericValue(tuning.communicationStyle.enthusiasm);
+  const technicalTemp = getNumericValue(tuning.communicationStyle.technicalLevel);
+  
+  // Count extreme parameters (high or low) to reduce temperature more aggressively
+  const extremeParams = Object.values(tuning.communicationStyle)
+    .filter(value => value === 'high' || value === 'low')
+    .length;
+
+  // Base temperature weighted more heavily on formality and technical level
+  const baseTemp = Math.min(Math.max((formalityTemp * 0.4 + enthusiasmTemp * 0.2 + technicalTemp * 0.4), 0.3), 0.9);
+  
+  // Apply reduction based on number of extreme parameters
+  const reductionFactor = extremeParams * 0.1; // 0.1 reduction per extreme parameter
+  return Math.max(0.1, baseTemp - reductionFactor); // Ensure minimum of 0.1
+};
+
+// The tuning a freshly loaded analysis starts with in the chat UI: every trait on,
+// interests weighted by stated expertise unless weights were saved, style as analyzed
+export function defaultTuning(analysis: PersonalityAnalysis): ChatTuning {
+  return {
+    traitModifiers: analysis.traits.reduce((acc: Record<string, number>, trait) => ({
+      ...acc,
+      [trait.name]: 100
+    }), {}),
+    interestWeights: analysis.interests.reduce((acc: Record<string, number>, interest) => {
+      const [interestName, expertiseLevel] = interest.split(':').map(s => s.trim())
+      let weight = 50
+
+      if (expertiseLevel) {
+        const level = expertiseLevel.toLowerCase()
+        if (level.includes('advanced') || level.includes('high') || level.includes('strong')) {
+          weight = 75
+        } else if (level.includes('basic') || level.includes('low')) {
+          weight = 25
+        }
+      }
+
+      return { ...acc, [interestName]: analysis.interestWeights?.[interestName] ?? weight }
+    }, {}),
+    communicationStyle: {
+      formality: analysis.communicationStyle.formality,
+      enthusiasm: analysis.communicationStyle.enthusiasm,
+      technicalLevel: analysis.communicationStyle.technicalLevel,
+      emojiUsage: analysis.communicationStyle.emojiUsage,
+      verbosity: analysis.communicationStyle.verbosity ?? 'medium'
+    }
+  }
+}
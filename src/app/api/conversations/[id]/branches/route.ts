@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { ConversationError } from '@/lib/db/conversation';
+import type { BranchListResponse, MessageListResponse } from '@/types/conversation';
+
+export const dynamic = 'force-dynamic';
+
+// Helper to generate API response metadata
+function generateResponseMetadata(conversationId: number) {
+  return {
+    timestamp: new Date(),
+    requestId: crypto.randomUUID(),
+    conversationId
+  };
+}
+
+function errorResponse(error: string, status: number, conversationId = 0) {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      metadata: generateResponseMetadata(conversationId)
+    } as BranchListResponse,
+    { status }
+  );
+}
+
+/**
+ * GET /api/conversations/:id/branches
+ *
+ * Every branch of the conversation, named by its last message, most recent
+ * first. Editing a message or regenerating a reply starts a new one.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const conversationId = parseInt((await params).id);
+    if (isNaN(conversationId)) {
+      return errorResponse('Invalid conversation ID', 400);
+    }
+
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return errorResponse('Unauthorized', 401, conversationId);
+    }
+
+    const db = await initDB();
+    const user = await db.getUserByUsername(session.username);
+    if (!user) {
+      return errorResponse('User not found', 404, conversationId);
+    }
+
+    const branches = await db.conversation.getBranches(conversationId, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: branches,
+      metadata: generateResponseMetadata(conversationId)
+    } as BranchListResponse);
+  } catch (error) {
+    console.error('Failed to fetch branches:', error);
+
+    if (error instanceof ConversationError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    return errorResponse('Failed to fetch branches', 500);
+  }
+}
+
+/**
+ * POST /api/conversations/:id/branches  { messageId }
+ *
+ * Switch to the branch through messageId: a sibling to page to, or the leaf of
+ * a listed branch. Below messageId it follows the newest replies. Responds with
+ * the messages of the branch now on show.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const conversationId = parseInt((await params).id);
+    if (isNaN(conversationId)) {
+      return errorResponse('Invalid conversation ID', 400);
+    }
+
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return errorResponse('Unauthorized', 401, conversationId);
+    }
+
+    const { messageId } = await request.json();
+    if (typeof messageId !== 'number' || !Number.isInteger(messageId)) {
+      return errorResponse('messageId is required', 400, conversationId);
+    }
+
+    const db = await initDB();
+    const user = await db.getUserByUsername(session.username);
+    if (!user) {
+      return errorResponse('User not found', 404, conversationId);
+    }
+
+    const messages = await db.conversation.switchBranch(conversationId, user.id, messageId);
+
+    return NextResponse.json({
+      success: true,
+      data: messages,
+      metadata: generateResponseMetadata(conversationId)
+    } as MessageListResponse);
+  } catch (error) {
+    console.error('Failed to switch branch:', error);
+
+    if (error instanceof ConversationError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    return errorResponse('Failed to switch branch', 500);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { ConversationError } from '@/lib/db/conversation';
+import { conversationDocument, conversationExport } from '@/lib/export/conversation';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFilename,
+  isExportFormat,
+  renderHtml,
+  renderMarkdown
+} from '@/lib/export/document';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Helper to generate API response metadata
+function generateResponseMetadata() {
+  return {
+    timestamp: new Date(),
+    requestId: crypto.randomUUID()
+  };
+}
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      metadata: generateResponseMetadata()
+    },
+    { status }
+  );
+}
+
+/**
+ * GET /api/conversations/:id/export?format=md|json|html
+ *
+ * The conversation as a portable document. Markdown and HTML hold the branch
+ * on show; the HTML page is styled to print or save as PDF. JSON (the default)
+ * is schema-versioned and keeps every branch, so it can be read back in.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const conversationId = parseInt((await params).id);
+    if (isNaN(conversationId)) {
+      return errorResponse('Invalid conversation ID', 400);
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+    if (!isExportFormat(format)) {
+      return errorResponse(`format must be one of: ${EXPORT_FORMATS.join(', ')}`, 400);
+    }
+
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const db = await initDB();
+    const user = await db.getUserByUsername(session.username);
+    if (!user) {
+      return errorResponse('User not found', 404);
+    }
+
+    const conversation = await db.conversation.getConversation(conversationId, user.id);
+
+    let body: string;
+    if (format === 'json') {
+      const tree = await db.conversation.getMessageTree(conversationId, user.id);
+      body = JSON.stringify(conversationExport(conversation, tree), null, 2);
+    } else {
+      const doc = conversationDocument(conversation, conversation.messages ?? []);
+      body = format === 'md' ? renderMarkdown(doc) : renderHtml(doc);
+    }
+
+    // The HTML report opens in the browser to print; the rest download
+    const filename = exportFilename(`${conversation.title}-${conversation.id}`, format);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Failed to export conversation:', error);
+
+    if (error instanceof ConversationError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    return errorResponse('Failed to export conversation', 500);
+  }
+}
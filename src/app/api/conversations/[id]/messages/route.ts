@@ -259,7 +259,20 @@ export async function PATCH(request: NextRequest) {
     }
 
     const db = await initDB();
-    const message = await db.conversation.updateMessage(messageId, session.username, content);
+    const user = await db.getUserByUsername(session.username);
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+          metadata: generateResponseMetadata(0)
+        } as MessageResponse,
+        { status: 404 }
+      );
+    }
+
+    // The edit is saved as a sibling of the original, which stays on its own branch
+    const message = await db.conversation.updateMessage(messageId, user.id, content);
 
     return NextResponse.json({
       success: true,
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import { initDB } from '@/lib/db';
 import { ConversationError } from '@/lib/db/conversation';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
 import type { ConversationResponse, ConversationListResponse } from '@/types/conversation';
 
 // Helper to generate API response metadata
@@ -27,7 +28,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { initialMessage, title, metadata } = await req.json();
+    // personaUsername picks which clone to talk to; defaults to the user's own
+    const { initialMessage, title, metadata, personaUsername } = await req.json();
     const db = await initDB();
     
     // First, ensure the user exists
@@ -41,9 +43,12 @@ export async function POST(req: NextRequest) {
       });
     }
     
+    const persona = await resolvePersona(user, personaUsername);
+
     // Then create the conversation using the user's ID
     const conversation = await db.conversation.startNewChat({
       userId: user.id,
+      personaUsername: persona.username,
       initialMessage,
       title,
       metadata
@@ -56,6 +61,17 @@ export async function POST(req: NextRequest) {
     } as ConversationResponse);
   } catch (error) {
     console.error('Failed to create conversation:', error);
+
+    if (error instanceof PersonaAccessError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          metadata: generateResponseMetadata()
+        } as ConversationResponse,
+        { status: error.status }
+      );
+    }
     
     if (error instanceof ConversationError) {
       return NextResponse.json(
@@ -79,7 +95,9 @@ export async function POST(req: NextRequest) {
   }
 }
 
-export async function GET() {
+// ?persona=<username> lists only the one-on-one conversations with that clone;
+// ?mode=room lists group chats between clones
+export async function GET(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     if (!session?.username) {
@@ -109,7 +127,13 @@ export async function GET() {
     }
     
     // Then get their conversations
-    const conversations = await db.conversation.getUserConversations(user.id);
+    const persona = req.nextUrl.searchParams.get('persona');
+    const conversations = req.nextUrl.searchParams.get('mode') === 'room'
+      ? await db.conversation.getUserRooms(user.id)
+      : await db.conversation.getUserConversations(
+        user.id,
+        persona ? persona.replace(/^@/, '') : undefined
+      );
 
     return NextResponse.json({
       success: true,
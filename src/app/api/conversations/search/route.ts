@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { ConversationError } from '@/lib/db/conversation';
+import type { ConversationSearchResponse } from '@/types/conversation';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Helper to generate API response metadata
+function generateResponseMetadata() {
+  return {
+    timestamp: new Date(),
+    requestId: crypto.randomUUID()
+  };
+}
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      metadata: generateResponseMetadata()
+    } as ConversationSearchResponse,
+    { status }
+  );
+}
+
+// ISO date or timestamp; a bare date as the upper bound includes that whole day
+function parseDate(value: string | null, endOfRange: boolean): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  if (endOfRange && DATE_ONLY.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+/**
+ * GET /api/conversations/search?q=solana&persona=<username>&from=2025-01-01&to=2025-01-31&limit=20
+ *
+ * Full-text search over the signed-in user's messages and conversation titles,
+ * best matches first. q takes web search syntax ("quoted phrase", -excluded, or).
+ * persona limits it to one-on-one chats with that clone, as in GET /api/conversations.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const params = req.nextUrl.searchParams;
+    const query = params.get('q')?.trim();
+    if (!query) {
+      return errorResponse('Missing search query (q)', 400);
+    }
+
+    const persona = params.get('persona')?.replace(/^@/, '') || undefined;
+
+    const from = parseDate(params.get('from'), false);
+    const to = parseDate(params.get('to'), true);
+    if (from === null || to === null) {
+      return errorResponse('from and to must be ISO dates', 400);
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam ? parseInt(limitParam) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      return errorResponse('limit must be a positive number', 400);
+    }
+
+    const db = await initDB();
+    const user = await db.getUserByUsername(session.username);
+    if (!user) {
+      return errorResponse('User not found', 404);
+    }
+
+    const results = await db.conversation.searchConversations(user.id, {
+      query,
+      personaUsername: persona,
+      from,
+      to,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+      metadata: {
+        ...generateResponseMetadata(),
+        totalCount: results.length
+      }
+    } as ConversationSearchResponse);
+  } catch (error) {
+    console.error('Failed to search conversations:', error);
+
+    if (error instanceof ConversationError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    return errorResponse('Failed to search conversations', 500);
+  }
+}
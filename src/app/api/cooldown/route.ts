@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import { initDB } from '@/lib/db';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
 
 export async function GET(request: Request) {
   try {
@@ -36,8 +37,22 @@ export async function GET(request: Request) {
       );
     }
 
+    // Cooldowns apply per account, so a cloned account (?target=) has its own
+    let persona = user;
+    try {
+      persona = await resolvePersona(user, searchParams.get('target'));
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
+
     // Check cooldown status
-    const cooldownStatus = await db.getCooldownStatus(user.id, operation);
+    const cooldownStatus = await db.getCooldownStatus(persona.id, operation);
 
     return NextResponse.json(cooldownStatus);
   } catch (error) {
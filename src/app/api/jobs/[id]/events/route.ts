@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { ProgressBus, sseResponse } from '@/lib/progress-bus';
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Progress stream for a scrape or analysis job. EventSource sends Last-Event-ID
+// on reconnect; the first connection can pass ?lastEventId= instead.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Extract ID from URL using URL parsing
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const id = pathParts[pathParts.indexOf('jobs') + 1];
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+
+    const lastEventId = request.headers.get('last-event-id') ?? url.searchParams.get('lastEventId');
+    if (lastEventId !== null && !/^\d+$/.test(lastEventId)) {
+      return NextResponse.json(
+        { error: 'Invalid Last-Event-ID' },
+        { status: 400 }
+      );
+    }
+
+    const db = await initDB();
+    const user = await db.getUserByUsername(session.username);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Events are stored per user, so this also hides other users' jobs
+    const stored = await db.getJobEvents(id, user.id);
+    if (stored.length === 0) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Nothing left to send once the client has seen the final event.
+    // 204 tells EventSource to stop reconnecting.
+    const last = stored[stored.length - 1];
+    if (last.terminal && lastEventId && Number(lastEventId) >= Number(last.id)) {
+      return new Response(null, { status: 204 });
+    }
+
+    return sseResponse(ProgressBus.getInstance().stream(id, user.id, lastEventId ?? undefined));
+  } catch (error) {
+    console.error('Error streaming job events:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to stream job events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
+import { exportedAnalysis, personalityDocument, personalityExport } from '@/lib/export/personality';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFilename,
+  isExportFormat,
+  renderHtml,
+  renderMarkdown
+} from '@/lib/export/document';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Helper to generate API response metadata
+function generateResponseMetadata() {
+  return {
+    timestamp: new Date(),
+    requestId: crypto.randomUUID()
+  };
+}
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      metadata: generateResponseMetadata()
+    },
+    { status }
+  );
+}
+
+/**
+ * GET /api/personality/:username/export?format=md|json|html&version=3
+ *
+ * A full analysis report: the latest snapshot, the given version, or the
+ * cached analysis for accounts analyzed before snapshots were kept. The HTML
+ * page is styled to print or save as PDF; JSON (the default) is schema-versioned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const username = pathParts[pathParts.indexOf('personality') + 1];
+
+    if (!username) {
+      return errorResponse('Username is required', 400);
+    }
+
+    const format = url.searchParams.get('format') || 'json';
+    if (!isExportFormat(format)) {
+      return errorResponse(`format must be one of: ${EXPORT_FORMATS.join(', ')}`, 400);
+    }
+
+    const versionParam = url.searchParams.get('version');
+    const version = versionParam === null ? undefined : Number(versionParam);
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return errorResponse('version must be a snapshot version', 400);
+    }
+
+    const db = await initDB();
+    const sessionUser = await db.getUserByUsername(session.username);
+    if (!sessionUser) {
+      return errorResponse('User not found', 404);
+    }
+
+    // Reports are available for your own account and the accounts you cloned
+    let user = sessionUser;
+    try {
+      user = await resolvePersona(sessionUser, username);
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return errorResponse(error.message, error.status);
+      }
+      throw error;
+    }
+
+    const snapshot = version !== undefined
+      ? await db.getAnalysisSnapshot(user.id, version)
+      : await db.getLatestAnalysis(user.id);
+    if (version !== undefined && !snapshot) {
+      return errorResponse('Snapshot not found', 404);
+    }
+
+    const cache = snapshot ? null : await db.personality.getPersonalityCache(user.id);
+    const analysis = exportedAnalysis(snapshot, cache?.analysisData ?? null);
+    if (!analysis) {
+      return errorResponse('No analysis to export', 404);
+    }
+
+    const body = format === 'json'
+      ? JSON.stringify(personalityExport(user.username, analysis, snapshot), null, 2)
+      : (format === 'md' ? renderMarkdown : renderHtml)(personalityDocument(user.username, analysis, snapshot));
+
+    // The HTML report opens in the browser to print; the rest download
+    const filename = exportFilename(`${user.username}-personality${snapshot ? `-v${snapshot.version}` : ''}`, format);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting personality analysis:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to export personality analysis',
+      500
+    );
+  }
+}
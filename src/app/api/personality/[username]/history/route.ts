@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { diffPersonalityAnalyses } from '@/lib/analysis/diff';
+import { snapshotAnalysis } from '@/lib/analysis/snapshots';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
+import type { DBPersonalityAnalysis } from '@/lib/db/adapters/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Helper to generate API response metadata
+function generateResponseMetadata() {
+  return {
+    timestamp: new Date(),
+    requestId: crypto.randomUUID()
+  };
+}
+
+interface HistoryResponse {
+  success: boolean;
+  data?: Record<string, unknown>;
+  error?: string;
+  metadata: {
+    timestamp: Date;
+    requestId: string;
+  };
+}
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      metadata: generateResponseMetadata()
+    } as HistoryResponse,
+    { status }
+  );
+}
+
+function summarizeSnapshot(snapshot: DBPersonalityAnalysis) {
+  return {
+    version: snapshot.version,
+    analyzedAt: snapshot.analyzed_at,
+    source: snapshot.source,
+    tweetCount: snapshot.tweet_count,
+    traitCount: snapshot.traits.length,
+    interestCount: snapshot.interests.length
+  };
+}
+
+function parseVersion(value: string | null): number | null | undefined {
+  if (value === null) return undefined;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+/**
+ * List a user's analysis snapshots, newest first. With ?from=&to= (versions)
+ * returns the diff between those two snapshots instead; either side defaults
+ * to the latest snapshot and the one before it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return errorResponse('Unauthorized', 401);
+    }
+
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const username = pathParts[pathParts.indexOf('personality') + 1];
+
+    if (!username) {
+      return errorResponse('Username is required', 400);
+    }
+
+    const db = await initDB();
+    const sessionUser = await db.getUserByUsername(session.username);
+    if (!sessionUser) {
+      return errorResponse('User not found', 404);
+    }
+
+    // History is visible for your own account and the accounts you cloned
+    let user = sessionUser;
+    try {
+      user = await resolvePersona(sessionUser, username);
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return errorResponse(error.message, error.status);
+      }
+      throw error;
+    }
+
+    const from = parseVersion(url.searchParams.get('from'));
+    const to = parseVersion(url.searchParams.get('to'));
+    if (from === null || to === null) {
+      return errorResponse('from and to must be snapshot versions', 400);
+    }
+
+    if (from === undefined && to === undefined) {
+      const limit = Math.min(Number(url.searchParams.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT);
+      const snapshots = await db.getAnalysisHistory(user.id, limit);
+
+      return NextResponse.json({
+        success: true,
+        data: { snapshots: snapshots.map(summarizeSnapshot) },
+        metadata: generateResponseMetadata()
+      } as HistoryResponse);
+    }
+
+    const toSnapshot = to !== undefined
+      ? await db.getAnalysisSnapshot(user.id, to)
+      : await db.getLatestAnalysis(user.id);
+    const fromVersion = from ?? (toSnapshot ? toSnapshot.version - 1 : 0);
+    const fromSnapshot = fromVersion > 0 ? await db.getAnalysisSnapshot(user.id, fromVersion) : null;
+
+    if (!toSnapshot || !fromSnapshot) {
+      return errorResponse('Snapshot not found', 404);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: summarizeSnapshot(fromSnapshot),
+        to: summarizeSnapshot(toSnapshot),
+        diff: diffPersonalityAnalyses(snapshotAnalysis(fromSnapshot), snapshotAnalysis(toSnapshot))
+      },
+      metadata: generateResponseMetadata()
+    } as HistoryResponse);
+  } catch (error) {
+    console.error('Error reading analysis history:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to read analysis history',
+      500
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
+import { buildPersonaBundle, BUNDLE_TWEET_LIMIT, DEFAULT_BUNDLE_TWEETS, PersonaBundleError } from '@/lib/persona-bundle';
+import { exportFilename } from '@/lib/export/document';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/personas/:handle/bundle?tweets=50
+ *
+ * Download a persona as a bundle to import elsewhere: your own account or one
+ * you cloned. tweets sets how many of its newest tweets go along (0 for none).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const pathParts = url.pathname.split('/');
+    const handle = decodeURIComponent(pathParts[pathParts.indexOf('personas') + 1] ?? '');
+
+    const tweetsParam = url.searchParams.get('tweets');
+    const tweetLimit = tweetsParam === null ? DEFAULT_BUNDLE_TWEETS : Number(tweetsParam);
+    if (!Number.isInteger(tweetLimit) || tweetLimit < 0 || tweetLimit > BUNDLE_TWEET_LIMIT) {
+      return NextResponse.json(
+        { error: `tweets must be between 0 and ${BUNDLE_TWEET_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const db = await initDB();
+    const owner = await db.getUserByUsername(session.username);
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const persona = await resolvePersona(owner, handle);
+    const bundle = await buildPersonaBundle(persona, { tweetLimit });
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFilename(`${persona.username}-persona`, 'json')}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof PersonaAccessError || error instanceof PersonaBundleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error exporting persona bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to export persona' },
+      { status: 500 }
+    );
+  }
+}
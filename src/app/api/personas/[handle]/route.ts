@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { normalizeHandle } from '@/lib/personas';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Stop owning a cloned account. Its tweets and analysis stay, so it can be claimed again.
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Extract handle from URL using URL parsing
+    const pathParts = new URL(request.url).pathname.split('/');
+    const handle = normalizeHandle(decodeURIComponent(pathParts[pathParts.indexOf('personas') + 1] ?? ''));
+    if (!handle) {
+      return NextResponse.json(
+        { error: 'Invalid handle' },
+        { status: 400 }
+      );
+    }
+
+    const db = await initDB();
+    const [user, target] = await Promise.all([
+      db.getUserByUsername(session.username),
+      db.getUserByUsername(handle)
+    ]);
+
+    if (!user || !target || !(await db.deletePersonaTarget(user.id, target.id))) {
+      return NextResponse.json(
+        { error: 'Persona not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing persona:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove persona' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { PersonaAccessError } from '@/lib/personas';
+import {
+  importPersonaBundle,
+  MAX_BUNDLE_BYTES,
+  PersonaBundleError,
+  validatePersonaBundle
+} from '@/lib/persona-bundle';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/personas/import?as=self
+ *
+ * Import a persona bundle (the JSON body) so it can be chatted with without
+ * scraping or analyzing. The bundle's account is cloned if it isn't yours yet;
+ * with as=self it becomes your own account's persona instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_BUNDLE_BYTES) {
+      return NextResponse.json(
+        { error: `Bundles can be at most ${MAX_BUNDLE_BYTES / 1024 / 1024} MB` },
+        { status: 413 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json(
+        { error: 'The bundle is not valid JSON' },
+        { status: 400 }
+      );
+    }
+    const bundle = validatePersonaBundle(body);
+
+    const db = await initDB();
+    const owner = await db.getUserByUsername(session.username);
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await importPersonaBundle(owner, bundle, {
+      asSelf: request.nextUrl.searchParams.get('as') === 'self'
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PersonaAccessError || error instanceof PersonaBundleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error importing persona bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to import persona' },
+      { status: 500 }
+    );
+  }
+}
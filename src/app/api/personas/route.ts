@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import type { DBPersonaTarget } from '@/lib/db/adapters/types';
+import { claimPersonaTarget, PersonaAccessError, PERSONA_TARGET_LIMIT } from '@/lib/personas';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function toPersonaResponse(target: DBPersonaTarget) {
+  const db = await initDB();
+  const [tweetCount, cacheVersion] = await Promise.all([
+    db.getTweetCount(target.target_user_id),
+    db.personality.getCacheVersion(target.target_user_id)
+  ]);
+  return {
+    username: target.target_username,
+    createdAt: target.created_at,
+    tweetCount,
+    analyzed: cacheVersion > 0
+  };
+}
+
+async function getSessionUser() {
+  const session = await getServerSession(authOptions);
+  if (!session?.username) {
+    return null;
+  }
+  const db = await initDB();
+  return (await db.getUserByUsername(session.username)) ?? db.createUser({
+    username: session.username,
+    twitter_username: session.username,
+    created_at: new Date()
+  });
+}
+
+// Accounts the signed-in user has cloned
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = await initDB();
+    const targets = await db.getPersonaTargetsByOwner(user.id);
+    return NextResponse.json({
+      personas: await Promise.all(targets.map(toPersonaResponse)),
+      limit: PERSONA_TARGET_LIMIT
+    });
+  } catch (error) {
+    console.error('Error listing personas:', error);
+    return NextResponse.json(
+      { error: 'Failed to list personas' },
+      { status: 500 }
+    );
+  }
+}
+
+// Clone a public account: { handle: "@someone" }
+export async function POST(req: Request) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { handle } = await req.json().catch(() => ({})) as { handle?: string };
+    const target = await claimPersonaTarget(user, handle ?? '');
+
+    return NextResponse.json(await toPersonaResponse(target), { status: 201 });
+  } catch (error) {
+    if (error instanceof PersonaAccessError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error cloning persona:', error);
+    return NextResponse.json(
+      { error: 'Failed to clone account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { OpenAIQueueManager } from '@/lib/queue/openai-queue';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Queue ids are either generated by the queue or the analysis job id the client chose
+const QUEUE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+function getQueueId(request: NextRequest): string | null {
+  // Extract ID from URL using URL parsing
+  const pathParts = new URL(request.url).pathname.split('/');
+  const id = decodeURIComponent(pathParts[pathParts.indexOf('queue') + 1] ?? '');
+  return QUEUE_ID_PATTERN.test(id) ? id : null;
+}
+
+// Place in line and estimated wait for one of the user's queued LLM requests
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const id = getQueueId(request);
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid queue ID' },
+        { status: 400 }
+      );
+    }
+
+    const status = OpenAIQueueManager.getInstance().getRequestStatus(id, session.username);
+    if (!status) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error reading queue status:', error);
+    return NextResponse.json(
+      { error: 'Failed to read queue status' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a request. With ?queuedOnly=true a request that already started is left
+// running, which is what clients send when the page is closed.
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const id = getQueueId(request);
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Invalid queue ID' },
+        { status: 400 }
+      );
+    }
+
+    const queuedOnly = new URL(request.url).searchParams.get('queuedOnly') === 'true';
+    const outcome = OpenAIQueueManager.getInstance().cancelRequest(id, session.username, { queuedOnly });
+
+    if (outcome === 'not_found') {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      );
+    }
+    if (outcome === 'running') {
+      return NextResponse.json(
+        { error: 'Request has already started' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling queued request:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel request' },
+      { status: 500 }
+    );
+  }
+}
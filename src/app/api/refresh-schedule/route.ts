@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import type { DBRefreshSchedule } from '@/lib/db/adapters/types';
+
+const MIN_INTERVAL_DAYS = 1;
+const MAX_INTERVAL_DAYS = 90;
+
+interface RefreshScheduleBody {
+  enabled?: boolean;
+  intervalDays?: number;
+  // Re-analysis only runs when at least this many new tweets were scraped
+  minNewTweets?: number;
+}
+
+function toScheduleResponse(schedule: DBRefreshSchedule | null) {
+  if (!schedule) {
+    return { enabled: false };
+  }
+  return {
+    enabled: schedule.enabled,
+    intervalDays: schedule.interval_days,
+    minNewTweets: schedule.min_new_tweets,
+    nextRunAt: schedule.next_run_at,
+    lastRunAt: schedule.last_run_at,
+    lastStatus: schedule.last_status,
+    lastError: schedule.last_error,
+    lastNewTweets: schedule.last_new_tweets
+  };
+}
+
+async function getSessionUser() {
+  const session = await getServerSession(authOptions);
+  if (!session?.username) {
+    return null;
+  }
+  const db = await initDB();
+  return db.getUserByUsername(session.username);
+}
+
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = await initDB();
+    const schedule = await db.getRefreshSchedule(user.id);
+    return NextResponse.json(toScheduleResponse(schedule));
+  } catch (error) {
+    console.error('Error fetching refresh schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch refresh schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// Opt in, or change the interval / threshold
+export async function PUT(req: Request) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({})) as RefreshScheduleBody;
+
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'enabled must be a boolean' },
+        { status: 400 }
+      );
+    }
+    if (body.intervalDays !== undefined && (
+      !Number.isInteger(body.intervalDays) ||
+      body.intervalDays < MIN_INTERVAL_DAYS ||
+      body.intervalDays > MAX_INTERVAL_DAYS
+    )) {
+      return NextResponse.json(
+        { error: `intervalDays must be a whole number between ${MIN_INTERVAL_DAYS} and ${MAX_INTERVAL_DAYS}` },
+        { status: 400 }
+      );
+    }
+    if (body.minNewTweets !== undefined && (!Number.isInteger(body.minNewTweets) || body.minNewTweets < 0)) {
+      return NextResponse.json(
+        { error: 'minNewTweets must be a non-negative whole number' },
+        { status: 400 }
+      );
+    }
+
+    const db = await initDB();
+    const schedule = await db.saveRefreshSchedule(user.id, {
+      enabled: body.enabled,
+      intervalDays: body.intervalDays,
+      minNewTweets: body.minNewTweets
+    });
+    return NextResponse.json(toScheduleResponse(schedule));
+  } catch (error) {
+    console.error('Error saving refresh schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save refresh schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// Opt out
+export async function DELETE() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = await initDB();
+    await db.deleteRefreshSchedule(user.id);
+    return NextResponse.json(toScheduleResponse(null));
+  } catch (error) {
+    console.error('Error deleting refresh schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete refresh schedule' },
+      { status: 500 }
+    );
+  }
+}
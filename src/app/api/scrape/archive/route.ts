@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import fs from 'fs/promises';
+import path from 'path';
+import { authOptions } from '@/lib/auth/config';
+import { getArchiveDir, parseArchiveFile, ArchiveFormatError, ARCHIVE_TWEET_FILE_PATTERN } from '@/lib/twitter/sources';
+
+export const runtime = 'nodejs'
+
+const MAX_FILE_BYTES = 100 * 1024 * 1024; // 100MB per archive file
+
+// Form field -> file name inside the archive's data/ directory. Tweets are
+// handled on their own: large exports split them over several files.
+const ARCHIVE_FILES: Record<string, { fileName: string; required: boolean }> = {
+  account: { fileName: 'account.js', required: true },
+  profile: { fileName: 'profile.js', required: false }
+};
+
+// Upload tweets.js (or tweets-part1.js, tweets-part2.js, ... as repeated tweets fields),
+// account.js and optionally profile.js from an X data export
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await req.formData();
+    const contents: Record<string, string> = {};
+
+    for (const [field, { fileName, required }] of Object.entries(ARCHIVE_FILES)) {
+      const file = formData.get(field);
+      if (!(file instanceof File)) {
+        if (required) {
+          return NextResponse.json(
+            { error: `Missing ${fileName} in upload` },
+            { status: 400 }
+          );
+        }
+        continue;
+      }
+
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json(
+          { error: `${fileName} exceeds the ${MAX_FILE_BYTES / 1024 / 1024}MB limit` },
+          { status: 413 }
+        );
+      }
+
+      contents[fileName] = await file.text();
+    }
+
+    const tweetFiles = formData.getAll('tweets').filter((file): file is File => file instanceof File);
+    if (tweetFiles.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing tweets.js in upload' },
+        { status: 400 }
+      );
+    }
+    for (const file of tweetFiles) {
+      // A single file keeps working whatever it was renamed to; parts must keep their names
+      const fileName = tweetFiles.length === 1 && !ARCHIVE_TWEET_FILE_PATTERN.test(file.name) ? 'tweets.js' : file.name;
+      if (!ARCHIVE_TWEET_FILE_PATTERN.test(fileName)) {
+        return NextResponse.json(
+          { error: `${file.name} is not a tweets file (expected tweets.js or tweets-partN.js)` },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json(
+          { error: `${fileName} exceeds the ${MAX_FILE_BYTES / 1024 / 1024}MB limit` },
+          { status: 413 }
+        );
+      }
+      if (fileName in contents) {
+        return NextResponse.json(
+          { error: `${fileName} was uploaded twice` },
+          { status: 400 }
+        );
+      }
+      contents[fileName] = await file.text();
+    }
+
+    // Validate before touching disk, and make sure users only upload their own archive
+    const [accountRecord] = parseArchiveFile<{ account?: { username?: string } }>(
+      contents['account.js'],
+      'account.js'
+    );
+    const archiveUsername = accountRecord?.account?.username;
+    if (!archiveUsername) {
+      throw new ArchiveFormatError('account.js does not contain an account', 'account.js');
+    }
+    if (archiveUsername.toLowerCase() !== session.username.toLowerCase()) {
+      return NextResponse.json(
+        { error: `Archive belongs to @${archiveUsername}, not @${session.username}` },
+        { status: 403 }
+      );
+    }
+    const tweetCount = Object.keys(contents)
+      .filter(fileName => ARCHIVE_TWEET_FILE_PATTERN.test(fileName))
+      .reduce((count, fileName) => count + parseArchiveFile(contents[fileName], fileName).length, 0);
+
+    // Replace any previous upload
+    const archiveDir = getArchiveDir(session.username);
+    await fs.rm(archiveDir, { recursive: true, force: true });
+    await fs.mkdir(archiveDir, { recursive: true });
+    for (const [fileName, text] of Object.entries(contents)) {
+      await fs.writeFile(path.join(archiveDir, fileName), text, 'utf8');
+    }
+
+    console.log('Stored X archive:', {
+      username: session.username,
+      files: Object.keys(contents),
+      tweetCount
+    });
+
+    return NextResponse.json({
+      success: true,
+      tweetCount
+    });
+  } catch (error) {
+    if (error instanceof ArchiveFormatError) {
+      return NextResponse.json(
+        { error: `Invalid archive file ${error.file ?? ''}: ${error.message}` },
+        { status: 400 }
+      );
+    }
+
+    console.error('Archive upload error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to store archive',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.username) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await fs.rm(getArchiveDir(session.username), { recursive: true, force: true });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Archive delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete archive' },
+      { status: 500 }
+    );
+  }
+}
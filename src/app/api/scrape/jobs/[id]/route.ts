@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { initDB } from '@/lib/db';
+import { WorkerPool, jobRequesterId } from '@/lib/worker-pool';
+import type { DBScrapeJob } from '@/lib/db/adapters/types';
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Client-facing view of a job (leaves out the lease and source internals)
+function toJobResponse(job: DBScrapeJob) {
+  return {
+    id: job.id,
+    username: job.username,
+    status: job.status,
+    progress: job.progress,
+    phase: job.phase,
+    statusMessage: job.status_message,
+    scanProgress: job.scan_progress,
+    mode: job.mode,
+    spec: job.spec,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    error: job.error,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    completedAt: job.completed_at,
+    updatedAt: job.updated_at
+  };
+}
+
+// Load the job from the URL, making sure the signed-in user started it
+async function getOwnedJob(request: NextRequest): Promise<DBScrapeJob | NextResponse> {
+  const session = await getServerSession(authOptions);
+  if (!session?.username) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  // Extract ID from URL using URL parsing
+  const pathParts = new URL(request.url).pathname.split('/');
+  const id = pathParts[pathParts.indexOf('jobs') + 1];
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Invalid job ID' },
+      { status: 400 }
+    );
+  }
+
+  const db = await initDB();
+  const [job, user] = await Promise.all([
+    db.getScrapeJob(id),
+    db.getUserByUsername(session.username)
+  ]);
+
+  if (!job || !user || jobRequesterId(job) !== user.id) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  return job;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const job = await getOwnedJob(request);
+    if (job instanceof NextResponse) {
+      return job;
+    }
+
+    return NextResponse.json(toJobResponse(job));
+  } catch (error) {
+    console.error('Error fetching scrape job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch scrape job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job
+export async function DELETE(request: NextRequest) {
+  try {
+    const job = await getOwnedJob(request);
+    if (job instanceof NextResponse) {
+      return job;
+    }
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    await WorkerPool.getInstance().terminateJob(job.id);
+
+    const db = await initDB();
+    const updated = await db.getScrapeJob(job.id);
+    return NextResponse.json(toJobResponse(updated ?? job));
+  } catch (error) {
+    console.error('Error cancelling scrape job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel scrape job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
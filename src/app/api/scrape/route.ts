@@ -1,9 +1,15 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { WorkerPool } from '@/lib/worker-pool';
-import type { WorkerMessage } from '@/lib/twitter/types';
+import { WorkerPool, ScrapeJobConflictError, jobRequesterId } from '@/lib/worker-pool';
+import { ProgressBus, sseResponse } from '@/lib/progress-bus';
+import type { TweetSourceConfig, ScrapeMode, ScrapeJobSpec } from '@/lib/twitter/types';
+import { normalizeScrapeSpec, ScrapeSpecError } from '@/lib/twitter/scrape-spec';
 import { initDB } from '@/lib/db';
+import type { DBScrapeJob } from '@/lib/db/adapters/types';
+import { getArchiveDir } from '@/lib/twitter/sources';
+import { pathExists } from '@/lib/twitter/sources/utils';
+import { resolvePersona, PersonaAccessError } from '@/lib/personas';
 
 // Debug logging for environment variables
 const debugEnvVars = {
@@ -13,10 +19,20 @@ const debugEnvVars = {
   hasTwitterClientId: Boolean(process.env.TWITTER_CLIENT_ID)
 };
 
-// Create a singleton instance
-const workerPool = new WorkerPool();
+// Shared across route modules; jobs themselves live in the scrape_jobs table
+const workerPool = WorkerPool.getInstance();
 
-export async function POST() {
+interface ScrapeRequestBody {
+  // 'archive' reads the X data export uploaded through /api/scrape/archive
+  source?: 'api' | 'archive';
+  // 'full' re-fetches from the newest tweet down instead of stopping at stored tweets
+  mode?: ScrapeMode;
+  // Depth, date range and content filters; see normalizeScrapeSpec for defaults
+  spec?: Partial<ScrapeJobSpec>;
+}
+
+// POST /api/scrape?target=<handle> scrapes an account the user cloned instead of their own
+export async function POST(req: Request) {
   try {
     // Debug logging
     console.log('Environment variables check:', debugEnvVars);
@@ -29,6 +45,44 @@ export async function POST() {
       );
     }
 
+    // Body is optional - an empty POST scrapes through the default source
+    const body = await req.json().catch(() => ({})) as ScrapeRequestBody;
+    const target = new URL(req.url).searchParams.get('target');
+
+    let source: TweetSourceConfig | undefined;
+    if (body.source === 'archive' && target) {
+      return NextResponse.json(
+        { error: 'Archives can only be imported for your own account.' },
+        { status: 400 }
+      );
+    } else if (body.source === 'archive') {
+      const archiveDir = getArchiveDir(session.username);
+      if (!(await pathExists(archiveDir))) {
+        return NextResponse.json(
+          { error: 'No archive uploaded. Upload your X data export first.' },
+          { status: 400 }
+        );
+      }
+      source = { type: 'archive', path: archiveDir };
+    } else if (body.source === 'api') {
+      source = { type: 'api' };
+    }
+
+    const mode: ScrapeMode = body.mode === 'full' ? 'full' : 'incremental';
+
+    let spec: ScrapeJobSpec;
+    try {
+      spec = normalizeScrapeSpec(body.spec);
+    } catch (error) {
+      if (error instanceof ScrapeSpecError) {
+        return NextResponse.json(
+          { error: `Invalid scrape spec: ${error.message}`, field: error.field },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     // Initialize database and get/create user
     const db = await initDB();
     let user = await db.getUserByUsername(session.username);
@@ -40,96 +94,60 @@ export async function POST() {
       });
     }
 
-    // Update last scrape time
-    await db.updateLastOperationTime(user.id, 'scrape');
+    // The account being scraped: the user's own, or one they cloned
+    let persona = user;
+    try {
+      persona = await resolvePersona(user, target);
+    } catch (error) {
+      if (error instanceof PersonaAccessError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
+      throw error;
+    }
 
-    // Create stream for SSE
-    const stream = new TransformStream();
-    const writer = stream.writable.getWriter();
-    const encoder = new TextEncoder();
+    // One scrape per account at a time; the client can reattach to the running one
+    const activeJob = await db.getActiveScrapeJob(persona.id);
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          error: 'A job for this user is already in progress.',
+          jobId: jobRequesterId(activeJob) === user.id ? activeJob.id : undefined
+        },
+        { status: 409 }
+      );
+    }
 
-    let streamClosed = false;
+    // Update last scrape time (cooldowns are per scraped account)
+    await db.updateLastOperationTime(persona.id, 'scrape');
 
     // Create a job and add it to the worker pool
-    const job = {
-      id: Date.now().toString(),
-      username: session.username,
-      onProgress: async (message: WorkerMessage) => {
-        try {
-          // Don't try to write to a closed stream
-          if (streamClosed) {
-            console.log('Stream already closed, skipping message:', message);
-            return;
-          }
-
-          // Add username to all messages
-          const messageWithUser = {
-            ...message,
-            username: session.username
-          };
-
-          console.log('Writing message to stream:', {
-            type: messageWithUser.type,
-            phase: messageWithUser.phase,
-            progress: messageWithUser.progress,
-            error: messageWithUser.error,
-            tweetCount: messageWithUser.tweets?.length
-          });
-
-          await writer.write(encoder.encode(`data: ${JSON.stringify(messageWithUser)}\n\n`));
-          
-          // Close the stream if we're done or there's an error
-          if (message.type === 'complete' || message.type === 'error') {
-            console.log('Closing stream due to:', message.type);
-            streamClosed = true;
-            await writer.close();
-          }
-        } catch (error) {
-          console.error('Error writing to stream:', error);
-          // Only try to send error if stream isn't already closed
-          if (!streamClosed) {
-            try {
-              await writer.write(encoder.encode(`data: ${JSON.stringify({
-                type: 'error',
-                error: error instanceof Error ? error.message : 'Error writing to stream',
-                username: session.username
-              })}\n\n`));
-            } finally {
-              streamClosed = true;
-              await writer.close();
-            }
-          }
-        }
-      }
-    };
-
+    let record: DBScrapeJob;
     try {
-      // Add job to pool
-      await workerPool.addJob(job);
+      record = await workerPool.addJob({
+        id: crypto.randomUUID(),
+        userId: persona.id,
+        username: persona.username,
+        source,
+        mode,
+        spec,
+        requestedBy: persona.id !== user.id ? user.id : undefined
+      });
     } catch (error) {
-      // Handle worker pool errors
-      console.error('Worker pool error:', error);
-      if (!streamClosed) {
-        await writer.write(encoder.encode(`data: ${JSON.stringify({
-          type: 'error',
-          error: error instanceof Error ? error.message : 'Failed to start scraping job',
-          username: session.username
-        })}\n\n`));
-        streamClosed = true;
-        await writer.close();
+      if (error instanceof ScrapeJobConflictError) {
+        return NextResponse.json(
+          { error: error.message, jobId: error.activeJobId },
+          { status: 409 }
+        );
       }
       throw error;
     }
 
-    return new Response(stream.readable, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no',
-        'Content-Encoding': 'none'
-      }
-    });
+    // Stream the job's progress. If the client disconnects, it can reconnect to
+    // /api/jobs/:id/events with Last-Event-ID and pick up where it left off.
+    return sseResponse(ProgressBus.getInstance().stream(record.id, user.id));
 
   } catch (error) {
     console.error('Critical error:', error);
@@ -143,8 +161,8 @@ export async function POST() {
   }
 }
 
-// Add an endpoint to get worker pool status
-export async function GET() {
+// Add an endpoint to get worker pool status (?target=<handle> for a cloned account)
+export async function GET(req: Request) {
   try {
     const session = await getServerSession(authOptions);
     if (!session?.username) {
@@ -155,13 +173,20 @@ export async function GET() {
     }
 
     // Get pool status
-    const status = workerPool.getStatus();
+    const status = await workerPool.getStatus();
     
-    // Check if there's an active job for this user by looking at the job IDs
-    const hasActiveJob = status.activeJobs.length > 0;
+    // Check if there's a queued or running job for this user
+    const db = await initDB();
+    const user = await db.getUserByUsername(session.username);
+    const persona = user
+      ? await resolvePersona(user, new URL(req.url).searchParams.get('target')).catch(() => null)
+      : null;
+    const activeJob = persona ? await db.getActiveScrapeJob(persona.id) : null;
 
+    const isOwnJob = activeJob && user && jobRequesterId(activeJob) === user.id;
     return NextResponse.json({
-      status: hasActiveJob ? 'active' : 'inactive',
+      status: activeJob ? 'active' : 'inactive',
+      jobId: isOwnJob ? activeJob.id : undefined,
       activeWorkers: status.activeWorkers,
       queueLength: status.queueLength
     });
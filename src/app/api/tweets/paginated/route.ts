@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initDB } from '@/lib/db';
 import { TweetDB } from '@/lib/db/tweets';
-import { RateLimiter } from '@/lib/rate-limiter';
+import { RateLimiter, rateLimitHeaders } from '@/lib/rate-limiter';
 
 // Cache TTL in seconds
 const CACHE_TTL = 60 * 5; // 5 minutes
-const RATE_LIMIT = {
-  windowMs: 60 * 1000, // 1 minute
-  max: 30 // 30 requests per minute
-};
+
+// 30 requests per minute per username, across all instances
+const rateLimiter = new RateLimiter('tweets-api', 30, 60 * 1000);
 
 export async function GET(req: NextRequest) {
   try {
@@ -27,7 +26,6 @@ export async function GET(req: NextRequest) {
     }
 
     // Rate limiting
-    const rateLimiter = new RateLimiter('tweets-api');
     const rateLimitResult = await rateLimiter.checkLimit(username);
     
     if (!rateLimitResult.allowed) {
@@ -35,11 +33,7 @@ export async function GET(req: NextRequest) {
         { error: 'Rate limit exceeded' },
         {
           status: 429,
-          headers: {
-            'X-RateLimit-Limit': RATE_LIMIT.max.toString(),
-            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-            'X-RateLimit-Reset': rateLimitResult.reset.toString()
-          }
+          headers: rateLimitHeaders(rateLimitResult)
         }
       );
     }
@@ -67,9 +61,7 @@ export async function GET(req: NextRequest) {
       headers: {
         'X-Cache': 'MISS',
         'Cache-Control': `public, max-age=${CACHE_TTL}`,
-        'X-RateLimit-Limit': RATE_LIMIT.max.toString(),
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': rateLimitResult.reset.toString()
+        ...rateLimitHeaders(rateLimitResult)
       }
     });
   } catch (error) {
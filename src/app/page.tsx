@@ -13,6 +13,8 @@ export default function Home() {
   const [accessVerified, setAccessVerified] = useState(false)
   const [isCheckingAccess, setIsCheckingAccess] = useState(true)
   const [showHeroContent, setShowHeroContent] = useState(false)
+  // Handle of a cloned public account; null for the user's own clone
+  const [activePersona, setActivePersona] = useState<string | null>(null)
 
   // Effect for hero content fade-in
   useEffect(() => {
@@ -49,13 +51,15 @@ export default function Home() {
     checkAccessStatus()
   }, [session?.username])
 
-  // Fetch tweets when session is available
+  // Fetch tweets for the active persona when session is available
   useEffect(() => {
     const fetchTweets = async () => {
       if (session?.username) {
+        setTweets([])
         try {
           // Fetch from API using the correct endpoint
-          const response = await fetch(`/api/tweets/${session.username}/all`)
+          const username = activePersona ?? session.username
+          const response = await fetch(`/api/tweets/${encodeURIComponent(username)}/all`)
           if (!response.ok) throw new Error('Failed to fetch tweets')
           const data = await response.json()
           if (Array.isArray(data) && data.length > 0) {
@@ -72,7 +76,7 @@ export default function Home() {
     }
 
     fetchTweets()
-  }, [session?.username])
+  }, [session?.username, activePersona])
 
   // Reset states when session changes
   useEffect(() => {
@@ -196,16 +200,20 @@ export default function Home() {
   return (
     <main className="min-h-screen bg-gradient-to-br from-black via-red-950/20 to-black text-red-500 font-mono">
       <ChatBox
+        key={activePersona ?? 'self'}
         tweets={tweets}
         profile={{
-            name: session?.username || null,
-            imageUrl: session?.user?.image || null,
+            name: activePersona ?? session?.username ?? null,
+            imageUrl: activePersona ? null : session?.user?.image || null,
             bio: null,
             followersCount: null,
             followingCount: null
           }}
           onClose={handleTerminateSession}
           onTweetsUpdate={handleTweetsUpdate}
+          target={activePersona}
+          ownUsername={session?.username}
+          onPersonaChange={setActivePersona}
         />
 
     </main>
@@ -1,9 +1,13 @@
-import { ShareCard } from '@/components/share-card/ShareCard'
+import { redirect } from 'next/navigation'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth/config'
 
-export default function ShareCardPage() {
-  return (
-    <main className="flex min-h-screen flex-col items-center justify-center p-24 bg-black">
-      <ShareCard />
-    </main>
-  )
-} 
\ No newline at end of file
+// The printable analysis report took over from the share card
+export default async function ShareCardPage() {
+  const session = await getServerSession(authOptions)
+  if (!session?.username) {
+    redirect('/')
+  }
+
+  redirect(`/api/personality/${encodeURIComponent(session.username)}/export?format=html`)
+}
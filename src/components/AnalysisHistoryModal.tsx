@@ -0,0 +1,300 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import type { PersonalityDiff } from '@/lib/analysis/diff'
+
+interface AnalysisHistoryModalProps {
+  isOpen: boolean
+  onClose: () => void
+  username: string
+}
+
+interface SnapshotSummary {
+  version: number
+  analyzedAt: string
+  source: 'manual' | 'scheduled' | 'imported'
+  tweetCount: number | null
+  traitCount: number
+  interestCount: number
+}
+
+const METRIC_LABELS: Record<string, string> = {
+  oversharer: 'Oversharer',
+  replyGuy: 'Reply Guy',
+  viralChaser: 'Viral Chaser',
+  threadMaker: 'Thread Maker',
+  retweeter: 'Retweeter',
+  hotTaker: 'Hot Takes',
+  joker: 'Joker',
+  debater: 'Debater',
+  doomPoster: 'Doom Poster',
+  earlyAdopter: 'Early Adopter',
+  knowledgeDropper: 'Knowledge Dropper',
+  hypeBeast: 'Hype Beast'
+}
+
+// Report downloads; the HTML one opens in a tab to print or save as PDF
+const EXPORT_LINKS = [
+  { format: 'md', label: 'MD' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'PDF' }
+] as const
+
+function formatDelta(delta: number) {
+  return delta > 0 ? `+${delta}` : `${delta}`
+}
+
+function deltaColor(delta: number) {
+  if (delta > 0) return 'text-green-400/80'
+  if (delta < 0) return 'text-red-400/80'
+  return 'text-red-500/40'
+}
+
+function snapshotLabel(snapshot: SnapshotSummary) {
+  const date = new Date(snapshot.analyzedAt).toLocaleString()
+  const note = snapshot.source === 'scheduled' ? ' (AUTO)' : snapshot.source === 'imported' ? ' (IMPORTED)' : ''
+  return `v${snapshot.version} - ${date}${note}`
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-bold text-red-500/90 tracking-wider ancient-text uppercase">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+function EmptyNote({ children }: { children: React.ReactNode }) {
+  return <div className="text-red-400/60 text-sm italic">{children}</div>
+}
+
+export function AnalysisHistoryModal({ isOpen, onClose, username }: AnalysisHistoryModalProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([])
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<PersonalityDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load the snapshot list and preselect the latest two versions
+  useEffect(() => {
+    if (!isOpen || !username) return
+
+    setError(null)
+    setDiff(null)
+    fetch(`/api/personality/${encodeURIComponent(username)}/history`)
+      .then(async response => {
+        const body = await response.json()
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || 'Failed to load analysis history')
+        }
+        const list: SnapshotSummary[] = body.data.snapshots
+        setSnapshots(list)
+        setToVersion(list[0]?.version ?? null)
+        setFromVersion(list[1]?.version ?? null)
+      })
+      .catch(err => {
+        console.error('Failed to load analysis history:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load analysis history')
+      })
+  }, [isOpen, username])
+
+  useEffect(() => {
+    if (!isOpen || fromVersion === null || toVersion === null || fromVersion === toVersion) {
+      setDiff(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    fetch(
+      `/api/personality/${encodeURIComponent(username)}/history?from=${fromVersion}&to=${toVersion}`,
+      { signal: controller.signal }
+    )
+      .then(async response => {
+        const body = await response.json()
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || 'Failed to compare snapshots')
+        }
+        setDiff(body.data.diff)
+        setError(null)
+      })
+      .catch(err => {
+        if (err instanceof DOMException && err.name === 'AbortError') return
+        console.error('Failed to compare snapshots:', err)
+        setError(err instanceof Error ? err.message : 'Failed to compare snapshots')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [isOpen, username, fromVersion, toVersion])
+
+  if (!isOpen) return null
+
+  const renderSelect = (value: number | null, onChange: (version: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full bg-black/40 border border-red-500/20 rounded px-2 py-1 text-xs font-mono text-red-500/80 focus:outline-none focus:border-red-500/40"
+    >
+      {snapshots.map(snapshot => (
+        <option key={snapshot.version} value={snapshot.version}>
+          {snapshotLabel(snapshot)}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[999999] p-2 sm:p-4 md:p-6"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-[95%] sm:max-w-[90%] md:max-w-[800px] max-h-[90vh] flex flex-col bg-black/40 backdrop-blur-md border border-red-500/20 rounded-lg shadow-2xl hover-glow ancient-border relative p-2 sm:p-4 md:p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4 border-b border-red-500/20 pb-4">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-red-500 shadow-lg shadow-red-500/20 glow-box"></div>
+            <h2 className="text-base sm:text-lg md:text-xl font-bold text-red-500/90 tracking-wider glow-text">
+              ANALYSIS HISTORY
+            </h2>
+          </div>
+          <div className="flex items-center gap-4">
+            {snapshots.length > 0 && (
+              <div className="flex items-center gap-1.5 text-[10px] font-mono tracking-wider text-red-500/50">
+                <span>EXPORT{toVersion ? ` v${toVersion}` : ''}</span>
+                {EXPORT_LINKS.map(({ format, label }) => (
+                  <a
+                    key={format}
+                    href={`/api/personality/${encodeURIComponent(username)}/export?format=${format}${toVersion ? `&version=${toVersion}` : ''}`}
+                    target={format === 'html' ? '_blank' : undefined}
+                    rel={format === 'html' ? 'noopener noreferrer' : undefined}
+                    className="text-red-500/70 hover:text-red-500/90 transition-colors"
+                    title={`Export as ${label}`}
+                  >
+                    {label}
+                  </a>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={onClose}
+              className="text-red-500/70 hover:text-red-500/90 transition-colors"
+            >
+              <span className="sr-only">Close</span>
+              ×
+            </button>
+          </div>
+        </div>
+
+        {snapshots.length < 2 ? (
+          <EmptyNote>
+            {error || (snapshots.length === 0
+              ? 'No analysis snapshots yet'
+              : 'Only one snapshot so far - run another analysis to compare')}
+          </EmptyNote>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              <div className="space-y-1">
+                <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">FROM</div>
+                {renderSelect(fromVersion, setFromVersion)}
+              </div>
+              <div className="space-y-1">
+                <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">TO</div>
+                {renderSelect(toVersion, setToVersion)}
+              </div>
+            </div>
+
+            <div className={`flex-1 overflow-y-auto custom-scrollbar space-y-6 pr-1 ${isLoading ? 'opacity-50' : ''}`}>
+              {error && <EmptyNote>{error}</EmptyNote>}
+              {fromVersion === toVersion && <EmptyNote>Pick two different versions to compare</EmptyNote>}
+
+              {diff && (
+                <>
+                  <Section title="Traits">
+                    {diff.traits.length === 0 ? <EmptyNote>No traits</EmptyNote> : (
+                      <div className="space-y-1">
+                        {diff.traits.map(trait => (
+                          <div key={trait.name} className="flex items-center justify-between text-sm font-mono">
+                            <span className="text-red-300/80">{trait.name}</span>
+                            <span className="flex items-center gap-3">
+                              <span className="text-red-500/50">
+                                {trait.from ?? 'NEW'} → {trait.to ?? 'DROPPED'}
+                              </span>
+                              <span className={`w-10 text-right ${deltaColor(trait.delta)}`}>
+                                {formatDelta(trait.delta)}
+                              </span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </Section>
+
+                  <Section title="Interests">
+                    {diff.interests.added.length === 0 && diff.interests.removed.length === 0 ? (
+                      <EmptyNote>No change</EmptyNote>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {diff.interests.added.map(interest => (
+                          <span key={`+${interest}`} className="px-2 py-1 text-xs rounded border border-green-500/30 text-green-400/80 bg-green-500/5">
+                            + {interest}
+                          </span>
+                        ))}
+                        {diff.interests.removed.map(interest => (
+                          <span key={`-${interest}`} className="px-2 py-1 text-xs rounded border border-red-500/30 text-red-400/70 bg-red-500/5 line-through">
+                            − {interest}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </Section>
+
+                  <Section title="Communication Style">
+                    {diff.communicationStyle.length === 0 ? <EmptyNote>No change</EmptyNote> : (
+                      <div className="space-y-1">
+                        {diff.communicationStyle.map(change => (
+                          <div key={change.field} className="flex items-center justify-between text-sm font-mono">
+                            <span className="text-red-300/80 uppercase">{change.field}</span>
+                            <span className={change.direction === 'up' ? 'text-green-400/80' : change.direction === 'down' ? 'text-red-400/80' : 'text-red-500/60'}>
+                              {(change.from ?? '-').toUpperCase()} → {(change.to ?? '-').toUpperCase()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </Section>
+
+                  <Section title="Social Behavior Drift">
+                    {diff.socialBehaviorMetrics.length === 0 ? <EmptyNote>No change</EmptyNote> : (
+                      <div className="space-y-1">
+                        {diff.socialBehaviorMetrics.map(drift => (
+                          <div key={drift.metric} className="flex items-center justify-between text-sm font-mono">
+                            <span className="text-red-300/80">{METRIC_LABELS[drift.metric] ?? drift.metric}</span>
+                            <span className="flex items-center gap-3">
+                              <span className="text-red-500/50">{drift.from} → {drift.to}</span>
+                              <span className={`w-10 text-right ${deltaColor(drift.delta)}`}>
+                                {formatDelta(drift.delta)}
+                              </span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </Section>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
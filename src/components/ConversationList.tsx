@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import type { Conversation } from '@/types/conversation';
+import { useEffect, useState } from 'react';
+import type { Conversation, ConversationSearchResult } from '@/types/conversation';
 
 interface ConversationListProps {
   conversations: Conversation[];
@@ -8,9 +8,34 @@ interface ConversationListProps {
   onNewChat: () => void;
   onDeleteConversation: (conversationId: number) => void;
   onRenameConversation: (conversationId: number, newTitle: string) => void;
+  onSelectSearchResult: (result: ConversationSearchResult) => void;
+  personaUsername?: string;  // Search is limited to this clone's chats
   isLoading?: boolean;
 }
 
+const MIN_SEARCH_CHARS = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Export downloads; the HTML report opens in a tab to print or save as PDF
+const EXPORT_LINKS = [
+  { format: 'md', label: 'MD' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'PDF' }
+] as const;
+
+// Snippets mark matches with <mark>; everything else is shown as plain text
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/<\/?mark>/).map((part, index) => index % 2 === 1 ? (
+        <mark key={index} className="bg-red-500/30 text-red-300 rounded-sm px-0.5">{part}</mark>
+      ) : (
+        <span key={index}>{part}</span>
+      ))}
+    </>
+  );
+}
+
 export function ConversationList({
   conversations,
   activeConversationId,
@@ -18,12 +43,65 @@ export function ConversationList({
   onNewChat,
   onDeleteConversation,
   onRenameConversation,
+  onSelectSearchResult,
+  personaUsername,
   isLoading = false
 }: ConversationListProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [deletingId, setDeletingId] = useState<number | null>(null);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editTitle, setEditTitle] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFrom, setSearchFrom] = useState('');
+  const [searchTo, setSearchTo] = useState('');
+  const [searchResults, setSearchResults] = useState<ConversationSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < MIN_SEARCH_CHARS) {
+      setSearchResults(null);
+      setSearchError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const params = new URLSearchParams({ q: query });
+        if (personaUsername) params.set('persona', personaUsername);
+        if (searchFrom) params.set('from', searchFrom);
+        if (searchTo) params.set('to', searchTo);
+
+        const response = await fetch(`/api/conversations/search?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Search failed');
+        }
+        setSearchResults(data.data);
+        setSearchError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to search conversations:', error);
+        setSearchError(error instanceof Error ? error.message : 'Search failed');
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, searchFrom, searchTo, personaUsername]);
+
+  const handleSelectResult = (result: ConversationSearchResult) => {
+    onSelectSearchResult(result);
+    setIsOpen(false);
+  };
 
   const handleDelete = async (conversationId: number, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent conversation selection
@@ -142,7 +220,88 @@ export function ConversationList({
               </button>
             </div>
 
-            {/* Conversations List */}
+            {/* Search */}
+            <div className="px-4 py-3 border-b border-red-500/20 space-y-2">
+              <div className="relative">
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search conversations..."
+                  className="w-full bg-black/40 text-red-400/90 text-sm border border-red-500/20 rounded px-2 py-1.5 pr-8 placeholder:text-red-500/30 focus:outline-none focus:border-red-500/40"
+                />
+                {isSearching && (
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 border-2 border-red-500/20 border-t-red-500/70 rounded-full animate-spin"></div>
+                )}
+              </div>
+              {searchQuery.trim().length >= MIN_SEARCH_CHARS && (
+                <div className="flex items-center gap-2 text-[10px] text-red-500/50 uppercase tracking-wider">
+                  <label className="flex items-center gap-1">
+                    From
+                    <input
+                      type="date"
+                      value={searchFrom}
+                      onChange={(e) => setSearchFrom(e.target.value)}
+                      className="bg-black/40 text-red-400/80 border border-red-500/20 rounded px-1 py-0.5 focus:outline-none focus:border-red-500/40"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    To
+                    <input
+                      type="date"
+                      value={searchTo}
+                      onChange={(e) => setSearchTo(e.target.value)}
+                      className="bg-black/40 text-red-400/80 border border-red-500/20 rounded px-1 py-0.5 focus:outline-none focus:border-red-500/40"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {/* Search Results */}
+            {searchResults !== null || searchError ? (
+              <div className="max-h-[60vh] overflow-y-auto custom-scrollbar">
+                {searchError ? (
+                  <div className="text-red-500/70 text-center py-8 italic text-sm">
+                    {searchError}
+                  </div>
+                ) : searchResults && searchResults.length === 0 ? (
+                  <div className="text-red-500/50 text-center py-8 italic">
+                    No matches
+                  </div>
+                ) : (
+                  <div className="p-2 space-y-1">
+                    {searchResults?.map((result) => (
+                      <button
+                        key={`${result.conversationId}-${result.messageId ?? 'title'}`}
+                        onClick={() => handleSelectResult(result)}
+                        className="w-full text-left px-3 py-2 rounded border border-transparent hover:border-red-500/10 hover:bg-red-500/5 transition-all duration-300"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <h4 className="text-red-400/90 text-sm truncate">
+                            {result.messageId === null
+                              ? <HighlightedSnippet snippet={result.snippet} />
+                              : result.conversationTitle}
+                          </h4>
+                          <span className="text-red-500/30 text-[10px] whitespace-nowrap">
+                            {new Date(result.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {result.messageId !== null && (
+                          <p className="text-red-500/60 text-xs mt-0.5 line-clamp-2">
+                            <span className="text-red-500/40 uppercase tracking-wider mr-1">
+                              {result.role === 'user' ? 'You' : `@${result.personaUsername}`}:
+                            </span>
+                            <HighlightedSnippet snippet={result.snippet} />
+                          </p>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+            /* Conversations List */
             <div className="max-h-[60vh] overflow-y-auto custom-scrollbar">
               {isLoading ? (
                 <div className="flex items-center justify-center py-8">
@@ -223,6 +382,23 @@ export function ConversationList({
                           <div className="text-red-500/30 text-xs">
                             {conversation.metadata.messageCount || 0}
                           </div>
+                          {!editingId && (
+                            <div className="flex items-center gap-1 text-[10px] font-mono tracking-wider">
+                              {EXPORT_LINKS.map(({ format, label }) => (
+                                <a
+                                  key={format}
+                                  href={`/api/conversations/${conversation.id}/export?format=${format}`}
+                                  target={format === 'html' ? '_blank' : undefined}
+                                  rel={format === 'html' ? 'noopener noreferrer' : undefined}
+                                  onClick={(e) => e.stopPropagation()}
+                                  className="text-red-500/40 hover:text-red-500/70 transition-colors"
+                                  title={`Export as ${label}`}
+                                >
+                                  {label}
+                                </a>
+                              ))}
+                            </div>
+                          )}
                           {!editingId && (
                             <button
                               onClick={(e) => handleStartRename(conversation, e)}
@@ -266,6 +442,7 @@ export function ConversationList({
                 </div>
               )}
             </div>
+            )}
           </div>
         </div>
       )}
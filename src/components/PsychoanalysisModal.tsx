@@ -2,6 +2,8 @@
 
 import React, { useRef, useEffect, useState } from 'react'
 import { PersonalityAnalysis } from '@/lib/openai/types'
+import { Tweet } from '@/types/scraper'
+import { EvidenceTweets } from './main-page/EvidenceTweets'
 import {
   Chart as ChartJS,
   RadialLinearScale,
@@ -29,6 +31,8 @@ interface PsychoanalysisModalProps {
   isOpen: boolean
   onClose: () => void
   analysis?: PersonalityAnalysis | null
+  username: string
+  tweets: Tweet[]  // The scraped tweets, to show the ones each finding cites
 }
 
 type RadarChartData = ChartData<'radar', number[], string>
@@ -48,6 +52,12 @@ const CHART_LABELS = [
   'Hype Beast'
 ] as const;
 
+// The metric behind each chart label, in the same order
+const CHART_METRICS: Array<keyof PersonalityAnalysis['socialBehaviorMetrics']> = [
+  'oversharer', 'replyGuy', 'viralChaser', 'threadMaker', 'retweeter', 'hotTaker',
+  'joker', 'debater', 'doomPoster', 'earlyAdopter', 'knowledgeDropper', 'hypeBeast'
+];
+
 const DEFAULT_CHART_DATA: RadarChartData = {
   labels: Array.from(CHART_LABELS),
   datasets: [{
@@ -105,18 +115,20 @@ function mapMetricsToChartLabels(metrics: Record<string, number>, labels: readon
   });
 }
 
-export function PsychoanalysisModal({ isOpen, onClose, analysis }: PsychoanalysisModalProps) {
+export function PsychoanalysisModal({ isOpen, onClose, analysis, username, tweets }: PsychoanalysisModalProps) {
   const chartRef = useRef<HTMLDivElement>(null)
   const [chartData, setChartData] = useState(DEFAULT_CHART_DATA)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [windowWidth, setWindowWidth] = useState(typeof window !== 'undefined' ? window.innerWidth : 0);
+  const [evidence, setEvidence] = useState<{ label: string; tweetIds: string[] } | null>(null)
 
   // Reset state when modal opens/closes
   useEffect(() => {
     if (!isOpen) {
       setChartData(DEFAULT_CHART_DATA)
       setError(null)
+      setEvidence(null)
     }
     setIsLoading(true)
   }, [isOpen])
@@ -368,7 +380,7 @@ export function PsychoanalysisModal({ isOpen, onClose, analysis }: Psychoanalysi
       onClick={onClose}
     >
       <div 
-        className="w-full max-w-[95%] sm:max-w-[90%] md:max-w-[800px] bg-black/40 backdrop-blur-md border border-red-500/20 rounded-lg shadow-2xl hover-glow ancient-border relative p-2 sm:p-4 md:p-6"
+        className="w-full max-w-[95%] sm:max-w-[90%] md:max-w-[800px] bg-black/40 backdrop-blur-md border border-red-500/20 rounded-lg shadow-2xl hover-glow ancient-border relative p-2 sm:p-4 md:p-6 max-h-[95vh] overflow-y-auto custom-scrollbar"
         onClick={e => e.stopPropagation()}
       >
         {/* Header */}
@@ -418,6 +430,44 @@ export function PsychoanalysisModal({ isOpen, onClose, analysis }: Psychoanalysi
             </div>
           )}
 
+          {/* Traits and behaviors, each opening the tweets it was drawn from */}
+          {!isLoading && !error && analysis && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {analysis.traits.map(trait => (
+                  <button
+                    key={`trait-${trait.name}`}
+                    onClick={() => setEvidence({ label: trait.name, tweetIds: trait.evidenceTweetIds ?? [] })}
+                    className="px-3 py-1 bg-red-500/10 border border-red-500/30 rounded text-red-400/90 text-xs tracking-wide hover:bg-red-500/20 transition-colors duration-200"
+                  >
+                    {trait.name} ({trait.evidenceTweetIds?.length ?? 0})
+                  </button>
+                ))}
+                {CHART_METRICS.map((metric, index) => (
+                  <button
+                    key={`metric-${metric}`}
+                    onClick={() => setEvidence({
+                      label: CHART_LABELS[index],
+                      tweetIds: analysis.socialBehaviorEvidence?.[metric] ?? []
+                    })}
+                    className="px-3 py-1 bg-red-500/5 border border-red-500/20 rounded text-red-300/80 text-xs tracking-wide hover:bg-red-500/10 transition-colors duration-200"
+                  >
+                    {CHART_LABELS[index]} ({analysis.socialBehaviorEvidence?.[metric]?.length ?? 0})
+                  </button>
+                ))}
+              </div>
+              {evidence && (
+                <EvidenceTweets
+                  username={username}
+                  label={evidence.label}
+                  tweetIds={evidence.tweetIds}
+                  tweets={tweets}
+                  onClose={() => setEvidence(null)}
+                />
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end gap-3">
             <button
               onClick={handleShare}
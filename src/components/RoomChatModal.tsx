@@ -0,0 +1,316 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import type { Conversation, Message } from '@/types/conversation'
+
+interface RoomChatModalProps {
+  isOpen: boolean
+  onClose: () => void
+  ownUsername: string
+}
+
+interface PersonaOption {
+  username: string
+  analyzed: boolean
+}
+
+interface Room {
+  id: number
+  participants: string[]
+  topic: string
+}
+
+// Keep in sync with MAX_ROOM_PARTICIPANTS in /api/chat/room
+const MAX_PARTICIPANTS = 4
+
+const SPEAKER_COLORS = [
+  'text-red-400/90',
+  'text-amber-400/90',
+  'text-sky-400/90',
+  'text-emerald-400/90'
+]
+
+function toRoom(conversation: Conversation): Room {
+  return {
+    id: conversation.id,
+    participants: conversation.participants ?? [],
+    topic: conversation.metadata.topic ?? conversation.title
+  }
+}
+
+export function RoomChatModal({ isOpen, onClose, ownUsername }: RoomChatModalProps) {
+  const [personas, setPersonas] = useState<PersonaOption[]>([])
+  const [rooms, setRooms] = useState<Conversation[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [topic, setTopic] = useState('')
+  const [room, setRoom] = useState<Room | null>(null)
+  const [messages, setMessages] = useState<Message[]>([])
+  const [interjection, setInterjection] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const transcriptEnd = useRef<HTMLDivElement>(null)
+
+  // Load the personas that can join and the user's earlier rooms
+  useEffect(() => {
+    if (!isOpen) return
+
+    setError(null)
+    fetch('/api/personas')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        const cloned: PersonaOption[] = data?.personas ?? []
+        setPersonas([{ username: ownUsername, analyzed: true }, ...cloned])
+      })
+      .catch(err => console.error('Failed to load personas:', err))
+
+    fetch('/api/conversations?mode=room')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.success) setRooms(data.data)
+      })
+      .catch(err => console.error('Failed to load rooms:', err))
+  }, [isOpen, ownUsername])
+
+  useEffect(() => {
+    transcriptEnd.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages])
+
+  if (!isOpen) return null
+
+  const togglePersona = (username: string) => {
+    setSelected(prev => prev.includes(username)
+      ? prev.filter(u => u !== username)
+      : prev.length < MAX_PARTICIPANTS ? [...prev, username] : prev)
+  }
+
+  const sendRoomRequest = async (body: Record<string, unknown>) => {
+    setIsRunning(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/chat/room', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Room chat failed')
+      }
+      setRoom({ id: data.conversationId, participants: data.participants, topic: data.topic })
+      setMessages(prev => [...prev, ...data.messages])
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Room chat failed')
+      return false
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const startRoom = () => {
+    setMessages([])
+    sendRoomRequest({
+      participants: selected.map(username => ({ username })),
+      topic,
+      turns: 1
+    })
+  }
+
+  const openRoom = async (conversation: Conversation) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`)
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load room')
+      }
+      setRoom(toRoom(data.data))
+      setMessages(data.data.messages ?? [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load room')
+    }
+  }
+
+  const runTurns = (turns: number) => {
+    if (!room) return
+    sendRoomRequest({ conversationId: room.id, turns })
+  }
+
+  const interject = async () => {
+    if (!room || !interjection.trim()) return
+    const sent = await sendRoomRequest({ conversationId: room.id, message: interjection, turns: 1 })
+    if (sent) setInterjection('')
+  }
+
+  const leaveRoom = () => {
+    setRoom(null)
+    setMessages([])
+    setSelected([])
+    setTopic('')
+    fetch('/api/conversations?mode=room')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.success) setRooms(data.data)
+      })
+      .catch(err => console.error('Failed to load rooms:', err))
+  }
+
+  const speakerColor = (speaker?: string) => {
+    const index = room && speaker ? room.participants.indexOf(speaker) : -1
+    return index >= 0 ? SPEAKER_COLORS[index % SPEAKER_COLORS.length] : 'text-red-500/50'
+  }
+
+  const buttonClass = 'px-3 py-2 text-xs font-mono rounded border border-red-500/30 text-red-500/60 hover:bg-red-500/5 hover:text-red-500/80 uppercase tracking-wider transition-all duration-300 disabled:opacity-40 disabled:pointer-events-none'
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[999999] p-2 sm:p-4 md:p-6"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-[95%] sm:max-w-[90%] md:max-w-[800px] h-[90vh] flex flex-col bg-black/40 backdrop-blur-md border border-red-500/20 rounded-lg shadow-2xl hover-glow ancient-border relative p-2 sm:p-4 md:p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4 border-b border-red-500/20 pb-4">
+          <div className="flex items-center gap-2 min-w-0">
+            <div className="w-2 h-2 rounded-full bg-red-500 shadow-lg shadow-red-500/20 glow-box"></div>
+            <h2 className="text-base sm:text-lg md:text-xl font-bold text-red-500/90 tracking-wider glow-text truncate">
+              {room ? room.participants.map(p => `@${p}`).join(' · ') : 'GROUP CHAT'}
+            </h2>
+          </div>
+          <div className="flex items-center gap-3">
+            {room && (
+              <button onClick={leaveRoom} className="text-xs font-mono text-red-500/60 hover:text-red-500/90 uppercase tracking-wider">
+                LEAVE
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-red-500/70 hover:text-red-500/90 transition-colors"
+            >
+              <span className="sr-only">Close</span>
+              ×
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="text-red-400/70 text-sm italic mb-3">{error}</div>}
+
+        {!room ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar space-y-6 pr-1">
+            <div className="space-y-2">
+              <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">
+                PICK 2-{MAX_PARTICIPANTS} PERSONAS ({selected.length} SELECTED)
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {personas.map(persona => (
+                  <button
+                    key={persona.username}
+                    onClick={() => togglePersona(persona.username)}
+                    disabled={!persona.analyzed}
+                    title={persona.analyzed ? undefined : 'Analyze this account first'}
+                    className={`px-2 py-1 text-xs font-mono rounded border transition-all duration-300 disabled:opacity-40 ${
+                      selected.includes(persona.username)
+                        ? 'bg-red-500/20 text-red-500/90 border-red-500/30'
+                        : 'bg-black/20 text-red-500/50 border-red-500/10 hover:bg-red-500/5 hover:border-red-500/20'
+                    }`}
+                  >
+                    {selected.includes(persona.username) && `${selected.indexOf(persona.username) + 1}. `}
+                    @{persona.username}{persona.username === ownUsername && ' (YOU)'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">TOPIC</div>
+              <textarea
+                value={topic}
+                onChange={e => setTopic(e.target.value)}
+                maxLength={280}
+                rows={2}
+                placeholder="What should they talk about?"
+                className="w-full bg-black/40 border border-red-500/20 rounded px-2 py-1 text-sm font-mono text-red-500/80 placeholder-red-500/30 focus:outline-none focus:border-red-500/40 resize-none"
+              />
+              <button
+                onClick={startRoom}
+                disabled={isRunning || selected.length < 2 || !topic.trim()}
+                className={buttonClass}
+              >
+                {isRunning ? 'OPENING...' : 'START'}
+              </button>
+            </div>
+
+            {rooms.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">EARLIER ROOMS</div>
+                <div className="space-y-1">
+                  {rooms.map(conversation => (
+                    <button
+                      key={conversation.id}
+                      onClick={() => openRoom(conversation)}
+                      className="w-full text-left px-2 py-1 text-xs font-mono rounded border border-red-500/10 text-red-500/60 hover:bg-red-500/5 hover:border-red-500/20 truncate"
+                    >
+                      {conversation.title}
+                      <span className="text-red-500/40"> · {new Date(conversation.updatedAt).toLocaleDateString()}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="text-xs font-mono text-red-500/50 mb-3">TOPIC: {room.topic}</div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3 pr-1">
+              {messages.length === 0 && (
+                <div className="text-red-400/60 text-sm italic">Nobody has spoken yet</div>
+              )}
+              {messages.map(msg => (
+                <div
+                  key={msg.id}
+                  className={`p-3 rounded border ${msg.role === 'user' ? 'border-red-500/30 bg-red-500/10 ml-8' : 'border-red-500/10 bg-black/20 mr-8'}`}
+                >
+                  <div className={`text-[10px] font-mono uppercase tracking-wider mb-1 ${speakerColor(msg.metadata?.speaker)}`}>
+                    @{msg.metadata?.speaker ?? (msg.role === 'user' ? ownUsername : '?')}
+                    {msg.role === 'user' && ' (YOU)'}
+                  </div>
+                  <div className="text-sm text-red-300/80 whitespace-pre-wrap">{msg.content}</div>
+                </div>
+              ))}
+              {isRunning && (
+                <div className="text-red-500/50 text-xs font-mono animate-pulse">THINKING...</div>
+              )}
+              <div ref={transcriptEnd} />
+            </div>
+
+            <div className="mt-4 pt-4 border-t border-red-500/20 space-y-2">
+              <div className="flex gap-2">
+                <button onClick={() => runTurns(1)} disabled={isRunning} className={buttonClass}>
+                  NEXT TURN
+                </button>
+                <button onClick={() => runTurns(room.participants.length)} disabled={isRunning} className={buttonClass}>
+                  FULL ROUND
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  value={interjection}
+                  onChange={e => setInterjection(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && !isRunning && interject()}
+                  placeholder="Jump in..."
+                  className="flex-1 min-w-0 bg-black/40 border border-red-500/20 rounded px-2 py-1 text-sm font-mono text-red-500/80 placeholder-red-500/30 focus:outline-none focus:border-red-500/40"
+                />
+                <button onClick={interject} disabled={isRunning || !interjection.trim()} className={buttonClass}>
+                  SEND
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
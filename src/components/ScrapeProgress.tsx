@@ -14,6 +14,7 @@ export function ScrapeProgress({ onComplete, onError }: ScrapeProgressProps) {
   const [error, setError] = useState<string | null>(null)
   const [tweets, setTweets] = useState<Tweet[]>([])
   const [phase, setPhase] = useState<string>('initializing')
+  const [counts, setCounts] = useState<{ newCount: number; knownCount: number } | null>(null)
 
   useEffect(() => {
     const eventSource = new EventSource('/api/scrape')
@@ -36,6 +37,12 @@ export function ScrapeProgress({ onComplete, onError }: ScrapeProgressProps) {
         if (data.progress) setProgress(data.progress)
         if (data.status) setStatus(data.status)
         if (data.phase) setPhase(data.phase)
+        if (data.scanProgress?.newCount !== undefined) {
+          setCounts({
+            newCount: data.scanProgress.newCount,
+            knownCount: data.scanProgress.knownCount ?? 0
+          })
+        }
         
         // Handle chunked tweet data
         if (data.tweets) {
@@ -100,6 +107,9 @@ export function ScrapeProgress({ onComplete, onError }: ScrapeProgressProps) {
           {phase === 'posts' && tweets.length > 0 && (
             <span>Found {tweets.length} tweets</span>
           )}
+          {counts && (
+            <span className="block">{counts.newCount} new, {counts.knownCount} already known</span>
+          )}
           {phase === 'analysis' && tweets.length > 0 && (
             <span>Ready to analyze {tweets.length} tweets for personality insights</span>
           )}
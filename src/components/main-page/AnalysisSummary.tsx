@@ -1,7 +1,9 @@
-import React from 'react';
-import { PersonalityAnalysis } from '@/lib/openai/types';
+import React, { useState } from 'react';
+import { PersonalityAnalysis, Trait } from '@/lib/openai/types';
 import { PersonalityTuning } from '@/types/personality';
+import { Tweet } from '@/types/scraper';
 import { Spinner } from '../ui/spinner';
+import { EvidenceTweets } from './EvidenceTweets';
 import ReactMarkdown from 'react-markdown';
 import { formatTraitName, formatTraitExplanation, formatInterestName } from '@/utils/formatting';
 
@@ -12,6 +14,8 @@ interface AnalysisSummaryProps {
   analysisElapsedTime: string | null;
   showAnalysisPrompt: boolean;
   accumulatedTweetsCount: number;
+  username: string;
+  tweets: Tweet[];  // The scraped tweets, to show the ones each finding cites
   onAnalyze: () => void;
   containerClassName?: string;
   retryState?: {
@@ -28,10 +32,15 @@ export const AnalysisSummary: React.FC<AnalysisSummaryProps> = ({
   analysisElapsedTime,
   showAnalysisPrompt,
   accumulatedTweetsCount,
+  username,
+  tweets,
   onAnalyze,
   containerClassName = "",
   retryState
 }) => {
+  // The trait or interest whose supporting tweets are shown
+  const [evidence, setEvidence] = useState<{ label: string; tweetIds: string[] } | null>(null);
+
   // Helper function to format retry message
   const getRetryMessage = () => {
     if (!retryState) return '';
@@ -88,6 +97,12 @@ export const AnalysisSummary: React.FC<AnalysisSummaryProps> = ({
             <div className="prose prose-red prose-invert max-w-none hover-text-glow">
               <ReactMarkdown>{analysis.summary}</ReactMarkdown>
             </div>
+            {analysis.tweetSlice && (
+              <div className="mt-3 text-xs text-red-500/50 tracking-wider">
+                Based on {analysis.tweetSlice.description}
+                {analysis.tweetSlice.scrapedAt && ` (scraped ${new Date(analysis.tweetSlice.scrapedAt).toLocaleDateString()})`}
+              </div>
+            )}
           </div>
 
           {/* Key Traits Section */}
@@ -99,12 +114,20 @@ export const AnalysisSummary: React.FC<AnalysisSummaryProps> = ({
             <div className="space-y-6">
               {analysis.traits
                 .filter(trait => tuning.traitModifiers[trait.name] > 0) // Only show enabled traits
-                .map((trait: { name: string; score: number; explanation: string }, index: number) => (
+                .map((trait: Trait, index: number) => (
                   <div key={`trait-${index}-${trait.name}`} className="hover-glow">
                     <div className="flex justify-between mb-2 items-center">
-                      <span className="text-red-400/90 tracking-wide text-[15px] capitalize font-bold">
+                      <button
+                        onClick={() => setEvidence({ label: formatTraitName(trait.name), tweetIds: trait.evidenceTweetIds ?? [] })}
+                        className="text-red-400/90 tracking-wide text-[15px] capitalize font-bold hover:text-red-400 text-left"
+                      >
                         {formatTraitName(trait.name)}
-                      </span>
+                      </button>
+                      {trait.evidenceTweetIds && trait.evidenceTweetIds.length > 0 && (
+                        <span className="text-xs text-red-500/50 tracking-wider">
+                          {trait.evidenceTweetIds.length} tweets
+                        </span>
+                      )}
                     </div>
                     <div className="text-[14px] leading-relaxed text-red-300/80 prose prose-red prose-invert max-w-none hover-text-glow pl-2 border-l border-red-500/10">
                       <ReactMarkdown>{formatTraitExplanation(trait.explanation)}</ReactMarkdown>
@@ -155,6 +178,10 @@ export const AnalysisSummary: React.FC<AnalysisSummaryProps> = ({
                   return (
                     <button 
                       key={interestName}
+                      onClick={() => setEvidence({
+                        label: formatInterestName(interestName),
+                        tweetIds: analysis.interestEvidence?.[interestName] ?? []
+                      })}
                       className="px-3 py-1.5 bg-red-500/5 border border-red-500/20 rounded-md text-red-300/90 text-[14px] tracking-wide hover:bg-red-500/10 hover:border-red-500/30 transition-colors duration-200 hover-glow"
                     >
                       {formatInterestName(interestName)}
@@ -173,6 +200,17 @@ export const AnalysisSummary: React.FC<AnalysisSummaryProps> = ({
             </div>
           </div>
 
+          {/* Supporting tweets for the selected trait or interest */}
+          {evidence && (
+            <EvidenceTweets
+              username={username}
+              label={evidence.label}
+              tweetIds={evidence.tweetIds}
+              tweets={tweets}
+              onClose={() => setEvidence(null)}
+            />
+          )}
+
           {/* Communication Style Section */}
           <div className="bg-black/20 rounded-lg p-6 backdrop-blur-sm border border-red-500/10 hover-glow ancient-border">
             <h4 className="text-sm font-bold text-red-500/90 tracking-wider uppercase flex items-center gap-2 mb-4">
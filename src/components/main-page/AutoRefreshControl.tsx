@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { ToggleButton } from '../ToggleButton';
+
+const INTERVAL_OPTIONS = [1, 3, 7, 14, 30];
+
+interface RefreshSchedule {
+  enabled: boolean;
+  intervalDays?: number;
+  nextRunAt?: string;
+  lastRunAt?: string | null;
+  lastStatus?: 'running' | 'analyzed' | 'skipped' | 'failed' | null;
+  lastNewTweets?: number | null;
+}
+
+const STATUS_LABELS: Record<NonNullable<RefreshSchedule['lastStatus']>, string> = {
+  running: 'REFRESHING NOW',
+  analyzed: 'RE-ANALYZED',
+  skipped: 'NOT ENOUGH NEW TWEETS',
+  failed: 'FAILED'
+};
+
+// Opt in to re-scraping (and re-analyzing) this profile every N days
+export function AutoRefreshControl() {
+  const [schedule, setSchedule] = useState<RefreshSchedule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/refresh-schedule')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setSchedule(data))
+      .catch(error => console.error('Failed to load refresh schedule:', error));
+  }, []);
+
+  const updateSchedule = async (changes: { enabled?: boolean; intervalDays?: number }) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/refresh-schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save refresh schedule');
+      }
+      setSchedule(await response.json());
+    } catch (error) {
+      console.error('Failed to save refresh schedule:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!schedule) return null;
+
+  const intervalDays = schedule.intervalDays ?? 7;
+
+  return (
+    <div className={`space-y-2 ${isSaving ? 'opacity-50 pointer-events-none' : ''}`}>
+      <ToggleButton
+        value={schedule.enabled}
+        onChange={enabled => updateSchedule({ enabled, intervalDays })}
+        label={schedule.enabled ? `AUTO-REFRESH: EVERY ${intervalDays}D` : 'AUTO-REFRESH: OFF'}
+      />
+      {schedule.enabled && (
+        <>
+          <div className="flex gap-1">
+            {INTERVAL_OPTIONS.map(days => (
+              <button
+                key={days}
+                onClick={() => updateSchedule({ intervalDays: days })}
+                className={`flex-1 px-2 py-1 text-xs font-mono rounded border transition-all duration-300 ${
+                  days === intervalDays
+                    ? 'bg-red-500/20 text-red-500/90 border-red-500/30'
+                    : 'bg-black/20 text-red-500/50 border-red-500/10 hover:bg-red-500/5 hover:border-red-500/20'
+                }`}
+              >
+                {days}D
+              </button>
+            ))}
+          </div>
+          <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">
+            {schedule.nextRunAt && (
+              <div>NEXT: {new Date(schedule.nextRunAt).toLocaleString()}</div>
+            )}
+            {schedule.lastStatus && (
+              <div>
+                LAST: {STATUS_LABELS[schedule.lastStatus]}
+                {schedule.lastNewTweets != null && ` (${schedule.lastNewTweets} NEW)`}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useRef, Dispatch, SetStateAction, useCallback, memo } from 'react';
 import { Tweet, TwitterProfile, EventData } from '@/types/scraper';
 import { TwitterAPITweet } from '@/lib/twitter/types';
-import { PersonalityAnalysis, CommunicationLevel, MissingInterestsError, MissingPsychoanalysisError, MissingSocialMetricsError, MissingEmotionalToneError, MissingVocabularyPatternsError, MissingCommunicationPatternsError } from '@/lib/openai/types';
-import type { Conversation } from '@/types/conversation';
+import { PersonalityAnalysis, AnalysisChunkProgress, CommunicationLevel, MissingInterestsError, MissingPsychoanalysisError, MissingSocialMetricsError, MissingEmotionalToneError, MissingVocabularyPatternsError, MissingCommunicationPatternsError } from '@/lib/openai/types';
+import type { Conversation, ConversationSearchResult, MessageSiblings } from '@/types/conversation';
 import type { Message as BaseAPIMessage } from '@/types/conversation';
 import ReactMarkdown from 'react-markdown';
 import { Spinner } from '../ui/spinner';
@@ -14,11 +14,16 @@ import { CacheStatusIndicator } from '../CacheStatusIndicator';
 import { TweetList } from './TweetList';
 import { useQueryClient } from '@tanstack/react-query';
 import { PsychoanalysisModal } from '../PsychoanalysisModal';
+import { AnalysisHistoryModal } from '../AnalysisHistoryModal';
+import { RoomChatModal } from '../RoomChatModal';
 import { TuningUpdateMessage } from '../TuningUpdateMessage';
-import { Virtuoso } from 'react-virtuoso';
+import { Virtuoso, VirtuosoHandle } from 'react-virtuoso';
 import { ConsentModal, CompletionModal } from '../modals';
 import { AnalysisSummary } from './AnalysisSummary';
 import { FineTuningPanel } from './FineTuningPanel';
+import { AutoRefreshControl } from './AutoRefreshControl';
+import { PersonaSwitcher } from './PersonaSwitcher';
+import { followJobEvents, waitForJobResult } from '@/lib/job-events';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -28,6 +33,10 @@ interface ChatBoxProps {
   profile: TwitterProfile
   onClose: () => void
   onTweetsUpdate: Dispatch<SetStateAction<Tweet[]>>
+  // Set when chatting with an account the user cloned rather than their own
+  target?: string | null
+  ownUsername?: string
+  onPersonaChange?: (target: string | null) => void
 }
 
 interface PersonalityTuning {
@@ -49,6 +58,8 @@ interface ScanProgress {
   currentBatch?: number
   totalBatches?: number
   message?: string
+  newCount?: number
+  knownCount?: number
   isRateLimited?: boolean
   rateLimitReset?: number
 }
@@ -74,6 +85,9 @@ interface APIMessage extends BaseAPIMessage {
 }
 
 interface ChatBoxMessage {
+  id?: number;  // Stored message id, for jumping to search matches
+  parentId?: number | null;  // The stored message this one follows
+  siblings?: MessageSiblings;  // Alternatives to page through: edits of this turn, or regenerated replies
   text: string;
   isUser: boolean;
   timestamp: string;
@@ -85,6 +99,12 @@ interface ChatBoxMessage {
   };
 }
 
+// Where a chat turn goes when it doesn't continue the branch on show
+interface ChatBranchRequest {
+  parentMessageId?: number | null;  // Editing: the message the edit follows
+  regenerateMessageId?: number;     // Regenerating: the reply to write an alternative to
+}
+
 // ============================================================================
 // PERSONALITY FINE TUNING TYPES
 // ============================================================================
@@ -115,6 +135,18 @@ interface APIMessage extends BaseAPIMessage {
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
+// A stored message as the chat shows it, keeping its place in the branch
+const toChatBoxMessage = (msg: APIMessage): ChatBoxMessage => ({
+  id: msg.id,
+  parentId: msg.parentId,
+  siblings: msg.siblings,
+  text: msg.content || '',
+  isUser: msg.role === 'user',
+  timestamp: msg.timestamp || new Date().toLocaleTimeString(),
+  type: 'chat' as const,
+  ...(msg.tuningInfo && { tuningInfo: msg.tuningInfo })
+});
+
 const formatTraitName = (name: string) => {
   if (!name) return '';
   
@@ -200,6 +232,24 @@ const formatInterestName = (interest: string) => {
     .join(' ');
 };
 
+// "QUEUED #3 · ~40S" for requests waiting in the OpenAI queue
+const formatQueueStatus = ({ position, etaMs }: { position: number; etaMs: number }) => {
+  const seconds = Math.ceil(etaMs / 1000);
+  const wait = seconds >= 60 ? `~${Math.ceil(seconds / 60)}M` : `~${seconds}S`;
+  return seconds > 0 ? `QUEUED #${position} · ${wait}` : `QUEUED #${position}`;
+};
+
+// Drop a request that is still waiting in the OpenAI queue. keepalive lets it
+// go out while the page unloads; a request that already started keeps running.
+const cancelQueuedRequest = (queueId: string) => {
+  fetch(`/api/queue/${encodeURIComponent(queueId)}?queuedOnly=true`, {
+    method: 'DELETE',
+    keepalive: true
+  }).catch(() => {
+    // Nothing to do if it has already left the queue
+  });
+};
+
 // ============================================================================
 // HOOKS
 // ============================================================================
@@ -235,6 +285,22 @@ const useCountdown = (initialTime: number) => {
   return { timeLeft, resetTimer };
 };
 
+const ANALYSIS_CHUNK_LABELS: Record<AnalysisChunkProgress['chunk'], string> = {
+  BASIC_INFO: 'TRAITS',
+  INTERESTS: 'INTERESTS',
+  SOCIAL_METRICS: 'SOCIAL',
+  COMMUNICATION: 'COMMUNICATION',
+  VOCABULARY: 'VOCABULARY',
+  EMOTIONAL: 'EMOTIONAL'
+};
+
+const ANALYSIS_CHUNK_STYLES: Record<AnalysisChunkProgress['status'], string> = {
+  pending: 'border-red-500/10 text-red-500/30',
+  processing: 'border-red-500/30 text-red-500/80 animate-pulse',
+  completed: 'border-red-500/40 bg-red-500/10 text-red-400/90',
+  failed: 'border-yellow-500/40 text-yellow-500/80'
+};
+
 // ============================================================================
 // MEMOIZED COMPONENTS
 // ============================================================================
@@ -243,29 +309,126 @@ const MemoizedMarkdown = memo(({ content }: { content: string }) => (
 ));
 MemoizedMarkdown.displayName = 'MemoizedMarkdown';
 
-const ChatMessage = memo(({ message, isUser }: { message: ChatBoxMessage, isUser: boolean }) => (
-  <div 
-    className={`flex ${isUser ? 'justify-end' : 'justify-start'} p-4`}
-  >
+interface ChatMessageProps {
+  message: ChatBoxMessage;
+  isUser: boolean;
+  highlighted?: boolean;
+  canRegenerate?: boolean;    // Only the latest reply is regenerated
+  actionsDisabled?: boolean;  // While a reply is being written
+  onPageBranch?: (messageId: number) => void;
+  onEdit?: (message: ChatBoxMessage) => void;
+  onRegenerate?: (message: ChatBoxMessage) => void;
+}
+
+const MESSAGE_ACTION_CLASS = 'px-1 hover:text-red-400 hover-text-glow disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+const ChatMessage = memo(({
+  message,
+  isUser,
+  highlighted = false,
+  canRegenerate = false,
+  actionsDisabled = false,
+  onPageBranch,
+  onEdit,
+  onRegenerate
+}: ChatMessageProps) => {
+  const siblings = message.siblings && message.siblings.ids.length > 1 ? message.siblings : null;
+  const showEdit = isUser && onEdit && message.id !== undefined;
+  const showRegenerate = !isUser && canRegenerate && onRegenerate && message.id !== undefined;
+
+  return (
     <div 
-      className={`max-w-[80%] rounded backdrop-blur-sm border border-red-500/10 shadow-lg hover-glow float
-        ${isUser 
-          ? 'bg-red-500/5 text-red-400/90' 
-          : 'bg-black/40 text-red-300/90'
-        } px-4 py-2 text-sm`}
+      id={message.id !== undefined ? `chat-message-${message.id}` : undefined}
+      className={`flex ${isUser ? 'justify-end' : 'justify-start'} p-4`}
     >
-      <div className="prose prose-red prose-invert max-w-none hover-text-glow whitespace-pre-wrap">
-        <MemoizedMarkdown content={message.text} />
+      <div className={`max-w-[80%] flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+        <div 
+          className={`rounded backdrop-blur-sm border ${highlighted ? 'border-red-500/60 ring-1 ring-red-500/40' : 'border-red-500/10'} shadow-lg hover-glow float
+            ${isUser 
+              ? 'bg-red-500/5 text-red-400/90' 
+              : 'bg-black/40 text-red-300/90'
+            } px-4 py-2 text-sm`}
+        >
+          <div className="prose prose-red prose-invert max-w-none hover-text-glow whitespace-pre-wrap">
+            <MemoizedMarkdown content={message.text} />
+          </div>
+        </div>
+        {(siblings || showEdit || showRegenerate) && (
+          <div className="flex items-center gap-1 mt-1 text-[10px] font-mono tracking-wider text-red-500/50">
+            {siblings && onPageBranch && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onPageBranch(siblings.ids[siblings.index - 1])}
+                  disabled={actionsDisabled || siblings.index === 0}
+                  title={isUser ? 'Previous edit' : 'Previous response'}
+                  className={MESSAGE_ACTION_CLASS}
+                >
+                  ‹
+                </button>
+                <span>{siblings.index + 1}/{siblings.ids.length}</span>
+                <button
+                  type="button"
+                  onClick={() => onPageBranch(siblings.ids[siblings.index + 1])}
+                  disabled={actionsDisabled || siblings.index === siblings.ids.length - 1}
+                  title={isUser ? 'Next edit' : 'Next response'}
+                  className={MESSAGE_ACTION_CLASS}
+                >
+                  ›
+                </button>
+              </>
+            )}
+            {showEdit && (
+              <button
+                type="button"
+                onClick={() => onEdit(message)}
+                disabled={actionsDisabled}
+                className={`${MESSAGE_ACTION_CLASS} uppercase`}
+              >
+                Edit
+              </button>
+            )}
+            {showRegenerate && (
+              <button
+                type="button"
+                onClick={() => onRegenerate(message)}
+                disabled={actionsDisabled}
+                className={`${MESSAGE_ACTION_CLASS} uppercase`}
+              >
+                Regenerate
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
+  );
+});
+ChatMessage.displayName = 'ChatMessage';
+
+// One badge per analysis chunk, e.g. "INTERESTS ×2" for a chunk on its second attempt
+const AnalysisChunkStatusList = memo(({ chunks }: { chunks: AnalysisChunkProgress[] }) => (
+  <div className="flex flex-wrap justify-center gap-1.5">
+    {chunks.map(chunk => (
+      <span
+        key={chunk.chunk}
+        title={chunk.error}
+        className={`px-2 py-0.5 rounded border text-[10px] font-mono tracking-wider ${ANALYSIS_CHUNK_STYLES[chunk.status]}`}
+      >
+        {ANALYSIS_CHUNK_LABELS[chunk.chunk]}
+        {chunk.attempts > 1 && ` ×${chunk.attempts}`}
+      </span>
+    ))}
   </div>
 ));
-ChatMessage.displayName = 'ChatMessage';
+AnalysisChunkStatusList.displayName = 'AnalysisChunkStatusList';
 
 // ============================================================================
 // MAIN CHATBOX COMPONENT
 // ============================================================================
-export default function ChatBox({ tweets: initialTweets, profile, onClose, onTweetsUpdate }: ChatBoxProps) {
+export default function ChatBox({ tweets: initialTweets, profile, onClose, onTweetsUpdate, target, ownUsername, onPersonaChange }: ChatBoxProps) {
+  // Scrape/analyze routes act on the cloned account when there is a target
+  const targetParam = target ? `?target=${encodeURIComponent(target)}` : ''
   const queryClient = useQueryClient();
   const [messages, setMessages] = useState<ChatBoxMessage[]>([])
   const [input, setInput] = useState('')
@@ -277,6 +440,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
   const [showConsent, setShowConsent] = useState(false)
   const [showComplete, setShowComplete] = useState(false)
   const [showPsychoanalysis, setShowPsychoanalysis] = useState(false)
+  const [showAnalysisHistory, setShowAnalysisHistory] = useState(false)
+  const [showRoomChat, setShowRoomChat] = useState(false)
   const [abortController, setAbortController] = useState<AbortController | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [showAnalysisPrompt, setShowAnalysisPrompt] = useState(false)
@@ -292,11 +457,30 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     }
   })
   const [isTyping, setIsTyping] = useState(false)
+  // The reply as it streams in, until it is added to messages
+  const [streamingText, setStreamingText] = useState<string | null>(null)
+  // An earlier message being rewritten in the input; sending it starts a new branch
+  const [editingMessage, setEditingMessage] = useState<ChatBoxMessage | null>(null)
+  const chatAbortRef = useRef<AbortController | null>(null)
+  // Place in the OpenAI queue while a chat reply or analysis is waiting to start
+  const [chatQueueStatus, setChatQueueStatus] = useState<{ position: number; etaMs: number } | null>(null)
+  const [analysisQueueStatus, setAnalysisQueueStatus] = useState<{ position: number; etaMs: number } | null>(null)
+  const queuedAnalysisJobRef = useRef<string | null>(null)
+  // Per-chunk status of the running analysis
+  const [analysisChunks, setAnalysisChunks] = useState<AnalysisChunkProgress[] | null>(null)
   const [analysisStartTime, setAnalysisStartTime] = useState<number | null>(null)
   const [analysisElapsedTime, setAnalysisElapsedTime] = useState<string | null>(null)
   const [scrapingStartTime, setScrapingStartTime] = useState<number | null>(null)
   const [scrapingElapsedTime, setScrapingElapsedTime] = useState<string | null>(null)
+  const [scrapeJobId, setScrapeJobId] = useState<string | null>(null)
+  // True while the POST /api/scrape response is delivering progress
+  const [isScrapeStreamAttached, setIsScrapeStreamAttached] = useState(false)
+  const lastScrapeEventIdRef = useRef<string | undefined>(undefined)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const virtuosoRef = useRef<VirtuosoHandle>(null)
+  // A search match to scroll to once its conversation loads, instead of the bottom
+  const pendingFocusRef = useRef<number | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [activeConversationId, setActiveConversationId] = useState<number>()
@@ -397,7 +581,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         }
 
         // Load conversations
-        const response = await fetch('/api/conversations');
+        const response = await fetch(`/api/conversations?persona=${encodeURIComponent(profile.name || '')}`);
         if (!response.ok) {
           throw new Error('Failed to fetch conversations');
         }
@@ -414,12 +598,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
             if (messagesResponse.ok) {
               const messagesData = await messagesResponse.json();
               if (messagesData.success && Array.isArray(messagesData.data)) {
-                setMessages(messagesData.data.map((msg: APIMessage) => ({
-                  text: msg.content || '',
-                  isUser: msg.role === 'user',
-                  timestamp: msg.timestamp || new Date().toLocaleTimeString(),
-                  type: 'chat' as const
-                })));
+                setMessages(messagesData.data.map(toChatBoxMessage));
               }
             }
           }
@@ -686,24 +865,21 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
   };
 
   // Update the generatePersonalityResponse function to handle mobile timeouts
-  const generatePersonalityResponse = async (userMessage: string) => {
+  const generatePersonalityResponse = async (userMessage: string, branch?: ChatBranchRequest) => {
     setIsChatLoading(true)
     setError(null)
     try {
       setIsTyping(true)
 
-      // Convert messages to the format expected by the API
-      const conversationHistory = messages.map(msg => ({
-        role: msg.isUser ? 'user' as const : 'assistant' as const,
-        content: msg.text
-      }))
-
       // Get the current tuning state directly instead of using ref
       const currentTuning = tuning;
 
-      // Add timeout handling for mobile/tablet
+      // Stop is user-initiated; the timer only fires if the stream goes quiet
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 90000); // 90 seconds for mobile/tablet
+      chatAbortRef.current = controller;
+      let timedOut = false;
+      let timeoutId = setTimeout(() => { timedOut = true; controller.abort(); }, 90000); // 90 seconds for mobile/tablet
+      let streamed = '';
 
       try {
         const response = await fetch('/api/chat', {
@@ -716,25 +892,71 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
             profile,
             analysis,
             tuning: currentTuning,
-            conversationHistory,
-            conversationId: activeConversationId
+            consciousness: personalityCache.data?.consciousness,
+            conversationId: activeConversationId,
+            isRegeneration: branch?.regenerateMessageId !== undefined,
+            regenerateMessageId: branch?.regenerateMessageId,
+            parentMessageId: branch?.parentMessageId,
+            stream: true
           }),
           signal: controller.signal
         });
 
-        clearTimeout(timeoutId);
-        
         if (!response.ok) {
           throw new Error('Failed to get response');
         }
-        
-        const data = await response.json();
+
+        const reader = response.body?.getReader();
+        if (!reader) throw new Error('Failed to get response');
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let conversationId: number | null = null;
+        let finalResponse: string | null = null;
+
+        while (finalResponse === null) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          clearTimeout(timeoutId);
+          timeoutId = setTimeout(() => { timedOut = true; controller.abort(); }, 90000);
+
+          // Events can be split across chunks; keep the unfinished tail for the next read
+          buffer += decoder.decode(value, { stream: true });
+          const events = buffer.split('\n\n');
+          buffer = events.pop() ?? '';
+
+          for (const event of events) {
+            if (!event.startsWith('data: ')) continue;
+            const data = JSON.parse(event.slice(6));
+            if (data.type === 'start') {
+              conversationId = data.conversationId;
+            } else if (data.type === 'queued') {
+              setChatQueueStatus({ position: data.position, etaMs: data.etaMs });
+            } else if (data.type === 'delta') {
+              setChatQueueStatus(null);
+              streamed += data.content;
+              setStreamingText(streamed);
+            } else if (data.type === 'done') {
+              finalResponse = data.response;
+            } else if (data.type === 'cancelled') {
+              finalResponse = streamed;
+            } else if (data.type === 'error') {
+              throw new Error(data.error || 'Failed to get response');
+            }
+          }
+        }
+
+        clearTimeout(timeoutId);
+        if (finalResponse === null) {
+          throw new Error('Response ended unexpectedly - please try again');
+        }
         
         // Update active conversation ID if this is a new conversation
-        if (data.conversationId && !activeConversationId) {
-          setActiveConversationId(data.conversationId);
+        if (conversationId && !activeConversationId) {
+          setActiveConversationId(conversationId);
           // Fetch updated conversation list
-          const convsResponse = await fetch('/api/conversations');
+          const convsResponse = await fetch(`/api/conversations?persona=${encodeURIComponent(profile.name || '')}`);
           if (convsResponse.ok) {
             const convsData = await convsResponse.json();
             if (convsData.success && Array.isArray(convsData.data)) {
@@ -744,12 +966,17 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         }
 
         setIsTyping(false);
-        return data.response;
+        return finalResponse || null;
 
       } catch (error: unknown) {
         clearTimeout(timeoutId);
         if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error('Response timed out - please try again');
+          if (timedOut) {
+            throw new Error('Response timed out - please try again');
+          }
+          // Stopped by the user: the server keeps what had arrived, so show it too
+          setIsTyping(false);
+          return streamed || null;
         }
         throw error;
       }
@@ -759,10 +986,17 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
       setError(err instanceof Error ? err.message : 'Failed to get response');
       return null;
     } finally {
+      chatAbortRef.current = null;
+      setStreamingText(null);
+      setChatQueueStatus(null);
       setIsChatLoading(false);
     }
   };
 
+  const handleStopResponse = () => {
+    chatAbortRef.current?.abort();
+  };
+
   // Add message batching effect
   useEffect(() => {
     if (messageQueue.length === 0) return;
@@ -780,6 +1014,21 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     setMessageQueue(prev => [...prev, message]);
   }, []);
 
+  // Replace the shown messages with the branch on show, as stored
+  const refreshMessages = async (conversationId: number) => {
+    try {
+      const response = await fetch('/api/conversations/' + conversationId + '/messages');
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && Array.isArray(data.data)) {
+          setMessages(data.data.map(toChatBoxMessage));
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing messages:', error);
+    }
+  };
+
   // Update handleSubmit to use the new addMessage function
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -788,6 +1037,23 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     const userMessage = input.trim();
     setInput('');
 
+    const editIndex = editingMessage ? messages.findIndex(msg => msg.id === editingMessage.id) : -1;
+    setEditingMessage(null);
+
+    if (analysis && editIndex !== -1 && activeConversationId) {
+      // The edit follows the same message the original did, so it becomes its sibling
+      const history = messages.slice(0, editIndex);
+      setMessages([...history, {
+        text: userMessage,
+        isUser: true,
+        timestamp: new Date().toLocaleTimeString(),
+        type: 'chat'
+      }]);
+      await generatePersonalityResponse(userMessage, { parentMessageId: messages[editIndex].parentId ?? null });
+      await refreshMessages(activeConversationId);
+      return;
+    }
+
     if (analysis) {
       // Add user message to queue
       addMessage({
@@ -828,29 +1094,204 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
 
       // Sync with server if needed
       if (activeConversationId) {
-        try {
-          const response = await fetch('/api/conversations/' + activeConversationId + '/messages');
-          if (response.ok) {
-            const data = await response.json();
-            if (data.success && Array.isArray(data.data)) {
-              const newMessages = data.data.map((msg: APIMessage) => ({
-                text: msg.content || '',
-                isUser: msg.role === 'user',
-                timestamp: new Date().toLocaleTimeString(),
-                type: 'chat' as const,
-                ...(msg.tuningInfo && { tuningInfo: msg.tuningInfo })
-              }));
-              setMessages(newMessages); // Replace all messages with server state
-            }
-          }
-        } catch (error) {
-          console.error('Error syncing messages:', error);
-        }
+        await refreshMessages(activeConversationId);
       }
     }
   };
 
+  // Editing puts the message back in the input; sending it starts a new branch from there
+  const handleEditMessage = useCallback((message: ChatBoxMessage) => {
+    setEditingMessage(message);
+    setInput(message.text);
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setInput('');
+  };
+
+  // A new reply to the same message; the one it replaces stays a page away
+  const handleRegenerate = async (message: ChatBoxMessage) => {
+    if (!analysis || !activeConversationId || message.id === undefined || isChatLoading) return;
+
+    const promptIndex = messages.findIndex(msg => msg.id !== undefined && msg.id === message.parentId);
+    if (promptIndex === -1) return;
+
+    setMessages(messages.slice(0, promptIndex + 1));
+    await generatePersonalityResponse(messages[promptIndex].text, { regenerateMessageId: message.id });
+    await refreshMessages(activeConversationId);
+  };
+
+  // Show another edit or response in this one's place, with the conversation that followed it
+  const handlePageBranch = async (messageId: number) => {
+    if (!activeConversationId || isChatLoading) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${activeConversationId}/branches`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ messageId })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to switch branch');
+      }
+
+      const data = await response.json();
+      if (data.success && Array.isArray(data.data)) {
+        setMessages(data.data.map(toChatBoxMessage).slice(-MAX_MESSAGES));
+      }
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      setError(error instanceof Error ? error.message : 'Failed to switch branch');
+    }
+  };
+
+  // Navigating to another page in the app unmounts the chat box
+  useEffect(() => {
+    return () => {
+      if (queuedAnalysisJobRef.current) {
+        cancelQueuedRequest(queuedAnalysisJobRef.current);
+      }
+    };
+  }, []);
+
   // Update handleAnalyze to handle both initial analysis and updates
+  // Analysis job still waiting for a result, so a reload can pick it up
+  const analysisJobKey = `analysisJob:${profile.name}`;
+
+  // POST /api/analyze. If the connection drops, the analysis keeps running on the
+  // server and its result is read from the job's event stream instead.
+  const requestAnalysis = async (body: Record<string, unknown>, signal: AbortSignal) => {
+    const jobId = crypto.randomUUID();
+    sessionStorage.setItem(analysisJobKey, jobId);
+
+    // The job id is also the analysis's queue id: show its place in line, and
+    // give up the place if the page is closed before it starts
+    queuedAnalysisJobRef.current = jobId;
+    const stopFollowing = followJobEvents<{ type?: string; phase?: string; queuePosition?: number; etaMs?: number; analysisChunks?: AnalysisChunkProgress[] }>(jobId, {
+      onEvent: (data) => {
+        setAnalysisQueueStatus(data.phase === 'queued' && data.queuePosition
+          ? { position: data.queuePosition, etaMs: data.etaMs ?? 0 }
+          : null);
+        if (data.analysisChunks) {
+          setAnalysisChunks(data.analysisChunks);
+        }
+        if (data.phase !== 'queued') {
+          queuedAnalysisJobRef.current = null;
+        }
+      }
+    });
+    const leaveQueue = () => cancelQueuedRequest(jobId);
+    window.addEventListener('pagehide', leaveQueue);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`/api/analyze${targetParam}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...body, jobId }),
+          signal
+        });
+      } catch (error) {
+        if (error instanceof TypeError) {
+          console.warn('Analysis request interrupted, waiting for the job result:', error);
+          return await waitForJobResult<PersonalityAnalysis>(jobId, { signal });
+        }
+        throw error;
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to analyze personality');
+      }
+
+      return await response.json();
+    } finally {
+      sessionStorage.removeItem(analysisJobKey);
+      window.removeEventListener('pagehide', leaveQueue);
+      stopFollowing();
+      queuedAnalysisJobRef.current = null;
+      setAnalysisQueueStatus(null);
+      setAnalysisChunks(null);
+    }
+  };
+
+  // Re-run only the chunks a partial analysis is missing
+  const handleRetryFailedChunks = async () => {
+    if (!analysis?.partial || isAnalyzing) return;
+
+    setIsAnalyzing(true);
+    setError(null);
+    setAnalysisStartTime(Date.now());
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 180000);
+    try {
+      const data: PersonalityAnalysis = await requestAnalysis({
+        tweets: accumulatedTweets,
+        profile,
+        resumeJobId: analysis.partial.jobId
+      }, controller.signal);
+
+      setAnalysis(data);
+      await personalityCache.saveToCache(data);
+    } catch (error) {
+      console.error('Failed to retry analysis:', error);
+      setError(error instanceof Error ? error.message : 'Failed to retry analysis');
+    } finally {
+      clearTimeout(timeoutId);
+      setIsAnalyzing(false);
+      setAnalysisStartTime(null);
+    }
+  };
+
+  const handleResumedAnalysis = async (result: PersonalityAnalysis) => {
+    setAnalysis(result);
+    setShowPsychoanalysis(true);
+    try {
+      await personalityCache.saveToCache(result);
+    } catch (error) {
+      console.error('Failed to cache resumed analysis:', error);
+    }
+  };
+  const handleResumedAnalysisRef = useRef(handleResumedAnalysis);
+  handleResumedAnalysisRef.current = handleResumedAnalysis;
+
+  // Pick up an analysis that was still running when the page was reloaded
+  useEffect(() => {
+    if (!profile.name) return;
+
+    const key = `analysisJob:${profile.name}`;
+    const jobId = sessionStorage.getItem(key);
+    if (!jobId) return;
+
+    console.log('Resuming analysis job:', jobId);
+    const controller = new AbortController();
+    setIsAnalyzing(true);
+    setAnalysisStartTime(Date.now());
+
+    waitForJobResult<PersonalityAnalysis>(jobId, { signal: controller.signal })
+      .then(result => handleResumedAnalysisRef.current(result))
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          setError(error instanceof Error ? error.message : 'Failed to analyze personality');
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          sessionStorage.removeItem(key);
+          setIsAnalyzing(false);
+          setAnalysisStartTime(null);
+        }
+      });
+
+    return () => controller.abort();
+  }, [profile.name]);
+
   const handleAnalyze = async () => {
     // Check cooldown but don't enforce yet
     const cooldownCheck = await checkCooldown('analyze');
@@ -940,7 +1381,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
 
         // Update last analysis time since we used cache
         try {
-          await fetch('/api/analyze/update-time', {
+          await fetch(`/api/analyze/update-time${targetParam}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' }
           });
@@ -956,24 +1397,13 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
       const timeoutId = setTimeout(() => controller.abort(), 180000); // 3 minutes for mobile/tablet
 
       try {
-        const response = await fetch('/api/analyze', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            tweets: accumulatedTweets,
-            profile,
-            currentTuning: analysis ? tuning : undefined // Only send tuning if updating
-          }),
-          signal: controller.signal
-        });
+        const data = await requestAnalysis({
+          tweets: accumulatedTweets,
+          profile,
+          currentTuning: analysis ? tuning : undefined // Only send tuning if updating
+        }, controller.signal);
 
         clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error('Failed to analyze personality');
-        }
-
-        const data = await response.json();
         
         // Handle retry states from error responses
         if (data.error && data.retryState) {
@@ -1053,7 +1483,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
 
         // Update last analysis time since analysis was successful
         try {
-          await fetch('/api/analyze/update-time', {
+          await fetch(`/api/analyze/update-time${targetParam}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' }
           });
@@ -1068,6 +1498,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
+                personaUsername: profile.name,
                 analysis: data,
                 tuning: {
                   traitModifiers: newTraitModifiers,
@@ -1195,24 +1626,13 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
       const timeoutId = setTimeout(() => controller.abort(), 180000); // 3 minutes for mobile/tablet
 
       try {
-        const response = await fetch('/api/analyze', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            tweets: accumulatedTweets,
-            profile,
-            currentTuning
-          }),
-          signal: controller.signal
-        });
+        const newAnalysis = await requestAnalysis({
+          tweets: accumulatedTweets,
+          profile,
+          currentTuning
+        }, controller.signal);
 
         clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          throw new Error('Failed to analyze personality');
-        }
-
-        const newAnalysis = await response.json();
         
         // Preserve existing communication style values
         const preservedCommunicationStyle = {
@@ -1291,6 +1711,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
+              personaUsername: profile.name,
               analysis: finalAnalysis,
               tuning: {
                 traitModifiers,
@@ -1341,7 +1762,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
   // Update checkCooldown function to use countdown
   const checkCooldown = async (operation: 'scrape' | 'analyze') => {
     try {
-      const response = await fetch(`/api/cooldown?operation=${operation}`);
+      const targetQuery = target ? `&target=${encodeURIComponent(target)}` : '';
+      const response = await fetch(`/api/cooldown?operation=${operation}${targetQuery}`);
       const data = await response.json();
       
       const countdown = operation === 'scrape' ? scrapeCountdown : analyzeCountdown;
@@ -1441,7 +1863,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
       quotes: 0
     },
     images: [],
-    isReply: apiTweet.isReply
+    isReply: apiTweet.isReply,
+    lang: apiTweet.lang
   });
 
   // Update the tweet filtering logic with proper types
@@ -1506,6 +1929,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     setLoading(false);
     setAbortController(null);
     setScrapingStartTime(null);
+    setScrapeJobId(null);
+    setIsScrapeStreamAttached(false);
 
     // Cleanup progress unless preserving
     if (!preserveProgress) {
@@ -1572,11 +1997,13 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
       console.error('Error in final tweet fetch:', error);
     } finally {
       // Set final states
-      setScanProgress({
+      setScanProgress(prev => ({
         phase: 'complete',
         count: finalTweetCount || accumulatedTweets.length,
+        newCount: prev?.newCount,
+        knownCount: prev?.knownCount,
         message: `Collection complete: ${finalTweetCount || accumulatedTweets.length} tweets found`
-      });
+      }));
       cleanupState({ isComplete: true, preserveProgress: true });
       
       // Final cache invalidation
@@ -1612,9 +2039,14 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
 
     const controller = new AbortController();
     setAbortController(controller);
+    setIsScrapeStreamAttached(true);
+    lastScrapeEventIdRef.current = undefined;
+
+    let jobId: string | undefined;
+    let finished = false;
 
     try {
-      const response = await fetch('/api/scrape', {
+      const response = await fetch(`/api/scrape${targetParam}`, {
         method: 'POST',
         signal: controller.signal,
         headers: { 'Content-Type': 'application/json' },
@@ -1626,6 +2058,16 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         })
       });
 
+      // A scrape is already running for this user - follow that one instead
+      if (response.status === 409) {
+        const { jobId: activeJobId } = await response.json();
+        if (activeJobId) {
+          setScrapeJobId(activeJobId);
+          setIsScrapeStreamAttached(false);
+          return;
+        }
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -1644,7 +2086,15 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         
         if (done) {
           console.log('Stream complete');
-          await handleCompletion();
+          // Ended before the final event: the job is still running, resume from the event stream
+          if (jobId && !finished) {
+            console.log('Scrape stream dropped, resuming from job events');
+            setIsScrapeStreamAttached(false);
+            return;
+          }
+          if (!jobId) {
+            await handleCompletion();
+          }
           return;
         }
 
@@ -1653,9 +2103,13 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         const lines = text.split('\n');
         
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
+          if (line.startsWith('id: ')) {
+            lastScrapeEventIdRef.current = line.slice(4).trim();
+          } else if (line.startsWith('data: ')) {
             try {
               const data = JSON.parse(line.slice(6));
+              jobId = data.jobId ?? jobId;
+              finished = finished || data.type === 'complete' || data.type === 'error';
               handleEventData(data);
             } catch (err) {
               console.error('Failed to parse:', line, err);
@@ -1664,6 +2118,13 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         }
       }
     } catch (error: unknown) {
+      // Lost the connection mid-scrape; the job keeps running on the server
+      if (jobId && !finished && !controller.signal.aborted) {
+        console.warn('Scrape stream interrupted, resuming from job events:', error);
+        setIsScrapeStreamAttached(false);
+        return;
+      }
+
       console.error('Scraping error:', error);
       cleanupState({ 
         isError: true, 
@@ -1676,6 +2137,11 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
   const handleEventData = (data: EventData) => {
     console.log('Received event data:', data);
 
+    // Remember the job so it can be cancelled or reattached to
+    if (data.jobId) {
+      setScrapeJobId(data.jobId);
+    }
+
     // Handle errors first
     if (data.error) {
       console.error('Received error event:', data.error);
@@ -1710,6 +2176,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
           total: data.scanProgress.total,
           currentBatch: data.scanProgress.currentBatch,
           totalBatches: data.scanProgress.totalBatches,
+          newCount: data.scanProgress.newCount,
+          knownCount: data.scanProgress.knownCount,
           message: data.scanProgress.message || data.status || 
             `${phase === 'posts' ? 'SCANNING POSTS' : phase === 'replies' ? 'SCANNING REPLIES' : 'SCAN COMPLETE'}: ${data.scanProgress.count} TWEETS COLLECTED`,
           isRateLimited: data.type === 'warning' && data.message?.includes('Rate limit reached'),
@@ -1738,6 +2206,41 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     }
   };
 
+  const handleEventDataRef = useRef(handleEventData);
+  handleEventDataRef.current = handleEventData;
+
+  // Reattach to a scrape job that is still queued or running (e.g. after a page refresh).
+  // Its progress is then replayed by the job event stream below.
+  useEffect(() => {
+    if (!profile.name) return;
+
+    let cancelled = false;
+
+    const reattach = async () => {
+      try {
+        const response = await fetch(`/api/scrape${targetParam}`, { cache: 'no-store' });
+        if (!response.ok || cancelled) return;
+
+        const { status, jobId } = await response.json();
+        if (status !== 'active' || !jobId || cancelled) return;
+
+        console.log('Reattaching to scrape job:', jobId);
+        lastScrapeEventIdRef.current = undefined;
+        setScrapeJobId(jobId);
+        setLoading(true);
+        setScrapingStartTime(Date.now());
+      } catch (error) {
+        console.error('Error checking for active scrape job:', error);
+      }
+    };
+
+    reattach();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.name, targetParam]);
+
   // Handle modal close
   const handleCloseModal = () => {
     console.log('Closing completion modal');
@@ -1750,25 +2253,42 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
   }
 
   useEffect(() => {
-    scrollToBottom()
-  }, [messages, isTyping])
+    if (pendingFocusRef.current === null) scrollToBottom()
+  }, [messages, isTyping, streamingText])
+
+  // Scroll to a search match once it renders, and highlight it for a moment
+  useEffect(() => {
+    const focusId = pendingFocusRef.current
+    if (focusId === null) return
+    const index = messages.findIndex(msg => msg.id === focusId)
+    if (index === -1) return
+
+    const jump = setTimeout(() => {
+      virtuosoRef.current?.scrollToIndex({ index, align: 'center' })
+      document.getElementById(`chat-message-${focusId}`)?.scrollIntoView({ block: 'center' })
+      pendingFocusRef.current = null
+    }, 100)
+    const fade = setTimeout(() => setHighlightedMessageId(null), 4000)
+    return () => {
+      clearTimeout(jump)
+      clearTimeout(fade)
+    }
+  }, [messages])
 
   const handleCancelScraping = useCallback(async () => {
-    if (abortController) {
+    if (abortController || scrapeJobId) {
       console.log('Aborting scraping process...');
       try {
-        abortController.abort();
-        await fetch(`/api/scrape/abort`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            username: profile.name,
-            timestamp: Date.now() 
-          })
-        }).catch(error => console.error('Error cleaning up session:', error));
+        abortController?.abort();
+        if (scrapeJobId) {
+          await fetch(`/api/scrape/jobs/${scrapeJobId}`, {
+            method: 'DELETE'
+          }).catch(error => console.error('Error cancelling scrape job:', error));
+          setScrapeJobId(null);
+        }
 
         cleanupState({ 
-          isError: !abortController.signal.aborted, 
+          isError: Boolean(abortController && !abortController.signal.aborted), 
           error: 'Operation cancelled by user' 
         });
       } catch (error) {
@@ -1779,7 +2299,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         });
       }
     }
-  }, [abortController, profile.name]);
+  }, [abortController, scrapeJobId]);
 
   // Add dedicated data clearing function
   const clearTweetData = () => {
@@ -1944,30 +2464,49 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
   // Remove the old separate loading effects
   // ... existing code ...
 
-  // Handle conversation selection
-  const handleSelectConversation = async (conversation: Conversation) => {
+  // Load a conversation's messages, optionally scrolling to one of them
+  const loadConversation = async (conversationId: number, focusMessageId?: number) => {
     try {
       setLoading(true);
-      const response = await fetch('/api/conversations/' + conversation.id + '/messages');
+      const response = await fetch('/api/conversations/' + conversationId + '/messages');
       if (!response.ok) {
         throw new Error('Failed to fetch messages');
       }
       
       const data = await response.json();
       if (data.success && Array.isArray(data.data)) {
-        const messages = data.data.map((msg: APIMessage) => ({
-          text: msg.content || '',
-          isUser: msg.role === 'user',
-          timestamp: new Date().toLocaleTimeString(),
-          type: 'chat' as const
-        }));
+        let messages: ChatBoxMessage[] = data.data.map(toChatBoxMessage);
+
+        // A match on another branch is shown by switching to that branch
+        if (focusMessageId !== undefined && !messages.some(msg => msg.id === focusMessageId)) {
+          const switched = await fetch(`/api/conversations/${conversationId}/branches`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ messageId: focusMessageId })
+          });
+          if (switched.ok) {
+            const switchedData = await switched.json();
+            if (switchedData.success && Array.isArray(switchedData.data)) {
+              messages = switchedData.data.map(toChatBoxMessage);
+            }
+          }
+        }
         
-        // Only keep the last MAX_MESSAGES
-        setMessages(messages.slice(-MAX_MESSAGES));
-        setActiveConversationId(conversation.id);
+        // Only keep MAX_MESSAGES: the last ones, or a window that still holds the focused message
+        const focusIndex = focusMessageId !== undefined ? messages.findIndex(msg => msg.id === focusMessageId) : -1;
+        const start = focusIndex === -1
+          ? Math.max(0, messages.length - MAX_MESSAGES)
+          : Math.min(focusIndex, Math.max(0, messages.length - MAX_MESSAGES));
+        pendingFocusRef.current = focusIndex === -1 ? null : focusMessageId!;
+        setHighlightedMessageId(pendingFocusRef.current);
+        setMessages(messages.slice(start, start + MAX_MESSAGES));
+        setActiveConversationId(conversationId);
+        setEditingMessage(null);
         
         setConversations(prev => prev.map(conv => 
-          conv.id === conversation.id 
+          conv.id === conversationId 
             ? {
                 ...conv,
                 metadata: {
@@ -1986,6 +2525,13 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     }
   };
 
+  // Handle conversation selection
+  const handleSelectConversation = (conversation: Conversation) => loadConversation(conversation.id);
+
+  // Open the conversation a search result is in, at the matched message
+  const handleSelectSearchResult = (result: ConversationSearchResult) =>
+    loadConversation(result.conversationId, result.messageId ?? undefined);
+
   // Handle new chat creation
   const handleNewChat = async () => {
     try {
@@ -1995,7 +2541,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({})
+        body: JSON.stringify({ personaUsername: profile.name })
       });
 
       if (!response.ok) {
@@ -2017,6 +2563,7 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
         setConversations(prev => [newChat, ...prev]);
         setActiveConversationId(newChat.id);
         setMessages([]);
+        setEditingMessage(null);
       }
     } catch (error) {
       console.error('Error creating new chat:', error);
@@ -2070,67 +2617,62 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
     }
   }
 
-  // Create EventSource in useEffect with cleanup
+  // Follow the scrape job's event stream whenever the POST response isn't delivering it
+  // (reattached after a refresh, or the response dropped mid-scrape). Missed events are
+  // replayed from the last one seen.
   useEffect(() => {
-    if (!profile.name || !loading) return;
+    if (!profile.name || !loading || !scrapeJobId || isScrapeStreamAttached) return;
 
-    console.log('Initializing SSE connection for:', profile.name);
-    const eventSource = new EventSource(`/api/scrape?username=${encodeURIComponent(profile.name)}`, {
-      withCredentials: true // Add credentials to ensure auth headers are sent
-    });
+    console.log('Following scrape job events for:', scrapeJobId);
+    let cancelled = false;
 
-    eventSource.onmessage = (event) => {
+    // The stream was refused, so the job already finished - read its final state instead
+    const syncJobStatus = async () => {
       try {
-        const data = JSON.parse(event.data);
-        console.log('SSE received data:', {
-          type: data.type,
-          phase: data.phase,
-          tweetCount: data.tweets?.length,
-          progress: data.progress,
-          error: data.error,
-          username: data.username
-        });
-        
-        if (data.username === profile.name) {
-          handleEventData(data);
-        } else {
-          console.warn('Received data for different user:', data.username);
+        const response = await fetch(`/api/scrape/jobs/${scrapeJobId}`, { cache: 'no-store' });
+        if (!response.ok || cancelled) return;
+
+        const job = await response.json();
+        if (cancelled) return;
+
+        if (job.status === 'completed') {
+          handleEventDataRef.current({
+            type: 'complete',
+            jobId: scrapeJobId,
+            username: profile.name ?? undefined,
+            status: job.statusMessage,
+            scanProgress: job.scanProgress
+          });
+        } else if (job.status === 'failed' || job.status === 'cancelled') {
+          handleEventDataRef.current({ jobId: scrapeJobId, error: job.error || `Scrape ${job.status}` });
         }
       } catch (error) {
-        console.error('Error parsing event data:', error);
-        cleanupState({ isError: true, error: 'Failed to parse server response' });
+        console.error('Error fetching scrape job:', error);
       }
     };
 
-    eventSource.onerror = (error) => {
-      // Check if the error is due to connection close
-      if (eventSource.readyState === EventSource.CLOSED) {
-        console.log('SSE connection closed normally');
-        return;
-      }
-
-      console.error('SSE connection error:', {
-        readyState: eventSource.readyState,
-        error: error,
-        url: eventSource.url
-      });
-
-      // Only show error if we're still loading and not a normal close
-      if (loading && eventSource.readyState !== EventSource.CLOSED) {
-        cleanupState({ isError: true, error: 'Connection error - please try again' });
-      }
-      eventSource.close();
-    };
+    const stop = followJobEvents<EventData>(scrapeJobId, {
+      lastEventId: lastScrapeEventIdRef.current,
+      onEvent: (data, eventId) => {
+        if (eventId) {
+          lastScrapeEventIdRef.current = eventId;
+        }
 
-    eventSource.onopen = () => {
-      console.log('SSE connection opened successfully');
-    };
+        if (data.username === profile.name) {
+          handleEventDataRef.current(data);
+        } else {
+          console.warn('Received data for different user:', data.username);
+        }
+      },
+      onClosed: syncJobStatus
+    });
 
     return () => {
       console.log('Cleaning up SSE connection');
-      eventSource.close();
+      cancelled = true;
+      stop();
     };
-  }, [profile.name, loading]);
+  }, [profile.name, loading, scrapeJobId, isScrapeStreamAttached]);
 
   // Handler for DOM scroll events (used in non-virtualized areas)
   const handleDOMScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
@@ -2300,6 +2842,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                   onNewChat={handleNewChat}
                   onDeleteConversation={handleDeleteConversation}
                   onRenameConversation={handleRenameConversation}
+                  onSelectSearchResult={handleSelectSearchResult}
+                  personaUsername={profile.name || undefined}
                   isLoading={isLoadingConversations}
                 />
             </div>
@@ -2347,11 +2891,21 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
 
                   {/* Virtualized Messages */}
                   <Virtuoso
+                    ref={virtuosoRef}
                     style={{ height: '100%' }}
                     data={messages}
                     itemContent={(index, msg: ChatBoxMessage) => (
                       msg.type === 'chat' ? (
-                        <ChatMessage message={msg} isUser={msg.isUser} />
+                        <ChatMessage
+                          message={msg}
+                          isUser={msg.isUser}
+                          highlighted={msg.id !== undefined && msg.id === highlightedMessageId}
+                          canRegenerate={index === messages.length - 1}
+                          actionsDisabled={isChatLoading}
+                          onPageBranch={handlePageBranch}
+                          onEdit={handleEditMessage}
+                          onRegenerate={handleRegenerate}
+                        />
                       ) : (
                         <TuningUpdateMessage
                           type={msg.tuningInfo!.tuningType}
@@ -2366,13 +2920,21 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                     atBottomStateChange={handleVirtuosoScroll}
                     components={{
                       Footer: () => (
-                        isTyping ? (
+                        streamingText ? (
+                          <ChatMessage
+                            message={{ text: streamingText, isUser: false, timestamp: '', type: 'chat' }}
+                            isUser={false}
+                          />
+                        ) : isTyping ? (
                           <div className="flex justify-start p-4">
                             <div className="max-w-[80%] rounded-lg p-3 bg-red-500/5 text-red-500/80">
                               <div className="flex items-center gap-1">
                                 <div className="w-2 h-2 rounded-full bg-red-500/50 animate-bounce [animation-delay:-0.3s]" />
                                 <div className="w-2 h-2 rounded-full bg-red-500/50 animate-bounce [animation-delay:-0.15s]" />
                                 <div className="w-2 h-2 rounded-full bg-red-500/50 animate-bounce" />
+                                {chatQueueStatus && (
+                                  <span className="ml-2 text-[10px] font-mono text-red-500/50 tracking-wider">{formatQueueStatus(chatQueueStatus)}</span>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -2388,6 +2950,14 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
             {/* Chat Input */}
             {analysis && (
               <div className="flex-none p-2 sm:p-3 md:p-4 border-t border-red-500/10 bg-black/40 backdrop-blur-sm cryptic-shadow">
+                {editingMessage && (
+                  <div className="flex items-center justify-between mb-1 text-[10px] font-mono tracking-wider uppercase text-red-500/60">
+                    <span>Editing message - sending starts a new branch</span>
+                    <button type="button" onClick={handleCancelEdit} className="hover:text-red-400 hover-text-glow transition-colors">
+                      Cancel
+                    </button>
+                  </div>
+                )}
                 <form onSubmit={handleSubmit} className="flex gap-2">
                   <textarea
                     ref={textareaRef}
@@ -2399,17 +2969,24 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                     rows={1}
                     className="flex-1 bg-black/20 text-red-400/90 border border-red-500/20 rounded px-2 md:px-3 py-1.5 text-sm placeholder:text-red-500/30 focus:outline-none focus:border-red-500/40 hover-glow disabled:opacity-50 resize-none min-h-[38px] max-h-[200px] overflow-y-auto custom-scrollbar"
                   />
-                  <button
-                    type="submit"
-                    disabled={!input.trim() || isChatLoading}
-                    className="px-2 md:px-3 py-1.5 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs backdrop-blur-sm shadow-lg shadow-red-500/5 disabled:opacity-50 disabled:cursor-not-allowed hover-glow min-w-[60px] md:min-w-[80px] h-[38px]"
-                  >
-                    {isChatLoading ? (
-                      <Spinner size="sm" />
-                    ) : (
-                      'Send'
-                    )}
-                  </button>
+                  {isChatLoading ? (
+                    <button
+                      type="button"
+                      onClick={handleStopResponse}
+                      title="Stop generating"
+                      className="px-2 md:px-3 py-1.5 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs backdrop-blur-sm shadow-lg shadow-red-500/5 disabled:opacity-50 disabled:cursor-not-allowed hover-glow min-w-[60px] md:min-w-[80px] h-[38px]"
+                    >
+                      {streamingText ? 'Stop' : <Spinner size="sm" />}
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={!input.trim()}
+                      className="px-2 md:px-3 py-1.5 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs backdrop-blur-sm shadow-lg shadow-red-500/5 disabled:opacity-50 disabled:cursor-not-allowed hover-glow min-w-[60px] md:min-w-[80px] h-[38px]"
+                    >
+                      Send
+                    </button>
+                  )}
                 </form>
                 <div className="mt-1 text-xs text-red-500/40">
                   Supports Markdown: **bold**, *italic*, - bullets, etc.
@@ -2427,8 +3004,32 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
               <h3 className="text-sm font-bold text-red-500/90 tracking-wider ancient-text">SYSTEM CONTROLS</h3>
             </div>
             <div className="flex flex-col gap-2">
+              {onPersonaChange && ownUsername && (
+                <PersonaSwitcher
+                  ownUsername={ownUsername}
+                  activeTarget={target ?? null}
+                  onChange={onPersonaChange}
+                />
+              )}
+              {ownUsername && (
+                <button
+                  onClick={() => setShowRoomChat(true)}
+                  className="w-full font-medium px-3 py-2 border border-red-500/30 text-red-500/60 rounded hover:bg-red-500/5 hover:text-red-500/80 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs ancient-text"
+                >
+                  GROUP CHAT
+                </button>
+              )}
               {renderActionButton('scrape')}
               {(!analysis || isAnalyzing) ? null : renderActionButton('analyze')}
+              {target ? null : <AutoRefreshControl />}
+              {analysis && !isAnalyzing && (
+                <button
+                  onClick={() => setShowAnalysisHistory(true)}
+                  className="w-full font-medium px-3 py-2 border border-red-500/30 text-red-500/60 rounded hover:bg-red-500/5 hover:text-red-500/80 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs ancient-text"
+                >
+                  VERSION HISTORY
+                </button>
+              )}
               {accumulatedTweets.length > 0 && (
                 <button
                   onClick={handleClearData}
@@ -2494,6 +3095,14 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                     {analysisElapsedTime && (
                       <span className="text-red-500/70">[{analysisElapsedTime}]</span>
                     )}
+                    {analysisQueueStatus && (
+                      <span className="text-red-500/50 text-xs">{formatQueueStatus(analysisQueueStatus)}</span>
+                    )}
+                  </div>
+                )}
+                {isAnalyzing && analysisChunks && (
+                  <div className="mb-4">
+                    <AnalysisChunkStatusList chunks={analysisChunks} />
                   </div>
                 )}
                 <p className="text-red-500/70 mb-4 glow-text">
@@ -2516,6 +3125,26 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
               </div>
             ) : (
                 <div className="space-y-4">
+                {/* Sections that failed in the last run */}
+                {analysis.partial && (
+                  <div className="bg-black/20 text-left rounded-lg p-4 backdrop-blur-sm border border-yellow-500/20 space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-xs text-yellow-500/80 tracking-wider uppercase">
+                        {analysis.partial.failedChunks.map(chunk => ANALYSIS_CHUNK_LABELS[chunk]).join(', ')} could not be analyzed
+                      </span>
+                      <button
+                        onClick={handleRetryFailedChunks}
+                        disabled={isAnalyzing}
+                        className="px-3 py-1 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isAnalyzing ? 'RETRYING' : 'RETRY'}
+                      </button>
+                    </div>
+                    {isAnalyzing && analysisChunks && (
+                      <AnalysisChunkStatusList chunks={analysisChunks} />
+                    )}
+                  </div>
+                )}
                 {/* Summary Section */}
                 <div className="bg-black/20 text-left rounded-lg p-6 backdrop-blur-sm border border-red-500/10 hover-glow ancient-border">
                   <h4 className="text-sm font-bold text-red-500/90 tracking-wider uppercase flex items-center gap-2 mb-4">
@@ -2844,8 +3473,32 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                 <h3 className="text-sm font-bold text-red-500/90 tracking-wider ancient-text">SYSTEM CONTROLS</h3>
               </div>
               <div className="flex flex-col gap-2">
+                {onPersonaChange && ownUsername && (
+                  <PersonaSwitcher
+                    ownUsername={ownUsername}
+                    activeTarget={target ?? null}
+                    onChange={onPersonaChange}
+                  />
+                )}
+                {ownUsername && (
+                  <button
+                    onClick={() => setShowRoomChat(true)}
+                    className="w-full font-medium px-3 py-2 border border-red-500/30 text-red-500/60 rounded hover:bg-red-500/5 hover:text-red-500/80 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs ancient-text"
+                  >
+                    GROUP CHAT
+                  </button>
+                )}
                 {renderActionButton('scrape')}
                 {(!analysis || isAnalyzing) ? null : renderActionButton('analyze')}
+                {target ? null : <AutoRefreshControl />}
+                {analysis && !isAnalyzing && (
+                  <button
+                    onClick={() => setShowAnalysisHistory(true)}
+                    className="w-full font-medium px-3 py-2 border border-red-500/30 text-red-500/60 rounded hover:bg-red-500/5 hover:text-red-500/80 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs ancient-text"
+                  >
+                    VERSION HISTORY
+                  </button>
+                )}
                 {accumulatedTweets.length > 0 && (
                   <button
                     onClick={handleClearData}
@@ -2914,6 +3567,11 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                       <span className="uppercase tracking-wider text-xs glow-text truncate">
                         {scanProgress.message || `${scanProgress.phase === 'posts' ? 'SCANNING POSTS' : 'SCANNING REPLIES'}: ${scanProgress.count} TWEETS COLLECTED`}
                       </span>
+                      {scanProgress.newCount !== undefined && (
+                        <span className="text-xs text-red-500/40 glow-text truncate flex-none">
+                          [{scanProgress.newCount} NEW / {scanProgress.knownCount ?? 0} KNOWN]
+                        </span>
+                      )}
                       {scrapingElapsedTime && (
                         <span className="text-xs text-red-500/40 glow-text truncate flex-none">
                           [{scrapingElapsedTime}]
@@ -2960,6 +3618,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
               analysisElapsedTime={analysisElapsedTime}
               showAnalysisPrompt={showAnalysisPrompt}
               accumulatedTweetsCount={accumulatedTweets.length}
+              username={profile.name || ''}
+              tweets={accumulatedTweets}
               onAnalyze={handleAnalyze}
               containerClassName="max-h-[50vh] sm:max-h-[45vh] md:max-h-[40vh]"
               retryState={retryState}
@@ -2984,6 +3644,8 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                   onNewChat={handleNewChat}
                   onDeleteConversation={handleDeleteConversation}
                   onRenameConversation={handleRenameConversation}
+                  onSelectSearchResult={handleSelectSearchResult}
+                  personaUsername={profile.name || undefined}
                   isLoading={isLoadingConversations}
                 />
               </div>
@@ -3034,18 +3696,37 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                     <div className="p-4 space-y-4 relative z-30">
                       {messages.map((msg: ChatBoxMessage, i: number) => (
                         msg.type === 'chat' ? (
-                          <ChatMessage key={`msg-${i}`} message={msg} isUser={msg.isUser} />
+                          <ChatMessage
+                            key={`msg-${i}`}
+                            message={msg}
+                            isUser={msg.isUser}
+                            highlighted={msg.id !== undefined && msg.id === highlightedMessageId}
+                            canRegenerate={i === messages.length - 1}
+                            actionsDisabled={isChatLoading}
+                            onPageBranch={handlePageBranch}
+                            onEdit={handleEditMessage}
+                            onRegenerate={handleRegenerate}
+                          />
                         ) : (
                           <TuningUpdateMessage key={`tuning-${i}`} type={msg.tuningInfo!.tuningType} name={msg.tuningInfo!.name} value={msg.tuningInfo!.value} timestamp={msg.timestamp} />
                         )
                       ))}
-                      {isTyping && (
+                      {streamingText && (
+                        <ChatMessage
+                          message={{ text: streamingText, isUser: false, timestamp: '', type: 'chat' }}
+                          isUser={false}
+                        />
+                      )}
+                      {isTyping && !streamingText && (
                         <div className="flex justify-start">
                           <div className="max-w-[80%] rounded-lg p-3 bg-red-500/5 text-red-500/80">
                             <div className="flex items-center gap-1">
                               <div className="w-2 h-2 rounded-full bg-red-500/50 animate-bounce [animation-delay:-0.3s]" />
                               <div className="w-2 h-2 rounded-full bg-red-500/50 animate-bounce [animation-delay:-0.15s]" />
                               <div className="w-2 h-2 rounded-full bg-red-500/50 animate-bounce" />
+                              {chatQueueStatus && (
+                                <span className="ml-2 text-[10px] font-mono text-red-500/50 tracking-wider">{formatQueueStatus(chatQueueStatus)}</span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -3059,6 +3740,14 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
               {/* Chat Input */}
               {analysis && (
                 <div className="flex-none p-3 md:p-4 border-t border-red-500/10 bg-black/40 backdrop-blur-sm cryptic-shadow relative z-40">
+                  {editingMessage && (
+                    <div className="flex items-center justify-between mb-1 text-[10px] font-mono tracking-wider uppercase text-red-500/60">
+                      <span>Editing message - sending starts a new branch</span>
+                      <button type="button" onClick={handleCancelEdit} className="hover:text-red-400 hover-text-glow transition-colors">
+                        Cancel
+                      </button>
+                    </div>
+                  )}
                   <form onSubmit={handleSubmit} className="flex gap-2">
                     <textarea
                       ref={textareaRef}
@@ -3070,17 +3759,24 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
                       rows={1}
                       className="flex-1 bg-black/20 text-red-400/90 border border-red-500/20 rounded px-2 md:px-3 py-1.5 text-sm placeholder:text-red-500/30 focus:outline-none focus:border-red-500/40 hover-glow disabled:opacity-50 resize-none min-h-[38px] max-h-[200px] overflow-y-auto custom-scrollbar"
                     />
-                    <button
-                      type="submit"
-                      disabled={!input.trim() || isChatLoading}
-                      className="px-2 md:px-3 py-1.5 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs backdrop-blur-sm shadow-lg shadow-red-500/5 disabled:opacity-50 disabled:cursor-not-allowed hover-glow min-w-[60px] md:min-w-[80px] h-[38px]"
-                    >
-                      {isChatLoading ? (
-                        <Spinner size="sm" />
-                      ) : (
-                        'Send'
-                      )}
-                    </button>
+                    {isChatLoading ? (
+                      <button
+                        type="button"
+                        onClick={handleStopResponse}
+                        title="Stop generating"
+                        className="px-2 md:px-3 py-1.5 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs backdrop-blur-sm shadow-lg shadow-red-500/5 disabled:opacity-50 disabled:cursor-not-allowed hover-glow min-w-[60px] md:min-w-[80px] h-[38px]"
+                      >
+                        {streamingText ? 'Stop' : <Spinner size="sm" />}
+                      </button>
+                    ) : (
+                      <button
+                        type="submit"
+                        disabled={!input.trim()}
+                        className="px-2 md:px-3 py-1.5 bg-red-500/5 text-red-500/90 border border-red-500/20 rounded hover:bg-red-500/10 hover:border-red-500/30 transition-all duration-300 uppercase tracking-wider text-xs backdrop-blur-sm shadow-lg shadow-red-500/5 disabled:opacity-50 disabled:cursor-not-allowed hover-glow min-w-[60px] md:min-w-[80px] h-[38px]"
+                      >
+                        Send
+                      </button>
+                    )}
                   </form>
                   <div className="mt-1 text-xs text-red-500/40">
                     Supports Markdown: **bold**, *italic*, - bullets, etc.
@@ -3096,7 +3792,25 @@ export default function ChatBox({ tweets: initialTweets, profile, onClose, onTwe
           isOpen={showPsychoanalysis} 
           onClose={() => setShowPsychoanalysis(false)}
           analysis={analysis}
+          username={profile.name || ''}
+          tweets={accumulatedTweets}
         />
+
+        {/* Analysis History Modal */}
+        <AnalysisHistoryModal
+          isOpen={showAnalysisHistory}
+          onClose={() => setShowAnalysisHistory(false)}
+          username={profile.name || ''}
+        />
+
+        {/* Room Chat Modal */}
+        {ownUsername && (
+          <RoomChatModal
+            isOpen={showRoomChat}
+            onClose={() => setShowRoomChat(false)}
+            ownUsername={ownUsername}
+          />
+        )}
       </div>
     </>
   )
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { TweetList } from './TweetList';
+import { Tweet } from '@/types/scraper';
+
+interface EvidenceTweetsProps {
+  username: string;
+  label: string;
+  tweetIds: string[];
+  tweets: Tweet[];
+  onClose: () => void;
+}
+
+// The scraped tweets an analysis finding was drawn from
+export function EvidenceTweets({ username, label, tweetIds, tweets, onClose }: EvidenceTweetsProps) {
+  const evidence = useMemo(() => {
+    const byId = new Map(tweets.map(tweet => [tweet.id, tweet]));
+    return tweetIds
+      .map(id => byId.get(id))
+      .filter((tweet): tweet is Tweet => tweet !== undefined);
+  }, [tweets, tweetIds]);
+
+  return (
+    <div className="bg-black/40 rounded-lg border border-red-500/20 backdrop-blur-sm">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-red-500/10">
+        <span className="text-xs text-red-500/80 uppercase tracking-wider glow-text">
+          Tweets behind: {label}
+        </span>
+        <button
+          onClick={onClose}
+          className="text-red-500/70 hover:text-red-500/90 ancient-text"
+        >
+          <span className="sr-only">Close</span>
+          ×
+        </button>
+      </div>
+      {evidence.length > 0 ? (
+        // TweetList falls back to fetching every tweet when given none, so it only renders with matches
+        <TweetList
+          key={label}
+          username={username}
+          includeReplies={true}
+          tweets={evidence}
+        />
+      ) : (
+        <div className="p-4 text-red-500/60 italic text-center text-sm">
+          {tweetIds.length > 0
+            ? 'The cited tweets are not in the loaded set'
+            : 'No tweets were cited for this'}
+        </div>
+      )}
+    </div>
+  );
+}
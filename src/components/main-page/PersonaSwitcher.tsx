@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface Persona {
+  username: string;
+  tweetCount: number;
+  analyzed: boolean;
+}
+
+interface PersonaSwitcherProps {
+  ownUsername: string;
+  activeTarget: string | null;
+  onChange: (target: string | null) => void;
+}
+
+// Switch between the user's own clone and public accounts they cloned
+export function PersonaSwitcher({ ownUsername, activeTarget, onChange }: PersonaSwitcherProps) {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [limit, setLimit] = useState<number | null>(null);
+  const [handle, setHandle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadPersonas = useCallback(() => {
+    fetch('/api/personas')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return;
+        setPersonas(data.personas);
+        setLimit(data.limit);
+      })
+      .catch(error => console.error('Failed to load personas:', error));
+  }, []);
+
+  useEffect(() => {
+    loadPersonas();
+  }, [loadPersonas]);
+
+  const clonePersona = async () => {
+    if (!handle.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/personas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ handle })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clone account');
+      }
+      setPersonas(prev => [...prev.filter(p => p.username !== data.username), data]);
+      setHandle('');
+      onChange(data.username);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to clone account');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removePersona = async (username: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/personas/${encodeURIComponent(username)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to remove clone');
+      }
+      setPersonas(prev => prev.filter(p => p.username !== username));
+      if (activeTarget === username) {
+        onChange(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to remove clone');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Load a bundle exported with the ↓ link; its account is cloned if needed
+  const importBundle = async (file: File) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/personas/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text()
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import persona');
+      }
+      loadPersonas();
+      onChange(data.username === ownUsername.toLowerCase() ? null : data.username);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import persona');
+    } finally {
+      setIsSaving(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const exportLink = (username: string) => (
+    <a
+      href={`/api/personas/${encodeURIComponent(username)}/bundle`}
+      className="px-2 py-1 text-xs font-mono rounded border border-red-500/10 text-red-500/50 hover:bg-red-500/5 hover:border-red-500/20"
+      title={`Export @${username} as a bundle`}
+    >
+      ↓
+    </a>
+  );
+
+  const buttonClass = (active: boolean) => `flex-1 text-left px-2 py-1 text-xs font-mono rounded border transition-all duration-300 truncate ${
+    active
+      ? 'bg-red-500/20 text-red-500/90 border-red-500/30'
+      : 'bg-black/20 text-red-500/50 border-red-500/10 hover:bg-red-500/5 hover:border-red-500/20'
+  }`;
+
+  return (
+    <div className={`space-y-2 ${isSaving ? 'opacity-50 pointer-events-none' : ''}`}>
+      <div className="text-[10px] text-red-500/50 font-mono uppercase tracking-wider">
+        PERSONAS {limit !== null && `(${personas.length}/${limit} CLONED)`}
+      </div>
+      <div className="space-y-1">
+        <div className="flex gap-1">
+          <button onClick={() => onChange(null)} className={buttonClass(!activeTarget)}>
+            @{ownUsername} (YOU)
+          </button>
+          {exportLink(ownUsername)}
+        </div>
+        {personas.map(persona => (
+          <div key={persona.username} className="flex gap-1">
+            <button
+              onClick={() => onChange(persona.username)}
+              className={buttonClass(activeTarget === persona.username)}
+            >
+              @{persona.username}
+              <span className="text-red-500/40">
+                {persona.analyzed ? ' · ANALYZED' : persona.tweetCount > 0 ? ` · ${persona.tweetCount} TWEETS` : ' · NEW'}
+              </span>
+            </button>
+            {exportLink(persona.username)}
+            <button
+              onClick={() => removePersona(persona.username)}
+              className="px-2 py-1 text-xs font-mono rounded border border-red-500/10 text-red-500/50 hover:bg-red-500/5 hover:border-red-500/20"
+              title={`Remove @${persona.username}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      {(limit === null || personas.length < limit) && (
+        <div className="flex gap-1">
+          <input
+            value={handle}
+            onChange={e => setHandle(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && clonePersona()}
+            placeholder="@handle"
+            className="flex-1 min-w-0 bg-black/40 border border-red-500/20 rounded px-2 py-1 text-xs font-mono text-red-500/80 placeholder-red-500/30 focus:outline-none focus:border-red-500/40"
+          />
+          <button
+            onClick={clonePersona}
+            className="px-2 py-1 text-xs font-mono rounded border border-red-500/30 text-red-500/60 hover:bg-red-500/5 hover:text-red-500/80 uppercase tracking-wider"
+          >
+            CLONE
+          </button>
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={e => e.target.files?.[0] && importBundle(e.target.files[0])}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full px-2 py-1 text-xs font-mono rounded border border-red-500/10 text-red-500/50 hover:bg-red-500/5 hover:border-red-500/20 uppercase tracking-wider"
+      >
+        IMPORT BUNDLE
+      </button>
+      {error && (
+        <div className="text-[10px] text-red-400/70 font-mono">{error}</div>
+      )}
+    </div>
+  );
+}
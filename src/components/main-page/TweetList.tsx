@@ -16,6 +16,8 @@ interface TweetListProps {
     message?: string;
     currentBatch?: number;
     totalBatches?: number;
+    newCount?: number;
+    knownCount?: number;
     rateLimitReset?: number;
     isRateLimited?: boolean;
   } | null;
@@ -120,6 +122,14 @@ export function TweetList({
                     <span>Target: {scrapingProgress.total}</span>
                   )}
                 </div>
+
+                {/* New vs. already stored */}
+                {scrapingProgress.newCount !== undefined && (
+                  <div className="flex items-center justify-between text-red-400/80">
+                    <span>New: {scrapingProgress.newCount}</span>
+                    <span>Already Known: {scrapingProgress.knownCount ?? 0}</span>
+                  </div>
+                )}
                 
                 {/* Batch Progress */}
                 {scrapingProgress.currentBatch && scrapingProgress.totalBatches && (
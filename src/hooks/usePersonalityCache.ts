@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import type { PersonalityAnalysis } from '@/lib/openai/types';
+import type { ConsciousnessConfig } from '@/lib/consciousness';
 
 interface UsePersonalityCacheProps {
   username: string;
@@ -10,6 +11,7 @@ interface CachedPersonalityData extends PersonalityAnalysis {
   traitModifiers?: { [key: string]: number };
   interestWeights?: { [key: string]: number };
   customInterests?: string[];
+  consciousness?: ConsciousnessConfig;
 }
 
 interface CacheState {
@@ -104,6 +106,7 @@ export function usePersonalityCache({ username }: UsePersonalityCacheProps) {
         traitModifiers,
         interestWeights: state.data?.interestWeights || {},
         customInterests: state.data?.customInterests || [],
+        consciousness: state.data?.consciousness,
         communicationStyle: {
           ...analysisData.communicationStyle,
           formality: state.data?.communicationStyle?.formality ?? analysisData.communicationStyle.formality,
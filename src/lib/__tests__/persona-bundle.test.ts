@@ -0,0 +1,137 @@
+import { DEFAULT_CONSCIOUSNESS } from '@/lib/consciousness';
+import {
+  BUNDLE_TWEET_LIMIT,
+  PERSONA_BUNDLE_VERSION,
+  PersonaBundleError,
+  validatePersonaBundle
+} from '../persona-bundle';
+
+// The smallest analysis chat can run on, from before verbosity was analyzed
+const analysis = {
+  summary: 'Ships small tools and talks about them',
+  traits: [{ name: 'Curious', score: 8, explanation: 'Asks a lot of questions' }],
+  interests: ['compilers: advanced', 'coffee'],
+  interestWeights: { compilers: 80 },
+  communicationStyle: {
+    formality: 'low',
+    enthusiasm: 'high',
+    technicalLevel: 'high',
+    emojiUsage: 'low',
+    description: 'Short, direct tweets'
+  },
+  socialBehaviorMetrics: { joker: 40 },
+  vocabulary: { commonTerms: [] },
+  thoughtProcess: { initialApproach: 'first principles' }
+};
+
+function bundle(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    schema: 'persona-bundle',
+    schemaVersion: PERSONA_BUNDLE_VERSION,
+    exportedAt: '2025-03-01T00:00:00.000Z',
+    profile: { username: '@AliceDev', name: 'Alice', bio: null, imageUrl: 'https://pbs.twimg.com/alice.jpg' },
+    analysis,
+    ...overrides
+  };
+}
+
+function bundleError(input: unknown): PersonaBundleError {
+  try {
+    validatePersonaBundle(input);
+  } catch (error) {
+    if (error instanceof PersonaBundleError) return error;
+    throw error;
+  }
+  throw new Error('Expected a PersonaBundleError');
+}
+
+describe('validatePersonaBundle', () => {
+  it('fills in tuning and consciousness from the analysis and the defaults', () => {
+    const validated = validatePersonaBundle(bundle());
+
+    expect(validated.profile).toEqual({
+      username: 'alicedev',
+      name: 'Alice',
+      bio: null,
+      imageUrl: 'https://pbs.twimg.com/alice.jpg'
+    });
+    expect(validated.tuning).toEqual({
+      traitModifiers: {},
+      interestWeights: { compilers: 80 },
+      communicationStyle: {
+        formality: 'low',
+        enthusiasm: 'high',
+        technicalLevel: 'high',
+        emojiUsage: 'low',
+        verbosity: 'medium'
+      },
+      customInterests: []
+    });
+    expect(validated.consciousness).toEqual(DEFAULT_CONSCIOUSNESS);
+    expect(validated.tweets).toEqual([]);
+  });
+
+  it('clamps tuning and consciousness numbers to their ranges', () => {
+    const validated = validatePersonaBundle(bundle({
+      tuning: {
+        traitModifiers: { Curious: 5, Grumpy: -3 },
+        interestWeights: { coffee: 150 },
+        communicationStyle: { verbosity: 'high' }
+      },
+      consciousness: { intelligenceLevel: 140, confusionRate: -5, isLearning: false }
+    }));
+
+    expect(validated.tuning.traitModifiers).toEqual({ Curious: 2, Grumpy: -2 });
+    expect(validated.tuning.interestWeights).toEqual({ coffee: 100 });
+    expect(validated.tuning.communicationStyle).toMatchObject({ formality: 'low', verbosity: 'high' });
+    expect(validated.consciousness).toMatchObject({ intelligenceLevel: 100, confusionRate: 0, isLearning: false });
+  });
+
+  it('normalizes tweets', () => {
+    const validated = validatePersonaBundle(bundle({
+      tweets: [
+        { id: '1890000000000000001', text: 'shipped it', createdAt: '2025-02-01T10:00:00Z', lang: 'en' },
+        { id: '1890000000000000002', text: '@bob agreed', createdAt: 'Sat Feb 01 11:00:00 +0000 2025', isReply: true }
+      ]
+    }));
+
+    expect(validated.tweets).toEqual([
+      { id: '1890000000000000001', text: 'shipped it', createdAt: '2025-02-01T10:00:00.000Z', isReply: false, lang: 'en' },
+      { id: '1890000000000000002', text: '@bob agreed', createdAt: '2025-02-01T11:00:00.000Z', isReply: true }
+    ]);
+  });
+
+  it('imports what it validated unchanged', () => {
+    const validated = validatePersonaBundle(bundle({ tuning: { traitModifiers: { Curious: 1 } } }));
+    expect(validatePersonaBundle(JSON.parse(JSON.stringify(validated)))).toEqual(validated);
+  });
+
+  it.each([
+    ['a file that is not a bundle', { schema: 'something-else' }, 'Not a persona bundle'],
+    ['a bundle from a newer app', { schemaVersion: PERSONA_BUNDLE_VERSION + 1 }, `Bundle version ${PERSONA_BUNDLE_VERSION + 1} is newer than this app supports (${PERSONA_BUNDLE_VERSION})`],
+    ['a handle X would not accept', { profile: { username: 'not a handle' } }, 'profile.username must be an X handle'],
+    ['an image that is not a web URL', { profile: { username: 'alice', imageUrl: 'javascript:alert(1)' } }, 'profile.imageUrl must be an http(s) URL'],
+    ['an analysis without traits', { analysis: { ...analysis, traits: undefined } }, 'analysis.traits must be a list of { name, score }'],
+    ['an unknown style level', { analysis: { ...analysis, communicationStyle: { ...analysis.communicationStyle, formality: 'extreme' } } }, 'analysis.communicationStyle.formality must be low, medium or high'],
+    ['a missing analysis section', { analysis: { ...analysis, vocabulary: undefined } }, 'analysis.vocabulary is required'],
+    ['a trait modifier that is not a number', { tuning: { traitModifiers: { Curious: 'lots' } } }, 'tuning.traitModifiers.Curious must be a number'],
+    ['a consciousness flag that is not a boolean', { consciousness: { isLearning: 'yes' } }, 'consciousness.isLearning must be true or false'],
+    ['a tweet id that is not one', { tweets: [{ id: 'abc', text: 'hi', createdAt: '2025-01-01' }] }, 'tweets[0].id must be a tweet id'],
+    ['a tweet without a date', { tweets: [{ id: '1', text: 'hi', createdAt: 'someday' }] }, 'tweets[0].createdAt must be a date']
+  ])('rejects %s', (_, overrides, message) => {
+    expect(bundleError(bundle(overrides)).message).toBe(message);
+  });
+
+  it('rejects more tweets than a bundle can carry', () => {
+    const tweets = Array.from({ length: BUNDLE_TWEET_LIMIT + 1 }, (_, index) => ({
+      id: String(index + 1),
+      text: 'hi',
+      createdAt: '2025-01-01'
+    }));
+
+    const error = bundleError(bundle({ tweets }));
+
+    expect(error.message).toBe(`A bundle can carry at most ${BUNDLE_TWEET_LIMIT} tweets`);
+    expect(error.status).toBe(400);
+  });
+});
@@ -0,0 +1,142 @@
+import type { DBPersonaTarget, DBUser } from '@/lib/db/adapters/types';
+import { claimPersonaTarget, normalizeHandle, PersonaAccessError, resolvePersona } from '../personas';
+
+const users: DBUser[] = [];
+const targets: DBPersonaTarget[] = [];
+const accessCodes = new Map<string, string>();
+
+// Looks users up the way the Postgres adapter does: ignoring case
+const db = {
+  getUserByUsername: jest.fn(async (username: string) =>
+    users.find(user => user.username.toLowerCase() === username.toLowerCase()) ?? null),
+  getPersonaTarget: jest.fn(async (targetUserId: string) =>
+    targets.find(target => target.target_user_id === targetUserId) ?? null),
+  getPersonaTargetsByOwner: jest.fn(async (ownerUserId: string) =>
+    targets.filter(target => target.owner_user_id === ownerUserId)),
+  createUser: jest.fn(async (user: Partial<DBUser>) => addUser(user.username!)),
+  createPersonaTarget: jest.fn(async (ownerUserId: string, targetUserId: string) =>
+    addTarget(ownerUserId, targetUserId)),
+  access: {
+    getUserAccessCode: jest.fn(async (userId: string) => accessCodes.get(userId) ?? null)
+  }
+};
+
+jest.mock('@/lib/db', () => ({
+  initDB: async () => db
+}));
+
+function addUser(username: string): DBUser {
+  const user = {
+    id: `user-${users.length + 1}`,
+    username,
+    twitter_username: username,
+    created_at: new Date()
+  } as DBUser;
+  users.push(user);
+  return user;
+}
+
+function addTarget(ownerUserId: string, targetUserId: string): DBPersonaTarget {
+  const owner = users.find(user => user.id === ownerUserId)!;
+  const target = {
+    target_user_id: targetUserId,
+    owner_user_id: ownerUserId,
+    owner_username: owner.username,
+    created_at: new Date()
+  } as DBPersonaTarget;
+  targets.push(target);
+  return target;
+}
+
+async function rejection(promise: Promise<unknown>): Promise<PersonaAccessError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof PersonaAccessError) return error;
+    throw error;
+  }
+  throw new Error('Expected a PersonaAccessError');
+}
+
+describe('personas', () => {
+  let owner: DBUser;
+
+  beforeEach(() => {
+    users.length = 0;
+    targets.length = 0;
+    accessCodes.clear();
+    jest.clearAllMocks();
+    owner = addUser('Cloner');
+  });
+
+  describe('normalizeHandle', () => {
+    it('strips the @ and lowercases', () => {
+      expect(normalizeHandle(' @SomeOne_42 ')).toBe('someone_42');
+    });
+
+    it('rejects what X would not accept as a handle', () => {
+      expect(normalizeHandle('has space')).toBeNull();
+      expect(normalizeHandle('a_handle_that_is_too_long')).toBeNull();
+      expect(normalizeHandle(null)).toBeNull();
+    });
+  });
+
+  describe('claimPersonaTarget', () => {
+    it('refuses a member whose handle is mixed case', async () => {
+      const member = addUser('AliceDev');
+      accessCodes.set(member.id, 'CODE-1');
+
+      const error = await rejection(claimPersonaTarget(owner, '@alicedev'));
+
+      expect(error.status).toBe(409);
+      expect(error.message).toBe('@alicedev is a member and manages their own clone');
+      expect(db.createUser).not.toHaveBeenCalled();
+      expect(targets).toHaveLength(0);
+    });
+
+    it('claims an existing account under its stored capitalisation', async () => {
+      const existing = addUser('BobBuilds');
+
+      const claim = await claimPersonaTarget(owner, 'BOBBUILDS');
+
+      expect(claim.target_user_id).toBe(existing.id);
+      expect(db.createUser).not.toHaveBeenCalled();
+    });
+
+    it('says who already holds a handle', async () => {
+      const other = addUser('Someone');
+      const target = addUser('carol');
+      addTarget(other.id, target.id);
+
+      const error = await rejection(claimPersonaTarget(owner, 'Carol'));
+
+      expect(error.status).toBe(409);
+      expect(error.message).toMatch(/^@carol has already been cloned by @Someone\./);
+    });
+
+    it('will not claim your own account in any case', async () => {
+      const error = await rejection(claimPersonaTarget(owner, 'cloner'));
+      expect(error.status).toBe(400);
+    });
+  });
+
+  describe('resolvePersona', () => {
+    it('finds a cloned account whatever case the target is written in', async () => {
+      const target = addUser('DaveOps');
+      addTarget(owner.id, target.id);
+
+      await expect(resolvePersona(owner, '@daveops')).resolves.toBe(target);
+    });
+
+    it('tells apart accounts nobody cloned from ones someone else did', async () => {
+      const other = addUser('Someone');
+      const taken = addUser('Erin');
+      addTarget(other.id, taken.id);
+
+      expect((await rejection(resolvePersona(owner, 'erin'))).message)
+        .toMatch(/has already been cloned by @Someone/);
+      expect((await rejection(resolvePersona(owner, 'frank'))).message)
+        .toBe('You have not cloned @frank. Clone it first to use it.');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { RateLimiter, RateLimitExceededError, rateLimitHeaders } from '../rate-limiter';
+
+// Token buckets refilled the way the Postgres upsert does it, on the (fake) clock
+const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+const db = {
+  consumeRateLimit: jest.fn(async (key: string, bucket: { capacity: number; refillPerSecond: number; cost: number }) => {
+    const now = Date.now();
+    const previous = buckets.get(key);
+    const available = previous
+      ? Math.min(bucket.capacity, previous.tokens + (now - previous.updatedAt) / 1000 * bucket.refillPerSecond)
+      : bucket.capacity;
+    const allowed = available >= bucket.cost;
+    const tokens = allowed ? available - bucket.cost : available;
+    buckets.set(key, { tokens, updatedAt: now });
+    return { allowed, tokens };
+  }),
+  pruneRateLimits: jest.fn(async () => 0)
+};
+
+jest.mock('@/lib/db', () => ({
+  initDB: async () => db
+}));
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    buckets.clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('allows a burst up to the limit, then says when to come back', async () => {
+    const limiter = new RateLimiter('chat', 3, 60 * 1000);
+
+    const allowed = [];
+    for (let n = 0; n < 3; n++) {
+      allowed.push(await limiter.checkLimit('user-1'));
+    }
+    const rejected = await limiter.checkLimit('user-1');
+
+    expect(allowed.map(result => result.remaining)).toEqual([2, 1, 0]);
+    expect(allowed.every(result => result.allowed && result.retryAfter === 0)).toBe(true);
+    // One token refills every 20 seconds; the bucket is full again after a minute
+    expect(rejected).toEqual({ allowed: false, limit: 3, remaining: 0, reset: 60, retryAfter: 20, windowSeconds: 60 });
+  });
+
+  it('refills the bucket as time passes', async () => {
+    const limiter = new RateLimiter('chat', 3, 60 * 1000);
+    for (let n = 0; n < 3; n++) {
+      await limiter.checkLimit('user-1');
+    }
+
+    jest.advanceTimersByTime(19 * 1000);
+    expect((await limiter.checkLimit('user-1')).allowed).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect((await limiter.checkLimit('user-1')).allowed).toBe(true);
+  });
+
+  it('shares a bucket between limiters with the same namespace only', async () => {
+    const first = new RateLimiter('analyze', 1);
+    const second = new RateLimiter('analyze', 1);
+    const other = new RateLimiter('scrape', 1);
+
+    expect((await first.checkLimit('user-1')).allowed).toBe(true);
+    expect((await second.checkLimit('user-1')).allowed).toBe(false);
+    expect((await second.checkLimit('user-2')).allowed).toBe(true);
+    expect((await other.checkLimit('user-1')).allowed).toBe(true);
+  });
+
+  it('takes the cost of heavier requests from the same bucket', async () => {
+    const limiter = new RateLimiter('analyze', 10, 60 * 1000);
+
+    expect(await limiter.checkLimit('user-1', 6)).toMatchObject({ allowed: true, remaining: 4 });
+    // Two more tokens at one every 6 seconds
+    expect(await limiter.checkLimit('user-1', 6)).toMatchObject({ allowed: false, retryAfter: 12 });
+  });
+
+  it('lets requests through when the database is unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    db.consumeRateLimit.mockRejectedValueOnce(new Error('connection refused'));
+
+    const result = await new RateLimiter('chat', 3).checkLimit('user-1');
+
+    expect(result).toEqual({ allowed: true, limit: 3, remaining: 3, reset: 0, retryAfter: 0, windowSeconds: 60 });
+  });
+
+  it('now and then prunes buckets left idle for a day', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    await new RateLimiter('chat').checkLimit('user-1');
+
+    expect(db.pruneRateLimits).toHaveBeenCalledWith(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  const result = { allowed: true, limit: 30, remaining: 12, reset: 36, retryAfter: 0, windowSeconds: 60 };
+
+  it('describes the limit and what is left of it', () => {
+    expect(rateLimitHeaders(result)).toEqual({
+      'RateLimit-Limit': '30',
+      'RateLimit-Remaining': '12',
+      'RateLimit-Reset': '36',
+      'RateLimit-Policy': '30;w=60'
+    });
+  });
+
+  it('adds Retry-After to rejections', () => {
+    const rejected = { ...result, allowed: false, remaining: 0, retryAfter: 2 };
+
+    expect(rateLimitHeaders(rejected)['Retry-After']).toBe('2');
+    expect(new RateLimitExceededError(rejected)).toMatchObject({
+      status: 429,
+      message: 'Rate limit exceeded. Please try again in 2 seconds'
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { EventEmitter } from 'events';
+import type { WorkerOptions } from 'worker_threads';
+import type { DBScrapeJob } from '@/lib/db/adapters/types';
+import type { WorkerMessage } from '@/lib/twitter/types';
+import { WorkerPool } from '../worker-pool';
+
+class FakeWorker extends EventEmitter {
+  postMessage = jest.fn();
+  // A terminated worker exits with code 1, like a real one
+  terminate = jest.fn(async () => {
+    this.emit('exit', 1);
+    return 1;
+  });
+
+  constructor(public readonly workerData: { username: string }) {
+    super();
+  }
+}
+
+const workers: FakeWorker[] = [];
+
+jest.mock('worker_threads', () => ({
+  Worker: function Worker(_workerPath: string, options: WorkerOptions) {
+    const worker = new FakeWorker(options.workerData);
+    workers.push(worker);
+    return worker;
+  }
+}));
+
+const jobs: DBScrapeJob[] = [];
+
+function findJob(id: string): DBScrapeJob {
+  const job = jobs.find(candidate => candidate.id === id);
+  if (!job) throw new Error(`No job ${id}`);
+  return job;
+}
+
+function addQueuedJob(id: string, overrides: Partial<DBScrapeJob> = {}): DBScrapeJob {
+  const now = new Date();
+  const job: DBScrapeJob = {
+    id,
+    user_id: `user-${id}`,
+    username: `handle_${id}`,
+    status: 'queued',
+    progress: 0,
+    phase: null,
+    status_message: null,
+    scan_progress: null,
+    source: { type: 'fixture', path: 'tests/fixtures/tweets' },
+    mode: 'incremental',
+    spec: {},
+    attempts: 0,
+    max_attempts: 3,
+    error: null,
+    requested_by: null,
+    lease_owner: null,
+    lease_expires_at: null,
+    heartbeat_at: null,
+    run_after: null,
+    created_at: now,
+    started_at: null,
+    completed_at: null,
+    updated_at: now,
+    ...overrides
+  };
+  jobs.push(job);
+  return job;
+}
+
+const due = (date: Date | null) => !date || date.getTime() <= Date.now();
+
+// Leases, heartbeats and failures the way the Postgres adapter does them
+const db = {
+  getScrapeQueueLength: jest.fn(async () => jobs.filter(job => job.status === 'queued').length),
+  createScrapeJob: jest.fn(async (job: { id: string; userId: string; username: string }) =>
+    addQueuedJob(job.id, { user_id: job.userId, username: job.username })),
+  getActiveScrapeJob: jest.fn(async () => null),
+  leaseNextScrapeJob: jest.fn(async (owner: string, leaseMs: number) => {
+    for (const job of jobs) {
+      if (job.status === 'running' && due(job.lease_expires_at) && job.attempts >= job.max_attempts) {
+        job.status = 'failed';
+      }
+    }
+    const job = jobs.find(candidate =>
+      (candidate.status === 'queued' && due(candidate.run_after)) ||
+      (candidate.status === 'running' && due(candidate.lease_expires_at)));
+    if (!job) return null;
+
+    job.status = 'running';
+    job.lease_owner = owner;
+    job.lease_expires_at = new Date(Date.now() + leaseMs);
+    job.attempts += 1;
+    return { ...job };
+  }),
+  heartbeatScrapeJob: jest.fn(async (id: string, owner: string, leaseMs: number) => {
+    const job = findJob(id);
+    if (job.lease_owner !== owner || job.status !== 'running') return false;
+    job.lease_expires_at = new Date(Date.now() + leaseMs);
+    return true;
+  }),
+  updateScrapeJobProgress: jest.fn(async () => undefined),
+  completeScrapeJob: jest.fn(async (id: string) => {
+    findJob(id).status = 'completed';
+  }),
+  failScrapeJob: jest.fn(async (id: string, owner: string, error: string, retryDelayMs: number) => {
+    const job = findJob(id);
+    if (job.lease_owner !== owner) return null;
+    const retrying = job.attempts < job.max_attempts;
+    Object.assign(job, {
+      status: retrying ? 'queued' : 'failed',
+      error,
+      lease_owner: null,
+      lease_expires_at: null,
+      run_after: retrying ? new Date(Date.now() + retryDelayMs) : null
+    });
+    return { ...job };
+  })
+};
+
+jest.mock('@/lib/db', () => ({
+  initDB: async () => db
+}));
+
+const published: WorkerMessage[] = [];
+
+jest.mock('@/lib/progress-bus', () => ({
+  ProgressBus: {
+    getInstance: () => ({
+      publish: async (_jobId: string, _userId: string, message: WorkerMessage) => {
+        published.push(message);
+      }
+    })
+  }
+}));
+
+jest.mock('@/lib/tweet-memory', () => ({
+  isTweetMemoryEnabled: () => false,
+  rebuildTweetMemory: async () => undefined
+}));
+
+// setImmediate is left real so this waits for every pending promise to settle
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool;
+
+  beforeAll(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => {});
+    }
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jobs.length = 0;
+    workers.length = 0;
+    published.length = 0;
+    jest.clearAllMocks();
+    pool = new WorkerPool(1, 10);
+  });
+
+  afterEach(async () => {
+    await pool.shutdown();
+    jest.useRealTimers();
+  });
+
+  async function addJob(id: string): Promise<DBScrapeJob> {
+    return pool.addJob({
+      id,
+      userId: `user-${id}`,
+      username: `handle_${id}`,
+      source: { type: 'fixture', path: 'tests/fixtures/tweets' }
+    });
+  }
+
+  it('leases a new job and runs it on a worker until it completes', async () => {
+    await addJob('job-1');
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].workerData.username).toBe('handle_job-1');
+    expect(findJob('job-1')).toMatchObject({ status: 'running', attempts: 1 });
+
+    workers[0].emit('message', { type: 'complete', status: 'Done' });
+    await flush();
+
+    expect(db.completeScrapeJob).toHaveBeenCalledWith('job-1', expect.any(String), 'Done');
+    expect(findJob('job-1').status).toBe('completed');
+  });
+
+  it('leaves further jobs queued until a worker is free', async () => {
+    await addJob('job-1');
+    await addJob('job-2');
+
+    expect(workers).toHaveLength(1);
+    expect(findJob('job-2').status).toBe('queued');
+
+    workers[0].emit('message', { type: 'complete' });
+    workers[0].emit('exit', 0);
+    await flush();
+
+    expect(workers).toHaveLength(2);
+    expect(workers[1].workerData.username).toBe('handle_job-2');
+  });
+
+  it('renews the lease with a heartbeat while the worker runs', async () => {
+    await addJob('job-1');
+    const { lease_owner: owner } = findJob('job-1');
+
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(db.heartbeatScrapeJob).toHaveBeenCalledWith('job-1', owner, 30000);
+    expect(findJob('job-1').lease_expires_at!.getTime()).toBe(Date.now() + 30000);
+    expect(workers[0].terminate).not.toHaveBeenCalled();
+  });
+
+  it('stops the worker without recording a failure once another instance takes the lease', async () => {
+    await addJob('job-1');
+    findJob('job-1').lease_owner = 'another-instance';
+
+    await jest.advanceTimersByTimeAsync(10000);
+    await flush();
+
+    expect(workers[0].postMessage).toHaveBeenCalledWith({ type: 'terminate' });
+    expect(workers[0].terminate).toHaveBeenCalled();
+    expect(db.failScrapeJob).not.toHaveBeenCalled();
+    expect(findJob('job-1')).toMatchObject({ status: 'running', lease_owner: 'another-instance' });
+  });
+
+  it('picks up a job whose owner stopped heartbeating', async () => {
+    addQueuedJob('stale', {
+      status: 'running',
+      attempts: 1,
+      lease_owner: 'crashed-instance',
+      lease_expires_at: new Date(Date.now() - 1000)
+    });
+
+    await addJob('job-1');
+
+    expect(workers[0].workerData.username).toBe('handle_stale');
+    expect(findJob('stale')).toMatchObject({ attempts: 2 });
+    expect(findJob('stale').lease_owner).not.toBe('crashed-instance');
+  });
+
+  it('requeues a crashed attempt and only leases it again once its backoff has passed', async () => {
+    await addJob('job-1');
+
+    workers[0].emit('exit', 1);
+    await flush();
+
+    expect(db.failScrapeJob).toHaveBeenCalledWith('job-1', expect.any(String), 'Worker exited with code 1', 30000);
+    expect(published).toContainEqual(expect.objectContaining({
+      type: 'warning',
+      status: 'Attempt 1 failed, retrying in 30s...'
+    }));
+    expect(workers).toHaveLength(1);
+
+    // Polls inside the backoff find nothing due
+    await jest.advanceTimersByTimeAsync(25000);
+    expect(workers).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(workers).toHaveLength(2);
+    expect(findJob('job-1').attempts).toBe(2);
+  });
+
+  it('doubles the backoff with each failed attempt', async () => {
+    addQueuedJob('job-1', { attempts: 1 });
+    await addJob('job-2');
+
+    workers[0].emit('message', { type: 'error', error: 'Rate limited' });
+    await flush();
+
+    expect(db.failScrapeJob).toHaveBeenCalledWith('job-1', expect.any(String), 'Rate limited', 60000);
+  });
+
+  it('reports the error once the last attempt fails', async () => {
+    addQueuedJob('job-1', { attempts: 2 });
+    await addJob('job-2');
+
+    workers[0].emit('message', { type: 'error', error: 'Account is private' });
+    await flush();
+
+    expect(findJob('job-1')).toMatchObject({ status: 'failed', run_after: null });
+    expect(published).toContainEqual(expect.objectContaining({ type: 'error', error: 'Account is private' }));
+    expect(published).not.toContainEqual(expect.objectContaining({ type: 'warning' }));
+  });
+});
@@ -0,0 +1,178 @@
+import { analyzeStylometry, tokenize } from '../stylometry';
+
+const en = (text: string) => ({ text, lang: 'en' });
+const es = (text: string) => ({ text, lang: 'es' });
+
+describe('tokenize', () => {
+  it('tells words, mentions, cashtags, numbers, emoji, URLs and hashtags apart', () => {
+    expect(tokenize('gm @alice! $eth up 12.5% today 🚀 see https://x.com/a/b?c=1 #buildinpublic')).toEqual([
+      { kind: 'word', text: 'gm' },
+      { kind: 'mention', text: '@alice' },
+      { kind: 'cashtag', text: '$eth' },
+      { kind: 'word', text: 'up' },
+      { kind: 'number', text: '12.5%' },
+      { kind: 'word', text: 'today' },
+      { kind: 'emoji', text: '🚀' },
+      { kind: 'word', text: 'see' },
+      { kind: 'url', text: 'https://x.com/a/b?c=1' },
+      { kind: 'hashtag', text: '#buildinpublic' }
+    ]);
+  });
+
+  it('keeps emoji sequences whole and drops the variation selector', () => {
+    expect(tokenize('👍🏽 ❤️ 👨‍💻 🇪🇸🔥🔥')).toEqual([
+      { kind: 'emoji', text: '👍🏽' },
+      { kind: 'emoji', text: '❤' },
+      { kind: 'emoji', text: '👨‍💻' },
+      { kind: 'emoji', text: '🇪🇸' },
+      { kind: 'emoji', text: '🔥' },
+      { kind: 'emoji', text: '🔥' }
+    ]);
+  });
+
+  it('keeps grouped and decimal numbers whole', () => {
+    expect(tokenize('raised 1,000,000 at 3.5x in 2024')).toEqual([
+      { kind: 'word', text: 'raised' },
+      { kind: 'number', text: '1,000,000' },
+      { kind: 'word', text: 'at' },
+      { kind: 'number', text: '3.5' },
+      { kind: 'word', text: 'x' },
+      { kind: 'word', text: 'in' },
+      { kind: 'number', text: '2024' }
+    ]);
+  });
+
+  it('straightens apostrophes and keeps hyphenated and accented words', () => {
+    expect(tokenize('don’t re-run the café build').map(token => token.text))
+      .toEqual(['don\'t', 're-run', 'the', 'café', 'build']);
+  });
+
+  it('ignores cashtags that are really prices', () => {
+    expect(tokenize('only $5 today').map(token => token.kind)).toEqual(['word', 'number', 'word']);
+  });
+});
+
+describe('analyzeStylometry', () => {
+  describe('n-grams', () => {
+    const { vocabulary } = analyzeStylometry([
+      en('building in public is the best way to learn'),
+      en('still building in public after a year of the grind'),
+      en('day 3 of building in public')
+    ]);
+    const stopwords = new Set(['a', 'in', 'is', 'of', 'the', 'to']);
+
+    it('finds phrases that contain stopwords', () => {
+      expect(vocabulary.commonPhrases[0]).toEqual({ phrase: 'building in public', frequency: 3, percentage: 100 });
+    });
+
+    it('never starts or ends a phrase with a stopword', () => {
+      const phrases = [
+        ...vocabulary.commonPhrases,
+        ...vocabulary.nGrams.bigrams,
+        ...vocabulary.nGrams.trigrams
+      ].map(({ phrase }) => phrase.split(' '));
+
+      expect(phrases.length).toBeGreaterThan(0);
+      for (const words of phrases) {
+        expect(stopwords.has(words[0])).toBe(false);
+        expect(stopwords.has(words[words.length - 1])).toBe(false);
+      }
+      expect(vocabulary.nGrams.bigrams.map(({ phrase }) => phrase)).not.toContain('of the');
+    });
+
+    it('leaves stopwords and numbers out of the common terms', () => {
+      const terms = vocabulary.commonTerms.map(({ term }) => term);
+      expect(terms).toContain('building');
+      expect(terms).not.toContain('in');
+      expect(terms).not.toContain('3');
+    });
+
+    it('does not run phrases across punctuation', () => {
+      const { vocabulary: split } = analyzeStylometry([en('ship fast, sleep well'), en('ship fast, sleep well')]);
+      expect(split.nGrams.bigrams.map(({ phrase }) => phrase)).toEqual(['ship fast', 'sleep well']);
+    });
+  });
+
+  describe('sentence lengths and capitalization', () => {
+    const { vocabulary, patterns } = analyzeStylometry([
+      en('Shipped the new release today. It took three weeks of late nights but it is finally out.'),
+      en('no caps ever, just vibes'),
+      en('THIS IS HUGE'),
+      en('the API is down again'),
+      en('Big news. the launch slipped')
+    ]);
+
+    it('buckets sentences by word count', () => {
+      const { sentenceLengths } = vocabulary.metrics;
+      expect(sentenceLengths).toMatchObject({ veryShort: 6, short: 0, medium: 1, long: 0, veryLong: 0 });
+      expect(sentenceLengths.distribution).toEqual({ veryShort: 85.7, short: 0, medium: 14.3, long: 0, veryLong: 0 });
+    });
+
+    it('classifies each tweet by its casing, ignoring acronyms', () => {
+      // Lowercase: "no caps" and "the API"; mixed: the shouted tweet and "Big news. the launch"
+      expect(vocabulary.metrics.capitalizationStats).toEqual({
+        lowercase: 40,
+        sentenceCase: 20,
+        mixedCase: 40,
+        totalMessages: 5
+      });
+      expect(patterns.capitalization).toBe('mixed');
+    });
+
+    it('calls a mostly lowercase writer mostly-lowercase', () => {
+      const { patterns: lowercase } = analyzeStylometry([
+        en('gm frens'),
+        en('shipping the thing today'),
+        en('the API docs are finally up'),
+        en('Launch day. Wish us luck')
+      ]);
+      expect(lowercase.capitalization).toBe('mostly-lowercase');
+    });
+  });
+
+  describe('per-language habits', () => {
+    const { languages } = analyzeStylometry([
+      en('Hot take: most build tooling exists to fix problems it created.'),
+      en('Hot take: the best docs are the tests.'),
+      en('Shipped the new dashboard today. Feels good.'),
+      en('Reading about compilers again, wow.'),
+      en('Wow, the new release is out and it is fast.'),
+      en('Heading to the meetup tonight.'),
+      es('creo que el mejor código es el que no escribes. increíble'),
+      es('creo que hoy toca refactorizar todo'),
+      es('la verdad no sé por qué funciona, increíble'),
+      // Untagged, detected from its stopwords
+      { text: 'creo que la mejor parte del día es el café' }
+    ]);
+
+    it('measures each language they write a real share of their tweets in', () => {
+      expect(languages.map(({ language, share }) => [language, share])).toEqual([['en', 60], ['es', 40]]);
+    });
+
+    it('reads each language with its own markers', () => {
+      const [english, spanish] = languages;
+      expect(english.framing).toContain('hot take');
+      expect(english.enthusiasmMarkers).toContain('wow');
+      expect(spanish.framing).toEqual(expect.arrayContaining(['creo que', 'la verdad']));
+      expect(spanish.enthusiasmMarkers).toContain('increíble');
+      expect(spanish.framing).not.toContain('hot take');
+    });
+
+    it('keeps casing habits apart', () => {
+      const [english, spanish] = languages;
+      expect(english.capitalization).toBe('standard');
+      expect(spanish.capitalization).toBe('mostly-lowercase');
+    });
+
+    it('uses Spanish stopwords for Spanish phrases', () => {
+      const spanishStopwords = new Set(['de', 'del', 'el', 'la', 'que', 'es', 'no', 'por']);
+      const [, spanish] = languages;
+      expect(spanish.commonPhrases.length).toBeGreaterThan(0);
+      for (const phrase of spanish.commonPhrases) {
+        const words = phrase.split(' ');
+        expect(spanishStopwords.has(words[0])).toBe(false);
+        expect(spanishStopwords.has(words[words.length - 1])).toBe(false);
+      }
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import type { PersonalityAnalysis } from '../openai/types';
+
+type CommunicationLevel = 'low' | 'medium' | 'high';
+type SocialBehaviorMetric = keyof PersonalityAnalysis['socialBehaviorMetrics'];
+
+const COMMUNICATION_FIELDS = [
+  'formality',
+  'enthusiasm',
+  'technicalLevel',
+  'emojiUsage',
+  'verbosity'
+] as const;
+
+const LEVEL_RANK: Record<CommunicationLevel, number> = { low: 0, medium: 1, high: 2 };
+
+export interface TraitDelta {
+  name: string;
+  from: number | null;  // null when the trait is new in the later snapshot
+  to: number | null;    // null when the trait was dropped
+  delta: number;
+}
+
+export interface LevelChange {
+  field: typeof COMMUNICATION_FIELDS[number];
+  from: CommunicationLevel | null;
+  to: CommunicationLevel | null;
+  direction: 'up' | 'down' | 'changed';
+}
+
+export interface MetricDrift {
+  metric: SocialBehaviorMetric;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface PersonalityDiff {
+  traits: TraitDelta[];
+  interests: {
+    added: string[];
+    removed: string[];
+  };
+  communicationStyle: LevelChange[];
+  socialBehaviorMetrics: MetricDrift[];
+}
+
+// Interests come back as "Name: detail", so match them on the name alone
+function interestKey(interest: string): string {
+  return interest.split(':')[0].trim().toLowerCase();
+}
+
+function diffTraits(from: PersonalityAnalysis, to: PersonalityAnalysis): TraitDelta[] {
+  const before = new Map(from.traits.map(trait => [trait.name.toLowerCase(), trait]));
+  const after = new Map(to.traits.map(trait => [trait.name.toLowerCase(), trait]));
+  const names = new Set([...before.keys(), ...after.keys()]);
+
+  return Array.from(names)
+    .map(key => {
+      const previous = before.get(key);
+      const current = after.get(key);
+      return {
+        name: (current ?? previous)!.name,
+        from: previous?.score ?? null,
+        to: current?.score ?? null,
+        delta: (current?.score ?? 0) - (previous?.score ?? 0)
+      };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+function diffInterests(from: PersonalityAnalysis, to: PersonalityAnalysis): PersonalityDiff['interests'] {
+  const before = new Set(from.interests.map(interestKey));
+  const after = new Set(to.interests.map(interestKey));
+
+  return {
+    added: to.interests.filter(interest => !before.has(interestKey(interest))),
+    removed: from.interests.filter(interest => !after.has(interestKey(interest)))
+  };
+}
+
+function diffCommunicationStyle(from: PersonalityAnalysis, to: PersonalityAnalysis): LevelChange[] {
+  const changes: LevelChange[] = [];
+
+  for (const field of COMMUNICATION_FIELDS) {
+    const previous = from.communicationStyle?.[field] ?? null;
+    const current = to.communicationStyle?.[field] ?? null;
+    if (previous === current) continue;
+
+    let direction: LevelChange['direction'] = 'changed';
+    if (previous && current && previous in LEVEL_RANK && current in LEVEL_RANK) {
+      direction = LEVEL_RANK[current] > LEVEL_RANK[previous] ? 'up' : 'down';
+    }
+    changes.push({ field, from: previous, to: current, direction });
+  }
+
+  return changes;
+}
+
+function diffSocialBehaviorMetrics(from: PersonalityAnalysis, to: PersonalityAnalysis): MetricDrift[] {
+  const before = from.socialBehaviorMetrics ?? {};
+  const after = to.socialBehaviorMetrics ?? {};
+  const metrics = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<SocialBehaviorMetric>;
+
+  return Array.from(metrics)
+    .map(metric => {
+      const previous = Number(before[metric]) || 0;
+      const current = Number(after[metric]) || 0;
+      return { metric, from: previous, to: current, delta: current - previous };
+    })
+    .filter(drift => drift.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+/**
+ * Compare two personality snapshots. Traits are listed largest change first;
+ * communication style and social behavior only list what moved.
+ */
+export function diffPersonalityAnalyses(from: PersonalityAnalysis, to: PersonalityAnalysis): PersonalityDiff {
+  return {
+    traits: diffTraits(from, to),
+    interests: diffInterests(from, to),
+    communicationStyle: diffCommunicationStyle(from, to),
+    socialBehaviorMetrics: diffSocialBehaviorMetrics(from, to)
+  };
+}
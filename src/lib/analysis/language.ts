@@ -0,0 +1,162 @@
+// Which language a tweet is written in, and the word lists used to read it.
+// Twitter tags most tweets with a language; the rest are detected locally
+// from their script or, for Latin-script languages, their stopwords.
+
+export interface Lexicon {
+  stopwords: Set<string>;
+  enthusiasm: string[];
+  framing: string[];
+  imperatives: Set<string>;
+}
+
+function lexicon(stopwords: string, enthusiasm: string[], framing: string[], imperatives: string): Lexicon {
+  return {
+    stopwords: new Set(stopwords.split(' ')),
+    enthusiasm,
+    framing,
+    imperatives: new Set(imperatives.split(' '))
+  };
+}
+
+// Word lists per language. Phrases are matched on lowercased words, so they
+// are written the same way.
+const LEXICONS: Record<string, Lexicon> = {
+  en: lexicon(
+    'a about above after again against all also am an and any are as at be because been before being below between both but by can could did do does doing down during each few for from further get got had has have having he her here hers herself him himself his how i if in into is it its itself just me more most my myself no nor not now of off on once only or other our ours ourselves out over own same she should so some such than that the their theirs them themselves then there these they this those through to too under until up very was we were what when where which while who whom why will with would you your yours yourself yourselves i\'m it\'s don\'t can\'t that\'s i\'ve you\'re we\'re there\'s',
+    ['wow', 'omg', 'amazing', 'incredible', 'awesome', 'insane', 'huge', 'massive', 'epic', 'excited', 'lfg', 'let\'s go', 'lets go', 'so good', 'hell yeah', 'yay', 'bullish'],
+    ['i think', 'imo', 'imho', 'in my opinion', 'hot take', 'unpopular opinion', 'because', 'here\'s', 'how to', 'the thing is', 'tldr', 'pro tip', 'psa', 'reminder', 'fun fact', 'honestly', 'tbh', 'ngl', 'thread'],
+    'check read try join build ship stop start go get make follow watch look let think remember imagine use buy sell learn listen grab come tell give keep take find help sign vote meet see don\'t never always'
+  ),
+  es: lexicon(
+    'a al algo algunas algunos ante antes como con contra cual cuando de del desde donde durante e el él ella ellas ellos en entre era es esa ese eso esta está estas este esto estos fue ha hay hasta la las le les lo los me mi mí mis mucho muchos muy más nada ni no nos nosotros o otra otras otro otros para pero poco por porque que qué quien quienes se ser si sí sin sobre son su sus también te ti todo todos tu tú tus un una uno unos y ya yo',
+    ['increíble', 'genial', 'wow', 'vamos', 'brutal', 'buenísimo', 'me encanta', 'qué bueno', 'espectacular', 'enorme', 'feliz'],
+    ['creo que', 'en mi opinión', 'porque', 'la verdad', 'opinión impopular', 'hilo', 'ojo', 'recordatorio', 'sinceramente', 'dato'],
+    'mira mirad lee prueba únete sigue haz ven dale escucha recuerda imagina compra aprende usa piensa'
+  ),
+  fr: lexicon(
+    'a ai as au aussi aux avec bien c ce ces cette ça d dans de des du elle en est et était été eux il j je l la le les leur lui m ma mais me même mes moi mon n ne nos notre nous on ou par pas plus pour qu que qui s sa se ses son sont sur t ta te tes toi ton tout très tu un une vos votre vous y à',
+    ['incroyable', 'génial', 'trop bien', 'énorme', 'wow', 'trop fort', 'magnifique', 'excellent', 'allez', 'hâte'],
+    ['je pense', 'à mon avis', 'parce que', 'franchement', 'en vrai', 'thread', 'rappel', 'avis impopulaire'],
+    'regardez regarde lisez lis essayez essaie rejoignez suivez viens écoute imaginez pensez achetez apprenez'
+  ),
+  de: lexicon(
+    'aber alle als also am an auch auf aus bei bin bis bist da damit dann das dass dem den der des die du ein eine einem einen einer er es für hat hatte habe ich ihr im in ist ja kann mal mich mir mit nach nicht noch nur ob oder schon sehr sich sie sind so um und uns unter vom von vor war was weil wenn wie wir wird zu zum zur über',
+    ['wow', 'krass', 'geil', 'mega', 'super', 'genial', 'unglaublich', 'wahnsinn', 'hammer', 'endlich'],
+    ['ich denke', 'meiner meinung nach', 'weil', 'ehrlich gesagt', 'thread', 'unpopuläre meinung', 'erinnerung'],
+    'schau schaut lies lest probier probiert komm kommt hör denk stell kauf lerne folgt mach macht'
+  ),
+  pt: lexicon(
+    'a ao aos as com como da das de do dos e ela elas ele eles em essa esse esta este está eu foi isso isto já mais mas me meu minha muito na nas no nos não nós o os ou para por que se ser seu sua são também te tem ter um uma à é',
+    ['incrível', 'demais', 'sensacional', 'wow', 'bora', 'vamos', 'maravilhoso', 'animado', 'enorme', 'que massa'],
+    ['eu acho', 'na minha opinião', 'porque', 'sinceramente', 'fio', 'thread', 'lembrete', 'opinião impopular'],
+    'olha leia tente experimente segue siga vem venha escuta imagine compre aprenda use pense'
+  )
+};
+
+const NO_LEXICON: Lexicon = lexicon('', [], [], '');
+
+// Twitter's codes for tweets it couldn't assign a language: undetermined, no
+// linguistic content, and media/hashtag/cashtag/mention-only or "art" tweets
+const UNDETERMINED = new Set(['und', 'zxx', 'qme', 'qht', 'qam', 'qct', 'qst', 'art']);
+
+// Scripts that point to one language. Kana comes before Han, which Japanese also uses.
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['ja', /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ['ko', /\p{Script=Hangul}/gu],
+  ['zh', /\p{Script=Han}/gu],
+  ['ru', /\p{Script=Cyrillic}/gu],
+  ['ar', /\p{Script=Arabic}/gu],
+  ['he', /\p{Script=Hebrew}/gu],
+  ['el', /\p{Script=Greek}/gu],
+  ['th', /\p{Script=Thai}/gu],
+  ['hi', /\p{Script=Devanagari}/gu]
+];
+
+const LETTERS = /\p{L}/gu;
+const WORDS = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*/gu;
+const MENTIONS_AND_URLS = /https?:\/\/\S+|www\.\S+|[@#$][\p{L}\p{N}_]+/gu;
+
+const MIN_STOPWORD_HITS = 2;
+const MIN_STOPWORD_SHARE = 0.15;  // Of the words in the text
+const MIN_LANGUAGE_SHARE = 15;    // Percent of tweets a language needs to count as one they write in
+
+export interface LanguageShare {
+  language: string;    // ISO 639-1 code
+  tweetCount: number;
+  share: number;       // Percent of the tweets with a known language
+}
+
+// The word lists for a language; languages without one get none
+export function lexiconFor(language: string | null | undefined): Lexicon {
+  return (language && LEXICONS[language]) || NO_LEXICON;
+}
+
+/**
+ * Guess the language of a text, or null when there's too little to go on.
+ * Non-Latin scripts decide it when they make up most of the letters; otherwise
+ * the language whose stopwords the text uses most wins, if clearly ahead.
+ * Only languages with a lexicon can be told apart this way.
+ */
+export function detectLanguage(text: string): string | null {
+  const body = text.replace(MENTIONS_AND_URLS, ' ');
+  const letters = body.match(LETTERS)?.length ?? 0;
+  if (letters === 0) return null;
+
+  for (const [language, pattern] of SCRIPTS) {
+    if ((body.match(pattern)?.length ?? 0) * 2 > letters) return language;
+  }
+
+  const words = (body.match(WORDS) ?? []).map(word => word.toLowerCase().replace(/’/g, '\''));
+  const hits = Object.entries(LEXICONS)
+    .map(([language, { stopwords }]): [string, number] => [language, words.filter(word => stopwords.has(word)).length])
+    .sort((a, b) => b[1] - a[1]);
+  const [best, runnerUp] = hits;
+  if (!best || best[1] < MIN_STOPWORD_HITS || best[1] < words.length * MIN_STOPWORD_SHARE) return null;
+  if (runnerUp && runnerUp[1] === best[1]) return null;
+  return best[0];
+}
+
+// Normalizes Twitter's tag ("en-gb" -> "en") and detects untagged tweets
+export function tweetLanguage(tweet: { text: string; lang?: string }): string | null {
+  const tagged = tweet.lang?.toLowerCase().split('-')[0];
+  if (tagged && !UNDETERMINED.has(tagged)) return tagged;
+  return detectLanguage(tweet.text);
+}
+
+// Languages someone tweets in, most used first. Tweets with no known language aren't counted.
+export function languageMix(tweets: Array<{ text: string; lang?: string }>): LanguageShare[] {
+  const counts = new Map<string, number>();
+  for (const tweet of tweets) {
+    const language = tweetLanguage(tweet);
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+  const known = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .map(([language, tweetCount]) => ({
+      language,
+      tweetCount,
+      share: Math.round((tweetCount / known) * 1000) / 10
+    }));
+}
+
+// The languages that make up a real part of someone's tweets; always includes the most used one
+export function dominantLanguages(mix: LanguageShare[]): LanguageShare[] {
+  return mix.filter((entry, index) => index === 0 || entry.share >= MIN_LANGUAGE_SHARE);
+}
+
+// English name of a language code, or the code itself when the runtime doesn't know it
+export function languageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+// "Spanish (70%), English (30%)", or null when no tweet's language is known
+export function describeLanguages(mix: LanguageShare[]): string | null {
+  const dominant = dominantLanguages(mix);
+  if (dominant.length === 0) return null;
+  return dominant.map(({ language, share }) => `${languageName(language)} (${Math.round(share)}%)`).join(', ');
+}
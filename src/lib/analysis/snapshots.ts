@@ -0,0 +1,46 @@
+import { randomUUID } from 'crypto';
+import { initDB } from '../db';
+import type { DBPersonalityAnalysis, PersonalitySnapshotSource } from '../db/adapters/types';
+import type { PersonalityAnalysis } from '../openai/types';
+
+/**
+ * Keep a finished analysis as the user's next immutable snapshot. Called where
+ * analyses are produced, not on cache saves, so tuning changes don't add versions.
+ */
+export async function savePersonalitySnapshot(
+  userId: string,
+  analysis: PersonalityAnalysis,
+  { source, tweetCount }: { source: PersonalitySnapshotSource; tweetCount?: number }
+): Promise<DBPersonalityAnalysis> {
+  const db = await initDB();
+  const style = analysis.communicationStyle;
+
+  return db.savePersonalityAnalysis({
+    id: randomUUID(),
+    user_id: userId,
+    traits: analysis.traits,
+    interests: analysis.interests,
+    communication_style: {
+      formality: style.formality,
+      enthusiasm: style.enthusiasm,
+      technicalLevel: style.technicalLevel,
+      emojiUsage: style.emojiUsage
+    },
+    analysis_data: analysis,
+    source,
+    tweet_count: tweetCount ?? null
+  });
+}
+
+// Snapshots written before full analyses were stored only have the summary columns
+export function snapshotAnalysis(snapshot: DBPersonalityAnalysis): PersonalityAnalysis {
+  if (snapshot.analysis_data) {
+    return snapshot.analysis_data;
+  }
+
+  return {
+    traits: snapshot.traits,
+    interests: snapshot.interests,
+    communicationStyle: snapshot.communication_style
+  } as unknown as PersonalityAnalysis;
+}
@@ -0,0 +1,549 @@
+import type { LanguageHabits, PersonalityAnalysis } from '../openai/types';
+import { type Lexicon, dominantLanguages, languageMix, lexiconFor, tweetLanguage } from './language';
+
+type Vocabulary = PersonalityAnalysis['vocabulary'];
+type WritingPatterns = PersonalityAnalysis['communicationStyle']['patterns'];
+type PhraseFrequency = Vocabulary['commonPhrases'][number];
+type MessageArchitecture = Vocabulary['metrics']['messageArchitecture'];
+
+export type TokenKind = 'word' | 'number' | 'url' | 'mention' | 'hashtag' | 'cashtag' | 'emoji';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+export interface StylometryOptions {
+  // ISO 639-1 code for tweets whose language is neither tagged nor detectable.
+  // Defaults to the language most of the tweets are in.
+  language?: string;
+}
+
+export interface Stylometry {
+  vocabulary: Vocabulary;
+  patterns: WritingPatterns;
+  languages: LanguageHabits[];
+}
+
+// Count towards enthusiasm in any language. Emoji are compared without the
+// variation selector, which tokenize drops.
+const ENTHUSIASM_EMOJI = new Set(['🔥', '🚀', '🎉', '💯', '🙌', '🤩', '😍', '❤', '💪', '⚡', '✨', '👏', '🥳']);
+
+// Scripts written without spaces, which TOKEN_PATTERN reads as one long word
+const NO_SPACE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const NO_SPACE_JOIN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]) (?=[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}])/gu;
+
+const URL_PATTERN = /https?:\/\/\S+|www\.\S+/gi;
+const TOKEN_PATTERN = /https?:\/\/\S+|www\.\S+|@[\p{L}\p{N}_]+|#[\p{L}\p{N}_]+|\$[A-Za-z][A-Za-z0-9]{0,9}|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*|\p{Regional_Indicator}{2}|\p{N}+(?:[.,]\p{N}+)*%?|[\p{L}\p{M}][\p{L}\p{M}\p{N}]*(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+
+// A stop only ends a sentence before whitespace, so decimals and domains stay whole
+const SENTENCE_BREAK = /[.!?…]+(?=\s|$)|\n+/u;
+const CLAUSE_BREAK = /[.!?…;:,]+(?=\s|$)|[()"“”]|\n+|\s[-–—]+\s/u;
+
+// Mentions, hashtags and emoji trailing a tweet, which don't decide how it ends
+const TRAILING_DECORATION = /(?:\s|@[\p{L}\p{N}_]+|#[\p{L}\p{N}_]+|\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\uFE0F|\u200D)+$/u;
+
+const PUNCTUATION_MARKS: Array<[string, RegExp]> = [
+  ['!!', /!{2,}/],
+  ['!', /!/],
+  ['?', /\?/],
+  ['...', /\.{3,}|…/],
+  ['—', /\s[-–—]\s|—/],
+  [':', /:(?=\s|$)/],
+  [';', /;/],
+  [',', /,/],
+  ['.', /(?:^|[^.])\.(?=\s|$)/],
+  ['()', /\([^)]*\)/],
+  ['""', /["“”]/]
+];
+
+const WORD_KINDS: ReadonlySet<TokenKind> = new Set<TokenKind>(['word', 'number', 'hashtag', 'cashtag']);
+
+const SHORT_MESSAGE_CHARS = 50;
+const LONG_MESSAGE_CHARS = 280;       // Twitter's limit before long posts
+const STREAM_OF_CONSCIOUSNESS_WORDS = 40;
+const PUNCTUATION_MIN_SHARE = 10;     // Percent of tweets a mark needs to count as a habit
+
+function tokenKind(token: string): TokenKind {
+  if (/^(?:https?:\/\/|www\.)/i.test(token)) return 'url';
+  switch (token[0]) {
+    case '@': return 'mention';
+    case '#': return 'hashtag';
+    case '$': return 'cashtag';
+  }
+  if (/^\p{N}/u.test(token)) return 'number';
+  if (/^[\p{L}\p{M}]/u.test(token)) return 'word';
+  return 'emoji';
+}
+
+// Phrases are counted as space-separated words; scripts without spaces are shown without them
+function displayPhrase(phrase: string): string {
+  return phrase.replace(NO_SPACE_JOIN, '$1');
+}
+
+// Intl.Segmenter is ES2022, newer than some of the libs this is compiled against (the worker's)
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+type WordSegmenterConstructor = new (locale: string | undefined, options: { granularity: 'word' }) => WordSegmenter;
+const Segmenter = (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+
+const segmenters = new Map<string, WordSegmenter>();
+
+// Splits runs of Chinese, Japanese, Thai and the like into words, where the runtime can
+function segmentWords(word: string, language?: string): string[] {
+  if (!NO_SPACE_SCRIPT.test(word) || !Segmenter) return [word];
+  const locale = language ?? '';
+  let segmenter = segmenters.get(locale);
+  if (!segmenter) {
+    segmenter = new Segmenter(language, { granularity: 'word' });
+    segmenters.set(locale, segmenter);
+  }
+  return Array.from(segmenter.segment(word))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment);
+}
+
+/**
+ * Split text into words, numbers, URLs, mentions, hashtags, cashtags and emoji.
+ * Punctuation and whitespace are dropped. Emoji keep skin tones and ZWJ
+ * sequences together and lose the variation selector; words use straight
+ * apostrophes. Scripts without spaces are split with the language's word
+ * segmenter.
+ */
+export function tokenize(text: string, language?: string): Token[] {
+  return (text.match(TOKEN_PATTERN) ?? []).flatMap((match): Token[] => {
+    const kind = tokenKind(match);
+    if (kind === 'emoji') return [{ kind, text: match.replace(/\uFE0F/g, '') }];
+    if (kind === 'word') return segmentWords(match.replace(/’/g, '\''), language).map(word => ({ kind, text: word }));
+    return [{ kind, text: match }];
+  });
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+function bump(counts: Map<string, number>, key: string, by: number = 1): void {
+  counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+// Most frequent first; ties are alphabetical so the same tweets always give the same result
+function ranked(counts: Map<string, number>, minCount: number, limit: number): Array<[string, number]> {
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    .slice(0, limit);
+}
+
+// Drops entries contained in a longer entry seen just as often
+function preferLonger(entries: Array<[string, number]>): Array<[string, number]> {
+  return entries.filter(([phrase, count]) => !entries.some(([other, otherCount]) =>
+    otherCount === count && other !== phrase && ` ${other} `.includes(` ${phrase} `)
+  ));
+}
+
+interface TweetText {
+  language: string;
+  lexicon: Lexicon;
+  body: string;          // The text without URLs
+  tokens: Token[];
+  sentences: Token[][];  // Non-empty sentences
+  clauses: string[][];   // Lowercased runs of words between punctuation, for n-grams
+  phraseText: string;    // Lowercased words joined by spaces, padded, for phrase matching
+}
+
+function readTweet(text: string, language: string): TweetText {
+  const body = text.replace(URL_PATTERN, ' ').trim();
+  const tokens = tokenize(body, language);
+  const sentences = body.split(SENTENCE_BREAK)
+    .map(sentence => tokenize(sentence, language))
+    .filter(sentence => sentence.some(token => WORD_KINDS.has(token.kind)));
+
+  const clauses: string[][] = [];
+  for (const clause of body.split(CLAUSE_BREAK)) {
+    let run: string[] = [];
+    for (const token of tokenize(clause, language)) {
+      if (token.kind === 'word' || token.kind === 'number') {
+        run.push(token.text.toLowerCase());
+      } else if (run.length > 0) {
+        clauses.push(run);
+        run = [];
+      }
+    }
+    if (run.length > 0) clauses.push(run);
+  }
+
+  const words = tokens.filter(token => token.kind === 'word' || token.kind === 'number').map(token => token.text.toLowerCase());
+  return { language, lexicon: lexiconFor(language), body, tokens, sentences, clauses, phraseText: ` ${words.join(' ')} ` };
+}
+
+function countWords(tokens: Token[]): number {
+  return tokens.filter(token => WORD_KINDS.has(token.kind)).length;
+}
+
+type Capitalization = 'lowercase' | 'uppercase' | 'sentence' | 'mixed';
+
+// Acronyms (API, LFG) don't make an otherwise lowercase tweet mixed case
+function isAcronym(word: string): boolean {
+  return /^\p{Lu}{2,}\p{N}*$/u.test(word);
+}
+
+function capitalizationOf(tweet: TweetText): Capitalization | null {
+  const words = tweet.tokens.filter(token => token.kind === 'word').map(token => token.text);
+  const letters = words.join('');
+  const hasUpper = /\p{Lu}/u.test(letters);
+  const hasLower = /\p{Ll}/u.test(letters);
+  if (!hasUpper && !hasLower) return null;  // Scripts without case
+  if (!hasLower && letters.length > 1) return 'uppercase';
+  if (!/\p{Lu}/u.test(words.filter(word => !isAcronym(word)).join(''))) return 'lowercase';
+
+  const sentencesCapitalized = tweet.sentences.every(sentence => {
+    const first = sentence.find(token => token.kind === 'word' && /[\p{Lu}\p{Ll}]/u.test(token.text));
+    return !first || /^\p{Lu}/u.test(first.text);
+  });
+  return sentencesCapitalized ? 'sentence' : 'mixed';
+}
+
+function terminalPunctuationOf(body: string): keyof MessageArchitecture['terminalPunctuation'] {
+  const text = body.replace(TRAILING_DECORATION, '');
+  if (/(?:\.\.\.|…)$/.test(text)) return 'ellipsis';
+  if (text.endsWith('!')) return 'exclamationMark';
+  if (text.endsWith('?')) return 'questionMark';
+  if (text.endsWith('.')) return 'period';
+  return 'none';
+}
+
+// How a tweet opens or closes: its outermost word or emoji, and its two
+// outermost words unless the inner one is a stopword ("building in")
+function edgeKeys(outer: Token | undefined, inner: Token | undefined, stopwords: Set<string>, opening: boolean): string[] {
+  const keys: string[] = [];
+  if (outer?.kind === 'emoji') keys.push(outer.text);
+  if (outer?.kind === 'word' && !stopwords.has(outer.text.toLowerCase())) keys.push(outer.text.toLowerCase());
+  if (outer?.kind === 'word' && inner?.kind === 'word' && !stopwords.has(inner.text.toLowerCase())) {
+    const words = [outer.text.toLowerCase(), inner.text.toLowerCase()];
+    keys.push((opening ? words : words.reverse()).join(' '));
+  }
+  return keys;
+}
+
+// Phrases from a lexicon that the tweet uses
+function matchPhrases(tweet: TweetText, phrases: string[]): string[] {
+  return phrases.filter(phrase => tweet.phraseText.includes(` ${phrase} `));
+}
+
+function analyzeArchitecture(tweets: TweetText[]): MessageArchitecture {
+  const structure = { singleWord: 0, shortPhrase: 0, actionOriented: 0, bulletedList: 0, streamOfConsciousness: 0 };
+  const terminal = { none: 0, period: 0, questionMark: 0, exclamationMark: 0, ellipsis: 0 };
+  let totalCharacters = 0;
+  let shortMessages = 0;
+  let longMessages = 0;
+  let bulletedTweets = 0;
+  let numberedTweets = 0;
+  let usesMarkdown = false;
+  let usesCodeBlocks = false;
+
+  for (const tweet of tweets) {
+    const wordCount = countWords(tweet.tokens);
+    const characters = Array.from(tweet.body).length;
+    const lines = tweet.body.split('\n');
+
+    if (wordCount === 1) structure.singleWord++;
+    else if (wordCount > 1 && wordCount <= 3) structure.shortPhrase++;
+
+    // Opens with an imperative, after any reply mentions
+    const firstWord = tweet.tokens.find(token => token.kind !== 'mention');
+    if (firstWord?.kind === 'word' && tweet.lexicon.imperatives.has(firstWord.text.toLowerCase())) {
+      structure.actionOriented++;
+    }
+
+    if (lines.filter(line => /^\s*[-•*▪‣◦→]\s+\S/.test(line)).length >= 2) {
+      structure.bulletedList++;
+      bulletedTweets++;
+    }
+    if (lines.filter(line => /^\s*\d+[.)]\s+\S/.test(line)).length >= 2) {
+      numberedTweets++;
+    }
+    if (tweet.body.includes('`')) {
+      usesCodeBlocks = true;
+    }
+    if (/\*\*[^*]+\*\*|__[^_]+__|\[[^\]]+\]\([^)]+\)|`/.test(tweet.body)) {
+      usesMarkdown = true;
+    }
+
+    if (wordCount >= STREAM_OF_CONSCIOUSNESS_WORDS && tweet.sentences.length <= 1) {
+      structure.streamOfConsciousness++;
+    }
+
+    terminal[terminalPunctuationOf(tweet.body)]++;
+
+    totalCharacters += characters;
+    if (characters < SHORT_MESSAGE_CHARS) shortMessages++;
+    if (characters > LONG_MESSAGE_CHARS) longMessages++;
+  }
+
+  const total = tweets.length;
+  const asPercentages = <T extends Record<string, number>>(counts: T): T =>
+    Object.fromEntries(Object.entries(counts).map(([key, count]) => [key, percent(count, total)])) as T;
+
+  return {
+    structureTypes: asPercentages(structure),
+    terminalPunctuation: asPercentages(terminal),
+    characterMetrics: {
+      averageLength: total > 0 ? Math.round(totalCharacters / total) : 0,
+      shortMessages: percent(shortMessages, total),
+      longMessages: percent(longMessages, total)
+    },
+    preferences: {
+      usesMarkdown,
+      usesBulletPoints: bulletedTweets > 0,
+      usesNumberedLists: numberedTweets > 0,
+      usesCodeBlocks,
+      preferredListStyle: bulletedTweets === 0 && numberedTweets === 0 ? 'none'
+        : bulletedTweets >= numberedTweets ? 'bullet' : 'numbered'
+    }
+  };
+}
+
+function toPhraseFrequencies(
+  entries: Array<[string, number]>,
+  occurrences: Map<string, number>,
+  tweetCount: number
+): PhraseFrequency[] {
+  return entries.map(([phrase, tweetsUsing]) => ({
+    phrase: displayPhrase(phrase),
+    frequency: occurrences.get(phrase) ?? tweetsUsing,
+    percentage: percent(tweetsUsing, tweetCount)
+  }));
+}
+
+// Each tweet is read with its own language's stopwords and markers
+function measure(texts: TweetText[]): Omit<Stylometry, 'languages'> {
+  const tweetCount = texts.length;
+  // With few tweets, anything seen once is as good a signal as there is
+  const minCount = tweetCount >= 10 ? 2 : 1;
+
+  const termCounts = new Map<string, number>();
+  const termKinds = new Map<string, TokenKind>();
+  const gramOccurrences = new Map<string, number>();
+  const gramTweets = [2, 3, 4, 5].map(() => new Map<string, number>());
+  const industryCounts = new Map<string, number>();
+  const industryForms = new Map<string, string>();
+  const enthusiasmCounts = new Map<string, number>();
+  const framingCounts = new Map<string, number>();
+  const openingCounts = new Map<string, number>();
+  const closingCounts = new Map<string, number>();
+  const punctuationCounts = new Map<string, number>();
+  const sentenceLengths = { veryShort: 0, short: 0, medium: 0, long: 0, veryLong: 0 };
+  const capitalization: Record<Capitalization, number> = { lowercase: 0, uppercase: 0, sentence: 0, mixed: 0 };
+  const uniqueWords = new Set<string>();
+  let totalWords = 0;
+  let tweetsWithLineBreaks = 0;
+
+  for (const tweet of texts) {
+    const { tokens, lexicon } = tweet;
+    const { stopwords } = lexicon;
+    totalWords += countWords(tokens);
+
+    // Terms
+    for (const token of tokens) {
+      if (WORD_KINDS.has(token.kind)) uniqueWords.add(token.text.toLowerCase());
+      if (token.kind === 'url' || token.kind === 'mention' || token.kind === 'number') continue;
+      const term = token.kind === 'emoji' ? token.text : token.text.toLowerCase();
+      if (token.kind === 'word' && (stopwords.has(term) || Array.from(term).length < 2)) continue;
+      bump(termCounts, term);
+      termKinds.set(term, token.kind);
+    }
+
+    // N-grams, counted by occurrence and by the tweets using them
+    const seenGrams = new Set<string>();
+    for (const clause of tweet.clauses) {
+      for (let n = 2; n <= 5; n++) {
+        for (let start = 0; start + n <= clause.length; start++) {
+          const gram = clause.slice(start, start + n);
+          if (stopwords.has(gram[0]) || stopwords.has(gram[n - 1])) continue;
+          if (gram.every(word => /^\p{N}/u.test(word))) continue;
+          const phrase = gram.join(' ');
+          bump(gramOccurrences, phrase);
+          if (!seenGrams.has(phrase)) {
+            seenGrams.add(phrase);
+            bump(gramTweets[n - 2], phrase);
+          }
+        }
+      }
+    }
+
+    // Industry terms: cashtags, hashtags, acronyms, inner capitals (DeFi) and
+    // letters with digits (web3). All-caps tweets are shouting, not acronyms.
+    const shouting = capitalizationOf(tweet) === 'uppercase';
+    const industryTerms = new Set<string>();
+    for (const token of tokens) {
+      const isTerm =
+        token.kind === 'cashtag' ||
+        token.kind === 'hashtag' ||
+        (token.kind === 'word' && !stopwords.has(token.text.toLowerCase()) && (
+          (!shouting && isAcronym(token.text) && Array.from(token.text).length <= 6) ||
+          /\p{Ll}\p{Lu}/u.test(token.text) ||
+          (/\p{L}/u.test(token.text) && /\p{N}/u.test(token.text))
+        ));
+      if (!isTerm) continue;
+      const key = token.text.toLowerCase();
+      if (lexicon.enthusiasm.includes(key)) continue;
+      industryTerms.add(key);
+      if (!industryForms.has(key)) industryForms.set(key, token.kind === 'cashtag' ? token.text.toUpperCase() : token.text);
+    }
+    industryTerms.forEach(term => bump(industryCounts, term));
+
+    // Enthusiasm and framing, once per tweet
+    const enthusiasm = new Set(matchPhrases(tweet, lexicon.enthusiasm));
+    tokens.filter(token => token.kind === 'emoji' && ENTHUSIASM_EMOJI.has(token.text)).forEach(token => enthusiasm.add(token.text));
+    if (/!{2,}/.test(tweet.body)) enthusiasm.add('!!');
+    enthusiasm.forEach(marker => bump(enthusiasmCounts, marker));
+
+    const framing = new Set(matchPhrases(tweet, lexicon.framing));
+    if (tokens.some(token => token.kind === 'emoji' && token.text === '🧵')) framing.add('🧵');
+    if (/(?:^|\s)\d{1,2}\/\d{0,2}(?=\s|$)/.test(tweet.body)) framing.add('numbered thread (1/)');
+    framing.forEach(marker => bump(framingCounts, marker));
+
+    // Openings skip reply mentions; closings skip trailing mentions and hashtags
+    const body = tokens.filter(token => token.kind !== 'mention');
+    let end = body.length;
+    while (end > 0 && body[end - 1].kind === 'hashtag') end--;
+    edgeKeys(body[0], body[1], stopwords, true).forEach(key => bump(openingCounts, key));
+    if (end > 0) {
+      edgeKeys(body[end - 1], body[end - 2], stopwords, false).forEach(key => bump(closingCounts, key));
+    }
+
+    // Sentence lengths, in words
+    for (const sentence of tweet.sentences) {
+      const words = countWords(sentence);
+      if (words <= 5) sentenceLengths.veryShort++;
+      else if (words <= 10) sentenceLengths.short++;
+      else if (words <= 20) sentenceLengths.medium++;
+      else if (words <= 40) sentenceLengths.long++;
+      else sentenceLengths.veryLong++;
+    }
+
+    const casing = capitalizationOf(tweet);
+    if (casing) capitalization[casing]++;
+
+    for (const [mark, pattern] of PUNCTUATION_MARKS) {
+      if (pattern.test(tweet.body)) bump(punctuationCounts, mark);
+    }
+    if (tweet.body.includes('\n')) tweetsWithLineBreaks++;
+  }
+
+  const totalSentences = Object.values(sentenceLengths).reduce((sum, count) => sum + count, 0);
+  const casedTweets = Object.values(capitalization).reduce((sum, count) => sum + count, 0);
+  const lowercaseShare = percent(capitalization.lowercase, casedTweets);
+  const uppercaseShare = percent(capitalization.uppercase, casedTweets);
+  const sentenceCaseShare = percent(capitalization.sentence, casedTweets);
+  const lineBreakShare = percent(tweetsWithLineBreaks, tweetCount);
+
+  // Only the leading candidates are compared with each other, which keeps it cheap on large scrapes
+  const phraseCandidates = ranked(
+    new Map(gramTweets.reduce<Array<[string, number]>>((all, counts) => all.concat(Array.from(counts.entries())), [])),
+    minCount,
+    200
+  );
+
+  return {
+    vocabulary: {
+      commonTerms: ranked(termCounts, 1, 20).map(([term, frequency]) => ({
+        term,
+        frequency,
+        percentage: percent(frequency, totalWords),
+        category: termKinds.get(term)
+      })),
+      commonPhrases: toPhraseFrequencies(
+        preferLonger(phraseCandidates)
+          .sort((a, b) => b[1] - a[1] || b[0].split(' ').length - a[0].split(' ').length)
+          .slice(0, 10),
+        gramOccurrences,
+        tweetCount
+      ),
+      enthusiasmMarkers: ranked(enthusiasmCounts, 1, 10).map(([marker]) => marker),
+      industryTerms: ranked(industryCounts, minCount, 15).map(([term]) => industryForms.get(term) ?? term),
+      nGrams: {
+        bigrams: toPhraseFrequencies(ranked(gramTweets[0], minCount, 10), gramOccurrences, tweetCount),
+        trigrams: toPhraseFrequencies(ranked(gramTweets[1], minCount, 10), gramOccurrences, tweetCount)
+      },
+      metrics: {
+        sentenceLengths: {
+          ...sentenceLengths,
+          distribution: {
+            veryShort: percent(sentenceLengths.veryShort, totalSentences),
+            short: percent(sentenceLengths.short, totalSentences),
+            medium: percent(sentenceLengths.medium, totalSentences),
+            long: percent(sentenceLengths.long, totalSentences),
+            veryLong: percent(sentenceLengths.veryLong, totalSentences)
+          }
+        },
+        capitalizationStats: {
+          lowercase: lowercaseShare,
+          sentenceCase: sentenceCaseShare,
+          mixedCase: percent(capitalization.mixed + capitalization.uppercase, casedTweets),
+          totalMessages: tweetCount
+        },
+        averageMessageLength: tweetCount > 0 ? Math.round((totalWords / tweetCount) * 10) / 10 : 0,
+        uniqueWordsCount: uniqueWords.size,
+        totalWordsAnalyzed: totalWords,
+        messageArchitecture: analyzeArchitecture(texts)
+      }
+    },
+    patterns: {
+      capitalization: lowercaseShare >= 60 ? 'mostly-lowercase'
+        : uppercaseShare >= 60 ? 'mostly-uppercase'
+        : sentenceCaseShare >= 60 ? 'standard'
+        : 'mixed',
+      punctuation: ranked(punctuationCounts, 1, PUNCTUATION_MARKS.length)
+        .filter(([, count]) => percent(count, tweetCount) >= PUNCTUATION_MIN_SHARE)
+        .map(([mark]) => mark),
+      lineBreaks: lineBreakShare >= 40 ? 'frequent' : lineBreakShare >= 10 ? 'moderate' : 'minimal',
+      messageStructure: {
+        opening: preferLonger(ranked(openingCounts, minCount, 10)).slice(0, 5).map(([opening]) => displayPhrase(opening)),
+        framing: ranked(framingCounts, minCount, 5).map(([framing]) => framing),
+        closing: preferLonger(ranked(closingCounts, minCount, 10)).slice(0, 5).map(([closing]) => displayPhrase(closing))
+      }
+    }
+  };
+}
+
+/**
+ * Measure how someone writes from their tweets: vocabulary, n-grams, sentence
+ * lengths, capitalization, punctuation, message shape and the way they open,
+ * frame and close a tweet. Everything is counted, so the same tweets always
+ * give the same result. N-grams may contain stopwords but can't start or end
+ * with one, which keeps "build in public" and drops "of the".
+ *
+ * Tweets are read in their own language, and the habits are also measured
+ * separately for each language they write a real share of their tweets in.
+ */
+export function analyzeStylometry(
+  tweets: Array<{ text: string; lang?: string }>,
+  options: StylometryOptions = {}
+): Stylometry {
+  const mix = languageMix(tweets);
+  const fallback = options.language ?? mix[0]?.language ?? 'en';
+  const texts = tweets.map(tweet => readTweet(tweet.text, tweetLanguage(tweet) ?? fallback));
+  const { vocabulary, patterns } = measure(texts);
+
+  const languages = dominantLanguages(mix).map(({ language, share }) => {
+    const own = measure(texts.filter(tweet => tweet.language === language));
+    const { lowercase, sentenceCase, mixedCase } = own.vocabulary.metrics.capitalizationStats;
+    return {
+      language,
+      share,
+      // Scripts without case have no capitalization habit
+      capitalization: lowercase + sentenceCase + mixedCase > 0 ? own.patterns.capitalization : undefined,
+      commonPhrases: own.vocabulary.commonPhrases.slice(0, 5).map(({ phrase }) => phrase),
+      enthusiasmMarkers: own.vocabulary.enthusiasmMarkers.slice(0, 5),
+      openings: own.patterns.messageStructure.opening,
+      framing: own.patterns.messageStructure.framing,
+      closings: own.patterns.messageStructure.closing
+    };
+  });
+
+  return { vocabulary, patterns, languages };
+}
@@ -0,0 +1,11 @@
+// Admins are listed by Twitter handle in ADMIN_USERNAMES (comma separated)
+export function isAdmin(username: string | undefined | null): boolean {
+  if (!username) return false
+
+  const admins = (process.env.ADMIN_USERNAMES || '')
+    .split(',')
+    .map(name => name.trim().replace(/^@/, '').toLowerCase())
+    .filter(Boolean)
+
+  return admins.includes(username.toLowerCase())
+}
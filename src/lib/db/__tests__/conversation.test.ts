@@ -0,0 +1,163 @@
+import type { Pool } from 'pg';
+import type { MessageRow } from '@/types/db';
+import { ConversationDB, ConversationError } from '../conversation';
+
+const conversations: Array<{ id: number; user_id: string; active_leaf_id: number | null }> = [];
+const messages: MessageRow[] = [];
+
+// Answers the queries ConversationDB makes for messages and branches from the arrays above
+function runQuery(sql: string, params: unknown[] = []): { rows: unknown[] } {
+  const text = sql.replace(/\s+/g, ' ').trim();
+  const conversation = conversations.find(c => c.id === params[0]);
+
+  if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(text)) {
+    return { rows: [] };
+  }
+  if (text.startsWith('SELECT user_id, active_leaf_id FROM conversations')) {
+    return { rows: conversation ? [conversation] : [] };
+  }
+  if (/^SELECT (id|active_leaf_id) FROM conversations WHERE id = \$1 AND user_id = \$2/.test(text)) {
+    return { rows: conversation?.user_id === params[1] ? [conversation] : [] };
+  }
+  if (text.startsWith('SELECT id FROM messages')) {
+    return { rows: messages.filter(m => m.id === params[0] && m.conversation_id === params[1]) };
+  }
+  if (text.startsWith('SELECT m.* FROM messages m')) {
+    return {
+      rows: messages.filter(m => m.id === params[0] &&
+        conversations.some(c => c.id === m.conversation_id && c.user_id === params[1]))
+    };
+  }
+  if (text.startsWith('SELECT * FROM messages WHERE conversation_id = $1')) {
+    return { rows: messages.filter(m => m.conversation_id === params[0]) };
+  }
+  if (text.startsWith('INSERT INTO messages')) {
+    const [conversationId, parentId, content, role, metadata] = params;
+    const row = {
+      id: messages.length + 1,
+      conversation_id: conversationId,
+      parent_id: parentId,
+      content,
+      role,
+      created_at: new Date(Date.UTC(2025, 0, 1, 12, 0, messages.length)),
+      metadata: JSON.parse(metadata as string)
+    } as MessageRow;
+    messages.push(row);
+    return { rows: [row] };
+  }
+  if (text.startsWith('UPDATE conversations') && text.includes('active_leaf_id = $2')) {
+    conversation!.active_leaf_id = params[1] as number;
+    return { rows: [] };
+  }
+  throw new Error(`Unexpected query: ${text}`);
+}
+
+const client = {
+  query: jest.fn(async (sql: string, params?: unknown[]) => runQuery(sql, params)),
+  release: jest.fn()
+};
+const pool = { query: client.query, connect: async () => client } as unknown as Pool;
+
+describe('ConversationDB message branches', () => {
+  const db = new ConversationDB(pool);
+  const conversationId = 1;
+
+  async function say(role: 'user' | 'assistant', content: string, parentId?: number | null) {
+    return db.addMessage({ conversationId, role, content, parentId });
+  }
+
+  async function activeContents(): Promise<string[]> {
+    return (await db.getMessages(conversationId, 'user-1')).map(message => message.content);
+  }
+
+  async function notFound(promise: Promise<unknown>): Promise<ConversationError> {
+    try {
+      await promise;
+    } catch (error) {
+      if (error instanceof ConversationError) return error;
+      throw error;
+    }
+    throw new Error('Expected a ConversationError');
+  }
+
+  beforeEach(() => {
+    conversations.length = 0;
+    messages.length = 0;
+    conversations.push({ id: conversationId, user_id: 'user-1', active_leaf_id: null });
+    jest.clearAllMocks();
+  });
+
+  it('continues the branch on show when no parent is given', async () => {
+    const first = await say('user', 'hi');
+    const reply = await say('assistant', 'hello');
+
+    expect(first.parentId).toBeNull();
+    expect(reply.parentId).toBe(first.id);
+    expect(await db.getMessages(conversationId, 'user-1')).toMatchObject([
+      { id: first.id, siblings: { ids: [first.id], index: 0 } },
+      { id: reply.id, siblings: { ids: [reply.id], index: 0 } }
+    ]);
+  });
+
+  it('forks the thread at an edited message and keeps the original', async () => {
+    await say('user', 'hi');
+    await say('assistant', 'hello');
+    const question = await say('user', 'what is rust?');
+    await say('assistant', 'a language');
+
+    const edited = await db.updateMessage(question.id, 'user-1', 'what is go?');
+
+    expect(edited).toMatchObject({ parentId: question.parentId, metadata: { isEdited: true, editedFrom: question.id } });
+    expect(await activeContents()).toEqual(['hi', 'hello', 'what is go?']);
+    expect((await db.getMessages(conversationId, 'user-1'))[2].siblings).toEqual({ ids: [question.id, edited.id], index: 1 });
+  });
+
+  it('keeps regenerated replies side by side', async () => {
+    const first = await say('user', 'hi');
+    const reply = await say('assistant', 'hello');
+    const regenerated = await say('assistant', 'hey there', first.id);
+
+    const [, shown] = await db.getMessages(conversationId, 'user-1');
+
+    expect(shown).toMatchObject({ id: regenerated.id, siblings: { ids: [reply.id, regenerated.id], index: 1 } });
+  });
+
+  it('switches back to an earlier branch, following its newest replies', async () => {
+    await say('user', 'hi');
+    await say('assistant', 'hello');
+    const question = await say('user', 'what is rust?');
+    await say('assistant', 'a language');
+    await say('assistant', 'a systems language', question.id);
+    await db.updateMessage(question.id, 'user-1', 'what is go?');
+
+    const branch = await db.switchBranch(conversationId, 'user-1', question.id);
+
+    expect(branch.map(message => message.content)).toEqual(['hi', 'hello', 'what is rust?', 'a systems language']);
+    expect(await activeContents()).toEqual(['hi', 'hello', 'what is rust?', 'a systems language']);
+  });
+
+  it('lists every branch by its last message, newest first', async () => {
+    await say('user', 'hi');
+    await say('assistant', 'hello');
+    const question = await say('user', 'what is rust?');
+    const answer = await say('assistant', 'a language');
+    const edited = await db.updateMessage(question.id, 'user-1', 'what is go?');
+
+    expect(await db.getBranches(conversationId, 'user-1')).toMatchObject([
+      { leafId: edited.id, messageCount: 3, lastMessagePreview: 'what is go?', isActive: true },
+      { leafId: answer.id, messageCount: 4, lastMessagePreview: 'a language', isActive: false }
+    ]);
+  });
+
+  it('only branches within the user\'s own conversation', async () => {
+    conversations.push({ id: 2, user_id: 'user-2', active_leaf_id: null });
+    const elsewhere = await db.addMessage({ conversationId: 2, role: 'user', content: 'not yours' });
+    await say('user', 'hi');
+
+    expect((await notFound(say('assistant', 'hello', elsewhere.id))).status).toBe(404);
+    expect((await notFound(db.switchBranch(conversationId, 'user-1', elsewhere.id))).status).toBe(404);
+    expect((await notFound(db.switchBranch(conversationId, 'user-2', 1))).status).toBe(404);
+    expect((await notFound(db.updateMessage(elsewhere.id, 'user-1', 'mine now'))).status).toBe(404);
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+});
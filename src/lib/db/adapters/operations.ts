@@ -1,7 +1,17 @@
 import {
   DBUser,
   DBTweet,
+  DBScrapeState,
+  DBScrapeJob,
+  DBJobEvent,
+  DBRefreshSchedule,
+  RefreshRunStatus,
+  DBPersonaTarget,
+  DBLLMUsage,
+  DBLLMUsageReportRow,
   DBPersonalityAnalysis,
+  DBAnalysisChunk,
+  AnalysisChunkStatus,
   DBFunnelProgress,
   DBFunnelCompletion,
   DBReferralTracking,
@@ -9,6 +19,7 @@ import {
   DBReferralUsage,
   DBTransaction
 } from './types';
+import type { ScanProgress, ScrapeJobSpec, ScrapeMode, TweetSourceConfig } from '../../twitter/types';
 
 // User Operations
 export interface UserOperations {
@@ -18,6 +29,7 @@ export interface UserOperations {
   
   // Read operations
   getUserById(id: string): Promise<DBUser | null>;
+  // Case-insensitive, as X handles are; an exact-case match wins if both exist
   getUserByUsername(username: string): Promise<DBUser | null>;
   searchUsers(query: string): Promise<DBUser[]>;
   
@@ -48,6 +60,7 @@ export interface TweetOperations {
   }): Promise<DBTweet[]>;
   getTweetById(id: string): Promise<DBTweet | null>;
   getTweetsBatch(offset: number, limit: number): Promise<DBTweet[]>;
+  getExistingTweetIds(userId: string, tweetIds: string[]): Promise<Set<string>>;
   
   // Search operations
   searchTweets(query: string, options?: {
@@ -64,27 +77,142 @@ export interface TweetOperations {
   // Utility operations
   getTweetCount(userId?: string): Promise<number>;
   getLatestTweet(userId: string): Promise<DBTweet | null>;
+
+  // Scrape state operations
+  getScrapeState(userId: string): Promise<DBScrapeState | null>;
+  saveScrapeState(userId: string, state: Partial<Omit<DBScrapeState, 'user_id' | 'updated_at'>>): Promise<void>;
+}
+
+// Scrape Job Operations
+export interface ScrapeJobOperations {
+  // Create operations
+  createScrapeJob(job: {
+    id: string;
+    userId: string;
+    username: string;
+    source?: TweetSourceConfig;
+    mode: ScrapeMode;
+    spec: ScrapeJobSpec;
+    maxAttempts?: number;
+    requestedBy?: string;
+  }): Promise<DBScrapeJob>;
+
+  // Read operations
+  getScrapeJob(id: string): Promise<DBScrapeJob | null>;
+  getActiveScrapeJob(userId: string): Promise<DBScrapeJob | null>;
+  getScrapeQueueLength(): Promise<number>;
+
+  // Leasing
+  leaseNextScrapeJob(owner: string, leaseMs: number): Promise<DBScrapeJob | null>;
+  heartbeatScrapeJob(id: string, owner: string, leaseMs: number): Promise<boolean>;
+
+  // Update operations
+  updateScrapeJobProgress(id: string, owner: string, progress: {
+    progress?: number;
+    phase?: string;
+    statusMessage?: string;
+    scanProgress?: ScanProgress;
+  }): Promise<void>;
+  completeScrapeJob(id: string, owner: string, statusMessage?: string): Promise<void>;
+  failScrapeJob(id: string, owner: string, error: string, retryDelayMs: number): Promise<DBScrapeJob | null>;
+  cancelScrapeJob(id: string): Promise<boolean>;
+}
+
+// Job Event Operations
+export interface JobEventOperations {
+  // Appends an event and trims the job's history to the newest `keep` events
+  appendJobEvent(event: {
+    jobId: string;
+    userId: string;
+    type?: string;
+    payload: Record<string, unknown>;
+    terminal: boolean;
+  }, keep: number): Promise<DBJobEvent>;
+
+  // Events after `afterId` (all stored events when omitted), oldest first
+  getJobEvents(jobId: string, userId: string, afterId?: string): Promise<DBJobEvent[]>;
+
+  // Deletes events of every job created before `olderThan`; returns how many were removed
+  pruneJobEvents(olderThan: Date): Promise<number>;
+}
+
+// Refresh Schedule Operations
+export interface RefreshScheduleOperations {
+  getRefreshSchedule(userId: string): Promise<DBRefreshSchedule | null>;
+  saveRefreshSchedule(userId: string, schedule: {
+    enabled?: boolean;
+    intervalDays?: number;
+    minNewTweets?: number;
+  }): Promise<DBRefreshSchedule>;
+  deleteRefreshSchedule(userId: string): Promise<void>;
+
+  // Claims due schedules and moves their next run forward, so overlapping runs skip them
+  claimDueRefreshSchedules(limit: number): Promise<DBRefreshSchedule[]>;
+  finishRefreshRun(userId: string, run: {
+    status: Exclude<RefreshRunStatus, 'running'>;
+    error?: string;
+    scrapeJobId?: string;
+    newTweets?: number;
+  }): Promise<void>;
+}
+
+// Persona Target Operations
+export interface PersonaTargetOperations {
+  getPersonaTarget(targetUserId: string): Promise<DBPersonaTarget | null>;
+  getPersonaTargetsByOwner(ownerUserId: string): Promise<DBPersonaTarget[]>;
+  // Null when the target is already owned by someone else
+  createPersonaTarget(ownerUserId: string, targetUserId: string): Promise<DBPersonaTarget | null>;
+  deletePersonaTarget(ownerUserId: string, targetUserId: string): Promise<boolean>;
+}
+
+// LLM Usage Operations
+export interface LLMUsageOperations {
+  recordLLMUsage(usage: Omit<DBLLMUsage, 'id' | 'created_at'>): Promise<void>;
+  // Spend in USD since the start of the current UTC day and month
+  getLLMSpend(userId: string): Promise<{ today: number; thisMonth: number }>;
+  getLLMUsageReport(options: {
+    from: Date;
+    to: Date;
+    userId?: string;
+  }): Promise<DBLLMUsageReportRow[]>;
+}
+
+// Rate Limit Operations
+export interface RateLimitOperations {
+  // Token bucket: refills at refillPerSecond up to capacity, each request takes cost
+  consumeRateLimit(key: string, bucket: {
+    capacity: number;
+    refillPerSecond: number;
+    cost: number;
+  }): Promise<{ allowed: boolean; tokens: number }>;
+  pruneRateLimits(idleSince: Date): Promise<number>;
 }
 
 // Analysis Operations
 export interface AnalysisOperations {
   // Create operations
-  savePersonalityAnalysis(analysis: DBPersonalityAnalysis): Promise<void>;
+  savePersonalityAnalysis(analysis: Omit<DBPersonalityAnalysis, 'version' | 'analyzed_at'>): Promise<DBPersonalityAnalysis>;
   createAnalysisJob(userId: string, totalChunks: number): Promise<number>;
+  // Upserts the chunk's row; 'processing' counts as a new attempt
   saveAnalysisChunk(jobId: number, chunk: {
     index: number;
-    result: Record<string, unknown>;
+    status: AnalysisChunkStatus;
     tweetCount: number;
+    result?: Record<string, unknown>;
+    error?: string;
   }): Promise<void>;
   
   // Read operations
   getLatestAnalysis(userId: string): Promise<DBPersonalityAnalysis | null>;
   getAnalysisHistory(userId: string, limit?: number): Promise<DBPersonalityAnalysis[]>;
+  getAnalysisSnapshot(userId: string, version: number): Promise<DBPersonalityAnalysis | null>;
   getAnalysisJob(jobId: number): Promise<{
     status: string;
     progress: number;
     error?: string;
   } | null>;
+  // The job's chunks, only if the job belongs to userId
+  getAnalysisChunks(jobId: number, userId: string): Promise<DBAnalysisChunk[]>;
   
   // Update operations
   updateAnalysisStatus(jobId: number, status: string, error?: string): Promise<void>;
@@ -148,6 +276,12 @@ export interface ReferralOperations {
 export interface DatabaseOperations extends 
   UserOperations,
   TweetOperations,
+  ScrapeJobOperations,
+  JobEventOperations,
+  RefreshScheduleOperations,
+  PersonaTargetOperations,
+  LLMUsageOperations,
+  RateLimitOperations,
   AnalysisOperations,
   FunnelOperations,
   ReferralOperations {
@@ -3,6 +3,12 @@ import { DatabaseError } from './errors';
 import { PostgresConnectionManager } from './postgres/connection-manager';
 import { PostgresUserOperations } from './postgres/user-operations';
 import { PostgresTweetOperations } from './postgres/tweet-operations';
+import { PostgresScrapeJobOperations } from './postgres/scrape-job-operations';
+import { PostgresJobEventOperations } from './postgres/job-event-operations';
+import { PostgresRefreshScheduleOperations } from './postgres/refresh-schedule-operations';
+import { PostgresPersonaTargetOperations } from './postgres/persona-target-operations';
+import { PostgresLLMUsageOperations } from './postgres/llm-usage-operations';
+import { PostgresRateLimitOperations } from './postgres/rate-limit-operations';
 import { PostgresAnalysisOperations } from './postgres/analysis-operations';
 import { PostgresFunnelOperations } from './postgres/funnel-operations';
 import { PostgresReferralOperations } from './postgres/referral-operations';
@@ -11,13 +17,24 @@ import { DatabaseMonitor } from '../monitoring';
 import {
   DBUser,
   DBTweet,
+  DBScrapeState,
+  DBScrapeJob,
+  DBJobEvent,
+  DBRefreshSchedule,
+  RefreshRunStatus,
+  DBPersonaTarget,
+  DBLLMUsage,
+  DBLLMUsageReportRow,
   DBPersonalityAnalysis,
+  DBAnalysisChunk,
+  AnalysisChunkStatus,
   DBFunnelProgress,
   DBFunnelCompletion,
   DBReferralTracking,
   DBReferralCode,
   DBReferralUsage
 } from './types';
+import type { ScanProgress, ScrapeJobSpec, ScrapeMode, TweetSourceConfig } from '../../twitter/types';
 
 // PostgreSQL Transaction Implementation
 class PostgresTransaction implements DBTransaction {
@@ -75,6 +92,12 @@ export class PostgresAdapter implements DatabaseAdapter {
   private readonly config: Required<PoolConfig>;
   private readonly userOperations: PostgresUserOperations;
   private readonly tweetOperations: PostgresTweetOperations;
+  private readonly scrapeJobOperations: PostgresScrapeJobOperations;
+  private readonly jobEventOperations: PostgresJobEventOperations;
+  private readonly refreshScheduleOperations: PostgresRefreshScheduleOperations;
+  private readonly personaTargetOperations: PostgresPersonaTargetOperations;
+  private readonly llmUsageOperations: PostgresLLMUsageOperations;
+  private readonly rateLimitOperations: PostgresRateLimitOperations;
   private readonly analysisOperations: PostgresAnalysisOperations;
   private readonly funnelOperations: PostgresFunnelOperations;
   private readonly referralOperations: PostgresReferralOperations;
@@ -105,6 +128,12 @@ export class PostgresAdapter implements DatabaseAdapter {
     // Initialize operations with pool
     this.userOperations = new PostgresUserOperations(pool);
     this.tweetOperations = new PostgresTweetOperations(pool);
+    this.scrapeJobOperations = new PostgresScrapeJobOperations(pool);
+    this.jobEventOperations = new PostgresJobEventOperations(pool);
+    this.refreshScheduleOperations = new PostgresRefreshScheduleOperations(pool);
+    this.personaTargetOperations = new PostgresPersonaTargetOperations(pool);
+    this.llmUsageOperations = new PostgresLLMUsageOperations(pool);
+    this.rateLimitOperations = new PostgresRateLimitOperations(pool);
     this.analysisOperations = new PostgresAnalysisOperations(pool);
     this.funnelOperations = new PostgresFunnelOperations(pool);
     this.referralOperations = new PostgresReferralOperations(pool);
@@ -203,6 +232,10 @@ export class PostgresAdapter implements DatabaseAdapter {
     return this.tweetOperations.getTweetsBatch(offset, limit);
   }
 
+  getExistingTweetIds(userId: string, tweetIds: string[]): Promise<Set<string>> {
+    return this.tweetOperations.getExistingTweetIds(userId, tweetIds);
+  }
+
   searchTweets(query: string, options?: {
     userId?: string;
     startDate?: Date;
@@ -221,8 +254,167 @@ export class PostgresAdapter implements DatabaseAdapter {
     return this.tweetOperations.getLatestTweet(userId);
   }
 
+  getScrapeState(userId: string): Promise<DBScrapeState | null> {
+    return this.tweetOperations.getScrapeState(userId);
+  }
+
+  saveScrapeState(userId: string, state: Partial<Omit<DBScrapeState, 'user_id' | 'updated_at'>>): Promise<void> {
+    return this.tweetOperations.saveScrapeState(userId, state);
+  }
+
+  // Scrape job operations
+  createScrapeJob(job: {
+    id: string;
+    userId: string;
+    username: string;
+    source?: TweetSourceConfig;
+    mode: ScrapeMode;
+    spec: ScrapeJobSpec;
+    maxAttempts?: number;
+    requestedBy?: string;
+  }): Promise<DBScrapeJob> {
+    return this.scrapeJobOperations.createScrapeJob(job);
+  }
+
+  getScrapeJob(id: string): Promise<DBScrapeJob | null> {
+    return this.scrapeJobOperations.getScrapeJob(id);
+  }
+
+  getActiveScrapeJob(userId: string): Promise<DBScrapeJob | null> {
+    return this.scrapeJobOperations.getActiveScrapeJob(userId);
+  }
+
+  getScrapeQueueLength(): Promise<number> {
+    return this.scrapeJobOperations.getScrapeQueueLength();
+  }
+
+  leaseNextScrapeJob(owner: string, leaseMs: number): Promise<DBScrapeJob | null> {
+    return this.scrapeJobOperations.leaseNextScrapeJob(owner, leaseMs);
+  }
+
+  heartbeatScrapeJob(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    return this.scrapeJobOperations.heartbeatScrapeJob(id, owner, leaseMs);
+  }
+
+  updateScrapeJobProgress(id: string, owner: string, progress: {
+    progress?: number;
+    phase?: string;
+    statusMessage?: string;
+    scanProgress?: ScanProgress;
+  }): Promise<void> {
+    return this.scrapeJobOperations.updateScrapeJobProgress(id, owner, progress);
+  }
+
+  completeScrapeJob(id: string, owner: string, statusMessage?: string): Promise<void> {
+    return this.scrapeJobOperations.completeScrapeJob(id, owner, statusMessage);
+  }
+
+  failScrapeJob(id: string, owner: string, error: string, retryDelayMs: number): Promise<DBScrapeJob | null> {
+    return this.scrapeJobOperations.failScrapeJob(id, owner, error, retryDelayMs);
+  }
+
+  cancelScrapeJob(id: string): Promise<boolean> {
+    return this.scrapeJobOperations.cancelScrapeJob(id);
+  }
+
+  // Job event operations
+  appendJobEvent(event: {
+    jobId: string;
+    userId: string;
+    type?: string;
+    payload: Record<string, unknown>;
+    terminal: boolean;
+  }, keep: number): Promise<DBJobEvent> {
+    return this.jobEventOperations.appendJobEvent(event, keep);
+  }
+
+  getJobEvents(jobId: string, userId: string, afterId?: string): Promise<DBJobEvent[]> {
+    return this.jobEventOperations.getJobEvents(jobId, userId, afterId);
+  }
+
+  pruneJobEvents(olderThan: Date): Promise<number> {
+    return this.jobEventOperations.pruneJobEvents(olderThan);
+  }
+
+  // Refresh schedule operations
+  getRefreshSchedule(userId: string): Promise<DBRefreshSchedule | null> {
+    return this.refreshScheduleOperations.getRefreshSchedule(userId);
+  }
+
+  saveRefreshSchedule(userId: string, schedule: {
+    enabled?: boolean;
+    intervalDays?: number;
+    minNewTweets?: number;
+  }): Promise<DBRefreshSchedule> {
+    return this.refreshScheduleOperations.saveRefreshSchedule(userId, schedule);
+  }
+
+  deleteRefreshSchedule(userId: string): Promise<void> {
+    return this.refreshScheduleOperations.deleteRefreshSchedule(userId);
+  }
+
+  claimDueRefreshSchedules(limit: number): Promise<DBRefreshSchedule[]> {
+    return this.refreshScheduleOperations.claimDueRefreshSchedules(limit);
+  }
+
+  finishRefreshRun(userId: string, run: {
+    status: Exclude<RefreshRunStatus, 'running'>;
+    error?: string;
+    scrapeJobId?: string;
+    newTweets?: number;
+  }): Promise<void> {
+    return this.refreshScheduleOperations.finishRefreshRun(userId, run);
+  }
+
+  // Persona target operations
+  getPersonaTarget(targetUserId: string): Promise<DBPersonaTarget | null> {
+    return this.personaTargetOperations.getPersonaTarget(targetUserId);
+  }
+
+  getPersonaTargetsByOwner(ownerUserId: string): Promise<DBPersonaTarget[]> {
+    return this.personaTargetOperations.getPersonaTargetsByOwner(ownerUserId);
+  }
+
+  createPersonaTarget(ownerUserId: string, targetUserId: string): Promise<DBPersonaTarget | null> {
+    return this.personaTargetOperations.createPersonaTarget(ownerUserId, targetUserId);
+  }
+
+  deletePersonaTarget(ownerUserId: string, targetUserId: string): Promise<boolean> {
+    return this.personaTargetOperations.deletePersonaTarget(ownerUserId, targetUserId);
+  }
+
+  // LLM usage operations
+  recordLLMUsage(usage: Omit<DBLLMUsage, 'id' | 'created_at'>): Promise<void> {
+    return this.llmUsageOperations.recordLLMUsage(usage);
+  }
+
+  getLLMSpend(userId: string): Promise<{ today: number; thisMonth: number }> {
+    return this.llmUsageOperations.getLLMSpend(userId);
+  }
+
+  getLLMUsageReport(options: {
+    from: Date;
+    to: Date;
+    userId?: string;
+  }): Promise<DBLLMUsageReportRow[]> {
+    return this.llmUsageOperations.getLLMUsageReport(options);
+  }
+
+  // Rate limit operations
+  consumeRateLimit(key: string, bucket: {
+    capacity: number;
+    refillPerSecond: number;
+    cost: number;
+  }): Promise<{ allowed: boolean; tokens: number }> {
+    return this.rateLimitOperations.consumeRateLimit(key, bucket);
+  }
+
+  pruneRateLimits(idleSince: Date): Promise<number> {
+    return this.rateLimitOperations.pruneRateLimits(idleSince);
+  }
+
   // Analysis operations
-  savePersonalityAnalysis(analysis: DBPersonalityAnalysis): Promise<void> {
+  savePersonalityAnalysis(analysis: Omit<DBPersonalityAnalysis, 'version' | 'analyzed_at'>): Promise<DBPersonalityAnalysis> {
     return this.analysisOperations.savePersonalityAnalysis(analysis);
   }
 
@@ -232,8 +424,10 @@ export class PostgresAdapter implements DatabaseAdapter {
 
   saveAnalysisChunk(jobId: number, chunk: {
     index: number;
-    result: Record<string, unknown>;
+    status: AnalysisChunkStatus;
     tweetCount: number;
+    result?: Record<string, unknown>;
+    error?: string;
   }): Promise<void> {
     return this.analysisOperations.saveAnalysisChunk(jobId, chunk);
   }
@@ -246,6 +440,10 @@ export class PostgresAdapter implements DatabaseAdapter {
     return this.analysisOperations.getAnalysisHistory(userId, limit);
   }
 
+  getAnalysisSnapshot(userId: string, version: number): Promise<DBPersonalityAnalysis | null> {
+    return this.analysisOperations.getAnalysisSnapshot(userId, version);
+  }
+
   getAnalysisJob(jobId: number): Promise<{
     status: string;
     progress: number;
@@ -254,6 +452,10 @@ export class PostgresAdapter implements DatabaseAdapter {
     return this.analysisOperations.getAnalysisJob(jobId);
   }
 
+  getAnalysisChunks(jobId: number, userId: string): Promise<DBAnalysisChunk[]> {
+    return this.analysisOperations.getAnalysisChunks(jobId, userId);
+  }
+
   updateAnalysisStatus(jobId: number, status: string, error?: string): Promise<void> {
     return this.analysisOperations.updateAnalysisStatus(jobId, status, error);
   }
@@ -401,7 +603,8 @@ export class PostgresAdapter implements DatabaseAdapter {
         'funnel_progress', 'funnel_completion',
         'referral_tracking', 'referral_codes',
         'referral_usage_log', 'analysis_queue',
-        'analysis_chunks'
+        'analysis_chunks', 'scrape_state', 'scrape_jobs', 'job_events',
+        'refresh_schedules', 'persona_targets', 'llm_usage', 'rate_limit_buckets'
       ];
 
       const existingTables = result.rows.map(row => row.table_name);
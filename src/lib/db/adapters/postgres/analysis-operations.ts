@@ -1,23 +1,27 @@
 import { Pool } from 'pg';
-import { DBPersonalityAnalysis } from '../types';
+import { DBAnalysisChunk, DBPersonalityAnalysis, AnalysisChunkStatus } from '../types';
 import { DatabaseError, PostgresError } from '../errors';
 
 interface AnalysisOperations {
-  savePersonalityAnalysis(analysis: DBPersonalityAnalysis): Promise<void>;
+  savePersonalityAnalysis(analysis: Omit<DBPersonalityAnalysis, 'version' | 'analyzed_at'>): Promise<DBPersonalityAnalysis>;
   createAnalysisJob(userId: string, totalChunks: number): Promise<number>;
   saveAnalysisChunk(jobId: number, chunk: {
     index: number;
-    result: Record<string, unknown>;
+    status: AnalysisChunkStatus;
     tweetCount: number;
+    result?: Record<string, unknown>;
+    error?: string;
   }): Promise<void>;
   getLatestAnalysis(userId: string): Promise<DBPersonalityAnalysis | null>;
   getAnalysisHistory(userId: string, limit?: number): Promise<DBPersonalityAnalysis[]>;
+  getAnalysisSnapshot(userId: string, version: number): Promise<DBPersonalityAnalysis | null>;
   getAnalysisJob(jobId: number): Promise<{
     status: string;
     progress: number;
     error?: string;
     processed_chunks: number;
   } | null>;
+  getAnalysisChunks(jobId: number, userId: string): Promise<DBAnalysisChunk[]>;
   updateAnalysisStatus(jobId: number, status: string, error?: string): Promise<void>;
   incrementProcessedChunks(jobId: number): Promise<void>;
 }
@@ -25,22 +29,45 @@ interface AnalysisOperations {
 export class PostgresAnalysisOperations implements AnalysisOperations {
   constructor(private pool: Pool) {}
 
-  async savePersonalityAnalysis(analysis: DBPersonalityAnalysis): Promise<void> {
+  /**
+   * Store an analysis as a new snapshot. Snapshots are never updated; each one
+   * gets the next version number for its user.
+   */
+  async savePersonalityAnalysis(
+    analysis: Omit<DBPersonalityAnalysis, 'version' | 'analyzed_at'>
+  ): Promise<DBPersonalityAnalysis> {
     const client = await this.pool.connect();
     try {
-      await client.query(
+      await client.query('BEGIN');
+
+      // Serialize snapshot writes per user so version numbers can't collide
+      await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [analysis.user_id]);
+
+      const result = await client.query(
         `INSERT INTO personality_analysis (
-          id, user_id, traits, interests, communication_style, analyzed_at
-        ) VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)`,
+          id, user_id, version, traits, interests, communication_style,
+          analysis_data, source, tweet_count, analyzed_at
+        )
+        SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP
+        FROM personality_analysis
+        WHERE user_id = $2
+        RETURNING *`,
         [
           analysis.id,
           analysis.user_id,
-          analysis.traits,
-          analysis.interests,
-          analysis.communication_style
+          JSON.stringify(analysis.traits),
+          JSON.stringify(analysis.interests),
+          JSON.stringify(analysis.communication_style),
+          analysis.analysis_data ? JSON.stringify(analysis.analysis_data) : null,
+          analysis.source,
+          analysis.tweet_count
         ]
       );
+
+      await client.query('COMMIT');
+      return result.rows[0];
     } catch (error) {
+      await client.query('ROLLBACK');
       if (this.isPostgresError(error)) {
         throw DatabaseError.fromPgError(error);
       }
@@ -71,18 +98,35 @@ export class PostgresAnalysisOperations implements AnalysisOperations {
     }
   }
 
+  // One row per chunk: starting it again bumps attempts, finishing it records the outcome
   async saveAnalysisChunk(jobId: number, chunk: {
     index: number;
-    result: Record<string, unknown>;
+    status: AnalysisChunkStatus;
     tweetCount: number;
+    result?: Record<string, unknown>;
+    error?: string;
   }): Promise<void> {
     const client = await this.pool.connect();
     try {
       await client.query(
         `INSERT INTO analysis_chunks (
-          job_id, chunk_index, tweet_count, result, status
-        ) VALUES ($1, $2, $3, $4, 'completed')`,
-        [jobId, chunk.index, chunk.tweetCount, chunk.result]
+          job_id, chunk_index, tweet_count, status, result, error, attempts,
+          started_at, completed_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6,
+          CASE WHEN $4 = 'processing' THEN 1 ELSE 0 END,
+          CASE WHEN $4 = 'processing' THEN CURRENT_TIMESTAMP END,
+          CASE WHEN $4 IN ('completed', 'failed') THEN CURRENT_TIMESTAMP END
+        )
+        ON CONFLICT (job_id, chunk_index) DO UPDATE SET
+          tweet_count = EXCLUDED.tweet_count,
+          status = EXCLUDED.status,
+          result = COALESCE(EXCLUDED.result, analysis_chunks.result),
+          error = EXCLUDED.error,
+          attempts = analysis_chunks.attempts + EXCLUDED.attempts,
+          started_at = COALESCE(EXCLUDED.started_at, analysis_chunks.started_at),
+          completed_at = EXCLUDED.completed_at`,
+        [jobId, chunk.index, chunk.tweetCount, chunk.status, chunk.result ?? null, chunk.error ?? null]
       );
     } catch (error) {
       if (this.isPostgresError(error)) {
@@ -98,7 +142,7 @@ export class PostgresAnalysisOperations implements AnalysisOperations {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM personality_analysis WHERE user_id = $1 ORDER BY analyzed_at DESC LIMIT 1',
+        'SELECT * FROM personality_analysis WHERE user_id = $1 ORDER BY version DESC LIMIT 1',
         [userId]
       );
       return result.rows[0] || null;
@@ -116,7 +160,7 @@ export class PostgresAnalysisOperations implements AnalysisOperations {
     const client = await this.pool.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM personality_analysis WHERE user_id = $1 ORDER BY analyzed_at DESC LIMIT $2',
+        'SELECT * FROM personality_analysis WHERE user_id = $1 ORDER BY version DESC LIMIT $2',
         [userId, limit]
       );
       return result.rows;
@@ -130,6 +174,24 @@ export class PostgresAnalysisOperations implements AnalysisOperations {
     }
   }
 
+  async getAnalysisSnapshot(userId: string, version: number): Promise<DBPersonalityAnalysis | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM personality_analysis WHERE user_id = $1 AND version = $2',
+        [userId, version]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async getAnalysisJob(jobId: number): Promise<{
     status: string;
     progress: number;
@@ -162,6 +224,29 @@ export class PostgresAnalysisOperations implements AnalysisOperations {
     }
   }
 
+  // Empty when the job doesn't exist or belongs to someone else
+  async getAnalysisChunks(jobId: number, userId: string): Promise<DBAnalysisChunk[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT c.*
+         FROM analysis_chunks c
+         JOIN analysis_queue q ON q.job_id = c.job_id
+         WHERE c.job_id = $1 AND q.user_id = $2
+         ORDER BY c.chunk_index`,
+        [jobId, userId]
+      );
+      return result.rows;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async updateAnalysisStatus(jobId: number, status: string, error?: string): Promise<void> {
     const client = await this.pool.connect();
     try {
@@ -0,0 +1,115 @@
+import { Pool } from 'pg';
+import { DBJobEvent } from '../types';
+import { DatabaseError, PostgresError } from '../errors';
+
+interface JobEventOperations {
+  appendJobEvent(event: {
+    jobId: string;
+    userId: string;
+    type?: string;
+    payload: Record<string, unknown>;
+    terminal: boolean;
+  }, keep: number): Promise<DBJobEvent>;
+  getJobEvents(jobId: string, userId: string, afterId?: string): Promise<DBJobEvent[]>;
+  pruneJobEvents(olderThan: Date): Promise<number>;
+}
+
+export class PostgresJobEventOperations implements JobEventOperations {
+  constructor(private pool: Pool) {}
+
+  // Create operations
+  async appendJobEvent(event: {
+    jobId: string;
+    userId: string;
+    type?: string;
+    payload: Record<string, unknown>;
+    terminal: boolean;
+  }, keep: number): Promise<DBJobEvent> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO job_events (job_id, user_id, type, payload, terminal)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *`,
+        [
+          event.jobId,
+          event.userId,
+          event.type ?? null,
+          JSON.stringify(event.payload),
+          event.terminal
+        ]
+      );
+
+      // Keep only the newest events for replay
+      await client.query(
+        `DELETE FROM job_events
+        WHERE job_id = $1 AND id < (
+          SELECT MIN(id) FROM (
+            SELECT id FROM job_events
+            WHERE job_id = $1
+            ORDER BY id DESC
+            LIMIT $2
+          ) newest
+        )`,
+        [event.jobId, keep]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Read operations
+  async getJobEvents(jobId: string, userId: string, afterId?: string): Promise<DBJobEvent[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM job_events
+        WHERE job_id = $1 AND user_id = $2 AND ($3::bigint IS NULL OR id > $3::bigint)
+        ORDER BY id ASC`,
+        [jobId, userId, afterId ?? null]
+      );
+      return result.rows;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Delete operations
+  async pruneJobEvents(olderThan: Date): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'DELETE FROM job_events WHERE created_at < $1',
+        [olderThan]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private isPostgresError(error: unknown): error is PostgresError {
+    return error instanceof Error && 'code' in error;
+  }
+}
@@ -0,0 +1,122 @@
+import { Pool } from 'pg';
+import { DBLLMUsage, DBLLMUsageReportRow } from '../types';
+import { DatabaseError, PostgresError } from '../errors';
+
+interface LLMUsageOperations {
+  recordLLMUsage(usage: Omit<DBLLMUsage, 'id' | 'created_at'>): Promise<void>;
+  getLLMSpend(userId: string): Promise<{ today: number; thisMonth: number }>;
+  getLLMUsageReport(options: {
+    from: Date;
+    to: Date;
+    userId?: string;
+  }): Promise<DBLLMUsageReportRow[]>;
+}
+
+export class PostgresLLMUsageOperations implements LLMUsageOperations {
+  constructor(private pool: Pool) {}
+
+  // Create operations
+  async recordLLMUsage(usage: Omit<DBLLMUsage, 'id' | 'created_at'>): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO llm_usage (
+          user_id, task, provider, model,
+          prompt_tokens, completion_tokens, total_tokens,
+          cost_usd, estimated, downgraded
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          usage.user_id,
+          usage.task,
+          usage.provider,
+          usage.model,
+          usage.prompt_tokens,
+          usage.completion_tokens,
+          usage.total_tokens,
+          usage.cost_usd,
+          usage.estimated,
+          usage.downgraded
+        ]
+      );
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Read operations
+
+  // Budgets reset at midnight UTC and on the first of the month (UTC)
+  async getLLMSpend(userId: string): Promise<{ today: number; thisMonth: number }> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT
+          COALESCE(SUM(cost_usd) FILTER (
+            WHERE created_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+          ), 0)::float8 AS today,
+          COALESCE(SUM(cost_usd), 0)::float8 AS this_month
+        FROM llm_usage
+        WHERE user_id = $1
+          AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`,
+        [userId]
+      );
+      return {
+        today: result.rows[0].today,
+        thisMonth: result.rows[0].this_month
+      };
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLLMUsageReport(options: {
+    from: Date;
+    to: Date;
+    userId?: string;
+  }): Promise<DBLLMUsageReportRow[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT
+          lu.user_id,
+          u.username,
+          lu.model,
+          to_char(date_trunc('day', lu.created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS day,
+          COUNT(*)::int AS requests,
+          SUM(lu.prompt_tokens)::int AS prompt_tokens,
+          SUM(lu.completion_tokens)::int AS completion_tokens,
+          SUM(lu.total_tokens)::int AS total_tokens,
+          SUM(lu.cost_usd)::float8 AS cost_usd
+        FROM llm_usage lu
+        JOIN users u ON u.id = lu.user_id
+        WHERE lu.created_at >= $1 AND lu.created_at < $2
+          AND ($3::varchar IS NULL OR lu.user_id = $3)
+        GROUP BY lu.user_id, u.username, lu.model, day
+        ORDER BY day DESC, cost_usd DESC`,
+        [options.from, options.to, options.userId ?? null]
+      );
+      return result.rows;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private isPostgresError(error: unknown): error is PostgresError {
+    return error instanceof Error && 'code' in error;
+  }
+}
@@ -0,0 +1,111 @@
+import { Pool } from 'pg';
+import { DBPersonaTarget } from '../types';
+import { DatabaseError, PostgresError } from '../errors';
+
+interface PersonaTargetOperations {
+  getPersonaTarget(targetUserId: string): Promise<DBPersonaTarget | null>;
+  getPersonaTargetsByOwner(ownerUserId: string): Promise<DBPersonaTarget[]>;
+  createPersonaTarget(ownerUserId: string, targetUserId: string): Promise<DBPersonaTarget | null>;
+  deletePersonaTarget(ownerUserId: string, targetUserId: string): Promise<boolean>;
+}
+
+const SELECT_TARGET = `
+  SELECT pt.*, u.username AS target_username, o.username AS owner_username
+  FROM persona_targets pt
+  JOIN users u ON u.id = pt.target_user_id
+  JOIN users o ON o.id = pt.owner_user_id`;
+
+export class PostgresPersonaTargetOperations implements PersonaTargetOperations {
+  constructor(private pool: Pool) {}
+
+  // Read operations
+  async getPersonaTarget(targetUserId: string): Promise<DBPersonaTarget | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `${SELECT_TARGET} WHERE pt.target_user_id = $1`,
+        [targetUserId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPersonaTargetsByOwner(ownerUserId: string): Promise<DBPersonaTarget[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `${SELECT_TARGET} WHERE pt.owner_user_id = $1 ORDER BY pt.created_at ASC`,
+        [ownerUserId]
+      );
+      return result.rows;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Create operations
+
+  /**
+   * Claim a target for an owner. Returns null when someone else already owns it;
+   * claiming a target you already own returns the existing claim.
+   */
+  async createPersonaTarget(ownerUserId: string, targetUserId: string): Promise<DBPersonaTarget | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO persona_targets (target_user_id, owner_user_id)
+        VALUES ($1, $2)
+        ON CONFLICT (target_user_id) DO NOTHING`,
+        [targetUserId, ownerUserId]
+      );
+
+      const result = await client.query(
+        `${SELECT_TARGET} WHERE pt.target_user_id = $1 AND pt.owner_user_id = $2`,
+        [targetUserId, ownerUserId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Delete operations
+  async deletePersonaTarget(ownerUserId: string, targetUserId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'DELETE FROM persona_targets WHERE owner_user_id = $1 AND target_user_id = $2',
+        [ownerUserId, targetUserId]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private isPostgresError(error: unknown): error is PostgresError {
+    return error instanceof Error && 'code' in error;
+  }
+}
@@ -0,0 +1,85 @@
+import { Pool } from 'pg';
+import { DatabaseError, PostgresError } from '../errors';
+
+interface RateLimitOperations {
+  consumeRateLimit(key: string, bucket: {
+    capacity: number;
+    refillPerSecond: number;
+    cost: number;
+  }): Promise<{ allowed: boolean; tokens: number }>;
+  pruneRateLimits(idleSince: Date): Promise<number>;
+}
+
+export class PostgresRateLimitOperations implements RateLimitOperations {
+  constructor(private pool: Pool) {}
+
+  // Update operations
+
+  /**
+   * Refill the bucket for the time since it was last touched, then take `cost`
+   * tokens if there are enough. A single upsert, so concurrent requests from
+   * any instance serialize on the row.
+   */
+  async consumeRateLimit(key: string, bucket: {
+    capacity: number;
+    refillPerSecond: number;
+    cost: number;
+  }): Promise<{ allowed: boolean; tokens: number }> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO rate_limit_buckets AS b (key, tokens, last_allowed, updated_at)
+        VALUES (
+          $1,
+          CASE WHEN $2::float8 >= $4::float8 THEN $2::float8 - $4::float8 ELSE $2::float8 END,
+          $2::float8 >= $4::float8,
+          now()
+        )
+        ON CONFLICT (key) DO UPDATE SET
+          tokens = CASE
+            WHEN LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM (now() - b.updated_at)) * $3::float8) >= $4::float8
+              THEN LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM (now() - b.updated_at)) * $3::float8) - $4::float8
+            ELSE LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM (now() - b.updated_at)) * $3::float8)
+          END,
+          last_allowed = LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM (now() - b.updated_at)) * $3::float8) >= $4::float8,
+          updated_at = now()
+        RETURNING tokens, last_allowed`,
+        [key, bucket.capacity, bucket.refillPerSecond, bucket.cost]
+      );
+      return {
+        allowed: result.rows[0].last_allowed,
+        tokens: result.rows[0].tokens
+      };
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Delete operations
+  async pruneRateLimits(idleSince: Date): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'DELETE FROM rate_limit_buckets WHERE updated_at < $1',
+        [idleSince]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private isPostgresError(error: unknown): error is PostgresError {
+    return error instanceof Error && 'code' in error;
+  }
+}
@@ -0,0 +1,180 @@
+import { Pool } from 'pg';
+import { DBRefreshSchedule, RefreshRunStatus } from '../types';
+import { DatabaseError, PostgresError } from '../errors';
+
+interface RefreshScheduleOperations {
+  getRefreshSchedule(userId: string): Promise<DBRefreshSchedule | null>;
+  saveRefreshSchedule(userId: string, schedule: {
+    enabled?: boolean;
+    intervalDays?: number;
+    minNewTweets?: number;
+  }): Promise<DBRefreshSchedule>;
+  deleteRefreshSchedule(userId: string): Promise<void>;
+  claimDueRefreshSchedules(limit: number): Promise<DBRefreshSchedule[]>;
+  finishRefreshRun(userId: string, run: {
+    status: Exclude<RefreshRunStatus, 'running'>;
+    error?: string;
+    scrapeJobId?: string;
+    newTweets?: number;
+  }): Promise<void>;
+}
+
+export class PostgresRefreshScheduleOperations implements RefreshScheduleOperations {
+  constructor(private pool: Pool) {}
+
+  // Read operations
+  async getRefreshSchedule(userId: string): Promise<DBRefreshSchedule | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM refresh_schedules WHERE user_id = $1',
+        [userId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Create/update operations
+
+  /**
+   * Upsert a user's schedule. Fields left out keep their current value. The next
+   * run is counted from the last run (or from now for a new schedule).
+   */
+  async saveRefreshSchedule(userId: string, schedule: {
+    enabled?: boolean;
+    intervalDays?: number;
+    minNewTweets?: number;
+  }): Promise<DBRefreshSchedule> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO refresh_schedules (
+          user_id, enabled, interval_days, min_new_tweets, next_run_at
+        ) VALUES (
+          $1,
+          COALESCE($2, true),
+          COALESCE($3, 7),
+          COALESCE($4, 20),
+          CURRENT_TIMESTAMP + make_interval(days => COALESCE($3, 7))
+        )
+        ON CONFLICT (user_id) DO UPDATE SET
+          enabled = COALESCE($2, refresh_schedules.enabled),
+          interval_days = COALESCE($3, refresh_schedules.interval_days),
+          min_new_tweets = COALESCE($4, refresh_schedules.min_new_tweets),
+          next_run_at = COALESCE(refresh_schedules.last_run_at, refresh_schedules.created_at)
+            + make_interval(days => COALESCE($3, refresh_schedules.interval_days)),
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING *`,
+        [
+          userId,
+          schedule.enabled ?? null,
+          schedule.intervalDays ?? null,
+          schedule.minNewTweets ?? null
+        ]
+      );
+      return result.rows[0];
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Delete operations
+  async deleteRefreshSchedule(userId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'DELETE FROM refresh_schedules WHERE user_id = $1',
+        [userId]
+      );
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Scheduler operations
+  async claimDueRefreshSchedules(limit: number): Promise<DBRefreshSchedule[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE refresh_schedules SET
+          last_status = 'running',
+          last_error = NULL,
+          last_run_at = CURRENT_TIMESTAMP,
+          next_run_at = CURRENT_TIMESTAMP + make_interval(days => interval_days),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE user_id IN (
+          SELECT user_id FROM refresh_schedules
+          WHERE enabled AND next_run_at <= CURRENT_TIMESTAMP
+          ORDER BY next_run_at ASC
+          FOR UPDATE SKIP LOCKED
+          LIMIT $1
+        )
+        RETURNING *`,
+        [limit]
+      );
+      return result.rows;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async finishRefreshRun(userId: string, run: {
+    status: Exclude<RefreshRunStatus, 'running'>;
+    error?: string;
+    scrapeJobId?: string;
+    newTweets?: number;
+  }): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE refresh_schedules SET
+          last_status = $2,
+          last_error = $3,
+          last_scrape_job_id = COALESCE($4, last_scrape_job_id),
+          last_new_tweets = $5,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE user_id = $1`,
+        [
+          userId,
+          run.status,
+          run.error ?? null,
+          run.scrapeJobId ?? null,
+          run.newTweets ?? null
+        ]
+      );
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private isPostgresError(error: unknown): error is PostgresError {
+    return error instanceof Error && 'code' in error;
+  }
+}
@@ -0,0 +1,334 @@
+import { Pool } from 'pg';
+import { DBScrapeJob } from '../types';
+import { DatabaseError, PostgresError } from '../errors';
+import type { ScanProgress, ScrapeJobSpec, ScrapeMode, TweetSourceConfig } from '../../../twitter/types';
+
+interface ScrapeJobOperations {
+  createScrapeJob(job: {
+    id: string;
+    userId: string;
+    username: string;
+    source?: TweetSourceConfig;
+    mode: ScrapeMode;
+    spec: ScrapeJobSpec;
+    maxAttempts?: number;
+    requestedBy?: string;
+  }): Promise<DBScrapeJob>;
+  getScrapeJob(id: string): Promise<DBScrapeJob | null>;
+  getActiveScrapeJob(userId: string): Promise<DBScrapeJob | null>;
+  getScrapeQueueLength(): Promise<number>;
+  leaseNextScrapeJob(owner: string, leaseMs: number): Promise<DBScrapeJob | null>;
+  heartbeatScrapeJob(id: string, owner: string, leaseMs: number): Promise<boolean>;
+  updateScrapeJobProgress(id: string, owner: string, progress: {
+    progress?: number;
+    phase?: string;
+    statusMessage?: string;
+    scanProgress?: ScanProgress;
+  }): Promise<void>;
+  completeScrapeJob(id: string, owner: string, statusMessage?: string): Promise<void>;
+  failScrapeJob(id: string, owner: string, error: string, retryDelayMs: number): Promise<DBScrapeJob | null>;
+  cancelScrapeJob(id: string): Promise<boolean>;
+}
+
+export class PostgresScrapeJobOperations implements ScrapeJobOperations {
+  constructor(private pool: Pool) {}
+
+  // Create operations
+  async createScrapeJob(job: {
+    id: string;
+    userId: string;
+    username: string;
+    source?: TweetSourceConfig;
+    mode: ScrapeMode;
+    spec: ScrapeJobSpec;
+    maxAttempts?: number;
+    requestedBy?: string;
+  }): Promise<DBScrapeJob> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `INSERT INTO scrape_jobs (
+          id, user_id, username, status, source, mode, spec, max_attempts, requested_by
+        ) VALUES ($1, $2, $3, 'queued', $4, $5, $6, COALESCE($7, 3), $8)
+        RETURNING *`,
+        [
+          job.id,
+          job.userId,
+          job.username,
+          job.source ? JSON.stringify(job.source) : null,
+          job.mode,
+          JSON.stringify(job.spec),
+          job.maxAttempts ?? null,
+          job.requestedBy ?? null
+        ]
+      );
+      return result.rows[0];
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Read operations
+  async getScrapeJob(id: string): Promise<DBScrapeJob | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM scrape_jobs WHERE id = $1',
+        [id]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getActiveScrapeJob(userId: string): Promise<DBScrapeJob | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM scrape_jobs
+        WHERE user_id = $1 AND status IN ('queued', 'running')
+        ORDER BY created_at DESC
+        LIMIT 1`,
+        [userId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getScrapeQueueLength(): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        "SELECT COUNT(*) FROM scrape_jobs WHERE status = 'queued'"
+      );
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Leasing
+  async leaseNextScrapeJob(owner: string, leaseMs: number): Promise<DBScrapeJob | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Jobs whose lease expired after their last attempt will never be picked up again
+      await client.query(
+        `UPDATE scrape_jobs SET
+          status = 'failed',
+          error = COALESCE(error, 'Worker stopped responding'),
+          lease_owner = NULL,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'running'
+          AND lease_expires_at < CURRENT_TIMESTAMP
+          AND attempts >= max_attempts`
+      );
+
+      // Queued jobs that are due, first-come first-served, plus running jobs whose owner stopped heartbeating
+      const result = await client.query(
+        `UPDATE scrape_jobs SET
+          status = 'running',
+          lease_owner = $1,
+          lease_expires_at = CURRENT_TIMESTAMP + ($2 || ' milliseconds')::interval,
+          heartbeat_at = CURRENT_TIMESTAMP,
+          attempts = attempts + 1,
+          started_at = COALESCE(started_at, CURRENT_TIMESTAMP),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = (
+          SELECT id FROM scrape_jobs
+          WHERE (status = 'queued' AND (run_after IS NULL OR run_after <= CURRENT_TIMESTAMP))
+            OR (status = 'running' AND lease_expires_at < CURRENT_TIMESTAMP)
+          ORDER BY created_at ASC
+          FOR UPDATE SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING *`,
+        [owner, leaseMs.toString()]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0] || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Returns false once the lease has been lost (expired and taken over, or cancelled)
+  async heartbeatScrapeJob(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE scrape_jobs SET
+          lease_expires_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval,
+          heartbeat_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND lease_owner = $2 AND status = 'running'`,
+        [id, owner, leaseMs.toString()]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Update operations
+  async updateScrapeJobProgress(id: string, owner: string, progress: {
+    progress?: number;
+    phase?: string;
+    statusMessage?: string;
+    scanProgress?: ScanProgress;
+  }): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE scrape_jobs SET
+          progress = COALESCE($3, progress),
+          phase = COALESCE($4, phase),
+          status_message = COALESCE($5, status_message),
+          scan_progress = COALESCE($6::jsonb, scan_progress),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND lease_owner = $2 AND status = 'running'`,
+        [
+          id,
+          owner,
+          progress.progress ?? null,
+          progress.phase ?? null,
+          progress.statusMessage ?? null,
+          progress.scanProgress ? JSON.stringify(progress.scanProgress) : null
+        ]
+      );
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async completeScrapeJob(id: string, owner: string, statusMessage?: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE scrape_jobs SET
+          status = 'completed',
+          progress = 100,
+          phase = 'complete',
+          status_message = COALESCE($3, status_message),
+          error = NULL,
+          lease_owner = NULL,
+          lease_expires_at = NULL,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND lease_owner = $2`,
+        [id, owner, statusMessage ?? null]
+      );
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record a failed attempt. The job goes back to the queue, not to be leased
+   * again for retryDelayMs, while it has attempts left, otherwise it is marked
+   * failed. Returns the updated job.
+   */
+  async failScrapeJob(id: string, owner: string, error: string, retryDelayMs: number): Promise<DBScrapeJob | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE scrape_jobs SET
+          status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+          error = $3,
+          lease_owner = NULL,
+          lease_expires_at = NULL,
+          completed_at = CASE WHEN attempts < max_attempts THEN NULL ELSE CURRENT_TIMESTAMP END,
+          run_after = CASE WHEN attempts < max_attempts
+            THEN CURRENT_TIMESTAMP + ($4 || ' milliseconds')::interval
+            ELSE NULL END,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND lease_owner = $2
+        RETURNING *`,
+        [id, owner, error, retryDelayMs.toString()]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async cancelScrapeJob(id: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE scrape_jobs SET
+          status = 'cancelled',
+          error = 'Operation cancelled by user',
+          lease_owner = NULL,
+          lease_expires_at = NULL,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status IN ('queued', 'running')`,
+        [id]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private isPostgresError(error: unknown): error is PostgresError {
+    return error instanceof Error && 'code' in error;
+  }
+}
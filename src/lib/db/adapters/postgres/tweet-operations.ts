@@ -1,5 +1,5 @@
 import { Pool } from 'pg';
-import { DBTweet } from '../types';
+import { DBTweet, DBScrapeState } from '../types';
 import { DatabaseError, PostgresError } from '../errors';
 
 interface TweetOperations {
@@ -14,6 +14,7 @@ interface TweetOperations {
   }): Promise<DBTweet[]>;
   getTweetById(id: string): Promise<DBTweet | null>;
   getTweetsBatch(offset: number, limit: number): Promise<DBTweet[]>;
+  getExistingTweetIds(userId: string, tweetIds: string[]): Promise<Set<string>>;
   searchTweets(query: string, options?: {
     userId?: string;
     startDate?: Date;
@@ -24,6 +25,8 @@ interface TweetOperations {
   getTweetCount(userId?: string): Promise<number>;
   getLatestTweet(userId: string): Promise<DBTweet | null>;
   deleteTweetsByUserId(userId: string): Promise<void>;
+  getScrapeState(userId: string): Promise<DBScrapeState | null>;
+  saveScrapeState(userId: string, state: Partial<Omit<DBScrapeState, 'user_id' | 'updated_at'>>): Promise<void>;
 }
 
 export class PostgresTweetOperations implements TweetOperations {
@@ -255,6 +258,29 @@ export class PostgresTweetOperations implements TweetOperations {
     }
   }
 
+  // Which of the given tweet ids are already stored for this user
+  async getExistingTweetIds(userId: string, tweetIds: string[]): Promise<Set<string>> {
+    if (tweetIds.length === 0) {
+      return new Set();
+    }
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT id FROM tweets WHERE user_id = $1 AND id = ANY($2::text[])',
+        [userId, tweetIds]
+      );
+      return new Set(result.rows.map(row => row.id));
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async searchTweets(
     query: string,
     options: {
@@ -371,6 +397,62 @@ export class PostgresTweetOperations implements TweetOperations {
     }
   }
 
+  // Scrape state operations
+  async getScrapeState(userId: string): Promise<DBScrapeState | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM scrape_state WHERE user_id = $1',
+        [userId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async saveScrapeState(
+    userId: string,
+    state: Partial<Omit<DBScrapeState, 'user_id' | 'updated_at'>>
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      // Omitted fields keep their stored value (or the column default on insert)
+      await client.query(
+        `INSERT INTO scrape_state (user_id, cursor, status, new_tweets, known_tweets, spec, updated_at)
+        VALUES ($1, $2, COALESCE($3, 'running'), COALESCE($4, 0), COALESCE($5, 0), COALESCE($7::jsonb, '{}'::jsonb), CURRENT_TIMESTAMP)
+        ON CONFLICT (user_id) DO UPDATE SET
+          cursor = CASE WHEN $6 THEN EXCLUDED.cursor ELSE scrape_state.cursor END,
+          status = COALESCE($3, scrape_state.status),
+          new_tweets = COALESCE($4, scrape_state.new_tweets),
+          known_tweets = COALESCE($5, scrape_state.known_tweets),
+          spec = COALESCE($7::jsonb, scrape_state.spec),
+          updated_at = CURRENT_TIMESTAMP`,
+        [
+          userId,
+          state.cursor ?? null,
+          state.status ?? null,
+          state.new_tweets ?? null,
+          state.known_tweets ?? null,
+          state.cursor !== undefined,
+          state.spec ? JSON.stringify(state.spec) : null
+        ]
+      );
+    } catch (error) {
+      if (this.isPostgresError(error)) {
+        throw DatabaseError.fromPgError(error);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   private isPostgresError(error: unknown): error is PostgresError {
     return error instanceof Error && 'code' in error;
   }
@@ -137,7 +137,10 @@ export class PostgresUserOperations implements UserOperations {
   async getUserByUsername(username: string): Promise<DBUser | null> {
     try {
       const result = await this.monitoredQuery<{ rows: DBUser[] }>(
-        'SELECT * FROM users WHERE username = $1',
+        `SELECT * FROM users
+        WHERE LOWER(username) = LOWER($1)
+        ORDER BY (username = $1) DESC, created_at ASC
+        LIMIT 1`,
         [username]
       );
 
@@ -1,6 +1,8 @@
 import { DatabaseOperations } from './operations';
 import { PoolClient } from 'pg';
 import { CommunicationLevel } from '../../openai/openai';
+import type { PersonalityAnalysis } from '../../openai/types';
+import type { ScrapeJobSpec, ScrapeMode, ScanProgress, TweetSourceConfig } from '../../twitter/types';
 
 // User Types
 export interface DBUser {
@@ -55,6 +57,112 @@ export interface DBTweet {
   created_in_db: Date;
 }
 
+// Scrape State Types
+export interface DBScrapeState {
+  user_id: string;
+  cursor: string | null;
+  status: 'running' | 'interrupted' | 'complete';
+  new_tweets: number;
+  known_tweets: number;
+  spec: ScrapeJobSpec;
+  updated_at: Date;
+}
+
+// Scrape Job Types
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface DBScrapeJob {
+  id: string;
+  user_id: string;
+  username: string;
+  status: ScrapeJobStatus;
+  progress: number;
+  phase: string | null;
+  status_message: string | null;
+  scan_progress: ScanProgress | null;
+  source: TweetSourceConfig | null;
+  mode: ScrapeMode;
+  spec: ScrapeJobSpec;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  requested_by: string | null;  // Set when a user scrapes an account they cloned
+  lease_owner: string | null;
+  lease_expires_at: Date | null;
+  heartbeat_at: Date | null;
+  run_after: Date | null;  // Set when a failed attempt is requeued; not leased again before then
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+// Persona Target Types
+export interface DBPersonaTarget {
+  target_user_id: string;
+  owner_user_id: string;
+  target_username: string;  // Joined from users
+  owner_username: string;   // Joined from users
+  created_at: Date;
+}
+
+// Job Event Types
+export interface DBJobEvent {
+  id: string;  // BIGSERIAL, returned as a string by pg
+  job_id: string;
+  user_id: string;
+  type: string | null;
+  payload: Record<string, unknown>;
+  terminal: boolean;
+  created_at: Date;
+}
+
+// LLM Usage Types
+export interface DBLLMUsage {
+  id: string;  // BIGSERIAL, returned as a string by pg
+  user_id: string;
+  task: string;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  estimated: boolean;  // Tokens counted from the text because the provider reported none
+  downgraded: boolean;  // Served by the cheaper model after the user went over budget
+  created_at: Date;
+}
+
+export interface DBLLMUsageReportRow {
+  user_id: string;
+  username: string;  // Joined from users
+  model: string;
+  day: string;  // YYYY-MM-DD (UTC)
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+// Refresh Schedule Types
+export type RefreshRunStatus = 'running' | 'analyzed' | 'skipped' | 'failed';
+
+export interface DBRefreshSchedule {
+  user_id: string;
+  enabled: boolean;
+  interval_days: number;
+  min_new_tweets: number;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  last_status: RefreshRunStatus | null;
+  last_error: string | null;
+  last_scrape_job_id: string | null;
+  last_new_tweets: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // Analysis Types
 export interface DBPersonalityAnalysis {
   id: string;
@@ -71,9 +179,31 @@ export interface DBPersonalityAnalysis {
     technicalLevel: CommunicationLevel;
     emojiUsage: CommunicationLevel;
   };
+  version: number;
+  analysis_data: PersonalityAnalysis | null;  // Full analysis; null for rows written before snapshots
+  source: PersonalitySnapshotSource;
+  tweet_count: number | null;
   analyzed_at: Date;
 }
 
+export type PersonalitySnapshotSource = 'manual' | 'scheduled' | 'imported';
+
+export type AnalysisChunkStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// One chunk of an analysis job; chunk_index is the AnalysisChunkType
+export interface DBAnalysisChunk {
+  chunk_id: number;
+  job_id: number;
+  chunk_index: number;
+  tweet_count: number;
+  status: AnalysisChunkStatus;
+  attempts: number;
+  started_at: Date | null;
+  completed_at: Date | null;
+  result: Partial<PersonalityAnalysis> | null;
+  error: string | null;
+}
+
 // Funnel Types
 export interface DBFunnelProgress {
   user_id: string;
@@ -2,12 +2,14 @@ import { Pool } from 'pg';
 import { DatabaseError } from './adapters/errors';
 import type { PersonalityCache } from '../../types/cache';
 import type { PersonalityAnalysis } from '../openai/types';
+import type { ConsciousnessConfig } from '../consciousness';
 
 // Extended interface for cached data that includes tuning parameters
-interface CachedPersonalityData extends PersonalityAnalysis {
+export interface CachedPersonalityData extends PersonalityAnalysis {
   traitModifiers?: { [key: string]: number };
   interestWeights?: { [key: string]: number };
   customInterests?: string[];
+  consciousness?: ConsciousnessConfig;  // Set by bundle imports; chat uses the defaults otherwise
 }
 
 export class PersonalityCacheDB {
@@ -51,6 +53,27 @@ export class PersonalityCacheDB {
     }
   }
 
+  /**
+   * Get the version of a user's cache, stale or not
+   * @param userId - The user's ID
+   * @returns The current version, or 0 if nothing has been cached yet
+   */
+  async getCacheVersion(userId: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT version FROM personality_cache WHERE user_id = $1',
+        [userId]
+      );
+      return result.rows[0]?.version ?? 0;
+    } catch (error) {
+      console.error('Error fetching personality cache version:', error);
+      throw new DatabaseError('Failed to fetch personality cache version');
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Save or update a user's personality analysis cache
    * @param userId - The user's ID
@@ -89,6 +112,7 @@ export class PersonalityCacheDB {
           traitModifiers,
           interestWeights: existingData.interestWeights || {},
           customInterests: existingData.customInterests || [],
+          consciousness: existingData.consciousness,
           communicationStyle: {
             ...analysisData.communicationStyle,
             // Use nullish coalescing to properly preserve existing values
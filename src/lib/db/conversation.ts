@@ -4,8 +4,13 @@ import type {
   Message,
   ConversationOperations,
   NewChatOptions,
+  NewRoomOptions,
   UpdateConversationOptions,
   AddMessageOptions,
+  ConversationSearchOptions,
+  ConversationSearchResult,
+  ConversationBranch,
+  MessageMetadata,
 } from '../../types/conversation';
 import {
   ConversationRow,
@@ -29,6 +34,73 @@ export class ConversationError extends Error {
   }
 }
 
+const SEARCH_RESULT_LIMIT = 50;
+
+// Highlighting for ts_headline; title matches show the whole title
+const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "';
+const TITLE_SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+interface SearchResultRow {
+  conversation_id: number;
+  title: string;
+  persona_username: string;
+  participants: string[] | null;
+  message_id: number | null;
+  role: 'user' | 'assistant' | null;
+  created_at: Date;
+  snippet: string;
+  rank: number;
+}
+
+// Characters of the last message shown for each branch
+const BRANCH_PREVIEW_LENGTH = 100;
+
+// Each message's replies, oldest first; first messages are under null
+function childrenByParent(rows: MessageRow[]): Map<number | null, MessageRow[]> {
+  const children = new Map<number | null, MessageRow[]>();
+  for (const row of rows) {
+    const parentId = row.parent_id ?? null;
+    children.set(parentId, [...(children.get(parentId) ?? []), row]);
+  }
+  return children;
+}
+
+// The messages from the first one down to leafId, each with its alternatives.
+// Rows come oldest first; without a known leaf the newest message's branch is shown.
+function branchPath(rows: MessageRow[], leafId: number | null): Message[] {
+  if (rows.length === 0) return [];
+
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const children = childrenByParent(rows);
+
+  const path: MessageRow[] = [];
+  let current: MessageRow | undefined = (leafId !== null ? byId.get(leafId) : undefined) ?? rows[rows.length - 1];
+  while (current) {
+    path.unshift(current);
+    current = current.parent_id !== null ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path.map(row => {
+    const ids = (children.get(row.parent_id ?? null) ?? []).map(sibling => sibling.id);
+    return {
+      ...messageRowToModel(row),
+      siblings: { ids, index: ids.indexOf(row.id) }
+    };
+  });
+}
+
+// Follows the newest reply at every step from a message to the end of its branch
+function newestLeaf(rows: MessageRow[], messageId: number): number {
+  const children = childrenByParent(rows);
+  let id = messageId;
+  let replies = children.get(id);
+  while (replies && replies.length > 0) {
+    id = replies[replies.length - 1].id;
+    replies = children.get(id);
+  }
+  return id;
+}
+
 export class ConversationDB implements ConversationOperations {
   constructor(private db: Pool) {}
 
@@ -43,6 +115,7 @@ export class ConversationDB implements ConversationOperations {
       return result;
     } catch (error) {
       await client.query('ROLLBACK');
+      if (error instanceof ConversationError) throw error;
       if (isDBError(error)) {
         throw new ConversationError(
           error.message,
@@ -58,19 +131,21 @@ export class ConversationDB implements ConversationOperations {
   }
 
   // Conversation operations
-  async createConversation(userId: string, initialMessage?: string): Promise<Conversation> {
+  async createConversation(userId: string, initialMessage?: string, personaUsername?: string): Promise<Conversation> {
     try {
       const result = await this.db.query<ConversationRow>(
         `INSERT INTO conversations (
           user_id, 
           title,
-          metadata
-        ) VALUES ($1, $2, $3) 
+          metadata,
+          persona_username
+        ) VALUES ($1, $2, $3, COALESCE($4, (SELECT username FROM users WHERE id = $1))) 
         RETURNING *`,
         [
           userId,
           initialMessage ? `${initialMessage.slice(0, 50)}...` : 'New Conversation',
-          JSON.stringify({ messageCount: 0, lastMessageAt: new Date() })
+          JSON.stringify({ messageCount: 0, lastMessageAt: new Date() }),
+          personaUsername ?? null
         ]
       );
 
@@ -120,16 +195,17 @@ export class ConversationDB implements ConversationOperations {
         );
       }
 
-      // Then get its messages
+      // Then get its messages, keeping the branch on show
       const messagesResult = await this.db.query<MessageRow>(
-        'SELECT * FROM messages WHERE conversation_id = $1 ORDER BY created_at ASC',
+        'SELECT * FROM messages WHERE conversation_id = $1 ORDER BY created_at ASC, id ASC',
         [id]
       );
 
       const conversation = conversationRowToModel(conversationResult.rows[0]);
-      conversation.messages = messagesResult.rows
-        .filter(isMessageRow)
-        .map(messageRowToModel);
+      conversation.messages = branchPath(
+        messagesResult.rows.filter(isMessageRow),
+        conversation.activeLeafId
+      );
 
       return conversation;
     } catch (error) {
@@ -146,11 +222,14 @@ export class ConversationDB implements ConversationOperations {
     }
   }
 
-  async getUserConversations(userId: string): Promise<Conversation[]> {
+  async getUserConversations(userId: string, personaUsername?: string): Promise<Conversation[]> {
     try {
       const result = await this.db.query<ConversationRow>(
-        'SELECT * FROM conversations WHERE user_id = $1 ORDER BY updated_at DESC',
-        [userId]
+        `SELECT * FROM conversations
+         WHERE user_id = $1
+         AND ($2::text IS NULL OR (persona_username = $2 AND participants IS NULL))
+         ORDER BY updated_at DESC`,
+        [userId, personaUsername ?? null]
       );
 
       return result.rows
@@ -169,6 +248,32 @@ export class ConversationDB implements ConversationOperations {
     }
   }
 
+  async getUserRooms(userId: string): Promise<Conversation[]> {
+    try {
+      const result = await this.db.query<ConversationRow>(
+        `SELECT * FROM conversations
+         WHERE user_id = $1
+         AND participants IS NOT NULL
+         ORDER BY updated_at DESC`,
+        [userId]
+      );
+
+      return result.rows
+        .filter(isConversationRow)
+        .map(conversationRowToModel);
+    } catch (error) {
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to fetch rooms',
+          error.code,
+          error.code.startsWith('23') ? 400 : 500,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
   async updateConversation(
     id: number,
     userId: string,
@@ -263,11 +368,66 @@ export class ConversationDB implements ConversationOperations {
   }
 
   // Message operations
+  private async insertMessage(
+    client: PoolClient,
+    conversationId: number,
+    parentId: number | null,
+    role: 'user' | 'assistant',
+    content: string,
+    metadata: Partial<MessageMetadata>
+  ): Promise<Message> {
+    const messageResult = await client.query<MessageRow>(
+      `INSERT INTO messages (
+        conversation_id,
+        parent_id,
+        content,
+        role,
+        metadata
+      ) VALUES ($1, $2, $3, $4, $5)
+      RETURNING *`,
+      [
+        conversationId,
+        parentId,
+        content,
+        role,
+        JSON.stringify(metadata)
+      ]
+    );
+
+    if (!isMessageRow(messageResult.rows[0])) {
+      throw new ConversationError(
+        'Invalid message data returned from database',
+        'INVALID_DATA',
+        500
+      );
+    }
+
+    // The new message ends the branch on show; update conversation metadata
+    await client.query(
+      `UPDATE conversations 
+       SET updated_at = CURRENT_TIMESTAMP,
+           active_leaf_id = $2,
+           metadata = jsonb_set(
+             jsonb_set(
+               metadata,
+               '{messageCount}',
+               (COALESCE((metadata->>'messageCount')::int, 0) + 1)::text::jsonb
+             ),
+             '{lastMessageAt}',
+             to_jsonb(CURRENT_TIMESTAMP)
+           )
+       WHERE id = $1`,
+      [conversationId, messageResult.rows[0].id]
+    );
+
+    return messageRowToModel(messageResult.rows[0]);
+  }
+
   async addMessage(options: AddMessageOptions): Promise<Message> {
     return this.withTransaction(async (client) => {
       // First verify conversation ownership
-      const conversationResult = await client.query(
-        'SELECT user_id FROM conversations WHERE id = $1 FOR UPDATE',
+      const conversationResult = await client.query<{ user_id: string; active_leaf_id: number | null }>(
+        'SELECT user_id, active_leaf_id FROM conversations WHERE id = $1 FOR UPDATE',
         [options.conversationId]
       );
 
@@ -279,24 +439,56 @@ export class ConversationDB implements ConversationOperations {
         );
       }
 
-      // Insert the message
-      const messageResult = await client.query<MessageRow>(
-        `INSERT INTO messages (
-          conversation_id,
-          content,
-          role,
-          metadata
-        ) VALUES ($1, $2, $3, $4)
-        RETURNING *`,
-        [
-          options.conversationId,
-          options.content,
-          options.role,
-          JSON.stringify(options.metadata || {})
-        ]
+      // Without a parent it continues the branch on show
+      const parentId = options.parentId === undefined
+        ? conversationResult.rows[0].active_leaf_id
+        : options.parentId;
+
+      if (parentId !== null) {
+        const parentResult = await client.query(
+          'SELECT id FROM messages WHERE id = $1 AND conversation_id = $2',
+          [parentId, options.conversationId]
+        );
+
+        if (parentResult.rows.length === 0) {
+          throw new ConversationError(
+            'Parent message not found in this conversation',
+            'NOT_FOUND',
+            404
+          );
+        }
+      }
+
+      return this.insertMessage(
+        client,
+        options.conversationId,
+        parentId,
+        options.role,
+        options.content,
+        options.metadata || {}
       );
+    });
+  }
+
+  async getMessage(id: number, userId: string): Promise<Message> {
+    try {
+      const result = await this.db.query<MessageRow>(
+        `SELECT m.*
+         FROM messages m
+         JOIN conversations c ON m.conversation_id = c.id
+         WHERE m.id = $1 AND c.user_id = $2`,
+        [id, userId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConversationError(
+          'Message not found or unauthorized',
+          'NOT_FOUND',
+          404
+        );
+      }
 
-      if (!isMessageRow(messageResult.rows[0])) {
+      if (!isMessageRow(result.rows[0])) {
         throw new ConversationError(
           'Invalid message data returned from database',
           'INVALID_DATA',
@@ -304,32 +496,27 @@ export class ConversationDB implements ConversationOperations {
         );
       }
 
-      // Update conversation metadata
-      await client.query(
-        `UPDATE conversations 
-         SET updated_at = CURRENT_TIMESTAMP,
-             metadata = jsonb_set(
-               jsonb_set(
-                 metadata,
-                 '{messageCount}',
-                 (COALESCE((metadata->>'messageCount')::int, 0) + 1)::text::jsonb
-               ),
-               '{lastMessageAt}',
-               to_jsonb(CURRENT_TIMESTAMP)
-             )
-         WHERE id = $1`,
-        [options.conversationId]
-      );
-
-      return messageRowToModel(messageResult.rows[0]);
-    });
+      return messageRowToModel(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ConversationError) throw error;
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to fetch message',
+          error.code,
+          error.code.startsWith('23') ? 400 : 500,
+          error
+        );
+      }
+      throw error;
+    }
   }
 
+  // The active branch, first message first, each with the alternatives to page through
   async getMessages(conversationId: number, userId: string): Promise<Message[]> {
     try {
       // First verify conversation ownership
-      const conversationResult = await this.db.query(
-        'SELECT id FROM conversations WHERE id = $1 AND user_id = $2',
+      const conversationResult = await this.db.query<{ active_leaf_id: number | null }>(
+        'SELECT active_leaf_id FROM conversations WHERE id = $1 AND user_id = $2',
         [conversationId, userId]
       );
 
@@ -343,15 +530,44 @@ export class ConversationDB implements ConversationOperations {
 
       // Then get messages
       const messagesResult = await this.db.query<MessageRow>(
-        'SELECT * FROM messages WHERE conversation_id = $1 ORDER BY created_at ASC',
+        'SELECT * FROM messages WHERE conversation_id = $1 ORDER BY created_at ASC, id ASC',
         [conversationId]
       );
 
+      return branchPath(
+        messagesResult.rows.filter(isMessageRow),
+        conversationResult.rows[0].active_leaf_id
+      );
+    } catch (error) {
+      if (error instanceof ConversationError) throw error;
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to fetch messages',
+          error.code,
+          error.code.startsWith('23') ? 400 : 500,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Every message on every branch, oldest first
+  async getMessageTree(conversationId: number, userId: string): Promise<Message[]> {
+    try {
+      const messagesResult = await this.db.query<MessageRow>(
+        `SELECT m.*
+         FROM messages m
+         JOIN conversations c ON m.conversation_id = c.id
+         WHERE m.conversation_id = $1 AND c.user_id = $2
+         ORDER BY m.created_at ASC, m.id ASC`,
+        [conversationId, userId]
+      );
+
       return messagesResult.rows
         .filter(isMessageRow)
         .map(messageRowToModel);
     } catch (error) {
-      if (error instanceof ConversationError) throw error;
       if (isDBError(error)) {
         throw new ConversationError(
           'Failed to fetch messages',
@@ -364,14 +580,16 @@ export class ConversationDB implements ConversationOperations {
     }
   }
 
+  // Edits keep the original: the new text becomes a sibling of it and is put on show
   async updateMessage(id: number, userId: string, content: string): Promise<Message> {
     return this.withTransaction(async (client) => {
       // First verify message ownership through conversation
-      const verifyResult = await client.query(
-        `SELECT m.id 
+      const verifyResult = await client.query<MessageRow>(
+        `SELECT m.* 
          FROM messages m
          JOIN conversations c ON m.conversation_id = c.id
-         WHERE m.id = $1 AND c.user_id = $2`,
+         WHERE m.id = $1 AND c.user_id = $2
+         FOR UPDATE OF c`,
         [id, userId]
       );
 
@@ -383,42 +601,170 @@ export class ConversationDB implements ConversationOperations {
         );
       }
 
-      // Update the message
-      const result = await client.query<MessageRow>(
-        `UPDATE messages 
-         SET content = $1,
-             metadata = jsonb_set(
-               COALESCE(metadata, '{}'),
-               '{isEdited}',
-               'true'
-             )
-         WHERE id = $2
-         RETURNING *`,
-        [content, id]
+      const original = verifyResult.rows[0];
+      return this.insertMessage(
+        client,
+        original.conversation_id,
+        original.parent_id ?? null,
+        original.role,
+        content,
+        {
+          ...original.metadata,
+          cancelled: undefined,
+          isEdited: true,
+          editedAt: new Date(),
+          editedFrom: original.id
+        }
+      );
+    });
+  }
+
+  // Branches
+  async getBranches(conversationId: number, userId: string): Promise<ConversationBranch[]> {
+    try {
+      const conversationResult = await this.db.query<{ active_leaf_id: number | null }>(
+        'SELECT active_leaf_id FROM conversations WHERE id = $1 AND user_id = $2',
+        [conversationId, userId]
       );
 
-      if (!isMessageRow(result.rows[0])) {
+      if (conversationResult.rows.length === 0) {
         throw new ConversationError(
-          'Invalid message data returned from database',
-          'INVALID_DATA',
-          500
+          'Conversation not found or unauthorized',
+          'NOT_FOUND',
+          404
         );
       }
 
-      return messageRowToModel(result.rows[0]);
+      const messagesResult = await this.db.query<MessageRow>(
+        'SELECT * FROM messages WHERE conversation_id = $1 ORDER BY created_at ASC, id ASC',
+        [conversationId]
+      );
+
+      const rows = messagesResult.rows.filter(isMessageRow);
+      const children = childrenByParent(rows);
+      const activePath = branchPath(rows, conversationResult.rows[0].active_leaf_id);
+      const activeLeafId = activePath[activePath.length - 1]?.id;
+
+      // Every message nothing follows ends a branch; the most recent come first
+      return rows
+        .filter(row => !children.has(row.id))
+        .map(leaf => ({
+          leafId: leaf.id,
+          messageCount: branchPath(rows, leaf.id).length,
+          lastMessagePreview: leaf.content.slice(0, BRANCH_PREVIEW_LENGTH),
+          lastMessageAt: leaf.created_at,
+          isActive: leaf.id === activeLeafId
+        }))
+        .reverse();
+    } catch (error) {
+      if (error instanceof ConversationError) throw error;
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to fetch branches',
+          error.code,
+          error.code.startsWith('23') ? 400 : 500,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Put the branch through messageId on show, continuing down its newest
+   * replies, and return that branch.
+   */
+  async switchBranch(conversationId: number, userId: string, messageId: number): Promise<Message[]> {
+    return this.withTransaction(async (client) => {
+      const conversationResult = await client.query(
+        'SELECT id FROM conversations WHERE id = $1 AND user_id = $2 FOR UPDATE',
+        [conversationId, userId]
+      );
+
+      if (conversationResult.rows.length === 0) {
+        throw new ConversationError(
+          'Conversation not found or unauthorized',
+          'NOT_FOUND',
+          404
+        );
+      }
+
+      const messagesResult = await client.query<MessageRow>(
+        'SELECT * FROM messages WHERE conversation_id = $1 ORDER BY created_at ASC, id ASC',
+        [conversationId]
+      );
+
+      const rows = messagesResult.rows.filter(isMessageRow);
+      if (!rows.some(row => row.id === messageId)) {
+        throw new ConversationError(
+          'Message not found in this conversation',
+          'NOT_FOUND',
+          404
+        );
+      }
+
+      const leafId = newestLeaf(rows, messageId);
+      await client.query(
+        'UPDATE conversations SET active_leaf_id = $2 WHERE id = $1',
+        [conversationId, leafId]
+      );
+
+      return branchPath(rows, leafId);
     });
   }
 
   // Active conversation handling
+  // Store the rolling summary of older messages; it covers the path up to throughMessageId
+  async saveSummary(conversationId: number, userId: string, summary: string, throughMessageId: number): Promise<void> {
+    try {
+      const result = await this.db.query(
+        `UPDATE conversations 
+         SET metadata = COALESCE(metadata, '{}') || jsonb_build_object(
+           'summary', $3::text,
+           'summaryThroughId', $4::int,
+           'summaryUpdatedAt', CURRENT_TIMESTAMP
+         )
+         WHERE id = $1 AND user_id = $2`,
+        [conversationId, userId, summary, throughMessageId]
+      );
+
+      if (result.rowCount === 0) {
+        throw new ConversationError(
+          'Conversation not found or unauthorized',
+          'NOT_FOUND',
+          404
+        );
+      }
+    } catch (error) {
+      if (error instanceof ConversationError) throw error;
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to save conversation summary',
+          error.code,
+          500,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
   async startNewChat(options: NewChatOptions): Promise<Conversation> {
     return this.withTransaction(async (client) => {
-      // Clear active status from other conversations
+      const personaResult = await client.query<{ username: string }>(
+        'SELECT COALESCE($2, username) AS username FROM users WHERE id = $1',
+        [options.userId, options.personaUsername ?? null]
+      );
+      const personaUsername = personaResult.rows[0]?.username;
+
+      // Clear active status from the persona's other conversations
       await client.query(
         `UPDATE conversations 
          SET metadata = metadata - 'isActive'
          WHERE user_id = $1 
+         AND persona_username = $2
          AND metadata->>'isActive' = 'true'`,
-        [options.userId]
+        [options.userId, personaUsername]
       );
 
       // Create new conversation
@@ -426,8 +772,9 @@ export class ConversationDB implements ConversationOperations {
         `INSERT INTO conversations (
           user_id,
           title,
-          metadata
-        ) VALUES ($1, $2, $3)
+          metadata,
+          persona_username
+        ) VALUES ($1, $2, $3, $4)
         RETURNING *`,
         [
           options.userId,
@@ -437,7 +784,8 @@ export class ConversationDB implements ConversationOperations {
             messageCount: 0,
             lastMessageAt: new Date(),
             ...options.metadata
-          })
+          }),
+          personaUsername
         ]
       );
 
@@ -456,8 +804,8 @@ export class ConversationDB implements ConversationOperations {
   async setActiveConversation(userId: string, conversationId: number): Promise<void> {
     return this.withTransaction(async (client) => {
       // Verify conversation ownership
-      const verifyResult = await client.query(
-        'SELECT id FROM conversations WHERE id = $1 AND user_id = $2',
+      const verifyResult = await client.query<{ persona_username: string }>(
+        'SELECT persona_username FROM conversations WHERE id = $1 AND user_id = $2',
         [conversationId, userId]
       );
 
@@ -469,13 +817,14 @@ export class ConversationDB implements ConversationOperations {
         );
       }
 
-      // Clear other active conversations
+      // Clear the persona's other active conversations
       await client.query(
         `UPDATE conversations 
          SET metadata = metadata - 'isActive'
          WHERE user_id = $1 
+         AND persona_username = $2
          AND metadata->>'isActive' = 'true'`,
-        [userId]
+        [userId, verifyResult.rows[0].persona_username]
       );
 
       // Set new active conversation
@@ -492,14 +841,17 @@ export class ConversationDB implements ConversationOperations {
     });
   }
 
-  async getActiveConversation(userId: string): Promise<Conversation | null> {
+  async getActiveConversation(userId: string, personaUsername?: string): Promise<Conversation | null> {
     try {
       const result = await this.db.query<ConversationRow>(
         `SELECT * FROM conversations 
          WHERE user_id = $1 
+         AND ($2::text IS NULL OR persona_username = $2)
+         AND participants IS NULL
          AND metadata->>'isActive' = 'true'
+         ORDER BY updated_at DESC
          LIMIT 1`,
-        [userId]
+        [userId, personaUsername ?? null]
       );
 
       if (result.rows.length === 0) {
@@ -527,4 +879,138 @@ export class ConversationDB implements ConversationOperations {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  // Rooms
+  async startRoomChat(options: NewRoomOptions): Promise<Conversation> {
+    if (options.participants.length < 2) {
+      throw new ConversationError(
+        'A room needs at least two participants',
+        'INVALID_INPUT',
+        400
+      );
+    }
+
+    try {
+      // Rooms never become a persona's active one-on-one chat
+      const result = await this.db.query<ConversationRow>(
+        `INSERT INTO conversations (
+          user_id,
+          title,
+          metadata,
+          persona_username,
+          participants
+        ) VALUES ($1, $2, $3, $4, $5)
+        RETURNING *`,
+        [
+          options.userId,
+          options.title || `${options.participants.map(p => `@${p}`).join(', ')} on ${options.topic.slice(0, 50)}`,
+          JSON.stringify({
+            topic: options.topic,
+            messageCount: 0,
+            lastMessageAt: new Date()
+          }),
+          options.participants[0],
+          options.participants
+        ]
+      );
+
+      if (!isConversationRow(result.rows[0])) {
+        throw new ConversationError(
+          'Invalid conversation data returned from database',
+          'INVALID_DATA',
+          500
+        );
+      }
+
+      return conversationRowToModel(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ConversationError) throw error;
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to create room',
+          error.code,
+          error.code.startsWith('23') ? 400 : 500,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Search
+  async searchConversations(userId: string, options: ConversationSearchOptions): Promise<ConversationSearchResult[]> {
+    const query = options.query.trim();
+    if (!query) {
+      throw new ConversationError(
+        'Search query is empty',
+        'INVALID_INPUT',
+        400
+      );
+    }
+
+    try {
+      // Messages and titles are ranked together; a title match counts double
+      const result = await this.db.query<SearchResultRow>(
+        `WITH search AS (SELECT websearch_to_tsquery('english', $2) AS q)
+         SELECT c.id AS conversation_id, c.title, c.persona_username, c.participants,
+                m.id AS message_id, m.role, m.created_at,
+                ts_headline('english', m.content, search.q, $6) AS snippet,
+                ts_rank(m.search_vector, search.q) AS rank
+         FROM messages m
+         JOIN conversations c ON c.id = m.conversation_id
+         CROSS JOIN search
+         WHERE c.user_id = $1
+         AND m.search_vector @@ search.q
+         AND ($3::text IS NULL OR (c.persona_username = $3 AND c.participants IS NULL))
+         AND ($4::timestamptz IS NULL OR m.created_at >= $4)
+         AND ($5::timestamptz IS NULL OR m.created_at < $5)
+         UNION ALL
+         SELECT c.id, c.title, c.persona_username, c.participants,
+                NULL, NULL, c.updated_at,
+                ts_headline('english', c.title, search.q, $7),
+                ts_rank(c.title_vector, search.q) * 2
+         FROM conversations c
+         CROSS JOIN search
+         WHERE c.user_id = $1
+         AND c.title_vector @@ search.q
+         AND ($3::text IS NULL OR (c.persona_username = $3 AND c.participants IS NULL))
+         AND ($4::timestamptz IS NULL OR c.updated_at >= $4)
+         AND ($5::timestamptz IS NULL OR c.updated_at < $5)
+         ORDER BY rank DESC, created_at DESC
+         LIMIT $8`,
+        [
+          userId,
+          query,
+          options.personaUsername ?? null,
+          options.from ?? null,
+          options.to ?? null,
+          SNIPPET_OPTIONS,
+          TITLE_SNIPPET_OPTIONS,
+          Math.min(options.limit ?? SEARCH_RESULT_LIMIT, SEARCH_RESULT_LIMIT)
+        ]
+      );
+
+      return result.rows.map(row => ({
+        conversationId: row.conversation_id,
+        conversationTitle: row.title,
+        personaUsername: row.persona_username,
+        participants: row.participants,
+        messageId: row.message_id,
+        role: row.role,
+        createdAt: row.created_at,
+        snippet: row.snippet,
+        rank: Number(row.rank)
+      }));
+    } catch (error) {
+      if (isDBError(error)) {
+        throw new ConversationError(
+          'Failed to search conversations',
+          error.code,
+          error.code.startsWith('23') ? 400 : 500,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import type { Conversation, Message, MessageMetadata } from '../../types/conversation';
+import { EXPORT_SCHEMA_VERSION, formatExportTime, type ExportDocument } from './document';
+
+export interface ExportedMessage {
+  id: number;
+  parentId: number | null;
+  role: 'user' | 'assistant';
+  speaker: string | null;  // Persona username for replies; in rooms also the user for interjections
+  content: string;
+  createdAt: string;
+  metadata: MessageMetadata;
+}
+
+export interface ConversationExport {
+  schema: 'conversation';
+  schemaVersion: number;
+  exportedAt: string;
+  conversation: {
+    id: number;
+    title: string;
+    personaUsername: string;
+    participants: string[] | null;  // Set for rooms
+    topic: string | null;
+    createdAt: string;
+    updatedAt: string;
+    activeLeafId: number | null;
+  };
+  // Every branch, oldest first: parentId rebuilds the tree, activeLeafId ends the branch on show
+  messages: ExportedMessage[];
+}
+
+function isoString(value: Date | string): string {
+  return new Date(value).toISOString();
+}
+
+function messageSpeaker(message: Message, conversation: Conversation): string | null {
+  if (message.metadata?.speaker) return message.metadata.speaker;
+  return message.role === 'assistant' ? conversation.personaUsername : null;
+}
+
+export function conversationExport(conversation: Conversation, tree: Message[]): ConversationExport {
+  return {
+    schema: 'conversation',
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      personaUsername: conversation.personaUsername,
+      participants: conversation.participants,
+      topic: conversation.metadata?.topic ?? null,
+      createdAt: isoString(conversation.createdAt),
+      updatedAt: isoString(conversation.updatedAt),
+      activeLeafId: conversation.activeLeafId
+    },
+    messages: tree.map(message => ({
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role,
+      speaker: messageSpeaker(message, conversation),
+      content: message.content,
+      createdAt: isoString(message.createdAt),
+      metadata: message.metadata ?? {}
+    }))
+  };
+}
+
+function messageNote(message: Message): string | undefined {
+  const notes = [
+    message.metadata?.cancelled ? 'stopped early' : null,
+    message.metadata?.isEdited ? 'edited' : null,
+    message.siblings && message.siblings.ids.length > 1
+      ? `version ${message.siblings.index + 1} of ${message.siblings.ids.length}`
+      : null
+  ].filter((note): note is string => note !== null);
+
+  return notes.length > 0 ? notes.join(', ') : undefined;
+}
+
+// The transcript of the branch on show, as it reads in the chat
+export function conversationDocument(conversation: Conversation, messages: Message[]): ExportDocument {
+  const details: ExportDocument['details'] = conversation.participants
+    ? [['Participants', conversation.participants.map(username => `@${username}`).join(', ')]]
+    : [['Persona', `@${conversation.personaUsername}`]];
+
+  if (conversation.metadata?.topic) {
+    details.push(['Topic', conversation.metadata.topic]);
+  }
+  details.push(
+    ['Started', formatExportTime(conversation.createdAt)],
+    ['Messages', String(messages.length)],
+    ['Exported', formatExportTime(new Date())]
+  );
+
+  return {
+    title: conversation.title,
+    details,
+    sections: [{
+      blocks: messages.map(message => {
+        const speaker = messageSpeaker(message, conversation);
+        const isUser = message.role === 'user';
+        return {
+          kind: 'message' as const,
+          speaker: isUser ? 'You' : `@${speaker}`,
+          time: formatExportTime(message.createdAt),
+          text: message.content,
+          note: messageNote(message),
+          isUser
+        };
+      })
+    }]
+  };
+}
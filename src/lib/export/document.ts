@@ -0,0 +1,179 @@
+/*
+ * Exported transcripts and reports are built once as a small document model
+ * and rendered from it to Markdown or to a standalone HTML page that prints
+ * (or saves as PDF) cleanly. JSON exports skip the model and carry the data.
+ */
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Bumped when the JSON export shape changes in a way readers must handle
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+export type ExportBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; columns: string[]; rows: string[][] }
+  | { kind: 'message'; speaker: string; time: string; text: string; note?: string; isUser: boolean };
+
+export interface ExportSection {
+  heading?: string;
+  blocks: ExportBlock[];
+}
+
+export interface ExportDocument {
+  title: string;
+  details: Array<[label: string, value: string]>;  // Shown under the title
+  sections: ExportSection[];
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// "2025-01-31 14:05 UTC"; exports are read away from the app, so times say their zone
+export function formatExportTime(value: Date | string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Something safe to put in a download file name
+export function exportFilename(name: string, format: ExportFormat): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+  return `${base || 'export'}.${format}`;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function renderMarkdown(doc: ExportDocument): string {
+  const lines: string[] = [`# ${doc.title}`, ''];
+
+  if (doc.details.length > 0) {
+    lines.push(...doc.details.map(([label, value]) => `- **${label}:** ${value}`), '');
+  }
+
+  for (const section of doc.sections) {
+    if (section.heading) {
+      lines.push(`## ${section.heading}`, '');
+    }
+
+    for (const block of section.blocks) {
+      switch (block.kind) {
+        case 'paragraph':
+          lines.push(block.text, '');
+          break;
+        case 'list':
+          lines.push(...block.items.map(item => `- ${item.replace(/\n/g, ' ')}`), '');
+          break;
+        case 'table':
+          lines.push(
+            `| ${block.columns.map(escapeTableCell).join(' | ')} |`,
+            `| ${block.columns.map(() => '---').join(' | ')} |`,
+            ...block.rows.map(row => `| ${row.map(escapeTableCell).join(' | ')} |`),
+            ''
+          );
+          break;
+        case 'message':
+          lines.push(
+            `**${block.speaker}**${block.time ? ` · ${block.time}` : ''}${block.note ? ` _(${block.note})_` : ''}`,
+            '',
+            block.text,
+            '',
+            '---',
+            ''
+          );
+          break;
+      }
+    }
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderHtmlBlock(block: ExportBlock): string {
+  switch (block.kind) {
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'table':
+      return `<table><thead><tr>${block.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>`
+        + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'message':
+      return `<div class="message${block.isUser ? ' user' : ''}">`
+        + `<div class="meta"><strong>${escapeHtml(block.speaker)}</strong>${block.time ? ` · ${escapeHtml(block.time)}` : ''}${block.note ? ` <em>(${escapeHtml(block.note)})</em>` : ''}</div>`
+        + `<div class="text">${escapeHtml(block.text)}</div></div>`;
+  }
+}
+
+const HTML_STYLES = `
+  body { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; background: #0a0a0a; color: #fca5a5; margin: 0; padding: 2rem; }
+  main { max-width: 800px; margin: 0 auto; }
+  h1 { color: #ef4444; letter-spacing: 0.05em; margin-bottom: 0.5rem; }
+  h2 { color: #ef4444; border-bottom: 1px solid rgba(239, 68, 68, 0.3); padding-bottom: 0.25rem; margin-top: 2rem; font-size: 1.1rem; text-transform: uppercase; letter-spacing: 0.1em; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.85rem; opacity: 0.8; }
+  dt { font-weight: bold; }
+  dd { margin: 0; }
+  p, li { line-height: 1.5; font-size: 0.9rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; margin: 0.5rem 0 1rem; }
+  th, td { border: 1px solid rgba(239, 68, 68, 0.3); padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  .message { border: 1px solid rgba(239, 68, 68, 0.2); border-radius: 4px; padding: 0.5rem 0.75rem; margin: 0.75rem 0; background: rgba(0, 0, 0, 0.4); }
+  .message.user { background: rgba(239, 68, 68, 0.06); margin-left: 15%; }
+  .message .meta { font-size: 0.75rem; opacity: 0.7; margin-bottom: 0.25rem; }
+  .message .text { white-space: pre-wrap; font-size: 0.9rem; line-height: 1.5; }
+  .print { position: fixed; top: 1rem; right: 1rem; background: transparent; color: #ef4444; border: 1px solid rgba(239, 68, 68, 0.5); padding: 0.3rem 0.75rem; font: inherit; cursor: pointer; }
+  @media print {
+    body { background: #fff; color: #111; padding: 0; }
+    h1, h2 { color: #111; }
+    h2, th, td, .message { border-color: #999; }
+    .message, .message.user { background: none; break-inside: avoid; }
+    .print { display: none; }
+  }
+`;
+
+// A complete page with its own styles, readable offline and printable to PDF
+export function renderHtml(doc: ExportDocument): string {
+  const details = doc.details.length > 0
+    ? `<dl>${doc.details.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`
+    : '';
+  const sections = doc.sections.map(section =>
+    `<section>${section.heading ? `<h2>${escapeHtml(section.heading)}</h2>` : ''}${section.blocks.map(renderHtmlBlock).join('\n')}</section>`
+  ).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<main>
+<h1>${escapeHtml(doc.title)}</h1>
+${details}
+${sections}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,186 @@
+import type { PersonalityAnalysis } from '../openai/types';
+import type { DBPersonalityAnalysis, PersonalitySnapshotSource } from '../db/adapters/types';
+import { snapshotAnalysis } from '../analysis/snapshots';
+import { languageName } from '../analysis/language';
+import { EXPORT_SCHEMA_VERSION, formatExportTime, type ExportDocument, type ExportSection } from './document';
+
+export interface PersonalityExport {
+  schema: 'personality';
+  schemaVersion: number;
+  exportedAt: string;
+  username: string;
+  // The analysis snapshot exported; null when it came from the live cache
+  snapshot: {
+    version: number;
+    analyzedAt: string;
+    source: PersonalitySnapshotSource;
+    tweetCount: number | null;
+  } | null;
+  analysis: PersonalityAnalysis;
+}
+
+// Rows per vocabulary table
+const TOP_VOCABULARY = 15;
+
+const SOCIAL_METRIC_LABELS: Record<keyof PersonalityAnalysis['socialBehaviorMetrics'], string> = {
+  oversharer: 'Oversharer',
+  replyGuy: 'Reply Guy',
+  viralChaser: 'Viral Chaser',
+  threadMaker: 'Thread Maker',
+  retweeter: 'Retweeter',
+  hotTaker: 'Hot Takes',
+  joker: 'Joker',
+  debater: 'Debater',
+  doomPoster: 'Doom Poster',
+  earlyAdopter: 'Early Adopter',
+  knowledgeDropper: 'Knowledge Dropper',
+  hypeBeast: 'Hype Beast'
+};
+
+export function personalityExport(
+  username: string,
+  analysis: PersonalityAnalysis,
+  snapshot: DBPersonalityAnalysis | null
+): PersonalityExport {
+  return {
+    schema: 'personality',
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    username,
+    snapshot: snapshot && {
+      version: snapshot.version,
+      analyzedAt: new Date(snapshot.analyzed_at).toISOString(),
+      source: snapshot.source,
+      tweetCount: snapshot.tweet_count
+    },
+    analysis
+  };
+}
+
+// The analysis behind an export: a snapshot's, or the cached one when there are no snapshots
+export function exportedAnalysis(snapshot: DBPersonalityAnalysis | null, cached: Record<string, unknown> | null): PersonalityAnalysis | null {
+  if (snapshot) return snapshotAnalysis(snapshot);
+  return cached ? cached as unknown as PersonalityAnalysis : null;
+}
+
+function section(heading: string, blocks: ExportSection['blocks']): ExportSection[] {
+  return blocks.length > 0 ? [{ heading, blocks }] : [];
+}
+
+// Analyses from before a field existed lack it, so every part is optional here
+export function personalityDocument(
+  username: string,
+  analysis: PersonalityAnalysis,
+  snapshot: DBPersonalityAnalysis | null
+): ExportDocument {
+  const style = analysis.communicationStyle;
+  const vocabulary = analysis.vocabulary;
+
+  const details: ExportDocument['details'] = [['Account', `@${username}`]];
+  if (snapshot) {
+    details.push(
+      ['Version', String(snapshot.version)],
+      ['Analyzed', formatExportTime(snapshot.analyzed_at)]
+    );
+    if (snapshot.tweet_count !== null) {
+      details.push(['Tweets analyzed', String(snapshot.tweet_count)]);
+    }
+  }
+  if (analysis.tweetSlice) {
+    details.push(['Tweets from', analysis.tweetSlice.description]);
+  }
+  details.push(['Exported', formatExportTime(new Date())]);
+
+  const sections: ExportSection[] = [
+    ...section('Summary', analysis.summary ? [{ kind: 'paragraph', text: analysis.summary }] : []),
+    ...section('Traits', analysis.traits?.length ? [{
+      kind: 'table',
+      columns: ['Trait', 'Score', 'Explanation'],
+      rows: analysis.traits.map(trait => [trait.name, `${trait.score}/10`, trait.explanation ?? ''])
+    }] : []),
+    ...section('Interests', analysis.interests?.length ? [{ kind: 'list', items: analysis.interests }] : []),
+    ...section('Topics and themes', analysis.topicsAndThemes?.length ? [{ kind: 'list', items: analysis.topicsAndThemes }] : []),
+    ...section('Communication style', style ? [
+      {
+        kind: 'table',
+        columns: ['Formality', 'Enthusiasm', 'Technical level', 'Emoji usage', 'Verbosity'],
+        rows: [[style.formality, style.enthusiasm, style.technicalLevel, style.emojiUsage, style.verbosity ?? '']]
+      },
+      ...(style.description ? [{ kind: 'paragraph' as const, text: style.description }] : []),
+      ...(style.patterns ? [{
+        kind: 'list' as const,
+        items: [
+          `Capitalization: ${style.patterns.capitalization}`,
+          `Line breaks: ${style.patterns.lineBreaks}`,
+          ...(style.patterns.punctuation?.length ? [`Punctuation: ${style.patterns.punctuation.join(' ')}`] : []),
+          ...(style.patterns.messageStructure?.opening?.length ? [`Openings: ${style.patterns.messageStructure.opening.join(', ')}`] : []),
+          ...(style.patterns.messageStructure?.closing?.length ? [`Closings: ${style.patterns.messageStructure.closing.join(', ')}`] : [])
+        ]
+      }] : []),
+      ...(style.contextualVariations ? [{
+        kind: 'table' as const,
+        columns: ['Context', 'How they write'],
+        rows: Object.entries(style.contextualVariations).map(([context, description]) => [context, description])
+      }] : [])
+    ] : []),
+    ...section('Vocabulary', vocabulary ? [
+      ...(vocabulary.commonTerms?.length ? [{
+        kind: 'table' as const,
+        columns: ['Term', 'Uses', 'Share'],
+        rows: vocabulary.commonTerms.slice(0, TOP_VOCABULARY).map(term => [term.term, String(term.frequency), `${term.percentage}%`])
+      }] : []),
+      ...(vocabulary.commonPhrases?.length ? [{
+        kind: 'table' as const,
+        columns: ['Phrase', 'Uses', 'Share'],
+        rows: vocabulary.commonPhrases.slice(0, TOP_VOCABULARY).map(phrase => [phrase.phrase, String(phrase.frequency), `${phrase.percentage}%`])
+      }] : []),
+      ...(vocabulary.enthusiasmMarkers?.length ? [{ kind: 'paragraph' as const, text: `Enthusiasm markers: ${vocabulary.enthusiasmMarkers.join(', ')}` }] : []),
+      ...(vocabulary.industryTerms?.length ? [{ kind: 'paragraph' as const, text: `Industry terms: ${vocabulary.industryTerms.join(', ')}` }] : [])
+    ] : []),
+    ...section('Languages', analysis.languages?.length ? [{
+      kind: 'table',
+      columns: ['Language', 'Share', 'Common phrases'],
+      rows: analysis.languages.map(habits => [languageName(habits.language), `${habits.share}%`, habits.commonPhrases.slice(0, 5).join(', ')])
+    }] : []),
+    ...section('Social behavior', analysis.socialBehaviorMetrics ? [{
+      kind: 'table',
+      columns: ['Behavior', 'Score'],
+      rows: (Object.keys(SOCIAL_METRIC_LABELS) as Array<keyof typeof SOCIAL_METRIC_LABELS>)
+        .filter(metric => typeof analysis.socialBehaviorMetrics[metric] === 'number')
+        .map(metric => [SOCIAL_METRIC_LABELS[metric], String(analysis.socialBehaviorMetrics[metric])])
+    }] : []),
+    ...section('Emotional intelligence', analysis.emotionalIntelligence ? [{
+      kind: 'list',
+      items: [
+        `Leadership style: ${analysis.emotionalIntelligence.leadershipStyle}`,
+        `Under challenge: ${analysis.emotionalIntelligence.challengeResponse}`,
+        `Analytical tone: ${analysis.emotionalIntelligence.analyticalTone}`,
+        ...(analysis.emotionalIntelligence.supportivePatterns ?? []).map(pattern => `Supportive: ${pattern}`)
+      ]
+    }] : []),
+    ...section('Emotional tone', analysis.emotionalTone ? [{ kind: 'paragraph', text: analysis.emotionalTone }] : []),
+    ...section('Thought process', analysis.thoughtProcess ? [{
+      kind: 'list',
+      items: [
+        `Initial approach: ${analysis.thoughtProcess.initialApproach}`,
+        `Processing style: ${analysis.thoughtProcess.processingStyle}`,
+        `Expression style: ${analysis.thoughtProcess.expressionStyle}`
+      ]
+    }] : [])
+  ];
+
+  if (analysis.partial) {
+    sections.unshift({
+      blocks: [{
+        kind: 'paragraph',
+        text: `Partial analysis: ${analysis.partial.failedChunks.join(', ')} did not finish and show defaults.`
+      }]
+    });
+  }
+
+  return {
+    title: `@${username} personality analysis`,
+    details,
+    sections
+  };
+}
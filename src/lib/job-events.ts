@@ -0,0 +1,100 @@
+// Client-side helpers for /api/jobs/:id/events
+
+interface JobEvent {
+  type?: string
+  error?: string
+}
+
+/**
+ * Follow a job's progress stream. EventSource reconnects on its own and sends
+ * Last-Event-ID, so a dropped connection resumes without losing events.
+ * Returns a function that stops listening.
+ */
+export function followJobEvents<T extends JobEvent>(
+  jobId: string,
+  {
+    onEvent,
+    onClosed,
+    onReconnecting,
+    lastEventId
+  }: {
+    onEvent: (data: T, eventId?: string) => void
+    // The server refused the stream: unknown job, or its final event was already seen
+    onClosed?: () => void
+    onReconnecting?: () => void
+    lastEventId?: string
+  }
+): () => void {
+  const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ''
+  const eventSource = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events${query}`)
+
+  eventSource.onmessage = (event) => {
+    let data: T
+    try {
+      data = JSON.parse(event.data)
+    } catch (error) {
+      console.error('Failed to parse job event:', error)
+      return
+    }
+
+    onEvent(data, event.lastEventId || undefined)
+
+    // Stop before the browser reconnects to a finished stream
+    if (data.type === 'complete' || data.type === 'error') {
+      eventSource.close()
+    }
+  }
+
+  eventSource.onerror = () => {
+    // While CONNECTING the browser is already retrying with Last-Event-ID
+    if (eventSource.readyState === EventSource.CLOSED) {
+      onClosed?.()
+    } else {
+      onReconnecting?.()
+    }
+  }
+
+  return () => eventSource.close()
+}
+
+// Resolve with the `result` of the job's complete event
+export function waitForJobResult<T>(
+  jobId: string,
+  { timeoutMs = 180000, signal }: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onAbort)
+      stop()
+    }
+
+    const onAbort = () => {
+      finish()
+      reject(new DOMException('Stopped waiting for the job', 'AbortError'))
+    }
+
+    const timeoutId = setTimeout(() => {
+      finish()
+      reject(new Error('Timed out waiting for the job to finish'))
+    }, timeoutMs)
+
+    const stop = followJobEvents<JobEvent & { result?: T }>(jobId, {
+      onEvent: (data) => {
+        if (data.type === 'complete') {
+          finish()
+          resolve(data.result as T)
+        } else if (data.type === 'error') {
+          finish()
+          reject(new Error(data.error || 'Job failed'))
+        }
+      },
+      onClosed: () => {
+        finish()
+        reject(new Error('Lost track of the job - please try again'))
+      }
+    })
+
+    signal?.addEventListener('abort', onAbort)
+  })
+}
@@ -0,0 +1,123 @@
+import OpenAI from 'openai'
+import { tokenize } from '../analysis/stylometry'
+import { detectLanguage, lexiconFor } from '../analysis/language'
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'hash'
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName
+  readonly model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const PROVIDER_NAMES: EmbeddingProviderName[] = ['openai', 'local', 'hash']
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  openai: 'text-embedding-3-small',
+  local: 'nomic-embed-text',
+  hash: 'hash-512'
+}
+
+// Texts per embeddings request
+const BATCH_SIZE = 100
+
+/**
+ * Embeddings from OpenAI or any server that speaks its API, like the chat
+ * provider: Ollama serves /v1/embeddings too, so local is this with another baseURL.
+ */
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private client: OpenAI
+
+  constructor(readonly name: 'openai' | 'local', readonly model: string, apiKey?: string, baseURL?: string) {
+    this.client = new OpenAI({
+      apiKey: apiKey || 'not-needed',
+      baseURL,
+      maxRetries: 3,
+      timeout: 60000
+    })
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(start, start + BATCH_SIZE)
+      })
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(item => item.embedding))
+    }
+    return vectors
+  }
+}
+
+const HASH_DIMENSIONS = 512
+
+// FNV-1a, for spreading tokens over the hashed dimensions
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Bag of words (stopwords aside) and word pairs hashed into a fixed number of
+ * dimensions. No model or network: it only matches shared words, not meaning,
+ * but it works offline and gives the same vectors every time.
+ */
+class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash' as const
+  readonly model = DEFAULT_MODELS.hash
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(HASH_DIMENSIONS).fill(0)
+      const { stopwords } = lexiconFor(detectLanguage(text) ?? 'en')
+      const words = tokenize(text)
+        .filter(token => token.kind !== 'url' && token.kind !== 'mention')
+        .map(token => token.text.toLowerCase())
+        .filter(word => !stopwords.has(word))
+      const features = words.map(word => ({ key: word, weight: 1 }))
+        .concat(words.slice(1).map((word, index) => ({ key: `${words[index]} ${word}`, weight: 0.5 })))
+
+      for (const { key, weight } of features) {
+        const hash = fnv1a(key)
+        // The top bit picks a sign so collisions tend to cancel out
+        vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -weight : weight
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+      return norm > 0 ? vector.map(value => value / norm) : vector
+    })
+  }
+}
+
+let provider: EmbeddingProvider | null = null
+
+/*
+ * The embedder is set per deployment:
+ *
+ *   EMBEDDING_PROVIDER   openai | local | hash (default openai)
+ *   EMBEDDING_MODEL      model name (defaults: text-embedding-3-small, nomic-embed-text)
+ *
+ * openai and local use the same keys and URLs as the LLM providers (see ./index).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const name = (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName
+    if (!PROVIDER_NAMES.includes(name)) {
+      throw new Error(`Unknown embedding provider "${name}". Use one of: ${PROVIDER_NAMES.join(', ')}`)
+    }
+    const model = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[name]
+
+    provider = name === 'hash'
+      ? new HashEmbeddingProvider()
+      : name === 'openai'
+        ? new OpenAIEmbeddingProvider(name, model, process.env.OPENAI_API_KEY, process.env.OPENAI_BASE_URL)
+        : new OpenAIEmbeddingProvider(name, model, undefined, process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1')
+    console.log(`[Embeddings] Using ${provider.name} (${provider.model})`)
+  }
+  return provider
+}
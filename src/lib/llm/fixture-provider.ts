@@ -0,0 +1,112 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { FixtureNotFoundError } from './types'
+import type { LLMCompletion, LLMCompletionRequest, LLMMessage, LLMProvider, LLMTask } from './types'
+
+interface Fixture {
+  key: string
+  task: LLMTask
+  model: string
+  recordedAt: string
+  messages: LLMMessage[]
+  completion: LLMCompletion
+}
+
+interface FixtureProviderOptions {
+  task: LLMTask
+  dir: string
+  // When set, misses are sent here and the answer is saved as a new fixture
+  recorder?: LLMProvider
+}
+
+// Requests match on task and messages only, so sampling settings can change without re-recording
+export function fixtureKey(task: LLMTask, messages: LLMMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ task, messages }))
+    .digest('hex')
+    .slice(0, 32)
+}
+
+/**
+ * Replays recorded completions from <dir>/<task>-<key>.json, falling back to
+ * <dir>/default-<task>-<format>.json for requests that ask for JSON (format
+ * being the responseFormat name, e.g. basic_info_analysis) and then to
+ * <dir>/default-<task>.json. Needs no network, and the same request always gets
+ * the same answer, so dev and CI can run chat and analysis end to end.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const
+  readonly model: string
+  private task: LLMTask
+  private dir: string
+  private recorder?: LLMProvider
+
+  constructor({ task, dir, recorder }: FixtureProviderOptions) {
+    this.task = task
+    this.dir = dir
+    this.recorder = recorder
+    this.model = recorder ? `fixture:${recorder.model}` : 'fixture'
+  }
+
+  private async read(file: string): Promise<Fixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8')) as Fixture
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  private async record(key: string, request: LLMCompletionRequest, completion: LLMCompletion): Promise<void> {
+    const fixture: Fixture = {
+      key,
+      task: this.task,
+      model: this.recorder?.model ?? this.model,
+      recordedAt: new Date().toISOString(),
+      messages: request.messages,
+      completion: { content: completion.content, finishReason: completion.finishReason }
+    }
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.writeFile(path.join(this.dir, `${this.task}-${key}.json`), JSON.stringify(fixture, null, 2))
+    console.log(`[LLM Fixture] Recorded ${this.task} fixture ${key}`)
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    if (request.signal?.aborted) {
+      throw new DOMException('The operation was aborted', 'AbortError')
+    }
+
+    const key = fixtureKey(this.task, request.messages)
+    const fixture = await this.read(`${this.task}-${key}.json`)
+    if (fixture) return fixture.completion
+
+    if (this.recorder) {
+      const completion = await this.recorder.complete(request)
+      await this.record(key, request, completion)
+      return completion
+    }
+
+    // Each analysis chunk has its own schema, so one default can't answer them all
+    const fallback = (request.responseFormat && await this.read(`default-${this.task}-${request.responseFormat.name}.json`)) ||
+      await this.read(`default-${this.task}.json`)
+    if (fallback) {
+      console.log(`[LLM Fixture] No ${this.task} fixture for ${key}, using the default`)
+      return fallback.completion
+    }
+
+    throw new FixtureNotFoundError(key, this.task)
+  }
+
+  // Replays word by word so streaming clients see more than one delta
+  async stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request)
+    for (const delta of completion.content.match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted', 'AbortError')
+      }
+      onDelta(delta)
+    }
+    return completion
+  }
+}
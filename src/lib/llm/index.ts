@@ -0,0 +1,123 @@
+import path from 'path'
+import { OpenAIProvider } from './openai-provider'
+import { FixtureProvider } from './fixture-provider'
+import type { LLMProvider, LLMProviderName, LLMTask } from './types'
+
+export type { LLMProvider, LLMProviderName, LLMTask, LLMMessage, LLMCompletion, LLMCompletionRequest, LLMResponseFormat, LLMUsage } from './types'
+export { FixtureNotFoundError } from './types'
+export { getEmbeddingProvider } from './embeddings'
+export type { EmbeddingProvider, EmbeddingProviderName } from './embeddings'
+
+/*
+ * Which backend serves each task is set per deployment:
+ *
+ *   LLM_PROVIDER            openai | local | fixture (default openai)
+ *   LLM_CHAT_PROVIDER       overrides LLM_PROVIDER for chat
+ *   LLM_ANALYSIS_PROVIDER   overrides LLM_PROVIDER for personality analysis
+ *   LLM_MODEL, LLM_CHAT_MODEL, LLM_ANALYSIS_MODEL   model names, same precedence
+ *
+ *   OPENAI_API_KEY, OPENAI_BASE_URL   for openai
+ *   LOCAL_LLM_BASE_URL                any OpenAI-compatible server (default Ollama's)
+ *   LLM_FIXTURE_DIR                   recorded completions (default tests/fixtures/llm)
+ *   LLM_FIXTURE_RECORD                openai | local: record fixture misses from that backend
+ *
+ *   LLM_DOWNGRADE_MODEL   cheaper model on the same backend for users over budget (see ./usage)
+ *
+ *   EMBEDDING_PROVIDER, EMBEDDING_MODEL   for tweet memory (see ./embeddings)
+ */
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'local', 'fixture']
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1',
+  fixture: 'fixture'
+}
+
+const TIMEOUT_MS: Record<LLMTask, number> = {
+  chat: 30000,
+  analysis: 600000
+}
+
+const providers = new Map<LLMTask, LLMProvider>()
+const downgradeProviders = new Map<LLMTask, LLMProvider | null>()
+
+function taskEnv(task: LLMTask, name: 'PROVIDER' | 'MODEL'): string | undefined {
+  return process.env[`LLM_${task.toUpperCase()}_${name}`] || process.env[`LLM_${name}`]
+}
+
+function parseProviderName(value: string | undefined, fallback: LLMProviderName): LLMProviderName {
+  if (!value) return fallback
+  if (!PROVIDER_NAMES.includes(value as LLMProviderName)) {
+    throw new Error(`Unknown LLM provider "${value}". Use one of: ${PROVIDER_NAMES.join(', ')}`)
+  }
+  return value as LLMProviderName
+}
+
+function createNetworkProvider(
+  name: 'openai' | 'local',
+  task: LLMTask,
+  model: string = taskEnv(task, 'MODEL') || DEFAULT_MODELS[name]
+): OpenAIProvider {
+  return name === 'openai'
+    ? new OpenAIProvider({
+      name,
+      model,
+      apiKey: process.env.OPENAI_API_KEY,
+      baseURL: process.env.OPENAI_BASE_URL,
+      timeoutMs: TIMEOUT_MS[task]
+    })
+    : new OpenAIProvider({
+      name,
+      model,
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      timeoutMs: TIMEOUT_MS[task]
+    })
+}
+
+function createProvider(task: LLMTask): LLMProvider {
+  const name = parseProviderName(taskEnv(task, 'PROVIDER'), 'openai')
+
+  if (name !== 'fixture') {
+    return createNetworkProvider(name, task)
+  }
+
+  const recordFrom = process.env.LLM_FIXTURE_RECORD
+  const recorder = recordFrom
+    ? createNetworkProvider(recordFrom === 'local' ? 'local' : 'openai', task)
+    : undefined
+
+  return new FixtureProvider({
+    task,
+    dir: process.env.LLM_FIXTURE_DIR || path.join(process.cwd(), 'tests', 'fixtures', 'llm'),
+    recorder
+  })
+}
+
+// The provider configured for a task, created on first use
+export function getLLMProvider(task: LLMTask): LLMProvider {
+  let provider = providers.get(task)
+  if (!provider) {
+    provider = createProvider(task)
+    providers.set(task, provider)
+    console.log(`[LLM] Using ${provider.name} (${provider.model}) for ${task}`)
+  }
+  return provider
+}
+
+// The cheaper variant of a task's provider, or null when LLM_DOWNGRADE_MODEL is unset
+// or the task runs on fixtures
+export function getDowngradeLLMProvider(task: LLMTask): LLMProvider | null {
+  if (!downgradeProviders.has(task)) {
+    const model = process.env.LLM_DOWNGRADE_MODEL
+    const current = getLLMProvider(task)
+    const provider = model && current.name !== 'fixture' && model !== current.model
+      ? createNetworkProvider(current.name, task, model)
+      : null
+    downgradeProviders.set(task, provider)
+    if (provider) {
+      console.log(`[LLM] Over-budget ${task} requests downgrade to ${provider.model}`)
+    }
+  }
+  return downgradeProviders.get(task) ?? null
+}
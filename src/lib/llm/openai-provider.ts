@@ -0,0 +1,104 @@
+import OpenAI from 'openai'
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMProviderName } from './types'
+
+interface OpenAIProviderOptions {
+  name: LLMProviderName
+  model: string
+  apiKey?: string
+  baseURL?: string
+  timeoutMs?: number
+}
+
+/**
+ * Chat completions against OpenAI, or anything that speaks its API: Ollama and
+ * llama.cpp's server both do, so the local provider is this with a different baseURL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  private client: OpenAI
+
+  constructor({ name, model, apiKey, baseURL, timeoutMs = 30000 }: OpenAIProviderOptions) {
+    this.name = name
+    this.model = model
+    this.client = new OpenAI({
+      // Local servers ignore the key, but the client requires one
+      apiKey: apiKey || 'not-needed',
+      baseURL,
+      maxRetries: 3,
+      timeout: timeoutMs
+    })
+  }
+
+  private params(request: LLMCompletionRequest) {
+    return {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 500,
+      presence_penalty: request.presencePenalty ?? 0.6,
+      frequency_penalty: request.frequencyPenalty ?? 0.5,
+      top_p: request.topP ?? 0.9,
+      ...(request.responseFormat && {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: {
+            name: request.responseFormat.name,
+            schema: request.responseFormat.schema,
+            // Only OpenAI guarantees a match; local servers treat the schema as a hint
+            strict: this.name === 'openai'
+          }
+        }
+      })
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create(this.params(request), { signal: request.signal })
+    const choice = response.choices[0]
+
+    return {
+      content: choice?.message.content ?? '',
+      finishReason: choice?.finish_reason ?? null,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      }
+    }
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.params(request),
+        stream: true,
+        // OpenAI sends token usage in a final chunk when asked; other servers may reject the option
+        ...(this.name === 'openai' && { stream_options: { include_usage: true } })
+      },
+      { signal: request.signal }
+    )
+
+    let content = ''
+    let finishReason: string | null = null
+    let usage: LLMCompletion['usage']
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        }
+      }
+      const choice = chunk.choices[0]
+      const delta = choice?.delta?.content
+      if (delta) {
+        content += delta
+        onDelta(delta)
+      }
+      finishReason = choice?.finish_reason ?? finishReason
+    }
+
+    return { content, finishReason, usage }
+  }
+}
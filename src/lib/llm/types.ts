@@ -0,0 +1,54 @@
+// What a provider is used for; each can be pointed at a different backend
+export type LLMTask = 'chat' | 'analysis'
+
+export type LLMProviderName = 'openai' | 'local' | 'fixture'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  topP?: number
+  signal?: AbortSignal
+  // Ask for JSON matching a schema. Backends that can't enforce it still get the
+  // schema in the prompt, so callers validate the reply either way.
+  responseFormat?: LLMResponseFormat
+}
+
+export interface LLMResponseFormat {
+  name: string
+  schema: Record<string, unknown>
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LLMCompletion {
+  content: string
+  finishReason: string | null
+  usage?: LLMUsage
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>
+  // Calls onDelta with each piece of content as it arrives, then resolves with the whole completion
+  stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion>
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly key: string, public readonly task: LLMTask) {
+    super(`No ${task} fixture recorded for request ${key}. Record one with LLM_FIXTURE_RECORD=openai (or local).`)
+    this.name = 'FixtureNotFoundError'
+  }
+}
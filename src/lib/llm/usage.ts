@@ -0,0 +1,185 @@
+import { initDB } from '../db'
+import { getDowngradeLLMProvider, getLLMProvider } from './index'
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMProviderName, LLMTask, LLMUsage } from './types'
+
+/*
+ * Every completion made for a user is recorded in llm_usage with its model,
+ * tokens and estimated cost. Budgets are per user, in USD:
+ *
+ *   LLM_DAILY_BUDGET_USD     spend allowed per UTC day (unset: no limit)
+ *   LLM_MONTHLY_BUDGET_USD   spend allowed per UTC month (unset: no limit)
+ *   LLM_BUDGET_ACTION        reject | downgrade (default reject). Downgrading
+ *                            needs LLM_DOWNGRADE_MODEL, and rejects without it
+ */
+
+// USD per million tokens. Checked in order, so dated and suffixed names
+// (gpt-4o-mini-2024-07-18) match their family and gpt-4o-mini wins over gpt-4o.
+const PRICES_PER_MILLION: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4-turbo', input: 10, output: 30 },
+  { prefix: 'gpt-4', input: 30, output: 60 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 }
+]
+
+// Unknown OpenAI models are priced like gpt-4o rather than as free, so budgets still bite
+const FALLBACK_PRICE = { input: 2.5, output: 10 }
+
+export type BudgetPeriod = 'daily' | 'monthly'
+
+export class BudgetExceededError extends Error {
+  readonly status = 429
+
+  constructor(
+    public readonly period: BudgetPeriod,
+    public readonly spentUsd: number,
+    public readonly limitUsd: number,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(`You have used your ${period} AI budget ($${spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)}). It resets in ${formatDuration(retryAfterSeconds)}.`)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  if (hours >= 24) return `${Math.ceil(hours / 24)} days`
+  if (hours > 0) return `${hours}h ${Math.ceil((seconds % 3600) / 60)}m`
+  return `${Math.max(1, Math.ceil(seconds / 60))}m`
+}
+
+function parseBudget(value: string | undefined): number | null {
+  if (!value) return null
+  const budget = Number(value)
+  return Number.isFinite(budget) && budget >= 0 ? budget : null
+}
+
+function secondsUntilReset(period: BudgetPeriod, now = new Date()): number {
+  const reset = period === 'daily'
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+  return Math.ceil((reset - now.getTime()) / 1000)
+}
+
+export function estimateTokens(text: string): number {
+  // Roughly four characters per token for English text
+  return Math.ceil(text.length / 4)
+}
+
+export function estimateCost(provider: LLMProviderName, model: string, usage: LLMUsage): number {
+  // Local models and fixtures cost nothing per token
+  if (provider !== 'openai') return 0
+
+  const price = PRICES_PER_MILLION.find(entry => model.startsWith(entry.prefix)) ?? FALLBACK_PRICE
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+}
+
+/**
+ * Whether a user's next request should run on the downgrade model. Throws
+ * BudgetExceededError when they are over a budget and downgrading isn't possible.
+ */
+export async function checkBudget(task: LLMTask, userId: string): Promise<boolean> {
+  const daily = parseBudget(process.env.LLM_DAILY_BUDGET_USD)
+  const monthly = parseBudget(process.env.LLM_MONTHLY_BUDGET_USD)
+  if (daily === null && monthly === null) return false
+
+  const db = await initDB()
+  const spend = await db.getLLMSpend(userId)
+
+  let exceeded: BudgetExceededError | null = null
+  if (monthly !== null && spend.thisMonth >= monthly) {
+    exceeded = new BudgetExceededError('monthly', spend.thisMonth, monthly, secondsUntilReset('monthly'))
+  } else if (daily !== null && spend.today >= daily) {
+    exceeded = new BudgetExceededError('daily', spend.today, daily, secondsUntilReset('daily'))
+  }
+  if (!exceeded) return false
+
+  if (process.env.LLM_BUDGET_ACTION === 'downgrade' && getDowngradeLLMProvider(task)) {
+    console.log(`[LLM Usage] User ${userId} is over their ${exceeded.period} budget, downgrading ${task}`)
+    return true
+  }
+  throw exceeded
+}
+
+interface MeteredProviderOptions {
+  userId: string
+  task: LLMTask
+  downgraded: boolean
+}
+
+/**
+ * Wraps a provider so each completion is recorded against a user. Providers
+ * that report no usage (local servers often don't, fixtures never do) are
+ * counted from the text and flagged as estimated.
+ */
+export class MeteredProvider implements LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+
+  constructor(private provider: LLMProvider, private options: MeteredProviderOptions) {
+    this.name = provider.name
+    this.model = provider.model
+  }
+
+  private async record(request: LLMCompletionRequest, content: string, usage?: LLMUsage): Promise<void> {
+    const estimated = !usage
+    const tokens = usage ?? (() => {
+      const promptTokens = request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0)
+      const completionTokens = estimateTokens(content)
+      return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    })()
+
+    try {
+      const db = await initDB()
+      await db.recordLLMUsage({
+        user_id: this.options.userId,
+        task: this.options.task,
+        provider: this.provider.name,
+        model: this.provider.model,
+        prompt_tokens: tokens.promptTokens,
+        completion_tokens: tokens.completionTokens,
+        total_tokens: tokens.totalTokens,
+        cost_usd: estimateCost(this.provider.name, this.provider.model, tokens),
+        estimated,
+        downgraded: this.options.downgraded
+      })
+    } catch (error) {
+      // Losing a usage row shouldn't fail the user's request
+      console.error('[LLM Usage] Failed to record usage:', error)
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.provider.complete(request)
+    await this.record(request, completion.content, completion.usage)
+    return completion
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (delta: string) => void): Promise<LLMCompletion> {
+    let partial = ''
+    try {
+      const completion = await this.provider.stream(request, delta => {
+        partial += delta
+        onDelta(delta)
+      })
+      await this.record(request, completion.content, completion.usage)
+      return completion
+    } catch (error) {
+      // A stopped stream is still billed for what it generated
+      if (partial) {
+        await this.record(request, partial)
+      }
+      throw error
+    }
+  }
+}
+
+// The provider to use for a user's request: budget-checked, downgraded if needed, and metered
+export async function getMeteredProvider(task: LLMTask, userId: string): Promise<LLMProvider> {
+  const downgraded = await checkBudget(task, userId)
+  const provider = downgraded ? getDowngradeLLMProvider(task) ?? getLLMProvider(task) : getLLMProvider(task)
+  return new MeteredProvider(provider, { userId, task, downgraded })
+}
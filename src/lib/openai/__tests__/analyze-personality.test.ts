@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import type { Tweet } from '@/types/scraper';
+import type { PersonalityAnalysis } from '../types';
+import { analyzePersonality } from '../openai';
+import { ANALYSIS_CHUNKS } from '../prompting/analysis-prompting';
+import { CHUNK_SCHEMAS } from '../prompting/analysis-schemas';
+import { parseJSONResponse, validateSchema } from '../utils/schema';
+
+// Raw replies would otherwise be written to output/logs
+jest.mock('../utils/logging', () => ({
+  logRawResponse: jest.fn()
+}));
+
+const FIXTURE_DIR = path.join(process.cwd(), 'tests', 'fixtures', 'llm');
+
+const TEXTS = [
+  'ship the simple version first and see what actually breaks in production',
+  'hot take: most build tooling exists to solve problems the tooling created',
+  'just published a tiny open source library for retrying fetch calls, contributors welcome',
+  'deploy went out on a friday and the only casualty was my third coffee',
+  'if your api needs a diagram to explain one endpoint it is probably doing too much'
+];
+
+const tweets: Tweet[] = TEXTS.map((text, index) => ({
+  id: `t${index + 1}`,
+  text,
+  url: `https://x.com/builder/status/t${index + 1}`,
+  createdAt: `2025-01-0${index + 1}T12:00:00.000Z`,
+  timestamp: `2025-01-0${index + 1}T12:00:00.000Z`,
+  metrics: { likes: 10, retweets: 2, views: 300, replies: 1, quotes: 0 },
+  images: [],
+  isReply: false,
+  lang: 'en'
+}));
+
+const profile = {
+  name: 'builder',
+  bio: 'ships things',
+  followersCount: '1200',
+  followingCount: '300'
+};
+
+function readFixtureContent(file: string): string {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')).completion.content;
+}
+
+describe('analyzePersonality on the fixture provider', () => {
+  const env = { ...process.env };
+
+  beforeAll(() => {
+    process.env.LLM_ANALYSIS_PROVIDER = 'fixture';
+    delete process.env.LLM_FIXTURE_DIR;
+    delete process.env.LLM_FIXTURE_RECORD;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('has a default reply for every chunk the model answers, matching its schema', () => {
+    for (const [chunk, schema] of Object.entries(CHUNK_SCHEMAS)) {
+      const name = ANALYSIS_CHUNKS[chunk as keyof typeof ANALYSIS_CHUNKS];
+      const output = parseJSONResponse(readFixtureContent(`default-analysis-${name}_analysis.json`));
+      expect({ chunk, problems: validateSchema(output, schema!) }).toEqual({ chunk, problems: [] });
+    }
+  });
+
+  it('runs every chunk end to end without a network', async () => {
+    const analysis = await analyzePersonality(tweets, profile) as PersonalityAnalysis;
+
+    expect(analysis.partial).toBeUndefined();
+    expect(analysis.summary).toMatch(/^A builder who tweets/);
+    expect(analysis.traits.map(trait => trait.name)).toEqual(['Pragmatic', 'Direct', 'Playful']);
+    // Cited tweet numbers become the ids of the tweets they point at
+    expect(analysis.traits[0].evidenceTweetIds).toEqual(['t1', 't3']);
+    expect(analysis.interests).toEqual(expect.arrayContaining(['Web development: Advanced']));
+    expect(analysis.socialBehaviorMetrics.knowledgeDropper).toBe(70);
+    expect(analysis.communicationStyle.formality).toBe('low');
+    expect(analysis.emotionalTone).toMatch(/^Even and mostly upbeat/);
+    expect(analysis.thoughtProcess.initialApproach).toBe('Starts from the simplest thing that could work.');
+
+    // Vocabulary and writing patterns are measured from the tweets, not the fixtures
+    expect(analysis.vocabulary.commonTerms.length).toBeGreaterThan(0);
+    expect(analysis.communicationStyle.patterns).toBeDefined();
+  });
+
+  it('answers custom prompts from the plain text default', async () => {
+    const result = await analyzePersonality(tweets, profile, 'What do they care about?', 'Chat context');
+
+    expect(result).toEqual({ response: expect.stringMatching(/^A builder who tweets/) });
+  });
+});
@@ -1,8 +0,0 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client on server side only
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-export default openai; 
\ No newline at end of file
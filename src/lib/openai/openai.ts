@@ -1,21 +1,20 @@
-import OpenAI from 'openai'
 import { Tweet, OpenAITwitterProfile, PersonalityTuning } from '../../types/scraper'
-import { PersonalityAnalysis } from './types'
+import { PersonalityAnalysis, AnalysisChunkProgress } from './types'
 import systemMessage from './prompting/system-prompt'
-import { ANALYSIS_CHUNKS, generateChunkPrompt } from './prompting/analysis-prompting'
+import { ANALYSIS_CHUNKS, generateChunkPrompt, generateRepairPrompt, generateTextChunkPrompt } from './prompting/analysis-prompting'
+import { CHUNK_FIELDS, CHUNK_SCHEMAS, chunkOutputToAnalysis } from './prompting/analysis-schemas'
 import { retryWithExponentialBackoff } from './utils/retry'
 import { parseAnalysisResponse } from './utils/parsing'
+import { parseJSONResponse, validateSchema } from './utils/schema'
 import { logRawResponse } from './utils/logging'
-import type { ChatCompletionSystemMessageParam, ChatCompletionUserMessageParam } from 'openai/resources/chat/completions'
 import { initDB } from '../db'
-import { AnalysisChunkType, CHUNK_TYPE_TO_NAME } from './types'
+import { analyzeStylometry } from '../analysis/stylometry'
+import { describeLanguages, languageMix } from '../analysis/language'
+import { AnalysisChunkType, CHUNK_TYPE_TO_NAME, CHUNK_NAME_TO_TYPE } from './types'
+import { getLLMProvider, FixtureNotFoundError, type LLMCompletion, type LLMMessage, type LLMProvider, type LLMResponseFormat } from '../llm'
 
 export type CommunicationLevel = 'low' | 'medium' | 'high';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
-
 const MIN_WORDS = 5 // Minimum words required for a tweet to be analyzed
 
 function countWords(text: string | null): number {
@@ -64,6 +63,7 @@ function mergeSimilarTraits(traits: PersonalityAnalysis['traits']): PersonalityA
   return Array.from(similarityGroups.values()).map(group => {
     const { mainTrait, traits } = group;
     const allExplanations = traits.map(t => t.explanation).filter(Boolean);
+    const evidenceTweetIds = Array.from(new Set(traits.flatMap(t => t.evidenceTweetIds ?? [])));
     
     // Create a summary and detailed explanation
     const summary = allExplanations[0]?.split('.')[0] || '';
@@ -76,6 +76,7 @@ function mergeSimilarTraits(traits: PersonalityAnalysis['traits']): PersonalityA
       score: mainTrait.score,
       explanation: summary,
       details: details,
+      evidenceTweetIds,
       relatedTraits: traits.length > 1 ? traits.filter(t => t !== mainTrait).map(t => t.name) : undefined
     };
   }).sort((a, b) => b.score - a.score);
@@ -288,9 +289,6 @@ function validateAnalysis(analysis: PersonalityAnalysis): {
   const style = analysis.communicationStyle;
   if (!style.description || 
       style.description === 'Default communication style due to parsing error' ||
-      !style.patterns.messageStructure.opening.length ||
-      !style.patterns.messageStructure.framing.length ||
-      !style.patterns.messageStructure.closing.length ||
       !style.contextualVariations.business ||
       !style.contextualVariations.casual ||
       !style.contextualVariations.technical ||
@@ -300,14 +298,10 @@ function validateAnalysis(analysis: PersonalityAnalysis): {
     missingCommunicationPatterns = true;
   }
 
-  // Vocabulary validation
+  // Vocabulary validation. It is counted from the tweets, so an empty list of
+  // phrases or markers means the tweets don't have any, not that it's missing.
   const vocab = analysis.vocabulary;
-  if (!vocab.commonTerms || vocab.commonTerms.length === 0 ||
-      !vocab.commonPhrases || vocab.commonPhrases.length === 0 ||
-      !vocab.enthusiasmMarkers || vocab.enthusiasmMarkers.length === 0 ||
-      !vocab.industryTerms || vocab.industryTerms.length === 0 ||
-      !vocab.nGrams.bigrams || vocab.nGrams.bigrams.length === 0 ||
-      !vocab.nGrams.trigrams || vocab.nGrams.trigrams.length === 0) {
+  if (!vocab.commonTerms || vocab.commonTerms.length === 0) {
     console.log('[Validation Debug] Missing or invalid vocabulary:', vocab);
     missingFields.push('vocabulary');
     missingVocabularyPatterns = true;
@@ -326,7 +320,6 @@ function validateAnalysis(analysis: PersonalityAnalysis): {
   // Message architecture validation
   const architecture = vocab.metrics.messageArchitecture;
   if (!architecture ||
-      Object.values(architecture.structureTypes).every(v => v === 0) ||
       Object.values(architecture.terminalPunctuation).every(v => v === 0) ||
       Object.values(architecture.characterMetrics).every(v => v === 0)) {
     console.log('[Validation Debug] Missing or invalid message architecture:', architecture);
@@ -397,242 +390,11 @@ function validateAnalysis(analysis: PersonalityAnalysis): {
 
 // Update system message to remove word count requirements
 
-// Add new helper function for message architecture analysis
-function analyzeMessageArchitecture(tweets: Tweet[]) {
-  const architecture = {
-    structureTypes: {
-      singleWord: 0,
-      shortPhrase: 0,
-      actionOriented: 0,
-      bulletedList: 0,
-      streamOfConsciousness: 0
-    },
-    terminalPunctuation: {
-      none: 0,
-      period: 0,
-      questionMark: 0,
-      exclamationMark: 0,
-      ellipsis: 0
-    },
-    characterMetrics: {
-      averageLength: 0,
-      shortMessages: 0,
-      longMessages: 0
-    },
-    preferences: {
-      usesMarkdown: false,
-      usesBulletPoints: false,
-      usesNumberedLists: false,
-      usesCodeBlocks: false,
-      preferredListStyle: 'none' as 'bullet' | 'numbered' | 'none'
-    }
-  };
-
-  let totalCharacters = 0;
-  const LONG_MESSAGE_THRESHOLD = 280; // Twitter's max length
-  const SHORT_MESSAGE_THRESHOLD = 50;  // Arbitrary threshold for short messages
-
-  tweets.forEach(tweet => {
-    const text = tweet.text;
-    const words = text.split(/\s+/).filter(w => w.length > 0);
-    const charLength = text.length;
-    totalCharacters += charLength;
-
-    // Structure type analysis
-    if (words.length === 1) {
-      architecture.structureTypes.singleWord++;
-    } else if (words.length <= 3) {
-      architecture.structureTypes.shortPhrase++;
-    }
-    
-    // Action-oriented detection (starts with verb)
-    if (/^[A-Za-z]+(?:ed|ing|s|)\b/.test(text)) {
-      architecture.structureTypes.actionOriented++;
-    }
-
-    // Bullet point detection
-    if (text.includes('\n-') || text.includes('\n•')) {
-      architecture.structureTypes.bulletedList++;
-      architecture.preferences.usesBulletPoints = true;
-    }
-
-    // Numbered list detection
-    if (/\n\d+\./.test(text)) {
-      architecture.preferences.usesNumberedLists = true;
-    }
-
-    // Code block detection
-    if (text.includes('```') || text.includes('`')) {
-      architecture.preferences.usesCodeBlocks = true;
-    }
-
-    // Stream of consciousness (long messages with few punctuation marks)
-    if (charLength > LONG_MESSAGE_THRESHOLD && text.split(/[.!?]+/).length <= 2) {
-      architecture.structureTypes.streamOfConsciousness++;
-    }
-
-    // Terminal punctuation analysis
-    if (!/[.!?…]$/.test(text.trim())) {
-      architecture.terminalPunctuation.none++;
-    } else {
-      const lastChar = text.trim().slice(-1);
-      if (lastChar === '.') architecture.terminalPunctuation.period++;
-      else if (lastChar === '?') architecture.terminalPunctuation.questionMark++;
-      else if (lastChar === '!') architecture.terminalPunctuation.exclamationMark++;
-      else if (lastChar === '…' || text.endsWith('...')) architecture.terminalPunctuation.ellipsis++;
-    }
-
-    // Character-based metrics
-    if (charLength < SHORT_MESSAGE_THRESHOLD) {
-      architecture.characterMetrics.shortMessages++;
-    }
-    if (charLength > LONG_MESSAGE_THRESHOLD) {
-      architecture.characterMetrics.longMessages++;
-    }
-  });
-
-  // Calculate percentages
-  const total = tweets.length;
-  architecture.structureTypes.singleWord = (architecture.structureTypes.singleWord / total) * 100;
-  architecture.structureTypes.shortPhrase = (architecture.structureTypes.shortPhrase / total) * 100;
-  architecture.structureTypes.actionOriented = (architecture.structureTypes.actionOriented / total) * 100;
-  architecture.structureTypes.bulletedList = (architecture.structureTypes.bulletedList / total) * 100;
-  architecture.structureTypes.streamOfConsciousness = (architecture.structureTypes.streamOfConsciousness / total) * 100;
-
-  architecture.terminalPunctuation.none = (architecture.terminalPunctuation.none / total) * 100;
-  architecture.terminalPunctuation.period = (architecture.terminalPunctuation.period / total) * 100;
-  architecture.terminalPunctuation.questionMark = (architecture.terminalPunctuation.questionMark / total) * 100;
-  architecture.terminalPunctuation.exclamationMark = (architecture.terminalPunctuation.exclamationMark / total) * 100;
-  architecture.terminalPunctuation.ellipsis = (architecture.terminalPunctuation.ellipsis / total) * 100;
-
-  architecture.characterMetrics.averageLength = totalCharacters / total;
-  architecture.characterMetrics.shortMessages = (architecture.characterMetrics.shortMessages / total) * 100;
-  architecture.characterMetrics.longMessages = (architecture.characterMetrics.longMessages / total) * 100;
-
-  // Determine preferred list style
-  if (architecture.preferences.usesBulletPoints && !architecture.preferences.usesNumberedLists) {
-    architecture.preferences.preferredListStyle = 'bullet';
-  } else if (!architecture.preferences.usesBulletPoints && architecture.preferences.usesNumberedLists) {
-    architecture.preferences.preferredListStyle = 'numbered';
-  }
-
-  return architecture;
-}
-
-function categorizeWord(word: string): 'pronoun' | 'modal' | 'adjective' | 'verb' | 'noun' | 'other' {
-  const pronouns = ['i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them'];
-  const modals = ['can', 'could', 'will', 'would', 'shall', 'should', 'may', 'might', 'must'];
-  const commonAdjectives = ['good', 'great', 'nice', 'bad', 'best', 'better', 'worse', 'worst'];
-  const commonVerbs = ['is', 'are', 'was', 'were', 'be', 'have', 'has', 'had', 'do', 'does', 'did'];
-  
-  word = word.toLowerCase();
-  
-  if (pronouns.includes(word)) return 'pronoun';
-  if (modals.includes(word)) return 'modal';
-  if (commonAdjectives.includes(word)) return 'adjective';
-  if (commonVerbs.includes(word)) return 'verb';
-  // Basic noun detection (this is simplified)
-  if (word.match(/^[a-z]+[^s]s$/)) return 'noun';  // Plural nouns
-  
-  return 'other';
-}
-
-// Update the analyzeLinguisticMetrics function to include message architecture
-function analyzeLinguisticMetrics(tweets: Tweet[]) {
-  const wordMap = new Map<string, number>();
-  const sentenceLengths = {
-    veryShort: 0,
-    short: 0,
-    medium: 0,
-    long: 0,
-    veryLong: 0,
-    total: 0
-  };
-  const capStats = {
-    lowercase: 0,
-    sentenceCase: 0,
-    mixedCase: 0,
-    totalMessages: tweets.length
-  };
-  let totalWords = 0;
-  const uniqueWords = new Set<string>();
-
-  // Analyze each tweet
-  tweets.forEach(tweet => {
-    const text = tweet.text;
-    const words = text.split(/\s+/).filter(w => w.length > 0);
-    const wordCount = words.length;
-    totalWords += wordCount;
-
-    // Word frequency and unique words
-    words.forEach(word => {
-      const normalized = word.toLowerCase();
-      uniqueWords.add(normalized);
-      wordMap.set(normalized, (wordMap.get(normalized) || 0) + 1);
-    });
-
-    // Sentence length categorization
-    if (wordCount <= 5) sentenceLengths.veryShort++;
-    else if (wordCount <= 10) sentenceLengths.short++;
-    else if (wordCount <= 20) sentenceLengths.medium++;
-    else if (wordCount <= 40) sentenceLengths.long++;
-    else sentenceLengths.veryLong++;
-    sentenceLengths.total++;
-
-    // Capitalization analysis
-    if (text === text.toLowerCase()) capStats.lowercase++;
-    else if (text === text.charAt(0).toUpperCase() + text.slice(1).toLowerCase()) capStats.sentenceCase++;
-    else capStats.mixedCase++;
-  });
-
-  // Calculate distributions
-  const distribution = {
-    veryShort: (sentenceLengths.veryShort / sentenceLengths.total) * 100,
-    short: (sentenceLengths.short / sentenceLengths.total) * 100,
-    medium: (sentenceLengths.medium / sentenceLengths.total) * 100,
-    long: (sentenceLengths.long / sentenceLengths.total) * 100,
-    veryLong: (sentenceLengths.veryLong / sentenceLengths.total) * 100
-  };
-
-  // Calculate capitalization percentages
-  const capPercentages = {
-    lowercase: (capStats.lowercase / capStats.totalMessages) * 100,
-    sentenceCase: (capStats.sentenceCase / capStats.totalMessages) * 100,
-    mixedCase: (capStats.mixedCase / capStats.totalMessages) * 100,
-    totalMessages: capStats.totalMessages
-  };
-
-  // Sort words by frequency and convert to array with percentages
-  const sortedTerms = Array.from(wordMap.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 20)  // Keep top 20 most frequent terms
-    .map(([term, frequency]) => ({
-      term,
-      frequency,
-      percentage: (frequency / totalWords) * 100,
-      category: categorizeWord(term)
-    }));
-
-  const architecture = analyzeMessageArchitecture(tweets);
-  
-  return {
-    commonTerms: sortedTerms,
-    metrics: {
-      sentenceLengths: {
-        ...sentenceLengths,
-        distribution
-      },
-      capitalizationStats: capPercentages,
-      averageMessageLength: totalWords / tweets.length,
-      uniqueWordsCount: uniqueWords.size,
-      totalWordsAnalyzed: totalWords,
-      messageArchitecture: architecture
-    }
-  };
-}
-
 // Add constants
 const MAX_ANALYSIS_RETRIES = 10; // Increased from 3 to 10 for better network error handling
+// Chunks of one analysis run side by side. The queue's batch lane caps how many
+// analyses run at once, so this bounds the requests each of them has in flight.
+const MAX_PARALLEL_CHUNKS = 3;
 let globalAbortController: AbortController | null = null;
 
 // Add interfaces
@@ -682,52 +444,47 @@ async function processTweetAnalysis(
       context: string;
     };
     currentTuning?: PersonalityTuning;
+    provider?: LLMProvider;
   }
 ): Promise<AnalysisResult> {
   try {
     console.log(`[Analysis Debug] Starting analysis for ${analysisType} with ${tweets.length} tweets`);
 
-    // For vocabulary analysis, first analyze linguistic metrics
-    let initialData: Partial<PersonalityAnalysis> = {};
-    if (analysisType === 'VOCABULARY') {
-      const { commonTerms, metrics } = analyzeLinguisticMetrics(tweets);
-      initialData = {
-        vocabulary: {
-          commonTerms,
-          commonPhrases: [],
-          enthusiasmMarkers: [],
-          industryTerms: [],
-          nGrams: {
-            bigrams: [],
-            trigrams: []
-          },
-          metrics
-        }
-      };
-    }
+    // Vocabulary and writing patterns are measured from the tweets; the model
+    // only describes communication style
+    const stylometry = analysisType === 'VOCABULARY' || analysisType === 'COMMUNICATION'
+      ? analyzeStylometry(tweets)
+      : null;
 
-    const tweetTexts = tweets.map(t => t.text).join('\n');
-    const exampleTweets = selectRepresentativeTweets(tweets, {} as PersonalityAnalysis);
-    const tweetExamples = exampleTweets.map(t => t.text).join('\n\n');
+    let result: AnalysisResult;
+    if (analysisType === 'VOCABULARY' && stylometry) {
+      result = { success: true, data: { vocabulary: stylometry.vocabulary, languages: stylometry.languages } };
+    } else {
+      // Numbered so the model can cite the tweets behind what it finds
+      const tweetTexts = tweets.map((t, index) => `[${index + 1}] ${t.text}`).join('\n');
+      const exampleTweets = selectRepresentativeTweets(tweets, {} as PersonalityAnalysis);
+      const tweetExamples = exampleTweets.map(t => t.text).join('\n\n');
 
-    const result = await analyzeChunk(analysisType, {
-      profile,
-      tweetTexts,
-      tweetExamples,
-      retryCount: 0,
-      ...params
-    });
+      result = await analyzeChunk(analysisType, {
+        profile,
+        tweetTexts,
+        tweetIds: tweets.map(t => t.id),
+        tweetExamples,
+        languages: describeLanguages(languageMix(tweets)) ?? undefined,
+        retryCount: 0,
+        ...params
+      });
+    }
 
     if (result.success && result.data) {
       console.log(`[Analysis Debug] Successfully analyzed ${analysisType}:`, {
         resultKeys: Object.keys(result.data)
       });
 
-      // Merge with initial data if any
-      if (Object.keys(initialData).length > 0) {
+      if (analysisType === 'COMMUNICATION' && stylometry && result.data.communicationStyle) {
         result.data = {
           ...result.data,
-          ...initialData
+          communicationStyle: { ...result.data.communicationStyle, patterns: stylometry.patterns }
         };
       }
       
@@ -752,8 +509,8 @@ async function processTweetAnalysis(
     return result;
 
   } catch (error) {
-    // Let ChunkAbortedError propagate up
-    if (error instanceof ChunkAbortedError) {
+    // Let ChunkAbortedError and missing fixtures propagate up
+    if (error instanceof ChunkAbortedError || error instanceof FixtureNotFoundError) {
       throw error;
     }
 
@@ -823,14 +580,6 @@ function isCriticalError(error: Error): boolean {
           error instanceof MissingCommunicationPatternsError);
 }
 
-// Add interface for job type
-interface AnalysisJobStatus {
-  status: string;
-  progress: number;
-  error?: string;
-  processed_chunks: number;
-}
-
 // Helper function to get retry count for a specific chunk type
 function getChunkRetryCount(
   chunkType: AnalysisChunkType,
@@ -873,6 +622,43 @@ export class ChunkAbortedError extends Error {
   }
 }
 
+const ALL_CHUNK_TYPES = Object.values(CHUNK_NAME_TO_TYPE);
+
+// Run tasks with at most `limit` in flight; results keep the order of `items`.
+// A rejection stops further tasks from starting and rejects the whole run.
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  run: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let stopped = false;
+
+  const worker = async () => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await run(items[index]);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export interface AnalysisRunOptions {
+  // A job from an earlier run for the same user: its completed chunks are
+  // reused and only the others run again
+  resumeJobId?: number;
+  // Called with every chunk's status whenever one of them changes
+  onChunkProgress?: (chunks: AnalysisChunkProgress[]) => void;
+}
+
 export async function analyzePersonality(
   tweets: Tweet[],
   profile: OpenAITwitterProfile,
@@ -890,18 +676,24 @@ export async function analyzePersonality(
   onProgress?: (state: ProgressiveLoadingState) => void,
   signal?: AbortSignal,
   userId?: string,
-  startFromChunk: AnalysisChunkType = AnalysisChunkType.BASIC_INFO
+  startFromChunk: AnalysisChunkType = AnalysisChunkType.BASIC_INFO,
+  // The queue passes a metered provider so the run is billed to the user
+  provider: LLMProvider = getLLMProvider('analysis'),
+  options: AnalysisRunOptions = {}
 ): Promise<PersonalityAnalysis | { response: string }> {
-  // Create new abort controller for this analysis
-  if (globalAbortController) {
-    cleanup();
+  // Callers with their own signal cancel through it: the queue runs analyses side
+  // by side, so one starting must not abort another. Without one, a new analysis
+  // replaces the last and stops on page unload.
+  let abortSignal: AbortSignal;
+  if (signal) {
+    abortSignal = signal;
+  } else {
+    if (globalAbortController) {
+      cleanup();
+    }
+    globalAbortController = new AbortController();
+    abortSignal = globalAbortController.signal;
   }
-  globalAbortController = new AbortController();
-
-  // Combine the global abort signal with any provided signal
-  const abortSignal = signal 
-    ? AbortSignal.any([signal, globalAbortController.signal])
-    : globalAbortController.signal;
 
   const deviceType = getDeviceType();
   const isMobileOrTablet = deviceType !== 'desktop';
@@ -910,11 +702,47 @@ export async function analyzePersonality(
   const db = userId ? await initDB() : null;
   let jobId: number | null = null;
 
+  const analysisResults: Partial<PersonalityAnalysis> = {};
+  const completedChunks = new Set<AnalysisChunkType>();
+  const chunkProgress = new Map<AnalysisChunkType, AnalysisChunkProgress>(
+    ALL_CHUNK_TYPES.map(type => [type, { chunk: CHUNK_TYPE_TO_NAME[type], status: 'pending', attempts: 0 }])
+  );
+
+  const updateChunkProgress = (type: AnalysisChunkType, update: Partial<AnalysisChunkProgress>) => {
+    const current = chunkProgress.get(type);
+    if (current) {
+      chunkProgress.set(type, { ...current, ...update });
+    }
+    options.onChunkProgress?.(Array.from(chunkProgress.values()));
+  };
+
   try {
-    // Create analysis job in database if userId is provided
     if (db && userId) {
-      jobId = await db.createAnalysisJob(userId, Object.keys(ANALYSIS_CHUNKS).length);
-      console.log(`[Analysis Debug] Created analysis job ${jobId} for user ${userId}`);
+      // Retrying an earlier job picks up the chunks it already finished
+      const previousChunks = options.resumeJobId
+        ? await db.getAnalysisChunks(options.resumeJobId, userId)
+        : [];
+
+      if (options.resumeJobId && previousChunks.length > 0) {
+        jobId = options.resumeJobId;
+        for (const chunk of previousChunks) {
+          const type = chunk.chunk_index as AnalysisChunkType;
+          const completed = chunk.status === 'completed' && chunk.result !== null;
+          if (completed) {
+            Object.assign(analysisResults, chunk.result);
+            completedChunks.add(type);
+          }
+          chunkProgress.set(type, {
+            chunk: CHUNK_TYPE_TO_NAME[type],
+            status: completed ? 'completed' : 'pending',
+            attempts: chunk.attempts
+          });
+        }
+        console.log(`[Analysis Debug] Resuming analysis job ${jobId} with ${completedChunks.size} completed chunks`);
+      } else {
+        jobId = await db.createAnalysisJob(userId, ALL_CHUNK_TYPES.length);
+        console.log(`[Analysis Debug] Created analysis job ${jobId} for user ${userId}`);
+      }
     }
 
     // Update progress
@@ -947,7 +775,8 @@ export async function analyzePersonality(
           customPrompt: {
             prompt,
             context
-          }
+          },
+          provider
         }
       );
 
@@ -958,41 +787,47 @@ export async function analyzePersonality(
       return { response: result.data?.summary || 'Analysis failed' };
     }
 
-    // Get current chunk from database if job exists, otherwise use startFromChunk
-    let currentChunkType = startFromChunk;
-    if (jobId && db) {
-      const job = await db.getAnalysisJob(jobId) as AnalysisJobStatus | null;
-      if (job && 'processed_chunks' in job) {
-        // Get the next chunk to process based on processed_chunks
-        currentChunkType = (job.processed_chunks + 1) as AnalysisChunkType;
-        console.log(`[Analysis Debug] Resuming from chunk type ${currentChunkType} (${CHUNK_TYPE_TO_NAME[currentChunkType]})`);
-      }
-    }
-
-    const analysisResults: Partial<PersonalityAnalysis> = {};
-    const errors: Array<{ type: keyof typeof ANALYSIS_CHUNKS; error: Error }> = [];
-    const completedChunks = new Set<AnalysisChunkType>();
+    const pendingChunks = ALL_CHUNK_TYPES.filter(type =>
+      type >= startFromChunk && !completedChunks.has(type)
+    );
+    options.onChunkProgress?.(Array.from(chunkProgress.values()));
 
-    // Process each analysis type sequentially starting from current chunk
-    while (currentChunkType <= AnalysisChunkType.EMOTIONAL) {
-      // Skip if we've already completed this chunk
-      if (completedChunks.has(currentChunkType)) {
-        currentChunkType++;
-        continue;
-      }
+    if (db && jobId) {
+      await db.updateAnalysisStatus(jobId, 'processing');
+    }
 
-      const chunkName = CHUNK_TYPE_TO_NAME[currentChunkType];
-      console.log(`[Analysis Debug] Processing chunk ${chunkName} (${currentChunkType})`);
+    // Runs one chunk with its own retries and saves it as soon as it finishes.
+    // Resolves with the chunk's last error once retries run out, so one chunk
+    // failing doesn't stop the others.
+    const runChunk = async (chunkType: AnalysisChunkType): Promise<Error | null> => {
+      const chunkName = CHUNK_TYPE_TO_NAME[chunkType];
+      let chunkRetryCount = getChunkRetryCount(chunkType, {
+        retryCount,
+        interestsRetryCount,
+        psychoRetryCount,
+        socialMetricsRetryCount,
+        emotionalToneRetryCount,
+        vocabularyPatternsRetryCount,
+        communicationPatternsRetryCount
+      });
 
-      try {
-        // Add delay between analysis types to avoid rate limiting
-        if (Object.keys(analysisResults).length > 0) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
+      for (;;) {
+        if (abortSignal.aborted) {
+          throw new Error('Analysis aborted: ' + abortSignal.reason);
         }
 
-        // Update job status if we have a jobId
+        console.log(`[Analysis Debug] Processing chunk ${chunkName} (${chunkType})`);
+        updateChunkProgress(chunkType, {
+          status: 'processing',
+          attempts: (chunkProgress.get(chunkType)?.attempts ?? 0) + 1,
+          error: undefined
+        });
         if (db && jobId) {
-          await db.updateAnalysisStatus(jobId, 'processing');
+          await db.saveAnalysisChunk(jobId, {
+            index: chunkType,
+            status: 'processing',
+            tweetCount: validTweets.length
+          });
         }
 
         const result = await processTweetAnalysis(
@@ -1005,160 +840,71 @@ export async function analyzePersonality(
             onProgress,
             isMobileOrTablet,
             customPrompt: prompt && context ? { prompt, context } : undefined,
-            currentTuning
+            currentTuning,
+            provider
           }
         );
 
         if (result.success && result.data) {
           Object.assign(analysisResults, result.data);
-          completedChunks.add(currentChunkType);
+          completedChunks.add(chunkType);
 
-          // Store chunk result in database using enum as index
           if (db && jobId) {
             await db.saveAnalysisChunk(jobId, {
-              index: currentChunkType,
-              result: result.data,
-              tweetCount: validTweets.length
+              index: chunkType,
+              status: 'completed',
+              tweetCount: validTweets.length,
+              result: result.data
             });
             await db.incrementProcessedChunks(jobId);
-            console.log(`[Analysis Debug] Saved chunk ${currentChunkType} (${chunkName}) to database`);
+            console.log(`[Analysis Debug] Saved chunk ${chunkType} (${chunkName}) to database`);
           }
 
-          // Move to next chunk
-          currentChunkType++;
+          updateChunkProgress(chunkType, { status: 'completed' });
           onProgress?.({
             stage: 'analyzing',
-            progress: (currentChunkType / Object.keys(ANALYSIS_CHUNKS).length) * 100
-          });
-          continue;
-        }
-
-        if (result.error) {
-          // Handle ChunkAbortedError specially
-          if (result.error instanceof ChunkAbortedError) {
-            result.error.completedChunks = completedChunks;
-            throw result.error;
-          }
-
-          // Get retry count for this chunk type
-          const chunkRetryCount = getChunkRetryCount(currentChunkType, {
-            retryCount,
-            interestsRetryCount,
-            psychoRetryCount,
-            socialMetricsRetryCount,
-            emotionalToneRetryCount,
-            vocabularyPatternsRetryCount,
-            communicationPatternsRetryCount
+            progress: (completedChunks.size / ALL_CHUNK_TYPES.length) * 100
           });
-
-          // Only throw if we've exceeded retries
-          if (chunkRetryCount >= MAX_ANALYSIS_RETRIES) {
-            throw result.error;
-          }
-
-          // Otherwise retry this chunk
-          console.log(`[Analysis Debug] Retrying chunk ${currentChunkType} (${chunkName}) (attempt ${chunkRetryCount + 1}/${MAX_ANALYSIS_RETRIES})`);
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, chunkRetryCount) * 1000));
-          
-          // Update the appropriate retry count based on chunk type
-          switch (chunkName) {
-            case 'INTERESTS':
-              interestsRetryCount++;
-              break;
-            case 'SOCIAL_METRICS':
-              socialMetricsRetryCount++;
-              break;
-            case 'EMOTIONAL':
-              emotionalToneRetryCount++;
-              break;
-            case 'VOCABULARY':
-              vocabularyPatternsRetryCount++;
-              break;
-            case 'COMMUNICATION':
-              communicationPatternsRetryCount++;
-              break;
-            default:
-              retryCount++;
-          }
-          
-          continue; // Retry the same chunk
+          return null;
         }
 
-        // Check for abort signal after each analysis type
-        if (abortSignal.aborted) {
-          if (db && jobId) {
-            await db.updateAnalysisStatus(
-              jobId,
-              'failed',
-              'Analysis aborted: ' + abortSignal.reason
-            );
-          }
-          throw new Error('Analysis aborted: ' + abortSignal.reason);
-        }
-
-      } catch (error) {
+        const error = result.error ?? new Error(`No result for chunk ${chunkName}`);
         if (error instanceof ChunkAbortedError) {
           error.completedChunks = completedChunks;
           throw error;
         }
-
-        errors.push({ type: chunkName, error: error as Error });
-        
-        // Get retry count for this chunk type
-        const chunkRetryCount = getChunkRetryCount(currentChunkType, {
-          retryCount,
-          interestsRetryCount,
-          psychoRetryCount,
-          socialMetricsRetryCount,
-          emotionalToneRetryCount,
-          vocabularyPatternsRetryCount,
-          communicationPatternsRetryCount
-        });
-
-        // Update job status with error but preserve chunk progress
-        if (db && jobId) {
-          await db.updateAnalysisStatus(jobId, 'failed', error instanceof Error ? error.message : String(error));
-        }
-
-        // Handle abort errors specifically
-        if (error instanceof Error && error.message.includes('Analysis aborted')) {
-          console.log('Analysis aborted:', error.message);
-          throw error;
+        if (abortSignal.aborted) {
+          throw new Error('Analysis aborted: ' + abortSignal.reason);
         }
 
-        // Only throw if we've exceeded retries for this chunk
         if (chunkRetryCount >= MAX_ANALYSIS_RETRIES) {
-          console.log(`[Analysis Debug] Max retries (${MAX_ANALYSIS_RETRIES}) exceeded for chunk ${currentChunkType} (${chunkName}), stopping analysis:`, error);
-          throw error;
+          console.log(`[Analysis Debug] Max retries (${MAX_ANALYSIS_RETRIES}) exceeded for chunk ${chunkType} (${chunkName}):`, error);
+          updateChunkProgress(chunkType, { status: 'failed', error: error.message });
+          if (db && jobId) {
+            await db.saveAnalysisChunk(jobId, {
+              index: chunkType,
+              status: 'failed',
+              tweetCount: validTweets.length,
+              error: error.message
+            });
+          }
+          return error;
         }
 
-        // Otherwise, retry this chunk with incremented retry count
-        console.log(`[Analysis Debug] Retrying chunk ${currentChunkType} (${chunkName}) (attempt ${chunkRetryCount + 1}/${MAX_ANALYSIS_RETRIES})`);
+        console.log(`[Analysis Debug] Retrying chunk ${chunkType} (${chunkName}) (attempt ${chunkRetryCount + 1}/${MAX_ANALYSIS_RETRIES})`);
         await new Promise(resolve => setTimeout(resolve, Math.pow(2, chunkRetryCount) * 1000));
-        
-        // Update the appropriate retry count based on chunk type
-        switch (chunkName) {
-          case 'INTERESTS':
-            interestsRetryCount++;
-            break;
-          case 'SOCIAL_METRICS':
-            socialMetricsRetryCount++;
-            break;
-          case 'EMOTIONAL':
-            emotionalToneRetryCount++;
-            break;
-          case 'VOCABULARY':
-            vocabularyPatternsRetryCount++;
-            break;
-          case 'COMMUNICATION':
-            communicationPatternsRetryCount++;
-            break;
-          default:
-            retryCount++;
-        }
-        
-        continue; // Retry the same chunk
+        chunkRetryCount++;
       }
+    };
+
+    const chunkErrors = await runWithConcurrency(pendingChunks, MAX_PARALLEL_CHUNKS, runChunk);
+    const failedChunks = pendingChunks.filter((_, index) => chunkErrors[index] !== null);
+    const firstError = chunkErrors.find((error): error is Error => error !== null);
+
+    // Partial results need a job to retry against; without one, or with
+    // nothing to keep, the run fails as a whole
+    if (firstError && (!jobId || completedChunks.size === 0)) {
+      throw firstError;
     }
 
     // Process the valid analysis
@@ -1170,6 +916,20 @@ export async function analyzePersonality(
       topicsAndThemes: analysisResults.topicsAndThemes ? consolidateInterests(analysisResults.topicsAndThemes) : ['General themes']
     };
 
+    // Keep what finished and let the caller retry the rest. The failed chunks'
+    // fields hold defaults, so they aren't validated.
+    if (failedChunks.length > 0 && jobId) {
+      const failedNames = failedChunks.map(type => CHUNK_TYPE_TO_NAME[type]);
+      console.warn(`[Analysis Debug] Job ${jobId} finished without chunks: ${failedNames.join(', ')}`);
+      if (db) {
+        await db.updateAnalysisStatus(jobId, 'partial', `Failed chunks: ${failedNames.join(', ')}`);
+      }
+      return {
+        ...processedAnalysis,
+        partial: { jobId, failedChunks: failedNames }
+      };
+    }
+
     // Validate the final analysis
     const validation = validateAnalysis(processedAnalysis);
     if (!validation.isValid) {
@@ -1215,7 +975,9 @@ export async function analyzePersonality(
         onProgress,
         signal,
         userId,
-        error.chunkType // Resume from the aborted chunk
+        error.chunkType, // Resume from the aborted chunk
+        provider,
+        { ...options, resumeJobId: jobId ?? options.resumeJobId }
       );
     }
 
@@ -1252,7 +1014,9 @@ export async function analyzePersonality(
         onProgress,
         abortSignal,
         userId,
-        startFromChunk
+        startFromChunk,
+        provider,
+        { ...options, resumeJobId: jobId ?? options.resumeJobId }
       );
     }
     
@@ -1284,7 +1048,9 @@ export async function analyzePersonality(
         onProgress,
         abortSignal,
         userId,
-        startFromChunk
+        startFromChunk,
+        provider,
+        { ...options, resumeJobId: jobId ?? options.resumeJobId }
       );
     }
     
@@ -1541,13 +1307,79 @@ export {
   getDeviceType
 };
 
+const MAX_SCHEMA_REPAIRS = 2;
+
+function pickChunkFields(
+  chunkType: keyof typeof ANALYSIS_CHUNKS,
+  analysis: PersonalityAnalysis
+): Partial<PersonalityAnalysis> {
+  return Object.fromEntries(
+    CHUNK_FIELDS[chunkType].map(field => [field, analysis[field]])
+  ) as Partial<PersonalityAnalysis>;
+}
+
+/**
+ * Ask for a chunk as JSON matching its schema. A reply that doesn't parse or
+ * validate goes back to the model with the specific problems to fix. Resolves
+ * with null once the repairs run out, so the caller can fall back to the text
+ * prompt and the legacy parser.
+ */
+async function requestStructuredChunk(
+  chunkType: keyof typeof ANALYSIS_CHUNKS,
+  promptText: string,
+  complete: (messages: LLMMessage[], responseFormat?: LLMResponseFormat) => Promise<LLMCompletion>,
+  tweetIds: string[],
+  signal?: AbortSignal
+): Promise<Partial<PersonalityAnalysis> | null> {
+  const schema = CHUNK_SCHEMAS[chunkType];
+  if (!schema) {
+    throw new Error(`No schema for ${chunkType}, which is measured locally`);
+  }
+  const responseFormat: LLMResponseFormat = {
+    name: `${ANALYSIS_CHUNKS[chunkType]}_analysis`,
+    schema: schema as Record<string, unknown>
+  };
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemMessage },
+    { role: 'user', content: promptText }
+  ];
+
+  for (let repair = 0; repair <= MAX_SCHEMA_REPAIRS; repair++) {
+    const completion = await complete(messages, responseFormat);
+    if (signal?.aborted) {
+      throw new Error('Analysis aborted: ' + signal.reason);
+    }
+
+    let problems: string[];
+    try {
+      const output = parseJSONResponse(completion.content);
+      problems = validateSchema(output, schema);
+      if (problems.length === 0) {
+        return chunkOutputToAnalysis(chunkType, output, tweetIds);
+      }
+    } catch (error) {
+      problems = [`the reply is not valid JSON (${error instanceof Error ? error.message : String(error)})`];
+    }
+
+    console.warn(`[OpenAI Debug] ${chunkType} JSON failed validation (repair ${repair}/${MAX_SCHEMA_REPAIRS}):`, problems);
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: generateRepairPrompt(problems) }
+    );
+  }
+
+  return null;
+}
+
 // Add back the analyzeChunk function
 async function analyzeChunk(
   chunkType: keyof typeof ANALYSIS_CHUNKS,
   params: {
     profile: OpenAITwitterProfile,
     tweetTexts: string,
+    tweetIds?: string[],  // Ids of the numbered tweets in tweetTexts
     tweetExamples: string,
+    languages?: string,   // The languages the tweets are in, for the prompt
     retryCount: number,
     regenerationKey?: string,
     signal?: AbortSignal,
@@ -1556,7 +1388,8 @@ async function analyzeChunk(
     customPrompt?: {
       prompt: string;
       context: string;
-    }
+    };
+    provider?: LLMProvider;
   }
 ): Promise<AnalysisResult> {
   try {
@@ -1583,153 +1416,180 @@ async function analyzeChunk(
       await new Promise(resolve => setTimeout(resolve, 500));
     }
     
-    const promptText = params.customPrompt 
-      ? `${params.customPrompt.context}\n\n${params.customPrompt.prompt}`
-      : generateChunkPrompt(ANALYSIS_CHUNKS[chunkType], {
-          profileInfo: `Name: ${params.profile.name || 'Unknown'}
+    const promptParams = {
+      profileInfo: `Name: ${params.profile.name || 'Unknown'}
 Bio: ${params.profile.bio || 'No bio available'}
 Followers: ${params.profile.followersCount?.toString() || 'Unknown'}
 Following: ${params.profile.followingCount?.toString() || 'Unknown'}`,
-          tweetTexts: params.tweetTexts,
-          tweetExamples: params.tweetExamples
-      });
-
-    console.log(`[OpenAI Debug] Generated prompt for ${chunkType}:`, {
-      promptLength: promptText.length,
-      firstLine: promptText.split('\n')[0],
-      lastLine: promptText.split('\n').pop()
-    });
+      tweetTexts: params.tweetTexts,
+      tweetExamples: params.tweetExamples,
+      languages: params.languages
+    };
 
-    const completion = await retryWithExponentialBackoff(async () => {
-      console.log(`[OpenAI Debug] Starting retry attempt for ${chunkType}`);
+    // One completion, with the timeout, regeneration variety and quality checks
+    const requestCompletion = (messages: LLMMessage[], responseFormat?: LLMResponseFormat) =>
+      retryWithExponentialBackoff(async () => {
+        console.log(`[OpenAI Debug] Starting retry attempt for ${chunkType}`);
       
-      // Get regeneration context if key provided
-      let styleVariation = 0;
-      if (params.regenerationKey) {
-        const regen = regenerationContexts.get(params.regenerationKey) || {
-          attempts: 0,
-          previousResponses: [],
-          styleVariation: 0
-        };
-        regen.attempts++;
-        styleVariation = Math.min(
-          FALLBACK_CONFIG.maxStyleVariation,
-          regen.attempts * FALLBACK_CONFIG.styleVariationStep
-        );
-        regenerationContexts.set(params.regenerationKey, regen);
-      }
+        // Get regeneration context if key provided
+        let styleVariation = 0;
+        if (params.regenerationKey) {
+          const regen = regenerationContexts.get(params.regenerationKey) || {
+            attempts: 0,
+            previousResponses: [],
+            styleVariation: 0
+          };
+          regen.attempts++;
+          styleVariation = Math.min(
+            FALLBACK_CONFIG.maxStyleVariation,
+            regen.attempts * FALLBACK_CONFIG.styleVariationStep
+          );
+          regenerationContexts.set(params.regenerationKey, regen);
+        }
 
-      const abortController = new AbortController();
-      const deviceType = getDeviceType();
-      const timeoutId = setTimeout(() => abortController.abort(), API_TIMEOUT.personality[deviceType]);
+        const abortController = new AbortController();
+        const deviceType = getDeviceType();
+        const timeoutId = setTimeout(() => abortController.abort(), API_TIMEOUT.personality[deviceType]);
       
-      try {
-        const messages: [ChatCompletionSystemMessageParam, ChatCompletionUserMessageParam] = [
-          {
-            role: "system",
-            content: systemMessage
-          },
-          {
-            role: "user",
-            content: promptText
-          }
-        ];
-
-        const requestConfig = {
-          model: "gpt-4o-mini",
-          messages,
-          temperature: 0.7 + styleVariation,
-          max_tokens: 1000,
-          presence_penalty: 0.6,
-          frequency_penalty: 0.5,
-          top_p: 0.9
-        } as const;
-
-        console.log(`[OpenAI Debug] Making API call for ${chunkType} with config:`, {
-          ...requestConfig,
-          messages: messages.map(m => ({ 
-            role: m.role, 
-            contentLength: m.content.length,
-            contentPreview: m.content.slice(0, 100) + '...' 
-          }))
-        });
+        try {
+          const provider = params.provider ?? getLLMProvider('analysis');
+          const requestConfig = {
+            messages,
+            temperature: 0.7 + styleVariation,
+            maxTokens: responseFormat ? 1500 : 1000,
+            presencePenalty: 0.6,
+            frequencyPenalty: 0.5,
+            topP: 0.9,
+            responseFormat
+          };
+
+          console.log(`[OpenAI Debug] Making API call for ${chunkType} with config:`, {
+            ...requestConfig,
+            provider: provider.name,
+            model: provider.model,
+            messages: messages.map(m => ({ 
+              role: m.role, 
+              contentLength: m.content.length,
+              contentPreview: m.content.slice(0, 100) + '...' 
+            }))
+          });
         
-        const result = await openai.chat.completions.create(requestConfig, {
-          signal: AbortSignal.any([abortController.signal, params.signal].filter(Boolean) as AbortSignal[])
-        }).catch(error => {
-          console.error(`[OpenAI Debug] API call failed for ${chunkType}:`, {
-            name: error.name,
-            message: error.message,
-            status: error.status,
-            stack: error.stack,
-            response: error.response?.data
+          const result = await provider.complete({
+            ...requestConfig,
+            signal: AbortSignal.any([abortController.signal, params.signal].filter(Boolean) as AbortSignal[])
+          }).catch(error => {
+            console.error(`[OpenAI Debug] API call failed for ${chunkType}:`, {
+              name: error.name,
+              message: error.message,
+              status: error.status,
+              stack: error.stack,
+              response: error.response?.data
+            });
+            throw error;
           });
-          throw error;
-        });
 
-        console.log(`[OpenAI Debug] Received API response for ${chunkType}:`, {
-          status: 'success',
-          responseLength: result.choices[0].message.content?.length || 0,
-          finishReason: result.choices[0].finish_reason,
-          contentPreview: result.choices[0].message.content?.slice(0, 200) + '...',
-          usage: result.usage
-        });
+          console.log(`[OpenAI Debug] Received API response for ${chunkType}:`, {
+            status: 'success',
+            responseLength: result.content.length,
+            finishReason: result.finishReason,
+            contentPreview: result.content.slice(0, 200) + '...',
+            usage: result.usage
+          });
 
-        clearTimeout(timeoutId);
+          clearTimeout(timeoutId);
 
-        if (!result.choices[0].message.content) {
-          throw new Error('OpenAI returned empty response');
-        }
+          if (!result.content) {
+            throw new Error('OpenAI returned empty response');
+          }
 
-        // Log raw response to file and console
-        logRawResponse(chunkType, result.choices[0].message.content);
-        console.log(`[OpenAI Debug] Raw response for ${chunkType}:`, result.choices[0].message.content);
+          // Log raw response to file and console
+          logRawResponse(chunkType, result.content);
+          console.log(`[OpenAI Debug] Raw response for ${chunkType}:`, result.content);
 
-        const responseContent = result.choices[0].message.content;
-        const qualityScore = assessResponseQuality(
-          responseContent,
-          params.regenerationKey ? regenerationContexts.get(params.regenerationKey)?.previousResponses : undefined
-        );
+          const responseContent = result.content;
+          const qualityScore = assessResponseQuality(
+            responseContent,
+            params.regenerationKey ? regenerationContexts.get(params.regenerationKey)?.previousResponses : undefined
+          );
 
-        console.log(`[OpenAI Debug] Response quality score for ${chunkType}: ${qualityScore}`);
+          console.log(`[OpenAI Debug] Response quality score for ${chunkType}: ${qualityScore}`);
 
-        if (qualityScore < FALLBACK_CONFIG.minResponseQuality) {
-          throw new Error('Response quality below threshold');
-        }
+          if (qualityScore < FALLBACK_CONFIG.minResponseQuality) {
+            throw new Error('Response quality below threshold');
+          }
 
-        // Store response if regenerating
-        if (params.regenerationKey) {
-          const regen = regenerationContexts.get(params.regenerationKey)!;
-          regen.previousResponses.push(responseContent);
-        }
+          // Store response if regenerating
+          if (params.regenerationKey) {
+            const regen = regenerationContexts.get(params.regenerationKey)!;
+            regen.previousResponses.push(responseContent);
+          }
 
-        return result;
+          return result;
 
-      } catch (error: unknown) {
-        clearTimeout(timeoutId);
+        } catch (error: unknown) {
+          clearTimeout(timeoutId);
         
-        console.error(`[OpenAI Debug] Error in API call for ${chunkType}:`, {
-          error,
-          name: error instanceof Error ? error.name : 'Unknown',
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          response: error instanceof Error && typeof error === 'object' && 'response' in error ? error.response : undefined
-        });
+          console.error(`[OpenAI Debug] Error in API call for ${chunkType}:`, {
+            error,
+            name: error instanceof Error ? error.name : 'Unknown',
+            message: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+            response: error instanceof Error && typeof error === 'object' && 'response' in error ? error.response : undefined
+          });
         
-        // Handle specific OpenAI errors
-        if (error instanceof Error) {
-          if (error.name === 'AbortError') {
-            throw new PersonalityAnalysisTimeoutError();
-          }
-          if (error instanceof OpenAIError && error.status === 503) {
-            throw new ModelUnavailableError();
+          // Handle specific OpenAI errors
+          if (error instanceof Error) {
+            if (error.name === 'AbortError') {
+              throw new PersonalityAnalysisTimeoutError();
+            }
+            if (error instanceof OpenAIError && error.status === 503) {
+              throw new ModelUnavailableError();
+            }
           }
+          throw error;
         }
-        throw error;
+      }, FALLBACK_CONFIG.maxRetries, 2000, 'personality');
+
+    // Chunks are asked for as JSON first; custom prompts are free text
+    if (!params.customPrompt) {
+      const structured = await requestStructuredChunk(
+        chunkType,
+        generateChunkPrompt(ANALYSIS_CHUNKS[chunkType], promptParams),
+        requestCompletion,
+        params.tweetIds ?? [],
+        params.signal
+      );
+      if (structured) {
+        return {
+          success: true,
+          data: structured
+        };
       }
-    }, FALLBACK_CONFIG.maxRetries, 2000, 'personality');
+      console.warn(`[OpenAI Debug] No valid JSON for ${chunkType}, falling back to the text prompt`);
+    }
+
+    const promptText = params.customPrompt 
+      ? `${params.customPrompt.context}\n\n${params.customPrompt.prompt}`
+      : generateTextChunkPrompt(ANALYSIS_CHUNKS[chunkType], promptParams);
+
+    console.log(`[OpenAI Debug] Generated prompt for ${chunkType}:`, {
+      promptLength: promptText.length,
+      firstLine: promptText.split('\n')[0],
+      lastLine: promptText.split('\n').pop()
+    });
 
-    const responseContent = completion.choices[0].message.content;
+    const completion = await requestCompletion([
+      {
+        role: "system",
+        content: systemMessage
+      },
+      {
+        role: "user",
+        content: promptText
+      }
+    ]);
+
+    const responseContent = completion.content;
     if (!responseContent) {
       throw new Error('OpenAI returned empty response');
     }
@@ -1765,12 +1625,13 @@ Following: ${params.profile.followingCount?.toString() || 'Unknown'}`,
 
     return {
       success: true,
-      data: parsedChunk
+      // The parser fills every field; keep only the ones this chunk was asked for
+      data: params.customPrompt ? parsedChunk : pickChunkFields(chunkType, parsedChunk)
     };
 
   } catch (error) {
-    // Let ChunkAbortedError propagate up
-    if (error instanceof ChunkAbortedError) {
+    // Let ChunkAbortedError and missing fixtures propagate up
+    if (error instanceof ChunkAbortedError || error instanceof FixtureNotFoundError) {
       throw error;
     }
 
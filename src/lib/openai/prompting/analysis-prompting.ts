@@ -1,9 +1,11 @@
 import { PersonalityAnalysis } from '../types';
+import { CHUNK_SCHEMAS } from './analysis-schemas';
 
 interface PromptParams {
   profileInfo: string;
   tweetTexts: string;
   tweetExamples?: string;
+  languages?: string;  // e.g. "Spanish (70%), English (30%)"
   prompt?: string;
   context?: string;
   combinedAnalysis?: PersonalityAnalysis;
@@ -21,17 +23,87 @@ export const ANALYSIS_CHUNKS = {
 
 type ChunkType = typeof ANALYSIS_CHUNKS[keyof typeof ANALYSIS_CHUNKS];
 
-// Generate a prompt for a specific chunk of the analysis
-export function generateChunkPrompt(
-  chunkType: ChunkType,
-  { profileInfo, tweetTexts, tweetExamples }: PromptParams
-): string {
-  const baseContext = `Profile Information:
+function formatContext({ profileInfo, tweetTexts, tweetExamples, languages }: PromptParams): string {
+  return `Profile Information:
 ${profileInfo}
-
+${languages ? `\nTweet Languages: ${languages}
+Read each tweet in its own language. Write the analysis in English, but quote phrases exactly as they were tweeted.\n` : ''}
 Tweet History:
 ${tweetTexts}
 ${tweetExamples ? `\nExample Tweets:\n${tweetExamples}` : ''}`;
+}
+
+const CHUNK_NAMES = Object.fromEntries(
+  Object.entries(ANALYSIS_CHUNKS).map(([name, chunk]) => [chunk, name])
+) as Record<ChunkType, keyof typeof ANALYSIS_CHUNKS>;
+
+// What to look for in each chunk; the schema takes care of the format. The
+// vocabulary chunk is measured locally and never asks the model.
+const CHUNK_INSTRUCTIONS: Partial<Record<ChunkType, { task: string; instructions: string }>> = {
+  [ANALYSIS_CHUNKS.BASIC_INFO]: {
+    task: 'Analyze the following Twitter profile and tweets to create a summary and identify core personality traits.',
+    instructions: 'Write a 2-3 sentence summary that captures the essence of their personality, communication style and key behavioral patterns. Then identify their 3-5 most distinctive traits, score each from 0 to 10, and explain each with evidence from the tweets. Cite the numbers of the tweets behind each trait.'
+  },
+
+  [ANALYSIS_CHUNKS.INTERESTS]: {
+    task: 'Analyze the following Twitter profile and tweets to identify primary interests and expertise areas.',
+    instructions: 'Identify 4-5 areas. Group related interests, rate their expertise in each, and give evidence from the tweets, citing the numbers of the tweets that show it.'
+  },
+
+  [ANALYSIS_CHUNKS.SOCIAL_METRICS]: {
+    task: 'Analyze the following Twitter profile and tweets to determine social behavior patterns.',
+    instructions: 'Score each behavior from 0 to 100 by how strongly the tweets show it: oversharer (shares personal updates), replyGuy (engages in conversations), viralChaser (writes for reach), threadMaker, retweeter, hotTaker (controversial opinions), joker, debater, doomPoster, earlyAdopter (tries new things first), knowledgeDropper (shares expertise) and hypeBeast. For each behavior, cite the numbers of the tweets that show it; leave the list empty when none do.'
+  },
+
+  [ANALYSIS_CHUNKS.COMMUNICATION]: {
+    task: 'Analyze the following Twitter profile and tweets to determine communication style patterns.',
+    instructions: 'Rate formality, enthusiasm, technical level, emoji usage and verbosity as low, medium or high, and describe their style. Describe how they communicate in business, casual, technical and crisis contexts.'
+  },
+
+  [ANALYSIS_CHUNKS.EMOTIONAL]: {
+    task: 'Analyze the following Twitter profile and tweets to determine emotional intelligence patterns.',
+    instructions: 'Describe their leadership style, how they respond to challenges, their analytical tone and their supportive patterns. List the primary topics and themes they return to. Describe their emotional tone (consistency, range, how they respond to others) and their thought process: how they approach a topic, work through it and express their conclusions.'
+  }
+};
+
+// Generate a prompt for a specific chunk of the analysis, answered as JSON
+// matching the chunk's schema
+export function generateChunkPrompt(chunkType: ChunkType, params: PromptParams): string {
+  const schema = CHUNK_SCHEMAS[CHUNK_NAMES[chunkType]];
+  const chunkInstructions = CHUNK_INSTRUCTIONS[chunkType];
+  if (!schema || !chunkInstructions) {
+    throw new Error(`No JSON prompt for chunk type: ${chunkType}`);
+  }
+
+  const { task, instructions } = chunkInstructions;
+  return `${task}
+
+${formatContext(params)}
+
+${instructions}
+Base everything on the tweets above and be specific.
+
+Respond with only a JSON object that matches this JSON Schema, with no markdown or other text:
+${JSON.stringify(schema)}`;
+}
+
+// Sent back with a reply that failed validation, listing what to fix
+export function generateRepairPrompt(problems: string[]): string {
+  const shown = problems.slice(0, 10);
+  const more = problems.length - shown.length;
+  return `Your reply did not match the required JSON Schema:
+${shown.map(problem => `- ${problem}`).join('\n')}${more > 0 ? `\n- ...and ${more} more` : ''}
+
+Reply again with the complete, corrected JSON object only.`;
+}
+
+// The free-text version of a chunk prompt, answered in markdown for the legacy
+// parser. Used when structured output fails.
+export function generateTextChunkPrompt(
+  chunkType: ChunkType,
+  params: PromptParams
+): string {
+  const baseContext = formatContext(params);
 
   switch (chunkType) {
     case ANALYSIS_CHUNKS.BASIC_INFO:
@@ -289,6 +361,6 @@ Respond in a way that authentically reflects this personality profile.`;
   
   // For a new analysis, return all chunks combined
   return Object.values(ANALYSIS_CHUNKS)
-    .map(chunk => generateChunkPrompt(chunk, { profileInfo, tweetTexts, tweetExamples }))
+    .map(chunk => generateTextChunkPrompt(chunk, { profileInfo, tweetTexts, tweetExamples }))
     .join('\n\nFocus on quality over quantity. Provide specific examples from tweets where possible. Ensure all patterns identified are clearly evidenced in the provided tweets.\n\n');
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+import type { PersonalityAnalysis } from '../types';
+import type { ANALYSIS_CHUNKS } from './analysis-prompting';
+import type { JSONSchema } from '../utils/schema';
+
+type ChunkName = keyof typeof ANALYSIS_CHUNKS;
+
+// Schema builders. Every object property is required, as strict structured output expects.
+function text(description?: string): JSONSchema {
+  return description ? { type: 'string', description } : { type: 'string' };
+}
+
+function oneOf(options: readonly string[]): JSONSchema {
+  return { type: 'string', enum: options };
+}
+
+function list(items: JSONSchema, minItems?: number): JSONSchema {
+  return minItems ? { type: 'array', items, minItems } : { type: 'array', items };
+}
+
+function object(properties: Record<string, JSONSchema>): JSONSchema {
+  return { type: 'object', properties, required: Object.keys(properties), additionalProperties: false };
+}
+
+const LEVEL = oneOf(['low', 'medium', 'high']);
+const SCORE_100: JSONSchema = { type: 'integer', minimum: 0, maximum: 100 };
+
+// Tweets are numbered [1], [2], ... in the prompt; evidence cites those numbers
+const TWEET_REFS: JSONSchema = {
+  type: 'array',
+  items: { type: 'integer', minimum: 1 },
+  description: 'Numbers of the tweets that support it'
+};
+
+const SOCIAL_METRICS: Array<keyof PersonalityAnalysis['socialBehaviorMetrics']> = [
+  'oversharer', 'replyGuy', 'viralChaser', 'threadMaker', 'retweeter', 'hotTaker',
+  'joker', 'debater', 'doomPoster', 'earlyAdopter', 'knowledgeDropper', 'hypeBeast'
+];
+
+// What each chunk asks the model for. Field names follow PersonalityAnalysis so
+// most results can be merged in as they are. Vocabulary and the writing
+// patterns are measured locally (see analysis/stylometry), so they have none.
+export const CHUNK_SCHEMAS: Partial<Record<ChunkName, JSONSchema>> = {
+  BASIC_INFO: object({
+    summary: text('2-3 sentences on their personality, communication style and key behavioral patterns'),
+    traits: list(object({
+      name: text(),
+      score: { type: 'integer', minimum: 0, maximum: 10 },
+      explanation: text('Evidence from their tweets'),
+      tweets: TWEET_REFS
+    }), 3)
+  }),
+
+  INTERESTS: object({
+    interests: list(object({
+      name: text(),
+      expertise: oneOf(['Beginner', 'Intermediate', 'Advanced']),
+      evidence: text('What in their tweets shows this interest'),
+      tweets: TWEET_REFS
+    }), 1)
+  }),
+
+  SOCIAL_METRICS: object({
+    socialBehaviorMetrics: object(Object.fromEntries(SOCIAL_METRICS.map(metric => [metric, SCORE_100]))),
+    socialBehaviorEvidence: object(Object.fromEntries(SOCIAL_METRICS.map(metric => [metric, TWEET_REFS])))
+  }),
+
+  COMMUNICATION: object({
+    communicationStyle: object({
+      formality: LEVEL,
+      enthusiasm: LEVEL,
+      technicalLevel: LEVEL,
+      emojiUsage: LEVEL,
+      verbosity: LEVEL,
+      description: text('How they communicate, in a few sentences'),
+      contextualVariations: object({
+        business: text(),
+        casual: text(),
+        technical: text(),
+        crisis: text()
+      })
+    })
+  }),
+
+  EMOTIONAL: object({
+    emotionalIntelligence: object({
+      leadershipStyle: text(),
+      challengeResponse: text(),
+      analyticalTone: text(),
+      supportivePatterns: list(text())
+    }),
+    topicsAndThemes: list(text(), 1),
+    emotionalTone: text('Tone consistency, emotional range and how they respond to others'),
+    thoughtProcess: object({
+      initialApproach: text(),
+      processingStyle: text(),
+      expressionStyle: text()
+    })
+  })
+};
+
+interface BasicInfoOutput {
+  summary: string;
+  traits: Array<{ name: string; score: number; explanation: string; tweets: number[] }>;
+}
+
+interface InterestsOutput {
+  interests: Array<{ name: string; expertise: string; evidence: string; tweets: number[] }>;
+}
+
+interface SocialMetricsOutput {
+  socialBehaviorMetrics: PersonalityAnalysis['socialBehaviorMetrics'];
+  socialBehaviorEvidence: Record<keyof PersonalityAnalysis['socialBehaviorMetrics'], number[]>;
+}
+
+/**
+ * Turn a chunk's validated JSON into analysis fields. Interests keep their
+ * expertise as "Name: Level", which the tuning panel reads weights from.
+ * Cited tweet numbers become the ids of the tweets they point at in tweetIds;
+ * numbers outside the list are dropped.
+ */
+export function chunkOutputToAnalysis(
+  chunk: ChunkName,
+  output: unknown,
+  tweetIds: string[] = []
+): Partial<PersonalityAnalysis> {
+  const toIds = (refs: number[]): string[] =>
+    Array.from(new Set(refs.filter(ref => ref >= 1 && ref <= tweetIds.length).map(ref => tweetIds[ref - 1])));
+
+  switch (chunk) {
+    case 'BASIC_INFO': {
+      const { summary, traits } = output as BasicInfoOutput;
+      return {
+        summary,
+        traits: traits.map(({ tweets, ...trait }) => ({ ...trait, evidenceTweetIds: toIds(tweets) }))
+      };
+    }
+
+    case 'INTERESTS': {
+      const { interests } = output as InterestsOutput;
+      return {
+        interests: interests.map(interest => `${interest.name}: ${interest.expertise}`),
+        interestEvidence: Object.fromEntries(interests.map(interest => [interest.name, toIds(interest.tweets)]))
+      };
+    }
+
+    case 'SOCIAL_METRICS': {
+      const { socialBehaviorMetrics, socialBehaviorEvidence } = output as SocialMetricsOutput;
+      return {
+        socialBehaviorMetrics,
+        socialBehaviorEvidence: Object.fromEntries(
+          Object.entries(socialBehaviorEvidence).map(([metric, refs]) => [metric, toIds(refs)])
+        )
+      };
+    }
+
+    default:
+      return output as Partial<PersonalityAnalysis>;
+  }
+}
+
+// The analysis fields each chunk is responsible for
+export const CHUNK_FIELDS: Record<ChunkName, Array<keyof PersonalityAnalysis>> = {
+  BASIC_INFO: ['summary', 'traits'],
+  INTERESTS: ['interests', 'interestEvidence'],
+  SOCIAL_METRICS: ['socialBehaviorMetrics', 'socialBehaviorEvidence'],
+  COMMUNICATION: ['communicationStyle'],
+  VOCABULARY: ['vocabulary', 'languages'],
+  EMOTIONAL: ['emotionalIntelligence', 'topicsAndThemes', 'emotionalTone', 'thoughtProcess']
+};
@@ -1,4 +1,5 @@
 import { ANALYSIS_CHUNKS } from './prompting/analysis-prompting';
+import type { ScrapeJobSpec } from '../twitter/types';
 
 export type CommunicationLevel = 'low' | 'medium' | 'high';
 
@@ -6,6 +7,7 @@ export interface Trait {
   name: string;
   score: number;
   explanation: string;
+  evidenceTweetIds?: string[];  // Scraped tweets the trait was drawn from
 }
 
 export interface Interest {
@@ -14,11 +16,26 @@ export interface Interest {
   evidence?: string;
 }
 
+// How someone writes in one of the languages they tweet in, measured from those tweets
+export interface LanguageHabits {
+  language: string;  // ISO 639-1 code
+  share: number;     // Percent of their tweets with a known language
+  capitalization?: PersonalityAnalysis['communicationStyle']['patterns']['capitalization'];  // Absent for scripts without case
+  commonPhrases: string[];
+  enthusiasmMarkers: string[];
+  openings: string[];
+  framing: string[];
+  closings: string[];
+}
+
 export interface PersonalityAnalysis {
   summary: string;
   traits: Trait[];
   interests: string[];
   interestWeights?: { [key: string]: number };
+  // Supporting tweet ids, keyed by interest name and by social behavior metric
+  interestEvidence?: { [interest: string]: string[] };
+  socialBehaviorEvidence?: Partial<Record<keyof PersonalityAnalysis['socialBehaviorMetrics'], string[]>>;
   socialBehaviorMetrics: {
     oversharer: number;
     replyGuy: number;
@@ -150,6 +167,32 @@ export interface PersonalityAnalysis {
     processingStyle: string;
     expressionStyle: string;
   };
+  // Most used first; absent on analyses made before languages were tracked
+  languages?: LanguageHabits[];
+  // The tweets that were analyzed, so the analysis can say which slice of history it used
+  tweetSlice?: {
+    tweetCount: number;
+    from: string | null;  // Oldest and newest tweet dates (ISO); null when no tweet had a usable date
+    to: string | null;
+    // Spec of the last scrape of the account and when it ran; absent when it was never scraped here
+    spec?: ScrapeJobSpec;
+    scrapedAt?: string;
+    description: string;
+  };
+  // Set when some chunks failed: their fields hold defaults until a retry of
+  // the job fills them in
+  partial?: {
+    jobId: number;
+    failedChunks: Array<keyof typeof ANALYSIS_CHUNKS>;
+  };
+}
+
+// Where each chunk of a running analysis stands, for progress reporting
+export interface AnalysisChunkProgress {
+  chunk: keyof typeof ANALYSIS_CHUNKS;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  attempts: number;
+  error?: string;
 }
 
 // Error classes
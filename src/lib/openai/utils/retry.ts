@@ -1,6 +1,7 @@
 import { API_TIMEOUT } from '../openai';
 import { TimeoutError } from '../openai';
 import { getDeviceType } from '../openai';
+import { FixtureNotFoundError } from '../../llm/types';
 
 export type TimeoutType = keyof typeof API_TIMEOUT;
 
@@ -15,17 +16,18 @@ export async function retryWithExponentialBackoff<T>(
   const timeout = API_TIMEOUT[timeoutType][deviceType];
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    let timeoutId: NodeJS.Timeout | undefined;
     try {
       // Create a timeout promise
       const timeoutPromise = new Promise<T>((_, reject) => {
-        setTimeout(() => reject(new TimeoutError()), timeout);
+        timeoutId = setTimeout(() => reject(new TimeoutError()), timeout);
       });
 
       // Race between the operation and timeout
       const result = await Promise.race([
         operation(),
         timeoutPromise
-      ]);
+      ]).finally(() => clearTimeout(timeoutId));
       
       return result;
     } catch (error) {
@@ -37,6 +39,11 @@ export async function retryWithExponentialBackoff<T>(
           (error.name === 'AbortError' || error.message.includes('aborted'))) {
         throw error;
       }
+
+      // A missing fixture won't appear on retry
+      if (error instanceof FixtureNotFoundError) {
+        throw error;
+      }
       
       if (attempt < maxRetries - 1) {
         // Increase delay for timeout errors and mobile/tablet
@@ -0,0 +1,105 @@
+// The subset of JSON Schema the analysis chunks use. It is also the subset OpenAI
+// accepts for strict structured output: every object lists all its properties
+// as required and allows no others.
+export type JSONSchema =
+  | { type: 'string'; enum?: readonly string[]; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: JSONSchema; minItems?: number; description?: string }
+  | {
+      type: 'object';
+      properties: Record<string, JSONSchema>;
+      required: string[];
+      additionalProperties: false;
+      description?: string;
+    };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '...' : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem, each naming
+ * the path it was found at (e.g. `$.traits[2].score`), so a repair prompt can
+ * point the model at exactly what to fix. Empty when the value is valid.
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path}: expected a string, got ${describe(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.map(option => `"${option}"`).join(', ')}, got ${describe(value)}`];
+      }
+      return [];
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path}: expected a number, got ${describe(value)}`];
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return [`${path}: expected a whole number, got ${value}`];
+      }
+      if ((schema.minimum !== undefined && value < schema.minimum) ||
+          (schema.maximum !== undefined && value > schema.maximum)) {
+        return [`${path}: expected a number from ${schema.minimum ?? '-∞'} to ${schema.maximum ?? '∞'}, got ${value}`];
+      }
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected true or false, got ${describe(value)}`];
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected an array, got ${describe(value)}`];
+      }
+      const problems = value.flatMap((item, index) => validateSchema(item, schema.items, `${path}[${index}]`));
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        problems.unshift(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      return problems;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected an object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const problems: string[] = [];
+      for (const key of schema.required) {
+        if (!(key in record)) {
+          problems.push(`${path}.${key}: missing`);
+        }
+      }
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = schema.properties[key];
+        if (!propertySchema) {
+          problems.push(`${path}.${key}: not allowed by the schema`);
+        } else {
+          problems.push(...validateSchema(propertyValue, propertySchema, `${path}.${key}`));
+        }
+      }
+      return problems;
+    }
+  }
+}
+
+/**
+ * Parse a JSON reply. Models without enforced structured output sometimes wrap
+ * the object in a ```json fence or a sentence, so only the outermost braces are read.
+ */
+export function parseJSONResponse(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new SyntaxError('no JSON object found');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
@@ -0,0 +1,458 @@
+import { initDB } from '@/lib/db'
+import type { CachedPersonalityData } from '@/lib/db/cache'
+import type { DBTweet, DBUser } from '@/lib/db/adapters/types'
+import type { PersonalityAnalysis } from '@/lib/openai/types'
+import type { CommunicationLevel } from '@/lib/openai/openai'
+import type { PersonalityTuning } from '@/types/personality'
+import { ConsciousnessConfig, DEFAULT_CONSCIOUSNESS, modifyConsciousness } from '@/lib/consciousness'
+import { claimPersonaTarget, normalizeHandle } from '@/lib/personas'
+import { savePersonalitySnapshot, snapshotAnalysis } from '@/lib/analysis/snapshots'
+import { isTweetMemoryEnabled, rebuildTweetMemory } from '@/lib/tweet-memory'
+
+/*
+ * A persona bundle is everything needed to chat with a clone, as one JSON
+ * file: the profile, the analysis, its tuning and consciousness settings, and
+ * optionally a sample of tweets. Importing one skips scraping and analysis.
+ */
+
+// Bumped when the bundle shape changes; older bundles must still import
+export const PERSONA_BUNDLE_VERSION = 1
+
+export const BUNDLE_TWEET_LIMIT = 200
+export const DEFAULT_BUNDLE_TWEETS = 50
+
+// Bundles are read into memory whole, so refuse anything bigger
+export const MAX_BUNDLE_BYTES = 2 * 1024 * 1024
+
+const MAX_TWEET_LENGTH = 4000
+const COMMUNICATION_LEVELS: readonly CommunicationLevel[] = ['low', 'medium', 'high']
+const STYLE_ASPECTS = ['formality', 'enthusiasm', 'technicalLevel', 'emojiUsage', 'verbosity'] as const
+
+export interface PersonaBundleTuning extends PersonalityTuning {
+  customInterests: string[]
+}
+
+export interface PersonaBundleTweet {
+  id: string
+  text: string
+  createdAt: string
+  isReply: boolean
+  lang?: string
+}
+
+export interface PersonaBundle {
+  schema: 'persona-bundle'
+  schemaVersion: number
+  exportedAt: string
+  profile: {
+    username: string
+    name: string | null
+    bio: string | null
+    imageUrl: string | null
+  }
+  analysis: PersonalityAnalysis
+  tuning: PersonaBundleTuning
+  consciousness: ConsciousnessConfig
+  tweets: PersonaBundleTweet[]
+}
+
+export interface PersonaBundleImport {
+  username: string
+  cacheVersion: number
+  snapshotVersion: number
+  tweetsImported: number
+  tweetsSkipped: number
+}
+
+export class PersonaBundleError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'PersonaBundleError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isCommunicationLevel(value: unknown): value is CommunicationLevel {
+  return COMMUNICATION_LEVELS.includes(value as CommunicationLevel)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function optionalString(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') {
+    throw new PersonaBundleError(`${field} must be a string`)
+  }
+  return value
+}
+
+function numberMap(value: unknown, field: string, min: number, max: number): Record<string, number> {
+  if (value === undefined) return {}
+  if (!isRecord(value)) {
+    throw new PersonaBundleError(`${field} must be an object of numbers`)
+  }
+  const result: Record<string, number> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    if (!isFiniteNumber(entry)) {
+      throw new PersonaBundleError(`${field}.${key} must be a number`)
+    }
+    result[key] = clamp(entry, min, max)
+  }
+  return result
+}
+
+// The parts of an analysis chat can't do without; the rest is optional
+function validateAnalysis(value: unknown): PersonalityAnalysis {
+  if (!isRecord(value)) {
+    throw new PersonaBundleError('analysis is required')
+  }
+  if (typeof value.summary !== 'string') {
+    throw new PersonaBundleError('analysis.summary must be a string')
+  }
+  if (!Array.isArray(value.traits) || !value.traits.every(trait =>
+    isRecord(trait) && typeof trait.name === 'string' && isFiniteNumber(trait.score)
+  )) {
+    throw new PersonaBundleError('analysis.traits must be a list of { name, score }')
+  }
+  if (!isStringArray(value.interests)) {
+    throw new PersonaBundleError('analysis.interests must be a list of strings')
+  }
+
+  const style = value.communicationStyle
+  if (!isRecord(style) || typeof style.description !== 'string') {
+    throw new PersonaBundleError('analysis.communicationStyle is required')
+  }
+  for (const aspect of STYLE_ASPECTS) {
+    // verbosity was added later, so older analyses may not have it
+    if (aspect === 'verbosity' && style[aspect] === undefined) continue
+    if (!isCommunicationLevel(style[aspect])) {
+      throw new PersonaBundleError(`analysis.communicationStyle.${aspect} must be low, medium or high`)
+    }
+  }
+
+  for (const section of ['socialBehaviorMetrics', 'vocabulary', 'thoughtProcess'] as const) {
+    if (!isRecord(value[section])) {
+      throw new PersonaBundleError(`analysis.${section} is required`)
+    }
+  }
+
+  return value as unknown as PersonalityAnalysis
+}
+
+// Missing tuning means the analysis as it was analyzed
+function validateTuning(value: unknown, analysis: PersonalityAnalysis): PersonaBundleTuning {
+  if (value !== undefined && !isRecord(value)) {
+    throw new PersonaBundleError('tuning must be an object')
+  }
+  const tuning: Record<string, unknown> = value ?? {}
+
+  const styleInput = tuning.communicationStyle ?? {}
+  if (!isRecord(styleInput)) {
+    throw new PersonaBundleError('tuning.communicationStyle must be an object')
+  }
+  const communicationStyle = {} as PersonalityTuning['communicationStyle']
+  for (const aspect of STYLE_ASPECTS) {
+    const level = styleInput[aspect] ?? analysis.communicationStyle[aspect] ?? 'medium'
+    if (!isCommunicationLevel(level)) {
+      throw new PersonaBundleError(`tuning.communicationStyle.${aspect} must be low, medium or high`)
+    }
+    communicationStyle[aspect] = level
+  }
+
+  const customInterests = tuning.customInterests ?? []
+  if (!isStringArray(customInterests)) {
+    throw new PersonaBundleError('tuning.customInterests must be a list of strings')
+  }
+
+  return {
+    traitModifiers: numberMap(tuning.traitModifiers, 'tuning.traitModifiers', -2, 2),
+    interestWeights: numberMap(tuning.interestWeights ?? analysis.interestWeights, 'tuning.interestWeights', 0, 100),
+    communicationStyle,
+    customInterests
+  }
+}
+
+// Unset settings fall back to the defaults; numbers are clamped to 0-100
+function validateConsciousness(value: unknown): ConsciousnessConfig {
+  if (value === undefined) return DEFAULT_CONSCIOUSNESS
+  if (!isRecord(value)) {
+    throw new PersonaBundleError('consciousness must be an object')
+  }
+
+  const updates: Partial<ConsciousnessConfig> = {}
+  for (const key of Object.keys(DEFAULT_CONSCIOUSNESS) as Array<keyof ConsciousnessConfig>) {
+    const setting = value[key]
+    if (setting === undefined) continue
+
+    if (key === 'isLearning') {
+      if (typeof setting !== 'boolean') {
+        throw new PersonaBundleError('consciousness.isLearning must be true or false')
+      }
+      updates.isLearning = setting
+    } else if (key === 'quirks') {
+      if (!isStringArray(setting)) {
+        throw new PersonaBundleError('consciousness.quirks must be a list of strings')
+      }
+      updates.quirks = setting
+    } else {
+      if (!isFiniteNumber(setting)) {
+        throw new PersonaBundleError(`consciousness.${key} must be a number`)
+      }
+      updates[key] = setting
+    }
+  }
+
+  return modifyConsciousness(DEFAULT_CONSCIOUSNESS, updates)
+}
+
+function validateTweets(value: unknown): PersonaBundleTweet[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    throw new PersonaBundleError('tweets must be a list')
+  }
+  if (value.length > BUNDLE_TWEET_LIMIT) {
+    throw new PersonaBundleError(`A bundle can carry at most ${BUNDLE_TWEET_LIMIT} tweets`)
+  }
+
+  return value.map((tweet, index) => {
+    if (!isRecord(tweet)) {
+      throw new PersonaBundleError(`tweets[${index}] must be an object`)
+    }
+    if (typeof tweet.id !== 'string' || !/^\d{1,25}$/.test(tweet.id)) {
+      throw new PersonaBundleError(`tweets[${index}].id must be a tweet id`)
+    }
+    if (typeof tweet.text !== 'string' || !tweet.text.trim() || tweet.text.length > MAX_TWEET_LENGTH) {
+      throw new PersonaBundleError(`tweets[${index}].text must be non-empty and at most ${MAX_TWEET_LENGTH} characters`)
+    }
+    if (typeof tweet.createdAt !== 'string' || isNaN(new Date(tweet.createdAt).getTime())) {
+      throw new PersonaBundleError(`tweets[${index}].createdAt must be a date`)
+    }
+    const lang = optionalString(tweet.lang, `tweets[${index}].lang`)
+
+    return {
+      id: tweet.id,
+      text: tweet.text,
+      createdAt: new Date(tweet.createdAt).toISOString(),
+      isReply: tweet.isReply === true,
+      ...(lang ? { lang } : {})
+    }
+  })
+}
+
+/**
+ * Check an uploaded bundle and return it normalized: tuning and consciousness
+ * filled in where missing, numbers clamped to their ranges. Throws
+ * PersonaBundleError with what is wrong.
+ */
+export function validatePersonaBundle(value: unknown): PersonaBundle {
+  if (!isRecord(value) || value.schema !== 'persona-bundle') {
+    throw new PersonaBundleError('Not a persona bundle')
+  }
+  const version = value.schemaVersion
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new PersonaBundleError('schemaVersion is missing')
+  }
+  if (version > PERSONA_BUNDLE_VERSION) {
+    throw new PersonaBundleError(`Bundle version ${version} is newer than this app supports (${PERSONA_BUNDLE_VERSION})`)
+  }
+
+  if (!isRecord(value.profile)) {
+    throw new PersonaBundleError('profile is required')
+  }
+  const username = normalizeHandle(typeof value.profile.username === 'string' ? value.profile.username : null)
+  if (!username) {
+    throw new PersonaBundleError('profile.username must be an X handle')
+  }
+  const imageUrl = optionalString(value.profile.imageUrl, 'profile.imageUrl')
+  if (imageUrl && !/^https?:\/\//.test(imageUrl)) {
+    throw new PersonaBundleError('profile.imageUrl must be an http(s) URL')
+  }
+
+  const analysis = validateAnalysis(value.analysis)
+
+  return {
+    schema: 'persona-bundle',
+    schemaVersion: PERSONA_BUNDLE_VERSION,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : new Date().toISOString(),
+    profile: {
+      username,
+      name: optionalString(value.profile.name, 'profile.name'),
+      bio: optionalString(value.profile.bio, 'profile.bio'),
+      imageUrl
+    },
+    analysis,
+    tuning: validateTuning(value.tuning, analysis),
+    consciousness: validateConsciousness(value.consciousness),
+    tweets: validateTweets(value.tweets)
+  }
+}
+
+// The cached analysis without the tuning kept alongside it
+function splitCachedAnalysis(cached: CachedPersonalityData): {
+  analysis: PersonalityAnalysis
+  extras: Pick<CachedPersonalityData, 'traitModifiers' | 'customInterests' | 'consciousness'>
+} {
+  const { traitModifiers, customInterests, consciousness, ...analysis } = cached
+  return { analysis, extras: { traitModifiers, customInterests, consciousness } }
+}
+
+/**
+ * Bundle a persona as it chats now: the cached analysis and its tuning, or the
+ * latest snapshot when the cache has expired, plus its newest tweets.
+ */
+export async function buildPersonaBundle(user: DBUser, { tweetLimit = DEFAULT_BUNDLE_TWEETS } = {}): Promise<PersonaBundle> {
+  const db = await initDB()
+  const [cache, snapshot, tweets] = await Promise.all([
+    db.personality.getPersonalityCache(user.id),
+    db.getLatestAnalysis(user.id),
+    tweetLimit > 0 ? db.getTweetsByUserId(user.id, { limit: Math.min(tweetLimit, BUNDLE_TWEET_LIMIT) }) : []
+  ])
+
+  let analysis: PersonalityAnalysis
+  let extras: ReturnType<typeof splitCachedAnalysis>['extras'] = {}
+  if (cache) {
+    ({ analysis, extras } = splitCachedAnalysis(cache.analysisData as unknown as CachedPersonalityData))
+  } else if (snapshot) {
+    analysis = snapshotAnalysis(snapshot)
+  } else {
+    throw new PersonaBundleError(`@${user.username} has not been analyzed yet`, 404)
+  }
+
+  const profile = (user.profile_data ?? {}) as { name?: string; bio?: string }
+
+  // Run the bundle through validation so exports import as they are
+  return validatePersonaBundle({
+    schema: 'persona-bundle',
+    schemaVersion: PERSONA_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: {
+      username: user.username,
+      name: profile.name ?? null,
+      bio: profile.bio ?? null,
+      imageUrl: user.profile_picture_url ?? null
+    },
+    analysis,
+    tuning: {
+      traitModifiers: extras.traitModifiers,
+      interestWeights: analysis.interestWeights,
+      customInterests: extras.customInterests
+    },
+    consciousness: extras.consciousness,
+    tweets: tweets.map(tweet => ({
+      id: tweet.id,
+      text: tweet.text,
+      createdAt: new Date(tweet.created_at).toISOString(),
+      isReply: tweet.is_reply,
+      lang: tweet.metadata?.lang
+    }))
+  })
+}
+
+/**
+ * Make a bundle the analysis of the owner's own account, or of the account it
+ * was exported from, cloning that account if needed. The bundle replaces the
+ * cached analysis and its tuning and is kept as an 'imported' snapshot. Tweets
+ * are only added when no account has them yet, so imports can't rewrite
+ * anyone's stored tweets.
+ */
+export async function importPersonaBundle(
+  owner: DBUser,
+  bundle: PersonaBundle,
+  { asSelf = false } = {}
+): Promise<PersonaBundleImport> {
+  const db = await initDB()
+
+  let persona = owner
+  if (!asSelf && bundle.profile.username !== owner.username.toLowerCase()) {
+    const claim = await claimPersonaTarget(owner, bundle.profile.username)
+    const target = await db.getUserById(claim.target_user_id)
+    if (!target) {
+      throw new PersonaBundleError(`@${bundle.profile.username} could not be created`, 500)
+    }
+    persona = target
+  }
+
+  const profile: Record<string, unknown> = {}
+  if (bundle.profile.name !== null) profile.name = bundle.profile.name
+  if (bundle.profile.bio !== null) profile.bio = bundle.profile.bio
+  if (Object.keys(profile).length > 0) {
+    await db.updateUserProfile(persona.id, profile)
+  }
+  if (bundle.profile.imageUrl) {
+    await db.updateUser(persona.id, { profile_picture_url: bundle.profile.imageUrl })
+  }
+
+  let tweetsImported = 0
+  if (bundle.tweets.length > 0) {
+    const now = new Date()
+    const existing = await Promise.all(bundle.tweets.map(tweet => db.getTweetById(tweet.id)))
+    const fresh: DBTweet[] = bundle.tweets
+      .filter((_, index) => !existing[index])
+      .map(tweet => ({
+        id: tweet.id,
+        user_id: persona.id,
+        text: tweet.text,
+        created_at: new Date(tweet.createdAt),
+        url: `https://x.com/${persona.username}/status/${tweet.id}`,
+        is_reply: tweet.isReply,
+        view_count: 0,
+        retweet_count: 0,
+        reply_count: 0,
+        like_count: 0,
+        quote_count: 0,
+        metadata: tweet.lang ? { lang: tweet.lang } : {},
+        created_in_db: now
+      }))
+    if (fresh.length > 0) {
+      await db.saveTweets(persona.id, fresh)
+      tweetsImported = fresh.length
+    }
+  }
+
+  const { tuning, consciousness } = bundle
+  const cached: CachedPersonalityData = {
+    ...bundle.analysis,
+    interestWeights: tuning.interestWeights,
+    communicationStyle: { ...bundle.analysis.communicationStyle, ...tuning.communicationStyle },
+    traitModifiers: tuning.traitModifiers,
+    customInterests: tuning.customInterests,
+    consciousness
+  }
+
+  // Saving merges the old cache's tuning in, so clear it for the bundle's to stand
+  const cacheVersion = (await db.personality.getCacheVersion(persona.id)) + 1
+  await db.personality.deleteCache(persona.id)
+  await db.personality.savePersonalityCache(persona.id, cached, cacheVersion)
+
+  const snapshot = await savePersonalitySnapshot(persona.id, bundle.analysis, {
+    source: 'imported',
+    tweetCount: bundle.tweets.length || undefined
+  })
+
+  // Chat recalls from the imported tweets once they're indexed; the import doesn't wait for it
+  if (tweetsImported > 0 && isTweetMemoryEnabled()) {
+    rebuildTweetMemory(persona.username)
+      .catch(error => console.error(`Failed to rebuild tweet memory for ${persona.username}:`, error))
+  }
+
+  return {
+    username: persona.username,
+    cacheVersion,
+    snapshotVersion: snapshot.version,
+    tweetsImported,
+    tweetsSkipped: bundle.tweets.length - tweetsImported
+  }
+}
@@ -0,0 +1,114 @@
+import { initDB } from '@/lib/db'
+import type { DBPersonaTarget, DBUser } from '@/lib/db/adapters/types'
+
+// How many public accounts one user can clone at a time
+export const PERSONA_TARGET_LIMIT = parseInt(process.env.PERSONA_TARGET_LIMIT || '3')
+
+const HANDLE_PATTERN = /^[A-Za-z0-9_]{1,15}$/
+
+export class PersonaAccessError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'PersonaAccessError'
+  }
+}
+
+// "@Someone" -> "someone"; null if it isn't a valid X handle
+export function normalizeHandle(handle: string | null | undefined): string | null {
+  const trimmed = handle?.trim().replace(/^@/, '') ?? ''
+  return HANDLE_PATTERN.test(trimmed) ? trimmed.toLowerCase() : null
+}
+
+function isSelf(owner: DBUser, handle: string): boolean {
+  return owner.username.toLowerCase() === handle
+}
+
+// A handle has one owner at a time; say who holds it and how it frees up
+function claimedByOtherMessage(handle: string, claim: DBPersonaTarget): string {
+  return `@${handle} has already been cloned by @${claim.owner_username}. ` +
+    `It becomes available once they remove it from their personas.`
+}
+
+/**
+ * The persona a request acts on. Without a target that is the signed-in user;
+ * otherwise the target must be an account they cloned.
+ */
+export async function resolvePersona(owner: DBUser, target?: string | null): Promise<DBUser> {
+  if (!target) return owner
+
+  const handle = normalizeHandle(target)
+  if (!handle) {
+    throw new PersonaAccessError('Invalid handle', 400)
+  }
+  if (isSelf(owner, handle)) return owner
+
+  const db = await initDB()
+  const targetUser = await db.getUserByUsername(handle)
+  const claim = targetUser ? await db.getPersonaTarget(targetUser.id) : null
+  if (claim && claim.owner_user_id !== owner.id) {
+    throw new PersonaAccessError(claimedByOtherMessage(handle, claim), 403)
+  }
+  if (!targetUser || !claim) {
+    throw new PersonaAccessError(`You have not cloned @${handle}. Clone it first to use it.`, 403)
+  }
+
+  return targetUser
+}
+
+/**
+ * Clone a public account: create its user row if needed and record the caller
+ * as its owner. A handle has one owner until they remove it, and members' own
+ * accounts can't be claimed.
+ */
+export async function claimPersonaTarget(owner: DBUser, target: string): Promise<DBPersonaTarget> {
+  const handle = normalizeHandle(target)
+  if (!handle) {
+    throw new PersonaAccessError('Invalid handle', 400)
+  }
+  if (isSelf(owner, handle)) {
+    throw new PersonaAccessError('That is your own account', 400)
+  }
+
+  const db = await initDB()
+  let targetUser = await db.getUserByUsername(handle)
+
+  if (targetUser) {
+    const existing = await db.getPersonaTarget(targetUser.id)
+    if (existing?.owner_user_id === owner.id) {
+      return existing
+    }
+    if (existing) {
+      throw new PersonaAccessError(claimedByOtherMessage(handle, existing), 409)
+    }
+    if (await db.access.getUserAccessCode(targetUser.id)) {
+      throw new PersonaAccessError(`@${handle} is a member and manages their own clone`, 409)
+    }
+  }
+
+  const owned = await db.getPersonaTargetsByOwner(owner.id)
+  if (owned.length >= PERSONA_TARGET_LIMIT) {
+    throw new PersonaAccessError(
+      `You can clone up to ${PERSONA_TARGET_LIMIT} accounts. Remove one to add another.`,
+      429
+    )
+  }
+
+  if (!targetUser) {
+    targetUser = await db.createUser({
+      username: handle,
+      twitter_username: handle,
+      created_at: new Date()
+    })
+  }
+
+  const claim = await db.createPersonaTarget(owner.id, targetUser.id)
+  if (!claim) {
+    // Someone else claimed it since the check above
+    const holder = await db.getPersonaTarget(targetUser.id)
+    throw new PersonaAccessError(
+      holder ? claimedByOtherMessage(handle, holder) : `@${handle} has already been cloned by another user`,
+      409
+    )
+  }
+  return claim
+}
@@ -0,0 +1,208 @@
+import { EventEmitter } from 'events'
+import type { WorkerMessage } from '@/lib/twitter/types'
+import type { DBJobEvent } from '@/lib/db/adapters/types'
+import type { AnalysisChunkProgress } from '@/lib/openai/types'
+import { initDB } from '@/lib/db'
+
+// Anything published for a job: worker messages plus the job id, owner and, for analyses, the result
+export type ProgressMessage = WorkerMessage & {
+  jobId?: string
+  username?: string
+  result?: unknown
+  // Analyses waiting in the OpenAI queue
+  queuePosition?: number
+  etaMs?: number
+  // Running analyses: where each chunk stands
+  analysisChunks?: AnalysisChunkProgress[]
+}
+
+interface BusEvent {
+  id?: string
+  message: ProgressMessage
+  terminal: boolean
+}
+
+const MAX_STORED_EVENTS = 50        // Per job, enough to replay a scrape's batches after a reconnect
+const EVENT_TTL_MS = 24 * 60 * 60 * 1000  // Finished jobs' events (tweet batches included) go after a day
+const PRUNE_PROBABILITY = 0.01
+const REPLAY_POLL_MS = 1000         // Picks up events published by other instances
+const KEEP_ALIVE_MS = 15000
+const CLIENT_RETRY_MS = 3000
+
+export function isTerminalMessage(message: ProgressMessage): boolean {
+  return message.type === 'complete' || message.type === 'error'
+}
+
+function toBusEvent(event: DBJobEvent): BusEvent {
+  return {
+    id: event.id,
+    message: event.payload as ProgressMessage,
+    terminal: event.terminal
+  }
+}
+
+/**
+ * Progress events keyed by job id. Every event is stored in job_events before it
+ * is delivered, so a client that reconnects with Last-Event-ID gets what it
+ * missed replayed before the live events.
+ */
+export class ProgressBus {
+  private static instance: ProgressBus
+
+  private events = new EventEmitter()
+  // Publishes for a job are chained so event ids follow the order they were sent in
+  private pending = new Map<string, Promise<void>>()
+
+  private constructor() {
+    this.events.setMaxListeners(0)
+  }
+
+  public static getInstance(): ProgressBus {
+    if (!ProgressBus.instance) {
+      ProgressBus.instance = new ProgressBus()
+    }
+    return ProgressBus.instance
+  }
+
+  public publish(jobId: string, userId: string, message: ProgressMessage): Promise<void> {
+    const previous = this.pending.get(jobId) ?? Promise.resolve()
+    const next = previous.then(() => this.store(jobId, userId, message))
+    this.pending.set(jobId, next)
+
+    next.finally(() => {
+      if (this.pending.get(jobId) === next) {
+        this.pending.delete(jobId)
+      }
+    })
+    return next
+  }
+
+  private async store(jobId: string, userId: string, message: ProgressMessage): Promise<void> {
+    const terminal = isTerminalMessage(message)
+    let event: BusEvent = { message, terminal }
+
+    try {
+      const db = await initDB()
+      const stored = await db.appendJobEvent({
+        jobId,
+        userId,
+        type: message.type,
+        payload: message as Record<string, unknown>,
+        terminal
+      }, MAX_STORED_EVENTS)
+      event = toBusEvent(stored)
+
+      if (Math.random() < PRUNE_PROBABILITY) {
+        db.pruneJobEvents(new Date(Date.now() - EVENT_TTL_MS))
+          .catch(error => console.error('Failed to prune old progress events:', error))
+      }
+    } catch (error) {
+      // Still deliver it live; it just can't be replayed
+      console.error(`Failed to store progress event for job ${jobId}:`, error)
+    }
+
+    this.events.emit(jobId, event)
+  }
+
+  /**
+   * SSE stream for a job: stored events after lastEventId first, then live ones.
+   * The stream ends after the job's complete or error event.
+   */
+  public stream(jobId: string, userId: string, lastEventId?: string): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    let lastId = lastEventId ? Number(lastEventId) : 0
+    let closed = false
+    let cleanup = () => {}
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        let replayed = false
+        let isPolling = false
+        const held: BusEvent[] = []
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          cleanup()
+          controller.close()
+        }
+
+        const send = (event: BusEvent) => {
+          if (closed) return
+          if (event.id) {
+            // Already delivered through the other path
+            if (Number(event.id) <= lastId) return
+            lastId = Number(event.id)
+          }
+
+          const idLine = event.id ? `id: ${event.id}\n` : ''
+          controller.enqueue(encoder.encode(`${idLine}data: ${JSON.stringify(event.message)}\n\n`))
+
+          if (event.terminal) {
+            close()
+          }
+        }
+
+        // Live events wait until the stored ones have been replayed, to keep ids in order
+        const onEvent = (event: BusEvent) => {
+          if (replayed) {
+            send(event)
+          } else {
+            held.push(event)
+          }
+        }
+
+        const catchUp = async () => {
+          if (isPolling || closed) return
+          isPolling = true
+          try {
+            const db = await initDB()
+            const stored = await db.getJobEvents(jobId, userId, lastId ? lastId.toString() : undefined)
+            stored.forEach(event => send(toBusEvent(event)))
+          } catch (error) {
+            console.error(`Failed to replay progress events for job ${jobId}:`, error)
+          } finally {
+            isPolling = false
+          }
+
+          if (!replayed) {
+            replayed = true
+            held.splice(0).forEach(send)
+          }
+        }
+
+        const pollTimer = setInterval(catchUp, REPLAY_POLL_MS)
+        const keepAlive = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'))
+        }, KEEP_ALIVE_MS)
+
+        cleanup = () => {
+          clearInterval(pollTimer)
+          clearInterval(keepAlive)
+          this.events.off(jobId, onEvent)
+        }
+
+        this.events.on(jobId, onEvent)
+        controller.enqueue(encoder.encode(`retry: ${CLIENT_RETRY_MS}\n\n`))
+        catchUp()
+      },
+      cancel: () => {
+        // Client went away; the job keeps running and its events stay replayable
+        closed = true
+        cleanup()
+      }
+    })
+  }
+}
+
+export function sseResponse(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'Content-Encoding': 'none'
+    }
+  })
+}
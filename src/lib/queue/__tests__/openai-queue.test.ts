@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+import type { Tweet, TwitterProfile } from '@/types/scraper';
+import type { AnalysisChunkProgress, PersonalityAnalysis } from '@/lib/openai/types';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from '@/lib/llm';
+import { OpenAIQueueManager, QueueStatus, QueueTerminationError } from '../openai-queue';
+
+// The default analysis fixtures, read up front so replies don't wait on I/O
+// while fake timers run
+function readFixture(format: string): LLMCompletion {
+  const file = path.join(process.cwd(), 'tests', 'fixtures', 'llm', `default-analysis-${format}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf8')).completion;
+}
+
+// Answers every chunk from its fixture, except the chunks listed in failingChunks.
+// While analysisGate is set, chunks wait for it.
+const failingChunks = new Set<string>();
+let analysisGate: Promise<void> | null = null;
+const provider: LLMProvider = {
+  name: 'fixture',
+  model: 'fixture',
+  complete: jest.fn(async (request: LLMCompletionRequest) => {
+    const format = request.responseFormat?.name;
+    if (!format) {
+      throw new Error('Chunks are requested as JSON first');
+    }
+    await analysisGate;
+    if (failingChunks.has(format)) {
+      throw new Error(`${format} is down`);
+    }
+    return readFixture(format);
+  }),
+  stream: jest.fn()
+};
+
+// Chat replies wait in runningChats until the test answers them, keyed by the user's message
+const runningChats = new Map<string, (content: string) => void>();
+const chatProvider: LLMProvider = {
+  name: 'fixture',
+  model: 'fixture',
+  complete: (request: LLMCompletionRequest) => new Promise<LLMCompletion>((resolve, reject) => {
+    const prompt = request.messages[request.messages.length - 1].content;
+    runningChats.set(prompt, content => {
+      runningChats.delete(prompt);
+      resolve({ content, finishReason: 'stop' });
+    });
+    request.signal?.addEventListener('abort', () => {
+      runningChats.delete(prompt);
+      reject(Object.assign(new Error('This operation was aborted'), { name: 'AbortError' }));
+    });
+  }),
+  stream: jest.fn()
+};
+
+jest.mock('@/lib/llm/usage', () => ({
+  getMeteredProvider: (task: string) => task === 'chat' ? chatProvider : provider
+}));
+
+// Chunks are saved to an analysis job so a partial result can be retried
+jest.mock('@/lib/db', () => ({
+  initDB: async () => ({
+    getUserByUsername: async (username: string) => ({ id: username }),
+    getAnalysisChunks: async () => [],
+    createAnalysisJob: async () => 1,
+    updateAnalysisStatus: async () => undefined,
+    saveAnalysisChunk: async () => undefined,
+    incrementProcessedChunks: async () => undefined
+  })
+}));
+
+jest.mock('../rate-limiter', () => ({
+  RateLimiter: class {
+    hasCapacity() { return true; }
+    async checkLimit() { return { allowed: true }; }
+    addRequest() {}
+    removeRequest() {}
+  }
+}));
+
+jest.mock('@/lib/openai/utils/logging', () => ({
+  logRawResponse: jest.fn()
+}));
+
+const tweets: Tweet[] = [
+  'ship the simple version first and see what actually breaks in production',
+  'hot take: most build tooling exists to solve problems the tooling created',
+  'just published a tiny open source library for retrying fetch calls, contributors welcome',
+  'deploy went out on a friday and the only casualty was my third coffee',
+  'if your api needs a diagram to explain one endpoint it is probably doing too much'
+].map((text, index) => ({
+  id: `t${index + 1}`,
+  text,
+  url: `https://x.com/builder/status/t${index + 1}`,
+  createdAt: `2025-01-0${index + 1}T12:00:00.000Z`,
+  timestamp: `2025-01-0${index + 1}T12:00:00.000Z`,
+  metrics: { likes: 10, retweets: 2, views: 300, replies: 1, quotes: 0 },
+  images: [],
+  isReply: false,
+  lang: 'en'
+}));
+
+const profile = { name: 'builder', bio: 'ships things' } as TwitterProfile;
+
+// Runs one analysis through the queue, fast-forwarding the retry delays
+async function analyzeThroughQueue(): Promise<{ result: unknown; chunks: AnalysisChunkProgress[] }> {
+  let chunks: AnalysisChunkProgress[] = [];
+  let settled: { result?: unknown; error?: Error } | null = null;
+
+  await OpenAIQueueManager.getInstance().enqueueRequest(
+    'analyze',
+    {
+      tweets,
+      profile,
+      userId: 'user-1',
+      onChunkProgress: progress => { chunks = progress; }
+    },
+    'builder',
+    result => { settled = { result }; },
+    error => { settled = { error }; }
+  );
+
+  for (let hours = 0; !settled && hours < 1000; hours++) {
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+  }
+  if (!settled) throw new Error('The analysis never finished');
+
+  const { result, error } = settled as { result?: unknown; error?: Error };
+  if (error) throw error;
+  return { result, chunks };
+}
+
+interface QueuedRequest {
+  statuses: QueueStatus[];
+  settled: Promise<{ result?: unknown; error?: Error }>;
+}
+
+function enqueue(type: 'chat' | 'analyze', userId: string, id: string): Promise<QueuedRequest> {
+  const statuses: QueueStatus[] = [];
+  let settle: (outcome: { result?: unknown; error?: Error }) => void = () => {};
+  const settled = new Promise<{ result?: unknown; error?: Error }>(resolve => { settle = resolve; });
+  const data = type === 'chat'
+    ? { messages: [{ role: 'user', content: id, refusal: null }] }
+    : { tweets, profile, userId };
+
+  return OpenAIQueueManager.getInstance().enqueueRequest(
+    type,
+    data as Parameters<OpenAIQueueManager['enqueueRequest']>[1],
+    userId,
+    result => settle({ result }),
+    error => settle({ error }),
+    { id, onStatus: status => statuses.push(status) }
+  ).then(() => ({ statuses, settled }));
+}
+
+// setImmediate is left real in the lane tests so this waits out every pending promise
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+async function answerChat(prompt: string): Promise<void> {
+  const answer = runningChats.get(prompt);
+  if (!answer) throw new Error(`${prompt} is not running`);
+  answer(`re: ${prompt}`);
+  await flush();
+}
+
+describe('OpenAIQueueManager', () => {
+  beforeAll(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => {});
+    }
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('analysis chunk retries', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      failingChunks.clear();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('retries a failing chunk the full number of times, then keeps the rest as a partial analysis', async () => {
+      failingChunks.add('emotional_analysis');
+
+      const { result, chunks } = await analyzeThroughQueue();
+
+      // One attempt plus MAX_ANALYSIS_RETRIES (10) retries
+      expect(chunks.find(chunk => chunk.chunk === 'EMOTIONAL')).toMatchObject({ status: 'failed', attempts: 11 });
+      expect(chunks.filter(chunk => chunk.chunk !== 'EMOTIONAL').map(chunk => chunk.attempts))
+        .toEqual([1, 1, 1, 1, 1]);
+      expect((result as PersonalityAnalysis).partial).toEqual({ jobId: 1, failedChunks: ['EMOTIONAL'] });
+    });
+  });
+
+  describe('lanes', () => {
+    const queue = () => OpenAIQueueManager.getInstance();
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    });
+
+    // Answering a chat starts the next queued one, so drain until none are left
+    afterEach(async () => {
+      while (runningChats.size > 0) {
+        await answerChat(runningChats.keys().next().value!);
+      }
+      jest.useRealTimers();
+    });
+
+    it('runs at most two analyses at once and keeps chat slots free', async () => {
+      let openGate: () => void = () => {};
+      analysisGate = new Promise(resolve => { openGate = resolve; });
+
+      const analyses = [
+        await enqueue('analyze', 'analyst-1', 'analysis-1'),
+        await enqueue('analyze', 'analyst-2', 'analysis-2'),
+        await enqueue('analyze', 'analyst-3', 'analysis-3')
+      ];
+      await enqueue('chat', 'chatter', 'chat-1');
+      await flush();
+
+      expect(queue().getRequestStatus('analysis-2', 'analyst-2')).toMatchObject({ state: 'running' });
+      expect(queue().getRequestStatus('analysis-3', 'analyst-3')).toMatchObject({ lane: 'batch', state: 'queued', position: 1 });
+      expect(runningChats.has('chat-1')).toBe(true);
+
+      await answerChat('chat-1');
+      openGate();
+      analysisGate = null;
+      for (let hours = 0; hours < 100 && queue().getActiveRequests() > 0; hours++) {
+        await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+      }
+
+      for (const analysis of analyses) {
+        expect((await analysis.settled).error).toBeUndefined();
+      }
+      expect(analyses[2].statuses.map(status => status.state)).toEqual(['queued', 'running']);
+    });
+
+    it('lets a light user go ahead of a heavy user\'s backlog', async () => {
+      for (let n = 1; n <= 7; n++) {
+        await enqueue('chat', 'heavy', `heavy-${n}`);
+      }
+      const light = await enqueue('chat', 'light', 'light-1');
+      await flush();
+
+      expect(runningChats.size).toBe(5);
+      expect(queue().getRequestStatus('light-1', 'light')).toMatchObject({ state: 'queued', position: 1 });
+      expect(queue().getRequestStatus('heavy-6', 'heavy')).toMatchObject({ state: 'queued', position: 2 });
+      expect(light.statuses[0].etaMs).toBeGreaterThan(0);
+
+      await answerChat('heavy-1');
+
+      expect(runningChats.has('light-1')).toBe(true);
+      expect(runningChats.has('heavy-6')).toBe(false);
+      expect(light.statuses[light.statuses.length - 1]).toMatchObject({ state: 'running', position: 0, etaMs: 0 });
+    });
+
+    it('cancels a queued request by id and moves the rest up', async () => {
+      for (let n = 1; n <= 5; n++) {
+        await enqueue('chat', 'busy', `busy-${n}`);
+      }
+      const first = await enqueue('chat', 'waiting', 'waiting-1');
+      const second = await enqueue('chat', 'waiting', 'waiting-2');
+      await flush();
+
+      expect(queue().cancelRequest('waiting-1', 'someone-else')).toBe('not_found');
+      expect(queue().cancelRequest('waiting-1', 'waiting')).toBe('cancelled');
+
+      expect((await first.settled).error).toBeInstanceOf(QueueTerminationError);
+      expect(queue().getRequestStatus('waiting-1', 'waiting')).toBeNull();
+      expect(second.statuses.map(status => status.position)).toEqual([2, 1]);
+    });
+
+    it('aborts a running request when it is cancelled', async () => {
+      const chat = await enqueue('chat', 'quitter', 'quit-1');
+      await flush();
+      expect(runningChats.has('quit-1')).toBe(true);
+
+      expect(queue().cancelRequest('quit-1', 'quitter')).toBe('cancelled');
+
+      const { error } = await chat.settled;
+      expect(error).toBeInstanceOf(QueueTerminationError);
+      expect(error?.message).toBe('Request was cancelled: Request was cancelled');
+      expect(runningChats.has('quit-1')).toBe(false);
+      await flush();
+      expect(queue().getActiveRequests()).toBe(0);
+    });
+  });
+});
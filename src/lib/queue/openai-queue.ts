@@ -1,13 +1,61 @@
-import OpenAI from 'openai'
 import { analyzePersonality } from '@/lib/openai/openai'
 import { retryWithExponentialBackoff } from '@/lib/openai/utils/retry'
 import { Tweet, TwitterProfile, PersonalityTuning } from '@/types/scraper'
 import type { ChatCompletionMessage } from 'openai/resources/chat/completions'
+import type { AnalysisChunkProgress, PersonalityAnalysis } from '@/lib/openai/types'
 import { RateLimiter } from './rate-limiter'
+import { RateLimitExceededError } from '@/lib/rate-limiter'
+import { getLLMProvider, type LLMMessage, type LLMProvider, type LLMTask } from '@/lib/llm'
+import { getMeteredProvider } from '@/lib/llm/usage'
+import { initDB } from '@/lib/db'
 
 // Queue Item Types
 type QueueItemType = 'chat' | 'analyze'
 
+// Chat turns are interactive; analyses are long batch jobs. Each lane has its own
+// concurrency cap so analyses can never take every slot.
+export type QueueLane = 'interactive' | 'batch'
+
+interface LaneConfig {
+  // Share of dispatches when both lanes are busy, relative to the other lane
+  weight: number
+  maxConcurrent: number
+  // Work units per request: an analysis is six chunk completions
+  cost: number
+  // Starting guess for ETAs until real durations have been seen
+  initialDurationMs: number
+}
+
+const LANES: Record<QueueLane, LaneConfig> = {
+  interactive: { weight: 4, maxConcurrent: 5, cost: 1, initialDurationMs: 5000 },
+  batch: { weight: 1, maxConcurrent: 2, cost: 6, initialDurationMs: 90000 }
+}
+
+const LANE_FOR_TYPE: Record<QueueItemType, QueueLane> = {
+  chat: 'interactive',
+  analyze: 'batch'
+}
+
+// Weight of the newest duration in each lane's moving average
+const DURATION_SMOOTHING = 0.2
+
+export interface QueueStatus {
+  id: string
+  lane: QueueLane
+  state: 'queued' | 'running'
+  // 1-based place among waiting requests; 0 once running
+  position: number
+  // Estimated wait until the request starts
+  etaMs: number
+}
+
+export interface EnqueueOptions {
+  // Caller-chosen id, e.g. the analysis progress job id, so the client can cancel by it
+  id?: string
+  // Called on enqueue, whenever the request moves up, and when it starts
+  onStatus?: (status: QueueStatus) => void
+}
+
 // Custom error types
 export class NetworkError extends Error {
   constructor(message: string, public originalError?: Error) {
@@ -30,6 +78,14 @@ export class RetryableError extends Error {
   }
 }
 
+// Chat routes build messages with the OpenAI SDK's types; providers take plain role/content pairs
+function toLLMMessages(messages: ChatCompletionMessage[]): LLMMessage[] {
+  return messages.map(message => ({
+    role: message.role as LLMMessage['role'],
+    content: message.content ?? ''
+  }));
+}
+
 // Define OpenAITwitterProfile type
 interface OpenAITwitterProfile extends Omit<TwitterProfile, 'followersCount' | 'followingCount'> {
   followersCount: string | null;
@@ -48,13 +104,23 @@ function convertProfile(profile: TwitterProfile): OpenAITwitterProfile {
 interface QueueItem {
   id: string
   type: QueueItemType
+  lane: QueueLane
   data: ChatRequest | AnalyzeRequest
   userId: string
+  // Chosen at enqueue time: the task's provider, or its downgrade for users over budget
+  provider: LLMProvider
   attempts: number
   lastAttempt?: Date
   createdAt: Date
   onComplete: (result: unknown) => void
   onError: (error: Error) => void
+  onStatus?: (status: QueueStatus) => void
+  // Fair queuing tags: requests are dispatched in finish tag order
+  startTag: number
+  finishTag: number
+  lastPosition?: number
+  controller?: AbortController
+  startedAt?: number
 }
 
 interface ChatRequest {
@@ -69,6 +135,11 @@ interface ChatRequest {
     state?: string
     effects?: string[]
   }
+  // Streaming: called with each content delta as it arrives. The final
+  // message still goes to onComplete once the stream ends.
+  onDelta?: (delta: string) => void
+  // Aborts the request, whether it is still queued or already streaming
+  signal?: AbortSignal
 }
 
 interface AnalyzeRequest {
@@ -78,33 +149,32 @@ interface AnalyzeRequest {
   context?: string
   currentTuning?: PersonalityTuning
   userId: string
+  // Earlier job whose completed chunks are reused, so only its failed chunks run
+  resumeJobId?: number
+  onChunkProgress?: (chunks: AnalysisChunkProgress[]) => void
 }
 
 export class OpenAIQueueManager {
   private static instance: OpenAIQueueManager
   private queue: QueueItem[] = []
-  private processing: boolean = false
+  private active: Map<string, QueueItem> = new Map()
   private maxConcurrent: number = 5
   private activeRequests: number = 0
-  private openai: OpenAI
   private rateLimiter: RateLimiter
-  private abortController: AbortController | null = null
   private cleanupHandlers: Set<() => void> = new Set()
-  private networkTimeoutMs: number = 30000 // 30 second timeout
 
-  private constructor() {
-    console.log('[OpenAI Queue] Initializing OpenAI client with config:', {
-      baseURL: process.env.OPENAI_BASE_URL,
-      maxRetries: 3,
-      timeout: this.networkTimeoutMs
-    });
+  // Weighted fair queuing state: each user's flow in each lane advances its
+  // finish tag by cost / lane weight per request, and the virtual clock follows
+  // the start tag of whatever was dispatched last. Heavy users queue behind
+  // their own backlog instead of everyone else's.
+  private virtualTime: number = 0
+  private flowFinishTags: Map<string, number> = new Map()
+  private laneDurations: Record<QueueLane, number> = {
+    interactive: LANES.interactive.initialDurationMs,
+    batch: LANES.batch.initialDurationMs
+  }
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      maxRetries: 3,
-      timeout: this.networkTimeoutMs,
-      baseURL: process.env.OPENAI_BASE_URL,
-    })
+  private constructor() {
     this.rateLimiter = new RateLimiter({
       windowMs: 60 * 1000,
       maxRequests: 50,
@@ -210,8 +280,8 @@ export class OpenAIQueueManager {
 
   private cleanup(reason: string) {
     // Cancel ongoing requests
-    if (this.abortController) {
-      this.abortController.abort(reason);
+    for (const item of this.active.values()) {
+      item.controller?.abort(reason);
     }
 
     // Execute all cleanup handlers
@@ -227,7 +297,6 @@ export class OpenAIQueueManager {
     this.saveQueueState();
 
     // Reset instance state
-    this.processing = false;
     this.activeRequests = 0;
     this.cleanupHandlers.clear();
   }
@@ -254,149 +323,330 @@ export class OpenAIQueueManager {
     data: ChatRequest | AnalyzeRequest,
     userId: string,
     onComplete: (result: unknown) => void,
-    onError: (error: Error) => void
-  ): Promise<void> {
+    onError: (error: Error) => void,
+    options: EnqueueOptions = {}
+  ): Promise<string | null> {
     try {
-      // Check rate limit before enqueueing
-      if (!this.rateLimiter.isAllowed(userId)) {
-        const timeUntilReset = this.rateLimiter.getTimeUntilReset(userId);
-        throw new Error(`Rate limit exceeded. Please try again in ${Math.ceil(timeUntilReset / 1000)} seconds`);
+      const id = options.id ?? `${type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      if (this.active.has(id) || this.queue.some(queued => queued.id === id)) {
+        throw new Error(`Request ${id} is already queued`);
       }
 
+      // Check rate limits before enqueueing
+      if (!this.rateLimiter.hasCapacity(userId)) {
+        throw new Error('Too many requests in progress. Please wait for one to finish');
+      }
+      const rateLimit = await this.rateLimiter.checkLimit(userId);
+      if (!rateLimit.allowed) {
+        throw new RateLimitExceededError(rateLimit);
+      }
+
+      // Rejects users over their budget (BudgetExceededError) before they take a slot
+      const provider = await this.resolveProvider(type, data, userId);
+
+      const lane = LANE_FOR_TYPE[type];
+      const flow = `${lane}:${userId}`;
+      const startTag = Math.max(this.virtualTime, this.flowFinishTags.get(flow) ?? 0);
+      const finishTag = startTag + LANES[lane].cost / LANES[lane].weight;
+      this.flowFinishTags.set(flow, finishTag);
+
       const item: QueueItem = {
-        id: `${type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        id,
         type,
+        lane,
         data,
         userId,
+        provider,
         attempts: 0,
         createdAt: new Date(),
         onComplete,
-        onError
+        onError,
+        onStatus: options.onStatus,
+        startTag,
+        finishTag
       };
 
       this.queue.push(item);
-      console.log(`Added ${type} request to queue. Queue length: ${this.queue.length}`);
-
-      if (!this.processing) {
-        this.processQueue();
+      console.log(`Added ${type} request to ${lane} lane. Queue length: ${this.queue.length}`);
+
+      // A chat aborted while still waiting leaves the queue straight away
+      if (type === 'chat') {
+        (data as ChatRequest).signal?.addEventListener(
+          'abort',
+          () => this.cancelRequest(id, userId, { queuedOnly: true }),
+          { once: true }
+        );
       }
+
+      this.processQueue();
+      return id;
     } catch (error) {
       onError(error instanceof Error ? error : new Error(String(error)));
+      return null;
     }
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing || this.queue.length === 0 || this.activeRequests >= this.maxConcurrent) {
-      return;
+  /**
+   * Cancel a request by id. Queued requests are dropped and fail with a
+   * QueueTerminationError; running ones are aborted unless queuedOnly is set.
+   * Only the user who queued a request can cancel it.
+   */
+  public cancelRequest(
+    id: string,
+    userId: string,
+    { queuedOnly = false }: { queuedOnly?: boolean } = {}
+  ): 'cancelled' | 'running' | 'not_found' {
+    const index = this.queue.findIndex(item => item.id === id && item.userId === userId);
+    if (index !== -1) {
+      const [item] = this.queue.splice(index, 1);
+      console.log(`Cancelled queued ${item.type} request ${id}`);
+      item.onError(new QueueTerminationError('Request was cancelled'));
+      this.reportPositions();
+      return 'cancelled';
     }
 
-    this.processing = true;
-    this.abortController = new AbortController();
+    const running = this.active.get(id);
+    if (!running || running.userId !== userId) {
+      return 'not_found';
+    }
+    if (queuedOnly) {
+      return 'running';
+    }
+    running.controller?.abort('Request was cancelled');
+    return 'cancelled';
+  }
 
-    try {
-      while (this.queue.length > 0 && this.activeRequests < this.maxConcurrent) {
-        const item = this.queue.shift();
-        if (!item) continue;
-
-        // Add to rate limiter and increment active requests
-        this.rateLimiter.addRequest(item.userId);
-        this.activeRequests++;
-        console.log(`Processing ${item.type} request. Active requests: ${this.activeRequests}`);
-
-        this.processItem(item).finally(() => {
-          // Remove from rate limiter and decrement active requests
-          this.rateLimiter.removeRequest(item.userId);
-          this.activeRequests--;
-          console.log(`Completed ${item.type} request. Active requests: ${this.activeRequests}`);
-        });
+  public getRequestStatus(id: string, userId: string): QueueStatus | null {
+    const running = this.active.get(id);
+    if (running) {
+      return running.userId === userId
+        ? { id, lane: running.lane, state: 'running', position: 0, etaMs: 0 }
+        : null;
+    }
+
+    const ordered = this.dispatchOrder();
+    const index = ordered.findIndex(item => item.id === id);
+    if (index === -1 || ordered[index].userId !== userId) {
+      return null;
+    }
+    return this.statusAt(ordered, index);
+  }
+
+  // Waiting requests in the order they would be dispatched if every lane had room
+  private dispatchOrder(): QueueItem[] {
+    return [...this.queue].sort((a, b) => a.finishTag - b.finishTag || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private activeInLane(lane: QueueLane): number {
+    let count = 0;
+    for (const item of this.active.values()) {
+      if (item.lane === lane) count++;
+    }
+    return count;
+  }
+
+  private statusAt(ordered: QueueItem[], index: number): QueueStatus {
+    const item = ordered[index];
+    const lane = LANES[item.lane];
+    const capacity = Math.min(lane.maxConcurrent, this.maxConcurrent);
+
+    // Requests in the same lane that start first, plus those already running,
+    // go through the lane's slots in waves of one average duration each
+    const aheadInLane = ordered.slice(0, index).filter(other => other.lane === item.lane).length;
+    const waves = Math.floor((aheadInLane + this.activeInLane(item.lane)) / capacity);
+
+    return {
+      id: item.id,
+      lane: item.lane,
+      state: 'queued',
+      position: index + 1,
+      etaMs: Math.round(waves * this.laneDurations[item.lane])
+    };
+  }
+
+  // Tell waiting callers about their new place in line
+  private reportPositions(): void {
+    const ordered = this.dispatchOrder();
+    ordered.forEach((item, index) => {
+      if (!item.onStatus || item.lastPosition === index + 1) return;
+      item.lastPosition = index + 1;
+      try {
+        item.onStatus(this.statusAt(ordered, index));
+      } catch (error) {
+        console.error('Queue status callback failed:', error);
       }
-    } catch (error) {
-      console.error('Error in queue processing:', error);
-    } finally {
-      this.processing = false;
-      this.abortController = null;
-      
-      // If there are more items and we're not at max capacity, continue processing
-      if (this.queue.length > 0 && this.activeRequests < this.maxConcurrent) {
-        this.processQueue();
+    });
+  }
+
+  private async resolveProvider(
+    type: QueueItemType,
+    data: ChatRequest | AnalyzeRequest,
+    username: string
+  ): Promise<LLMProvider> {
+    const task: LLMTask = type === 'chat' ? 'chat' : 'analysis';
+
+    // Chat is queued under the username; analysis requests carry the user id
+    const userId = type === 'analyze'
+      ? (data as AnalyzeRequest).userId
+      : (await (await initDB()).getUserByUsername(username))?.id;
+
+    if (!userId) {
+      console.warn(`[OpenAI Queue] No user found for ${username}, usage will not be metered`);
+      return getLLMProvider(task);
+    }
+    return getMeteredProvider(task, userId);
+  }
+
+  // The waiting request with the smallest finish tag whose lane has a free slot
+  private nextItem(): QueueItem | null {
+    let next: QueueItem | null = null;
+    for (const item of this.queue) {
+      if (this.activeInLane(item.lane) >= LANES[item.lane].maxConcurrent) continue;
+      if (!next || item.finishTag < next.finishTag) {
+        next = item;
       }
     }
+    return next;
+  }
+
+  private processQueue(): void {
+    while (this.activeRequests < this.maxConcurrent) {
+      const item = this.nextItem();
+      if (!item) break;
+
+      this.queue.splice(this.queue.indexOf(item), 1);
+      this.virtualTime = Math.max(this.virtualTime, item.startTag);
+      this.startItem(item);
+    }
+
+    // Flows that have nothing left ahead of the clock no longer need their tag
+    for (const [flow, finishTag] of this.flowFinishTags) {
+      if (finishTag <= this.virtualTime) {
+        this.flowFinishTags.delete(flow);
+      }
+    }
+
+    this.reportPositions();
+  }
+
+  private startItem(item: QueueItem): void {
+    // Add to rate limiter and increment active requests
+    this.rateLimiter.addRequest(item.userId);
+    this.activeRequests++;
+    item.controller = new AbortController();
+    item.startedAt = Date.now();
+    this.active.set(item.id, item);
+    console.log(`Processing ${item.type} request. Active requests: ${this.activeRequests}`);
+
+    try {
+      item.onStatus?.({ id: item.id, lane: item.lane, state: 'running', position: 0, etaMs: 0 });
+    } catch (error) {
+      console.error('Queue status callback failed:', error);
+    }
+
+    this.processItem(item).finally(() => {
+      // Remove from rate limiter and decrement active requests
+      this.rateLimiter.removeRequest(item.userId);
+      this.activeRequests--;
+      this.active.delete(item.id);
+
+      const duration = Date.now() - (item.startedAt ?? Date.now());
+      this.laneDurations[item.lane] += DURATION_SMOOTHING * (duration - this.laneDurations[item.lane]);
+      console.log(`Completed ${item.type} request. Active requests: ${this.activeRequests}`);
+
+      // A slot just opened
+      this.processQueue();
+    });
   }
 
   private async processItem(item: QueueItem): Promise<void> {
     try {
       let result: unknown;
 
-      // Create a signal for this specific request
-      const controller = new AbortController();
-      this.addCleanupHandler(() => controller.abort('Operation cancelled'));
+      // Aborted by cancelRequest or when the queue shuts down
+      const controller = item.controller ?? new AbortController();
+      const abortOnCleanup = () => controller.abort('Operation cancelled');
+      this.addCleanupHandler(abortOnCleanup);
 
       try {
         if (item.type === 'chat') {
-          result = await retryWithExponentialBackoff(() => 
-            this.processChatRequest(item.data as ChatRequest, controller.signal)
-          );
+          const chatData = item.data as ChatRequest;
+          if (chatData.signal?.aborted) {
+            throw new QueueTerminationError('Chat request was cancelled');
+          }
+          chatData.signal?.addEventListener('abort', () => controller.abort('Chat request was cancelled'));
+
+          // Deltas already sent can't be taken back, so streams aren't retried
+          result = chatData.onDelta
+            ? await this.processChatStream(chatData, item.provider, controller.signal)
+            : await retryWithExponentialBackoff(() => 
+              this.processChatRequest(chatData, item.provider, controller.signal)
+            );
         } else if (item.type === 'analyze') {
           const analyzeData = item.data as AnalyzeRequest;
           
-          // Use retryWithExponentialBackoff for analyze requests too
-          result = await retryWithExponentialBackoff(async () => {
-            const analysisResult = await analyzePersonality(
-              analyzeData.tweets,
-              convertProfile(analyzeData.profile),
-              analyzeData.prompt,
-              analyzeData.context,
-              undefined, // systemPrompt
-              item.attempts,
-              0.7, // temperature
-              0.6, // presencePenalty
-              0.5, // frequencyPenalty
-              1000, // maxTokens
-              0.9, // topP
-              1, // bestOf
-              analyzeData.currentTuning, // Pass the entire PersonalityTuning object
-              undefined, // customInstructions
-              controller.signal,
-              analyzeData.userId // Pass the userId here
-            );
-
-            // Validate the result has required fields
-            if (!analysisResult || typeof analysisResult !== 'object') {
-              throw new Error('Invalid analysis result format');
+          // Not retried as a whole: each chunk retries on its own, and a run
+          // that still has failed chunks comes back partial, to be resumed
+          const analysisResult = await analyzePersonality(
+            analyzeData.tweets,
+            convertProfile(analyzeData.profile),
+            analyzeData.prompt,
+            analyzeData.context,
+            undefined, // regenerationKey
+            0, // retryCount
+            0, // interestsRetryCount
+            0, // psychoRetryCount
+            0, // socialMetricsRetryCount
+            0, // emotionalToneRetryCount
+            0, // vocabularyPatternsRetryCount
+            0, // communicationPatternsRetryCount
+            analyzeData.currentTuning, // Pass the entire PersonalityTuning object
+            undefined, // onProgress
+            controller.signal,
+            analyzeData.userId, // Pass the userId here
+            undefined, // startFromChunk
+            item.provider,
+            {
+              resumeJobId: analyzeData.resumeJobId,
+              onChunkProgress: analyzeData.onChunkProgress
             }
+          );
 
-            const requiredFields = [
+          // Validate the result has required fields
+          if (!analysisResult || typeof analysisResult !== 'object') {
+            throw new Error('Invalid analysis result format');
+          }
+
+          // Custom prompts come back as { response }; analyses need every section
+          if (!('response' in analysisResult)) {
+            const requiredFields: Array<keyof PersonalityAnalysis> = [
               'traits',
               'interests',
               'communicationStyle',
               'vocabulary',
-              'vocabularyMetrics',
-              'messageArchitecture',
               'emotionalTone',
               'topicsAndThemes',
               'thoughtProcess',
               'socialBehaviorMetrics'
             ];
 
-            const missingFields = requiredFields.filter(field => 
-              !analysisResult[field as keyof typeof analysisResult]
-            );
+            const missingFields = requiredFields.filter(field => !analysisResult[field]);
 
             if (missingFields.length > 0) {
               console.error('Missing fields in analysis result:', missingFields);
               console.error('Analysis result:', analysisResult);
               throw new Error(`Missing required fields in analysis result: ${missingFields.join(', ')}`);
             }
+          }
 
-            return analysisResult;
-          });
+          result = analysisResult;
         } else {
           throw new Error(`Unknown request type: ${item.type}`);
         }
 
         item.onComplete(result);
       } finally {
-        this.removeCleanupHandler(() => controller.abort('Operation cancelled'));
+        this.removeCleanupHandler(abortOnCleanup);
       }
     } catch (error) {
       console.error(`Error processing ${item.type} request:`, error);
@@ -411,37 +661,71 @@ export class OpenAIQueueManager {
         });
       }
       
+      if (item.controller?.signal.aborted) {
+        item.onError(new QueueTerminationError(`Request was cancelled: ${String(item.controller.signal.reason)}`));
+        return;
+      }
+
       item.onError(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
-  private async processChatRequest(data: ChatRequest, signal?: AbortSignal): Promise<ChatCompletionMessage> {
+  private async processChatRequest(data: ChatRequest, provider: LLMProvider, signal?: AbortSignal): Promise<ChatCompletionMessage> {
     const { messages, tuning } = data;
     
     console.log('[OpenAI Queue] Making chat request with config:', {
-      model: "gpt-4o-mini",
+      provider: provider.name,
+      model: provider.model,
       temperature: tuning?.temperature ?? 0.7,
       max_tokens: tuning?.maxTokens ?? 500,
       messageCount: messages.length
     });
 
-    const response = await this.openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages,
+    const response = await provider.complete({
+      messages: toLLMMessages(messages),
+      temperature: tuning?.temperature,
+      maxTokens: tuning?.maxTokens,
+      presencePenalty: tuning?.presencePenalty,
+      frequencyPenalty: tuning?.frequencyPenalty,
+      signal
+    });
+
+    console.log('[OpenAI Queue] Received chat response:', {
+      status: 'success',
+      responseLength: response.content.length,
+      finishReason: response.finishReason
+    });
+
+    return { role: 'assistant', content: response.content } as ChatCompletionMessage;
+  }
+
+  private async processChatStream(data: ChatRequest, provider: LLMProvider, signal?: AbortSignal): Promise<ChatCompletionMessage> {
+    const { messages, tuning, onDelta } = data;
+
+    console.log('[OpenAI Queue] Making streaming chat request with config:', {
+      provider: provider.name,
+      model: provider.model,
       temperature: tuning?.temperature ?? 0.7,
       max_tokens: tuning?.maxTokens ?? 500,
-      presence_penalty: tuning?.presencePenalty ?? 0.6,
-      frequency_penalty: tuning?.frequencyPenalty ?? 0.5,
-      top_p: 0.9
-    }, { signal });
+      messageCount: messages.length
+    });
 
-    console.log('[OpenAI Queue] Received chat response:', {
+    const response = await provider.stream({
+      messages: toLLMMessages(messages),
+      temperature: tuning?.temperature,
+      maxTokens: tuning?.maxTokens,
+      presencePenalty: tuning?.presencePenalty,
+      frequencyPenalty: tuning?.frequencyPenalty,
+      signal
+    }, delta => onDelta?.(delta));
+
+    console.log('[OpenAI Queue] Finished chat stream:', {
       status: 'success',
-      responseLength: response.choices[0].message.content?.length || 0,
-      finishReason: response.choices[0].finish_reason
+      responseLength: response.content.length,
+      finishReason: response.finishReason
     });
 
-    return response.choices[0].message;
+    return { role: 'assistant', content: response.content } as ChatCompletionMessage;
   }
 
   // Utility methods
@@ -456,12 +740,4 @@ export class OpenAIQueueManager {
   public clearQueue(): void {
     this.queue = []
   }
-
-  public getRemainingRequests(userId: string): number {
-    return this.rateLimiter.getRemainingRequests(userId)
-  }
-
-  public getTimeUntilReset(userId: string): number {
-    return this.rateLimiter.getTimeUntilReset(userId)
-  }
 } 
\ No newline at end of file
@@ -1,13 +1,20 @@
+import { RateLimiter as SharedRateLimiter, RateLimitResult } from '../rate-limiter';
+
 interface RateLimitConfig {
   windowMs: number;      // Time window in milliseconds
   maxRequests: number;   // Max requests per window
   maxConcurrent: number; // Max concurrent requests
 }
 
+/**
+ * Per-user limits for the OpenAI queue. The request rate is a shared Postgres
+ * token bucket, so it holds across restarts and instances; the concurrency cap
+ * counts requests running in this process, which is where they run.
+ */
 export class RateLimiter {
-  private requests: Map<string, number[]> = new Map();
   private activeRequests: Map<string, number> = new Map();
   private readonly config: RateLimitConfig;
+  private readonly requests: SharedRateLimiter;
 
   constructor(config?: Partial<RateLimitConfig>) {
     this.config = {
@@ -15,32 +22,28 @@ export class RateLimiter {
       maxRequests: config?.maxRequests ?? 30,         // 30 requests per minute
       maxConcurrent: config?.maxConcurrent ?? 2       // 2 concurrent requests
     };
+    this.requests = new SharedRateLimiter('openai-queue', this.config.maxRequests, this.config.windowMs);
   }
 
-  public isAllowed(userId: string): boolean {
-    const now = Date.now();
-    
-    // Check window-based rate limit
-    if (!this.checkWindowLimit(userId, now)) {
-      console.log(`Rate limit exceeded for user ${userId} - too many requests in window`);
-      return false;
-    }
-
-    // Check concurrent requests limit
-    if (!this.checkConcurrentLimit(userId)) {
+  public hasCapacity(userId: string): boolean {
+    const activeCount = this.activeRequests.get(userId) || 0;
+    if (activeCount >= this.config.maxConcurrent) {
       console.log(`Rate limit exceeded for user ${userId} - too many concurrent requests`);
       return false;
     }
-
     return true;
   }
 
-  public addRequest(userId: string): void {
-    const now = Date.now();
-    const userRequests = this.requests.get(userId) || [];
-    userRequests.push(now);
-    this.requests.set(userId, userRequests);
+  // Takes one request from the user's shared bucket
+  public async checkLimit(userId: string): Promise<RateLimitResult> {
+    const result = await this.requests.checkLimit(userId);
+    if (!result.allowed) {
+      console.log(`Rate limit exceeded for user ${userId} - too many requests in window`);
+    }
+    return result;
+  }
 
+  public addRequest(userId: string): void {
     // Increment active requests
     const activeCount = this.activeRequests.get(userId) || 0;
     this.activeRequests.set(userId, activeCount + 1);
@@ -49,60 +52,14 @@ export class RateLimiter {
   public removeRequest(userId: string): void {
     // Decrement active requests
     const activeCount = this.activeRequests.get(userId) || 0;
-    if (activeCount > 0) {
+    if (activeCount > 1) {
       this.activeRequests.set(userId, activeCount - 1);
+    } else {
+      this.activeRequests.delete(userId);
     }
   }
 
-  public getRemainingRequests(userId: string): number {
-    const now = Date.now();
-    const recentRequests = this.getRecentRequests(userId, now);
-    return Math.max(0, this.config.maxRequests - recentRequests.length);
-  }
-
-  public getTimeUntilReset(userId: string): number {
-    const now = Date.now();
-    const recentRequests = this.getRecentRequests(userId, now);
-    if (recentRequests.length === 0) return 0;
-
-    const oldestRequest = recentRequests[0];
-    return Math.max(0, this.config.windowMs - (now - oldestRequest));
-  }
-
-  private checkWindowLimit(userId: string, now: Date | number): boolean {
-    const recentRequests = this.getRecentRequests(userId, now);
-    return recentRequests.length < this.config.maxRequests;
-  }
-
-  private checkConcurrentLimit(userId: string): boolean {
-    const activeCount = this.activeRequests.get(userId) || 0;
-    return activeCount < this.config.maxConcurrent;
-  }
-
-  private getRecentRequests(userId: string, now: Date | number): number[] {
-    const userRequests = this.requests.get(userId) || [];
-    
-    // Filter requests within the time window
-    const recentRequests = userRequests.filter(time => 
-      now.valueOf() - time < this.config.windowMs
-    );
-
-    // Update stored requests if we filtered any out
-    if (recentRequests.length < userRequests.length) {
-      this.requests.set(userId, recentRequests);
-    }
-
-    return recentRequests;
-  }
-
-  // Utility methods
-  public clearUserHistory(userId: string): void {
-    this.requests.delete(userId);
-    this.activeRequests.delete(userId);
+  public getActiveRequests(userId: string): number {
+    return this.activeRequests.get(userId) || 0;
   }
-
-  public clearAllHistory(): void {
-    this.requests.clear();
-    this.activeRequests.clear();
-  }
-} 
\ No newline at end of file
+}
@@ -1,14 +1,28 @@
+import { initDB } from './db';
+
 export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
-  reset: number;
+  reset: number;       // Seconds until the bucket is full again
+  retryAfter: number;  // Seconds until this request would be allowed; 0 when it was
+  windowSeconds: number;
 }
 
+// Buckets untouched for this long have refilled completely and can go
+const PRUNE_IDLE_MS = 24 * 60 * 60 * 1000;
+const PRUNE_PROBABILITY = 0.01;
+
+/**
+ * Token bucket rate limiter shared by every app instance through Postgres.
+ * A bucket holds up to maxRequests tokens and refills at maxRequests per
+ * windowMs, so bursts up to the limit are allowed and the steady rate is
+ * maxRequests per window.
+ */
 export class RateLimiter {
   private readonly namespace: string;
   private readonly maxRequests: number;
   private readonly windowMs: number;
-  private readonly requests: Map<string, number[]>;
 
   constructor(
     namespace: string,
@@ -18,58 +32,74 @@ export class RateLimiter {
     this.namespace = namespace;
     this.maxRequests = maxRequests;
     this.windowMs = windowMs;
-    this.requests = new Map();
   }
 
   private getKey(identifier: string): string {
     return `${this.namespace}:${identifier}`;
   }
 
-  async checkLimit(identifier: string): Promise<RateLimitResult> {
-    const key = this.getKey(identifier);
-    const now = Date.now();
-    const windowStart = now - this.windowMs;
+  private get refillPerSecond(): number {
+    return this.maxRequests / (this.windowMs / 1000);
+  }
 
-    // Get or initialize request timestamps array
-    let timestamps = this.requests.get(key) || [];
-    
-    // Remove old timestamps
-    timestamps = timestamps.filter(time => time > windowStart);
-    
-    // Add current request timestamp
-    timestamps.push(now);
-    
-    // Update the map
-    this.requests.set(key, timestamps);
+  async checkLimit(identifier: string, cost: number = 1): Promise<RateLimitResult> {
+    const windowSeconds = Math.ceil(this.windowMs / 1000);
 
-    const requestCount = timestamps.length;
-    const allowed = requestCount <= this.maxRequests;
-    const remaining = Math.max(0, this.maxRequests - requestCount);
-    
-    // If not allowed, reset time is when the oldest request expires
-    // If allowed, reset time is when the current request expires
-    const resetTimestamp = allowed ? now : timestamps[0];
-    const reset = Math.ceil((resetTimestamp + this.windowMs) / 1000);
+    try {
+      const db = await initDB();
+      const { allowed, tokens } = await db.consumeRateLimit(this.getKey(identifier), {
+        capacity: this.maxRequests,
+        refillPerSecond: this.refillPerSecond,
+        cost
+      });
 
-    return {
-      allowed,
-      remaining,
-      reset
-    };
+      if (Math.random() < PRUNE_PROBABILITY) {
+        db.pruneRateLimits(new Date(Date.now() - PRUNE_IDLE_MS))
+          .catch(error => console.error('[RateLimiter] Failed to prune buckets:', error));
+      }
+
+      return {
+        allowed,
+        limit: this.maxRequests,
+        remaining: Math.max(0, Math.floor(tokens)),
+        reset: Math.ceil((this.maxRequests - tokens) / this.refillPerSecond),
+        retryAfter: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / this.refillPerSecond)),
+        windowSeconds
+      };
+    } catch (error) {
+      // A database hiccup shouldn't lock everyone out; let the request through
+      console.error(`[RateLimiter] ${this.namespace} check failed, allowing request:`, error);
+      return {
+        allowed: true,
+        limit: this.maxRequests,
+        remaining: this.maxRequests,
+        reset: 0,
+        retryAfter: 0,
+        windowSeconds
+      };
+    }
   }
+}
 
-  // Cleanup method to prevent memory leaks
-  cleanup(): void {
-    const now = Date.now();
-    const windowStart = now - this.windowMs;
+export class RateLimitExceededError extends Error {
+  readonly status = 429;
 
-    for (const [key, timestamps] of this.requests.entries()) {
-      const validTimestamps = timestamps.filter(time => time > windowStart);
-      if (validTimestamps.length === 0) {
-        this.requests.delete(key);
-      } else {
-        this.requests.set(key, validTimestamps);
-      }
-    }
+  constructor(public readonly result: RateLimitResult) {
+    super(`Rate limit exceeded. Please try again in ${result.retryAfter} seconds`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+// RateLimit-* headers (IETF draft) plus Retry-After on rejections
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': result.reset.toString(),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = result.retryAfter.toString();
   }
-} 
\ No newline at end of file
+  return headers;
+}
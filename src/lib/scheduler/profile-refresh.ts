@@ -0,0 +1,173 @@
+import { initDB } from '@/lib/db'
+import { WorkerPool, ScrapeJobConflictError } from '@/lib/worker-pool'
+import { analyzePersonality } from '@/lib/openai/openai'
+import { getMeteredProvider } from '@/lib/llm/usage'
+import { TwitterDataTransformer } from '@/lib/twitter/transformer'
+import { savePersonalitySnapshot } from '@/lib/analysis/snapshots'
+import type { DBRefreshSchedule, DBScrapeJob, DBUser } from '@/lib/db/adapters/types'
+import type { PersonalityAnalysis } from '@/lib/openai/types'
+import type { OpenAITwitterProfile } from '@/types/scraper'
+
+const SCRAPE_POLL_MS = 5000
+const SCRAPE_TIMEOUT_MS = 30 * 60 * 1000  // Give up waiting on a scrape after 30 minutes
+
+export interface RefreshResult {
+  userId: string
+  username?: string
+  status: 'analyzed' | 'skipped' | 'failed'
+  newTweets?: number
+  scrapeJobId?: string
+  cacheVersion?: number
+  error?: string
+}
+
+/**
+ * Run every refresh schedule that is due: re-scrape the profile, and if enough
+ * new tweets arrived (or nothing has been analyzed yet), re-run the analysis and
+ * save it as a new personality cache version. Schedules run one at a time.
+ */
+export async function runDueRefreshes({ limit = 10 }: { limit?: number } = {}): Promise<RefreshResult[]> {
+  const db = await initDB()
+  const schedules = await db.claimDueRefreshSchedules(limit)
+  console.log(`[Scheduler] ${schedules.length} refresh(es) due`)
+
+  const results: RefreshResult[] = []
+  for (const schedule of schedules) {
+    const result = await refreshProfile(schedule)
+    results.push(result)
+
+    await db.finishRefreshRun(schedule.user_id, {
+      status: result.status,
+      error: result.error,
+      scrapeJobId: result.scrapeJobId,
+      newTweets: result.newTweets
+    }).catch(error => console.error(`[Scheduler] Failed to record run for ${schedule.user_id}:`, error))
+  }
+
+  return results
+}
+
+async function refreshProfile(schedule: DBRefreshSchedule): Promise<RefreshResult> {
+  const db = await initDB()
+  const result: RefreshResult = { userId: schedule.user_id, status: 'failed' }
+
+  try {
+    const user = await db.getUserById(schedule.user_id)
+    if (!user) {
+      throw new Error('User not found')
+    }
+    result.username = user.username
+    console.log(`[Scheduler] Refreshing @${user.username}`)
+
+    // Incremental scrape with the same spec as the user's last scrape
+    const job = await runScrape(user)
+    result.scrapeJobId = job.id
+    if (job.status !== 'completed') {
+      throw new Error(job.error || `Scrape ${job.status}`)
+    }
+
+    result.newTweets = job.scan_progress?.newCount ?? 0
+    const currentVersion = await db.personality.getCacheVersion(user.id)
+
+    if (currentVersion > 0 && result.newTweets < schedule.min_new_tweets) {
+      console.log(`[Scheduler] @${user.username}: ${result.newTweets} new tweets, need ${schedule.min_new_tweets} to re-analyze`)
+      result.status = 'skipped'
+      return result
+    }
+
+    const tweets = (await db.getTweetsByUserId(user.id, { includeReplies: true }))
+      .map(tweet => TwitterDataTransformer.fromDBTweet(tweet))
+    if (tweets.length === 0) {
+      result.status = 'skipped'
+      return result
+    }
+
+    const analysis = await analyzePersonality(
+      tweets,
+      toOpenAIProfile(user),
+      undefined, // prompt
+      undefined, // context
+      undefined, // regenerationKey
+      0, 0, 0, 0, 0, 0, 0, // retry counts
+      undefined, // currentTuning
+      undefined, // onProgress
+      undefined, // signal
+      user.id,
+      undefined, // startFromChunk
+      // Scheduled runs count against the user's budget like manual ones
+      await getMeteredProvider('analysis', user.id)
+    )
+    if (!('traits' in analysis)) {
+      throw new Error('Analysis did not return a personality')
+    }
+    // Don't replace a complete cached analysis with one missing sections
+    if (analysis.partial) {
+      throw new Error(`Analysis incomplete, failed sections: ${analysis.partial.failedChunks.join(', ')}`)
+    }
+
+    result.cacheVersion = currentVersion + 1
+    await db.personality.savePersonalityCache(user.id, analysis as PersonalityAnalysis, result.cacheVersion)
+    await savePersonalitySnapshot(user.id, analysis as PersonalityAnalysis, {
+      source: 'scheduled',
+      tweetCount: tweets.length
+    })
+    await db.updateLastOperationTime(user.id, 'analyze')
+
+    console.log(`[Scheduler] @${user.username}: saved analysis v${result.cacheVersion} (${result.newTweets} new tweets)`)
+    result.status = 'analyzed'
+    return result
+  } catch (error) {
+    console.error(`[Scheduler] Refresh failed for ${result.username ?? schedule.user_id}:`, error)
+    result.error = error instanceof Error ? error.message : 'Unknown error'
+    return result
+  }
+}
+
+// Start a scrape (or attach to the user's running one) and wait for it to finish
+async function runScrape(user: DBUser): Promise<DBScrapeJob> {
+  const db = await initDB()
+  const scrapeState = await db.getScrapeState(user.id)
+
+  let jobId: string
+  try {
+    const job = await WorkerPool.getInstance().addJob({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      username: user.username,
+      mode: 'incremental',
+      spec: scrapeState?.spec
+    })
+    jobId = job.id
+  } catch (error) {
+    if (error instanceof ScrapeJobConflictError && error.activeJobId) {
+      jobId = error.activeJobId
+    } else {
+      throw error
+    }
+  }
+  await db.updateLastOperationTime(user.id, 'scrape')
+
+  const deadline = Date.now() + SCRAPE_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    const job = await db.getScrapeJob(jobId)
+    if (!job) {
+      throw new Error(`Scrape job ${jobId} disappeared`)
+    }
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return job
+    }
+    await new Promise(resolve => setTimeout(resolve, SCRAPE_POLL_MS))
+  }
+
+  throw new Error(`Timed out waiting for scrape job ${jobId}`)
+}
+
+function toOpenAIProfile(user: DBUser): OpenAITwitterProfile {
+  const profileData = (user.profile_data ?? {}) as { name?: string; bio?: string }
+  return {
+    name: profileData.name ?? user.username,
+    bio: profileData.bio ?? null,
+    followersCount: null,
+    followingCount: null
+  }
+}
@@ -0,0 +1,144 @@
+import { ChromaClient, type Collection, type IEmbeddingFunction } from 'chromadb'
+import { initDB } from '@/lib/db'
+import { getEmbeddingProvider, type EmbeddingProvider } from '@/lib/llm'
+
+/*
+ * A vector index of each persona's scraped tweets, so chat can show the model
+ * what they actually said about a topic. One Chroma collection per user and
+ * embedder, rebuilt from the tweets table after every scrape.
+ *
+ *   CHROMA_URL     Chroma server (default http://localhost:8000)
+ *   TWEET_MEMORY   off: don't index or recall
+ *
+ * The embedder is configured in lib/llm/embeddings.
+ */
+
+// Tweets recalled per chat turn
+export const RECALL_LIMIT = parseInt(process.env.TWEET_MEMORY_RECALL_LIMIT || '6')
+
+// Shorter tweets ("gm", "lol") say nothing worth recalling
+const MIN_TWEET_CHARS = 20
+
+export interface RecalledTweet {
+  id: string
+  text: string
+  createdAt: string
+  isReply: boolean
+  distance: number  // Cosine distance to the query; lower is closer
+}
+
+let client: ChromaClient | null = null
+const rebuilds = new Map<string, Promise<number>>()
+
+export function isTweetMemoryEnabled(): boolean {
+  return process.env.TWEET_MEMORY !== 'off'
+}
+
+function getClient(): ChromaClient {
+  if (!client) {
+    client = new ChromaClient({ path: process.env.CHROMA_URL || 'http://localhost:8000' })
+  }
+  return client
+}
+
+// Chroma names allow letters, digits, "_", "-" and "."; X handles only use the first three
+function collectionName(username: string, embedder: EmbeddingProvider): string {
+  return `tweets-${username.toLowerCase()}-${embedder.name}`
+}
+
+function embeddingFunction(embedder: EmbeddingProvider): IEmbeddingFunction {
+  return { generate: texts => embedder.embed(texts) }
+}
+
+async function buildIndex(username: string): Promise<number> {
+  const db = await initDB()
+  const user = await db.getUserByUsername(username)
+  if (!user) {
+    throw new Error(`No user ${username} to index tweets for`)
+  }
+
+  const tweets = (await db.getTweetsByUserId(user.id))
+    .filter(tweet => tweet.text.trim().length >= MIN_TWEET_CHARS && !tweet.text.startsWith('RT @'))
+
+  const embedder = getEmbeddingProvider()
+  const name = collectionName(username, embedder)
+  const chroma = getClient()
+
+  // Rebuilt from scratch, so tweets deleted upstream and model changes don't linger
+  await chroma.deleteCollection({ name }).catch(() => undefined)
+  const collection = await chroma.getOrCreateCollection({
+    name,
+    metadata: { 'hnsw:space': 'cosine', model: embedder.model },
+    embeddingFunction: embeddingFunction(embedder)
+  })
+
+  if (tweets.length > 0) {
+    await collection.add({
+      ids: tweets.map(tweet => tweet.id),
+      embeddings: await embedder.embed(tweets.map(tweet => tweet.text)),
+      documents: tweets.map(tweet => tweet.text),
+      metadatas: tweets.map(tweet => ({
+        created_at: new Date(tweet.created_at).toISOString(),
+        is_reply: tweet.is_reply
+      }))
+    })
+  }
+
+  console.log(`[Tweet Memory] Indexed ${tweets.length} tweets for ${username} with ${embedder.model}`)
+  return tweets.length
+}
+
+/**
+ * Re-index a user's stored tweets and replies. Resolves with the number
+ * indexed; a rebuild already running for the user is joined rather than
+ * started again.
+ */
+export function rebuildTweetMemory(username: string): Promise<number> {
+  const key = username.toLowerCase()
+  let rebuild = rebuilds.get(key)
+  if (!rebuild) {
+    rebuild = buildIndex(username).finally(() => rebuilds.delete(key))
+    rebuilds.set(key, rebuild)
+  }
+  return rebuild
+}
+
+async function getIndex(username: string, embedder: EmbeddingProvider): Promise<Collection | null> {
+  try {
+    const collection = await getClient().getCollection({
+      name: collectionName(username, embedder),
+      embeddingFunction: embeddingFunction(embedder)
+    })
+    // Vectors from another model aren't comparable; wait for the next rebuild
+    return collection.metadata?.model === embedder.model ? collection : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The user's tweets closest in meaning to the query, closest first. Empty when
+ * memory is off or the user hasn't been indexed yet.
+ */
+export async function recallTweets(username: string, query: string, limit: number = RECALL_LIMIT): Promise<RecalledTweet[]> {
+  if (!isTweetMemoryEnabled() || !query.trim()) return []
+
+  const embedder = getEmbeddingProvider()
+  const collection = await getIndex(username, embedder)
+  if (!collection) return []
+
+  const [queryEmbedding] = await embedder.embed([query])
+  const result = await collection.query({ queryEmbeddings: [queryEmbedding], nResults: limit })
+
+  const ids = result.ids[0] ?? []
+  return ids.map((id, index) => {
+    const metadata = result.metadatas[0]?.[index]
+    return {
+      id,
+      text: result.documents[0]?.[index] ?? '',
+      createdAt: String(metadata?.created_at ?? ''),
+      isReply: metadata?.is_reply === true,
+      distance: result.distances?.[0]?.[index] ?? 0
+    }
+  }).filter(tweet => tweet.text)
+}
@@ -0,0 +1,157 @@
+import type { TwitterAPITweet } from '../types';
+import {
+  applyScrapeSpec,
+  describeScrapeSpec,
+  hasContentFilters,
+  matchesScrapeSpec,
+  normalizeScrapeSpec,
+  ScrapeSpecError,
+  DEFAULT_MAX_TWEETS,
+  MAX_TWEETS_LIMIT
+} from '../scrape-spec';
+
+function tweet(id: string, overrides: Partial<TwitterAPITweet> = {}): TwitterAPITweet {
+  return {
+    id,
+    text: `tweet ${id}`,
+    createdAt: 'Mon Mar 10 12:00:00 +0000 2025',
+    url: `https://x.com/someone/status/${id}`,
+    isReply: false,
+    lang: 'en',
+    viewCount: 100,
+    retweetCount: 1,
+    replyCount: 1,
+    likeCount: 3,
+    quoteCount: 0,
+    ...overrides
+  };
+}
+
+function specError(input: unknown): ScrapeSpecError {
+  try {
+    normalizeScrapeSpec(input);
+  } catch (error) {
+    if (error instanceof ScrapeSpecError) return error;
+    throw error;
+  }
+  throw new Error('Expected a ScrapeSpecError');
+}
+
+describe('normalizeScrapeSpec', () => {
+  it('defaults to the newest tweets up to the default count', () => {
+    expect(normalizeScrapeSpec(undefined)).toEqual({ maxTweets: DEFAULT_MAX_TWEETS });
+    expect(normalizeScrapeSpec({})).toEqual({ maxTweets: DEFAULT_MAX_TWEETS });
+  });
+
+  it('normalizes dates, languages and numbers from a request body', () => {
+    expect(normalizeScrapeSpec({
+      maxTweets: '200',
+      startDate: '2025-01-01',
+      endDate: '2025-02-01T10:00:00Z',
+      includeReplies: false,
+      languages: 'EN',
+      minEngagement: '5'
+    })).toEqual({
+      maxTweets: 200,
+      startDate: '2025-01-01T00:00:00.000Z',
+      endDate: '2025-02-01T10:00:00.000Z',
+      includeReplies: false,
+      languages: ['en'],
+      minEngagement: 5
+    });
+  });
+
+  it('leaves out filters that filter nothing', () => {
+    expect(normalizeScrapeSpec({ languages: [], minEngagement: 0, startDate: '' }))
+      .toEqual({ maxTweets: DEFAULT_MAX_TWEETS });
+  });
+
+  it.each([
+    [{ maxTweets: 0 }, 'maxTweets'],
+    [{ maxTweets: MAX_TWEETS_LIMIT + 1 }, 'maxTweets'],
+    [{ maxTweets: 10.5 }, 'maxTweets'],
+    [{ startDate: 'last tuesday' }, 'startDate'],
+    [{ startDate: '2025-03-01', endDate: '2025-01-01' }, 'startDate'],
+    [{ includeReplies: 'no' }, 'includeReplies'],
+    [{ languages: ['english'] }, 'languages'],
+    [{ minEngagement: -1 }, 'minEngagement']
+  ])('rejects %j, naming the field', (input, field) => {
+    expect(specError(input).field).toBe(field);
+  });
+
+  it('rejects a spec that is not an object', () => {
+    expect(specError(['maxTweets']).message).toBe('spec must be an object');
+  });
+});
+
+describe('matchesScrapeSpec', () => {
+  it('keeps everything when nothing is filtered', () => {
+    const spec = normalizeScrapeSpec({});
+    expect(hasContentFilters(spec)).toBe(false);
+    expect(matchesScrapeSpec(tweet('1', { isReply: true, lang: 'ja' }), spec)).toBe(true);
+  });
+
+  it('drops replies only when they are excluded', () => {
+    expect(matchesScrapeSpec(tweet('1', { isReply: true }), { includeReplies: false })).toBe(false);
+    expect(matchesScrapeSpec(tweet('1', { isReply: true }), { includeReplies: true })).toBe(true);
+  });
+
+  it('keeps tweets inside the date range, reading X date strings', () => {
+    const spec = { startDate: '2025-03-01T00:00:00.000Z', endDate: '2025-03-31T00:00:00.000Z' };
+    expect(matchesScrapeSpec(tweet('1'), spec)).toBe(true);
+    expect(matchesScrapeSpec(tweet('2', { createdAt: 'Fri Feb 28 23:59:59 +0000 2025' }), spec)).toBe(false);
+    expect(matchesScrapeSpec(tweet('3', { createdAt: undefined, timestamp: '2025-04-01T00:00:00Z' }), spec)).toBe(false);
+  });
+
+  it('keeps tweets with no usable date or language rather than guessing', () => {
+    const spec = { startDate: '2025-03-01T00:00:00.000Z', languages: ['es'] };
+    expect(matchesScrapeSpec(tweet('1', { createdAt: 'not a date', lang: undefined }), spec)).toBe(true);
+    expect(matchesScrapeSpec(tweet('2', { lang: 'EN' }), spec)).toBe(false);
+  });
+
+  it('counts likes, retweets, replies and quotes as engagement', () => {
+    // 3 likes + 1 retweet + 1 reply
+    expect(matchesScrapeSpec(tweet('1'), { minEngagement: 5 })).toBe(true);
+    expect(matchesScrapeSpec(tweet('1'), { minEngagement: 6 })).toBe(false);
+  });
+});
+
+describe('applyScrapeSpec', () => {
+  it('filters the page and reports how many tweets it scanned', () => {
+    const page = applyScrapeSpec({
+      tweets: [tweet('1'), tweet('2', { isReply: true }), tweet('3')],
+      hasNextPage: true,
+      nextCursor: 'next'
+    }, { includeReplies: false });
+
+    expect(page.tweets.map(t => t.id)).toEqual(['1', '3']);
+    expect(page).toMatchObject({ scannedCount: 3, pastStartDate: false, hasNextPage: true, nextCursor: 'next' });
+  });
+
+  it('flags a page that reaches back past the start date', () => {
+    const spec = { startDate: '2025-03-01T00:00:00.000Z' };
+    const page = applyScrapeSpec({
+      tweets: [tweet('1'), tweet('2', { createdAt: 'Fri Feb 28 12:00:00 +0000 2025' })],
+      hasNextPage: true
+    }, spec);
+
+    expect(page.tweets.map(t => t.id)).toEqual(['1']);
+    expect(page.pastStartDate).toBe(true);
+  });
+});
+
+describe('describeScrapeSpec', () => {
+  it('describes the default spec by its size', () => {
+    expect(describeScrapeSpec({})).toBe(`up to ${DEFAULT_MAX_TWEETS} tweets`);
+  });
+
+  it('lists every filter in a fixed order', () => {
+    expect(describeScrapeSpec({
+      maxTweets: 100,
+      endDate: '2025-02-01T00:00:00.000Z',
+      includeReplies: false,
+      languages: ['en', 'es'],
+      minEngagement: 10
+    })).toBe('up to 100 tweets, from the beginning to 2025-02-01, excluding replies, in en/es, with at least 10 engagements');
+  });
+});
@@ -1,6 +1,7 @@
-import type { TwitterAPITweet, TwitterAPIProfile, TweetResponse } from './types';
+import type { TwitterAPITweet, TwitterAPIProfile, TweetResponse, TweetSource, TweetPage, ScrapeJobSpec } from './types';
 import { Session } from 'next-auth';
 import { TwitterAPIMonitor } from './monitoring';
+import { applyScrapeSpec } from './scrape-spec';
 
 // Extend Session type to include our custom properties
 declare module 'next-auth' {
@@ -23,10 +24,17 @@ export class TwitterAPIClient {
   private readonly defaultRetryAttempts = 3;
   private readonly defaultRetryDelay = 1000; // 1 second
   private readonly monitor = TwitterAPIMonitor.getInstance();
+  // Optional non-HTTP source; when set, profile and tweet lookups are served from it
+  private readonly source?: TweetSource;
 
-  constructor(apiKey: string, session?: Session) {
+  constructor(apiKey: string, session?: Session, source?: TweetSource) {
     this.apiKey = apiKey;
     this.session = session;
+    this.source = source;
+  }
+
+  get sourceType(): TweetSource['type'] {
+    return this.source?.type ?? 'api';
   }
 
   private async fetch<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
@@ -209,15 +217,32 @@ export class TwitterAPIClient {
     includeReplies?: boolean;
     cursor?: string;
     maxRetries?: number;
-  }): Promise<{
-    tweets: TwitterAPITweet[];
-    hasNextPage: boolean;
-    nextCursor?: string;
-  }> {
+    spec?: ScrapeJobSpec;
+  }): Promise<TweetPage> {
     if (!params.userId && !params.userName) {
       throw new Error('Either userId or userName must be provided');
     }
 
+    // The spec's reply setting is passed to the source, the rest is filtered after fetching
+    const { spec, ...pageParams } = params;
+    if (spec?.includeReplies !== undefined) {
+      pageParams.includeReplies = spec.includeReplies;
+    }
+
+    const page = this.source
+      ? await this.source.getUserTweets(pageParams)
+      : await this.fetchTweetPage(pageParams);
+
+    return spec ? applyScrapeSpec(page, spec) : page;
+  }
+
+  private async fetchTweetPage(params: {
+    userId?: string;
+    userName?: string;
+    includeReplies?: boolean;
+    cursor?: string;
+    maxRetries?: number;
+  }): Promise<TweetPage> {
     const queryParams = new URLSearchParams();
     if (params.userId) {
       queryParams.set('userId', params.userId);
@@ -336,6 +361,10 @@ export class TwitterAPIClient {
       throw new Error('Either userId or userName must be provided');
     }
 
+    if (this.source) {
+      return this.source.getUserProfile(params);
+    }
+
     const queryParams = new URLSearchParams();
     
     if (params.userId) queryParams.set('userId', params.userId);
@@ -467,7 +496,9 @@ export class TwitterAPIClient {
       }
 
       // Optional: Add a small delay between requests to be nice to the API
-      await this.wait(1000);
+      if (!this.source) {
+        await this.wait(1000);
+      }
     }
 
     const completionStatus = reachedEndOfTweets 
@@ -490,6 +521,6 @@ export class TwitterAPIClient {
 }
 
 // Export factory function instead of singleton
-export function createTwitterClient(apiKey: string, session?: Session): TwitterAPIClient {
-  return new TwitterAPIClient(apiKey, session);
+export function createTwitterClient(apiKey: string, session?: Session, source?: TweetSource): TwitterAPIClient {
+  return new TwitterAPIClient(apiKey, session, source);
 } 
\ No newline at end of file
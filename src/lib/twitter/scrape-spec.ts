@@ -0,0 +1,156 @@
+import type { ScrapeJobSpec, TweetPage, TwitterAPITweet } from './types';
+
+export const DEFAULT_MAX_TWEETS = 500;
+// twitterapi.io (like the X timeline) only reaches back ~3200 tweets
+export const MAX_TWEETS_LIMIT = 3200;
+
+export class ScrapeSpecError extends Error {
+  constructor(message: string, public field?: keyof ScrapeJobSpec) {
+    super(message);
+    this.name = 'ScrapeSpecError';
+  }
+}
+
+function parseDate(value: unknown, field: 'startDate' | 'endDate'): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ScrapeSpecError(`${field} must be a valid date`, field);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Validate a job spec from a request body and fill in defaults.
+ * Throws ScrapeSpecError on invalid input.
+ */
+export function normalizeScrapeSpec(input: unknown): ScrapeJobSpec {
+  if (input === undefined || input === null) {
+    return { maxTweets: DEFAULT_MAX_TWEETS };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ScrapeSpecError('spec must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const spec: ScrapeJobSpec = {};
+
+  const maxTweets = raw.maxTweets === undefined ? DEFAULT_MAX_TWEETS : Number(raw.maxTweets);
+  if (!Number.isInteger(maxTweets) || maxTweets < 1 || maxTweets > MAX_TWEETS_LIMIT) {
+    throw new ScrapeSpecError(`maxTweets must be an integer between 1 and ${MAX_TWEETS_LIMIT}`, 'maxTweets');
+  }
+  spec.maxTweets = maxTweets;
+
+  spec.startDate = parseDate(raw.startDate, 'startDate');
+  spec.endDate = parseDate(raw.endDate, 'endDate');
+  if (spec.startDate && spec.endDate && spec.startDate > spec.endDate) {
+    throw new ScrapeSpecError('startDate must be before endDate', 'startDate');
+  }
+
+  if (raw.includeReplies !== undefined) {
+    if (typeof raw.includeReplies !== 'boolean') {
+      throw new ScrapeSpecError('includeReplies must be a boolean', 'includeReplies');
+    }
+    spec.includeReplies = raw.includeReplies;
+  }
+
+  if (raw.languages !== undefined) {
+    const languages = typeof raw.languages === 'string' ? [raw.languages] : raw.languages;
+    if (!Array.isArray(languages) || !languages.every(lang => typeof lang === 'string' && /^[a-z]{2,3}$/i.test(lang))) {
+      throw new ScrapeSpecError('languages must be a list of language codes', 'languages');
+    }
+    if (languages.length > 0) {
+      spec.languages = languages.map(lang => lang.toLowerCase());
+    }
+  }
+
+  if (raw.minEngagement !== undefined) {
+    const minEngagement = Number(raw.minEngagement);
+    if (!Number.isFinite(minEngagement) || minEngagement < 0) {
+      throw new ScrapeSpecError('minEngagement must be a non-negative number', 'minEngagement');
+    }
+    if (minEngagement > 0) {
+      spec.minEngagement = minEngagement;
+    }
+  }
+
+  // Drop unset keys so the recorded spec stays compact
+  return Object.fromEntries(
+    Object.entries(spec).filter(([, value]) => value !== undefined)
+  ) as ScrapeJobSpec;
+}
+
+// Filters that drop tweets after they are fetched (replies are filtered by the source)
+export function hasContentFilters(spec: ScrapeJobSpec): boolean {
+  return Boolean(spec.startDate || spec.endDate || spec.languages || spec.minEngagement);
+}
+
+function getEngagement(tweet: TwitterAPITweet): number {
+  return (tweet.likeCount || 0) + (tweet.retweetCount || 0) + (tweet.replyCount || 0) + (tweet.quoteCount || 0);
+}
+
+function getTweetTime(tweet: TwitterAPITweet): number | null {
+  const time = new Date(tweet.createdAt || tweet.timestamp || '').getTime();
+  return isNaN(time) ? null : time;
+}
+
+export function matchesScrapeSpec(tweet: TwitterAPITweet, spec: ScrapeJobSpec): boolean {
+  if (spec.includeReplies === false && tweet.isReply) {
+    return false;
+  }
+
+  const time = getTweetTime(tweet);
+  if (time !== null) {
+    if (spec.startDate && time < new Date(spec.startDate).getTime()) return false;
+    if (spec.endDate && time > new Date(spec.endDate).getTime()) return false;
+  }
+
+  // Tweets without a language tag (API timelines omit it) are kept
+  if (spec.languages && tweet.lang && !spec.languages.includes(tweet.lang.toLowerCase())) {
+    return false;
+  }
+
+  if (spec.minEngagement && getEngagement(tweet) < spec.minEngagement) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filter a fetched page. Timelines are newest first, so once a page reaches
+ * tweets older than startDate there is nothing left to collect.
+ */
+export function applyScrapeSpec(page: TweetPage, spec: ScrapeJobSpec): TweetPage {
+  const startTime = spec.startDate ? new Date(spec.startDate).getTime() : null;
+  const pastStartDate = startTime !== null && page.tweets.some(tweet => {
+    const time = getTweetTime(tweet);
+    return time !== null && time < startTime;
+  });
+
+  return {
+    ...page,
+    tweets: page.tweets.filter(tweet => matchesScrapeSpec(tweet, spec)),
+    scannedCount: page.tweets.length,
+    pastStartDate
+  };
+}
+
+// Short human-readable summary, e.g. for labelling an analysis
+export function describeScrapeSpec(spec: ScrapeJobSpec): string {
+  const parts = [`up to ${spec.maxTweets ?? DEFAULT_MAX_TWEETS} tweets`];
+  if (spec.startDate || spec.endDate) {
+    parts.push(`from ${spec.startDate?.slice(0, 10) ?? 'the beginning'} to ${spec.endDate?.slice(0, 10) ?? 'now'}`);
+  }
+  if (spec.includeReplies === false) {
+    parts.push('excluding replies');
+  }
+  if (spec.languages) {
+    parts.push(`in ${spec.languages.join('/')}`);
+  }
+  if (spec.minEngagement) {
+    parts.push(`with at least ${spec.minEngagement} engagements`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,260 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { TwitterAPIProfile, TwitterAPITweet, TweetPage, TweetSource } from '../types';
+import { isDirectory, paginateTweets, pathExists } from './utils';
+
+// Shapes of the records inside an official X data export
+interface ArchiveEntity {
+  indices?: Array<string | number>;
+}
+
+interface ArchiveTweet {
+  id_str?: string;
+  id?: string;
+  full_text?: string;
+  text?: string;
+  created_at: string;
+  favorite_count?: string | number;
+  retweet_count?: string | number;
+  in_reply_to_status_id_str?: string;
+  in_reply_to_user_id_str?: string;
+  in_reply_to_screen_name?: string;
+  lang?: string;
+  entities?: {
+    hashtags?: Array<ArchiveEntity & { text: string }>;
+    urls?: Array<ArchiveEntity & { url: string; expanded_url: string; display_url: string }>;
+    user_mentions?: Array<ArchiveEntity & { id_str: string; name: string; screen_name: string }>;
+  };
+}
+
+interface ArchiveAccount {
+  accountId: string;
+  username: string;
+  accountDisplayName?: string;
+  createdAt: string;
+}
+
+interface ArchiveProfile {
+  description?: { bio?: string };
+  avatarMediaUrl?: string;
+  headerMediaUrl?: string;
+}
+
+interface LoadedArchive {
+  profile: TwitterAPIProfile;
+  tweets: TwitterAPITweet[];
+}
+
+// Newer exports use tweets.js, older ones tweet.js; large ones are split into parts
+export const ARCHIVE_TWEET_FILE_PATTERN = /^tweets?(-part\d+)?\.js$/;
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string, public file?: string) {
+    super(message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+/**
+ * Archive files are JavaScript assignments, e.g.
+ * `window.YTD.tweets.part0 = [ ... ]`. Strip the assignment and parse the array.
+ */
+export function parseArchiveFile<T>(contents: string, file: string): T[] {
+  const start = contents.indexOf('=');
+  if (start === -1) {
+    throw new ArchiveFormatError('Missing window.YTD assignment', file);
+  }
+
+  try {
+    const parsed = JSON.parse(contents.slice(start + 1).trim().replace(/;\s*$/, ''));
+    if (!Array.isArray(parsed)) {
+      throw new ArchiveFormatError('Expected an array of records', file);
+    }
+    return parsed as T[];
+  } catch (error) {
+    if (error instanceof ArchiveFormatError) throw error;
+    throw new ArchiveFormatError(
+      `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      file
+    );
+  }
+}
+
+function toNumber(value: string | number | undefined): number {
+  const parsed = typeof value === 'number' ? value : parseInt(value || '0', 10);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function toIndices(entity: ArchiveEntity): number[] {
+  return (entity.indices || []).map(index => toNumber(index));
+}
+
+function toAPITweet(raw: ArchiveTweet, userName: string): TwitterAPITweet | null {
+  const id = raw.id_str || raw.id;
+  const text = raw.full_text ?? raw.text;
+  if (!id || text === undefined) {
+    return null;
+  }
+
+  const createdAt = new Date(raw.created_at);
+
+  return {
+    id,
+    text,
+    createdAt: isNaN(createdAt.getTime()) ? undefined : createdAt.toISOString(),
+    url: `https://x.com/${userName}/status/${id}`,
+    isReply: Boolean(raw.in_reply_to_status_id_str),
+    inReplyToId: raw.in_reply_to_status_id_str,
+    inReplyToUserId: raw.in_reply_to_user_id_str,
+    inReplyToUsername: raw.in_reply_to_screen_name,
+    lang: raw.lang,
+    // Exports do not include impression or reply counts
+    viewCount: 0,
+    retweetCount: toNumber(raw.retweet_count),
+    replyCount: 0,
+    likeCount: toNumber(raw.favorite_count),
+    quoteCount: 0,
+    entities: {
+      hashtags: (raw.entities?.hashtags || []).map(tag => ({
+        text: tag.text,
+        indices: toIndices(tag)
+      })),
+      urls: (raw.entities?.urls || []).map(link => ({
+        url: link.url,
+        expanded_url: link.expanded_url,
+        display_url: link.display_url,
+        indices: toIndices(link)
+      })),
+      user_mentions: (raw.entities?.user_mentions || []).map(mention => ({
+        id_str: mention.id_str,
+        name: mention.name,
+        screen_name: mention.screen_name,
+        indices: toIndices(mention)
+      }))
+    }
+  };
+}
+
+/**
+ * Reads profile and tweets from an unpacked X data export. Accepts either the
+ * export root or its `data/` directory.
+ */
+export class ArchiveTweetSource implements TweetSource {
+  readonly type = 'archive' as const;
+  private loaded: Promise<LoadedArchive> | null = null;
+
+  constructor(private readonly archivePath: string) {}
+
+  private async resolveDataDir(): Promise<string> {
+    const nested = path.join(this.archivePath, 'data');
+    return (await isDirectory(nested)) ? nested : this.archivePath;
+  }
+
+  private async load(): Promise<LoadedArchive> {
+    if (!this.loaded) {
+      this.loaded = this.readArchive().catch(error => {
+        // Allow a later call to retry after the files are fixed
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async readArchive(): Promise<LoadedArchive> {
+    const dataDir = await this.resolveDataDir();
+
+    const accountFile = path.join(dataDir, 'account.js');
+    if (!(await pathExists(accountFile))) {
+      throw new ArchiveFormatError('account.js not found in archive', accountFile);
+    }
+    const [accountRecord] = parseArchiveFile<{ account: ArchiveAccount }>(
+      await fs.readFile(accountFile, 'utf8'),
+      accountFile
+    );
+    if (!accountRecord?.account?.username) {
+      throw new ArchiveFormatError('account.js does not contain an account', accountFile);
+    }
+    const account = accountRecord.account;
+
+    // profile.js is optional - it only adds the bio and avatar
+    let archiveProfile: ArchiveProfile = {};
+    const profileFile = path.join(dataDir, 'profile.js');
+    if (await pathExists(profileFile)) {
+      const [profileRecord] = parseArchiveFile<{ profile: ArchiveProfile }>(
+        await fs.readFile(profileFile, 'utf8'),
+        profileFile
+      );
+      archiveProfile = profileRecord?.profile || {};
+    }
+
+    const tweetFiles = (await fs.readdir(dataDir))
+      .filter(file => ARCHIVE_TWEET_FILE_PATTERN.test(file))
+      .sort();
+    if (tweetFiles.length === 0) {
+      throw new ArchiveFormatError('tweets.js not found in archive', dataDir);
+    }
+
+    const tweetMap = new Map<string, TwitterAPITweet>();
+    for (const file of tweetFiles) {
+      const filePath = path.join(dataDir, file);
+      const records = parseArchiveFile<{ tweet?: ArchiveTweet } & ArchiveTweet>(
+        await fs.readFile(filePath, 'utf8'),
+        filePath
+      );
+      for (const record of records) {
+        const tweet = toAPITweet(record.tweet || record, account.username);
+        if (tweet) {
+          tweetMap.set(tweet.id, tweet);
+        }
+      }
+    }
+
+    console.log('Loaded X archive:', {
+      username: account.username,
+      tweetFiles,
+      tweetCount: tweetMap.size
+    });
+
+    return {
+      profile: {
+        id: account.accountId,
+        name: account.accountDisplayName || account.username,
+        userName: account.username,
+        description: archiveProfile.description?.bio || '',
+        profilePicture: archiveProfile.avatarMediaUrl || '',
+        coverPicture: archiveProfile.headerMediaUrl,
+        createdAt: account.createdAt
+      },
+      tweets: Array.from(tweetMap.values())
+    };
+  }
+
+  private assertOwner(profile: TwitterAPIProfile, params: { userId?: string; userName?: string }): void {
+    const matches = params.userName
+      ? profile.userName.toLowerCase() === params.userName.toLowerCase()
+      : profile.id === params.userId;
+    if (!matches) {
+      throw new Error(
+        `Archive belongs to @${profile.userName}, not ${params.userName ? '@' + params.userName : params.userId}`
+      );
+    }
+  }
+
+  async getUserProfile(params: { userId?: string; userName?: string }): Promise<TwitterAPIProfile> {
+    const { profile } = await this.load();
+    this.assertOwner(profile, params);
+    return profile;
+  }
+
+  async getUserTweets(params: {
+    userId?: string;
+    userName?: string;
+    includeReplies?: boolean;
+    cursor?: string;
+  }): Promise<TweetPage> {
+    const { profile, tweets } = await this.load();
+    this.assertOwner(profile, params);
+    return paginateTweets(tweets, params);
+  }
+}
@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { TwitterAPIProfile, TwitterAPITweet, TweetPage, TweetSource } from '../types';
+import { isDirectory, paginateTweets, pathExists } from './utils';
+
+interface LoadedFixture {
+  profile: TwitterAPIProfile | null;
+  tweets: TwitterAPITweet[];
+}
+
+/**
+ * Reads a local JSONL fixture. Each line is either `{"profile": TwitterAPIProfile}`
+ * or a TwitterAPITweet. The path may point at a single file or at a directory
+ * of `<username>.jsonl` files.
+ */
+export class FixtureTweetSource implements TweetSource {
+  readonly type = 'fixture' as const;
+  private readonly fixtures = new Map<string, Promise<LoadedFixture>>();
+
+  constructor(private readonly fixturePath: string) {}
+
+  private async resolveFile(userName: string): Promise<string> {
+    if (await isDirectory(this.fixturePath)) {
+      return path.join(this.fixturePath, `${userName.toLowerCase()}.jsonl`);
+    }
+    return this.fixturePath;
+  }
+
+  private load(userName: string): Promise<LoadedFixture> {
+    const key = userName.toLowerCase();
+    let fixture = this.fixtures.get(key);
+    if (!fixture) {
+      fixture = this.readFixture(userName).catch(error => {
+        this.fixtures.delete(key);
+        throw error;
+      });
+      this.fixtures.set(key, fixture);
+    }
+    return fixture;
+  }
+
+  private async readFixture(userName: string): Promise<LoadedFixture> {
+    const file = await this.resolveFile(userName);
+    if (!(await pathExists(file))) {
+      throw new Error(`Fixture not found for @${userName}: ${file}`);
+    }
+
+    const lines = (await fs.readFile(file, 'utf8'))
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    let profile: TwitterAPIProfile | null = null;
+    const tweets: TwitterAPITweet[] = [];
+
+    lines.forEach((line, index) => {
+      let record: Record<string, unknown>;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new Error(
+          `Invalid JSON on line ${index + 1} of ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      if (record.profile && typeof record.profile === 'object') {
+        profile = record.profile as TwitterAPIProfile;
+        return;
+      }
+
+      const tweet = record as Partial<TwitterAPITweet>;
+      if (!tweet.id || typeof tweet.text !== 'string') {
+        console.warn(`Skipping fixture line ${index + 1}: missing id or text`);
+        return;
+      }
+
+      tweets.push({
+        url: `https://x.com/${userName}/status/${tweet.id}`,
+        isReply: false,
+        viewCount: 0,
+        retweetCount: 0,
+        replyCount: 0,
+        likeCount: 0,
+        quoteCount: 0,
+        ...tweet
+      } as TwitterAPITweet);
+    });
+
+    return { profile, tweets };
+  }
+
+  async getUserProfile(params: { userId?: string; userName?: string }): Promise<TwitterAPIProfile> {
+    if (!params.userName) {
+      throw new Error('Fixture source requires a userName');
+    }
+
+    const { profile } = await this.load(params.userName);
+    return profile || {
+      id: params.userId || '',
+      name: params.userName,
+      userName: params.userName,
+      description: '',
+      profilePicture: '',
+      createdAt: new Date(0).toISOString()
+    };
+  }
+
+  async getUserTweets(params: {
+    userId?: string;
+    userName?: string;
+    includeReplies?: boolean;
+    cursor?: string;
+  }): Promise<TweetPage> {
+    if (!params.userName) {
+      throw new Error('Fixture source requires a userName');
+    }
+
+    const { tweets } = await this.load(params.userName);
+    return paginateTweets(tweets, params);
+  }
+}
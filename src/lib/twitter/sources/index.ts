@@ -0,0 +1,46 @@
+import path from 'path';
+import type { TweetSource, TweetSourceConfig } from '../types';
+import { ArchiveTweetSource } from './archive';
+import { FixtureTweetSource } from './fixture';
+
+export { ArchiveTweetSource, ArchiveFormatError, ARCHIVE_TWEET_FILE_PATTERN, parseArchiveFile } from './archive';
+export { FixtureTweetSource } from './fixture';
+
+/**
+ * Build the source for a config. The API source is TwitterAPIClient's own
+ * HTTP path, so it returns undefined.
+ */
+export function createTweetSource(config?: TweetSourceConfig): TweetSource | undefined {
+  switch (config?.type) {
+    case 'archive':
+      return new ArchiveTweetSource(config.path);
+    case 'fixture':
+      return new FixtureTweetSource(config.path);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Deployment-wide default, e.g. TWEET_SOURCE=fixture TWEET_SOURCE_PATH=./fixtures
+ * for offline development and CI.
+ */
+export function getDefaultTweetSourceConfig(): TweetSourceConfig {
+  const type = process.env.TWEET_SOURCE;
+  const sourcePath = process.env.TWEET_SOURCE_PATH;
+
+  if ((type === 'archive' || type === 'fixture') && sourcePath) {
+    return { type, path: path.resolve(sourcePath) };
+  }
+  return { type: 'api' };
+}
+
+// Uploaded archives are unpacked to <ARCHIVE_UPLOAD_DIR>/<username>
+export function getArchiveDir(username: string): string {
+  const root = process.env.ARCHIVE_UPLOAD_DIR || path.join(process.cwd(), 'data', 'archives');
+  const safeName = username.toLowerCase().replace(/[^a-z0-9_]/g, '');
+  if (!safeName) {
+    throw new Error('Invalid username for archive directory');
+  }
+  return path.join(root, safeName);
+}
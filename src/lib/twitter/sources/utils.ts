@@ -0,0 +1,50 @@
+import fs from 'fs/promises';
+import type { TwitterAPITweet, TweetPage } from '../types';
+
+// Mirror the page size of twitterapi.io so callers see the same batching
+export const LOCAL_PAGE_SIZE = 20;
+
+export async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await fs.stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sort tweets newest first, optionally drop replies, and slice out one page.
+ * The cursor is the offset of the first tweet on the page.
+ */
+export function paginateTweets(
+  tweets: TwitterAPITweet[],
+  params: { includeReplies?: boolean; cursor?: string }
+): TweetPage {
+  const filtered = params.includeReplies === false
+    ? tweets.filter(tweet => !tweet.isReply)
+    : tweets;
+
+  const sorted = [...filtered].sort((a, b) =>
+    new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
+  );
+
+  const offset = params.cursor ? parseInt(params.cursor, 10) || 0 : 0;
+  const page = sorted.slice(offset, offset + LOCAL_PAGE_SIZE);
+  const nextOffset = offset + page.length;
+  const hasNextPage = page.length > 0 && nextOffset < sorted.length;
+
+  return {
+    tweets: page,
+    hasNextPage,
+    nextCursor: hasNextPage ? nextOffset.toString() : undefined
+  };
+}
@@ -1,6 +1,6 @@
 import type { TwitterAPITweet, TwitterAPIProfile } from './types';
 import type { Tweet, TwitterProfile } from '../../types/scraper';
-import type { DBUser } from '../db/adapters/types';
+import type { DBUser, DBTweet } from '../db/adapters/types';
 
 export class TwitterDataTransformer {
   /**
@@ -56,7 +56,33 @@ export class TwitterDataTransformer {
         quotes: apiTweet.quoteCount || 0
       },
       images: [], // Will be populated if we add media support
-      isReply: apiTweet.isReply || false
+      isReply: apiTweet.isReply || false,
+      lang: apiTweet.lang
+    };
+  }
+
+  /**
+   * Transform a stored DBTweet back to our internal Tweet format
+   */
+  static fromDBTweet(dbTweet: DBTweet): Tweet {
+    const timestamp = new Date(dbTweet.created_at).toISOString();
+
+    return {
+      id: dbTweet.id,
+      text: dbTweet.text,
+      url: dbTweet.url,
+      createdAt: timestamp,
+      timestamp: timestamp,
+      metrics: {
+        views: dbTweet.view_count || 0,
+        likes: dbTweet.like_count || 0,
+        retweets: dbTweet.retweet_count || 0,
+        replies: dbTweet.reply_count || 0,
+        quotes: dbTweet.quote_count || 0
+      },
+      images: [],
+      isReply: dbTweet.is_reply,
+      lang: dbTweet.metadata.lang
     };
   }
 
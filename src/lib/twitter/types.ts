@@ -49,11 +49,58 @@ export interface TwitterAPIProfile {
   createdAt: string;
 }
 
+export interface TweetPage {
+  tweets: TwitterAPITweet[];
+  hasNextPage: boolean;
+  nextCursor?: string;
+  // Set when a ScrapeJobSpec filtered the page
+  scannedCount?: number;   // Tweets on the page before filtering
+  pastStartDate?: boolean; // Page reached tweets older than spec.startDate
+}
+
+// Where profile and tweet data is read from
+export type TweetSourceConfig =
+  | { type: 'api' }
+  | { type: 'archive'; path: string }  // Directory holding an X data export (tweets.js, account.js)
+  | { type: 'fixture'; path: string }; // JSONL file, or directory of <username>.jsonl files
+
+export type TweetSourceType = TweetSourceConfig['type'];
+
+export interface TweetSource {
+  readonly type: TweetSourceType;
+  getUserProfile(params: {
+    userId?: string;
+    userName?: string;
+  }): Promise<TwitterAPIProfile>;
+  getUserTweets(params: {
+    userId?: string;
+    userName?: string;
+    includeReplies?: boolean;
+    cursor?: string;
+  }): Promise<TweetPage>;
+}
+
+// Which slice of a user's history a scrape collects
+export interface ScrapeJobSpec {
+  maxTweets?: number;
+  startDate?: string;        // ISO date, oldest tweet to keep
+  endDate?: string;          // ISO date, newest tweet to keep
+  includeReplies?: boolean;
+  languages?: string[];      // Tweet lang codes, e.g. ['en', 'es']
+  minEngagement?: number;    // likes + retweets + replies + quotes
+}
+
+// 'incremental' stops paging once it reaches tweets that are already stored
+export type ScrapeMode = 'incremental' | 'full';
+
 export interface WorkerData {
   username: string;
   apiKey: string;
   batchSize?: number;
   maxTweets?: number;
+  source?: TweetSourceConfig;
+  mode?: ScrapeMode;
+  spec?: ScrapeJobSpec;
 }
 
 export interface ScanProgress {
@@ -63,6 +110,8 @@ export interface ScanProgress {
   currentBatch?: number;
   totalBatches?: number;
   message?: string;
+  newCount?: number;    // Tweets not previously stored
+  knownCount?: number;  // Tweets already in the database
 }
 
 export interface WorkerMessage {
@@ -1,6 +1,8 @@
 import { parentPort, workerData } from 'worker_threads';
 import { TwitterAPIClient } from './client';
 import { TwitterDataTransformer } from './transformer';
+import { createTweetSource, getDefaultTweetSourceConfig } from './sources';
+import { DEFAULT_MAX_TWEETS, hasContentFilters } from './scrape-spec';
 import { initDB } from '../db';
 import type { DBUser, DBTweet, DatabaseAdapter } from '../db/adapters/types';
 import type { TwitterAPITweet, WorkerData } from './types';
@@ -49,6 +51,23 @@ process.on('exit', async () => {
 });
 
 let db: DatabaseAdapter | null = null;
+let scrapeUserId: string | null = null;
+
+// Retry database writes with exponential backoff
+async function withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+  const MAX_RETRIES = 3;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error(`${label} failed (attempt ${attempt}/${MAX_RETRIES}):`, error);
+      if (attempt === MAX_RETRIES) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+    }
+  }
+}
 
 async function runTwitterScraper() {
   try {
@@ -70,33 +89,42 @@ async function runTwitterScraper() {
         }
       });
     }
-    const { username: targetUsername, apiKey } = workerData as WorkerData;
+    const { username: targetUsername, apiKey, source, mode = 'incremental', spec, batchSize } = workerData as WorkerData;
+    const sourceConfig = source ?? getDefaultTweetSourceConfig();
+    const scrapeSpec = spec ?? {};
     
     // Debug logging for API key
     console.log('Worker received API key:', {
       hasApiKey: Boolean(apiKey),
       keyPrefix: apiKey ? apiKey.substring(0, 4) + '...' : 'undefined',
-      envApiKey: process.env.TWITTER_API_KEY ? process.env.TWITTER_API_KEY.substring(0, 4) + '...' : 'undefined'
+      envApiKey: process.env.TWITTER_API_KEY ? process.env.TWITTER_API_KEY.substring(0, 4) + '...' : 'undefined',
+      source: sourceConfig.type,
+      mode,
+      spec: scrapeSpec
     });
     
-    if (!apiKey) {
+    // Local sources (archive, fixture) never hit the API
+    if (!apiKey && sourceConfig.type === 'api') {
       throw new Error('API key not provided to worker');
     }
     
-    const BATCH_SIZE = 20; // Twitter API's batch size
-    const MAX_BATCHES = 25; // Limit to 25 batches
-    const maxTweets = BATCH_SIZE * MAX_BATCHES; // 500 tweets total
+    const BATCH_SIZE = batchSize ?? 20; // Twitter API's batch size
+    const maxTweets = scrapeSpec.maxTweets ?? (workerData as WorkerData).maxTweets ?? DEFAULT_MAX_TWEETS;
+    // Filtered pages yield fewer tweets, so allow more of them before giving up
+    const MAX_BATCHES = Math.ceil(maxTweets / BATCH_SIZE) * (hasContentFilters(scrapeSpec) ? 3 : 1);
 
     // Send initialization progress
     parentPort!.postMessage({ 
       progress: 5, 
-      status: 'Initializing Twitter API client...',
+      status: sourceConfig.type === 'api'
+        ? 'Initializing Twitter API client...'
+        : `Opening ${sourceConfig.type} source...`,
       phase: 'init',
       scanProgress: { phase: 'init', count: 0, total: maxTweets }
     });
 
-    // Initialize Twitter client with API key from workerData
-    const client = new TwitterAPIClient(apiKey);
+    // Initialize Twitter client with API key and tweet source from workerData
+    const client = new TwitterAPIClient(apiKey, undefined, createTweetSource(sourceConfig));
 
     // Get user profile first
     parentPort!.postMessage({ 
@@ -113,12 +141,47 @@ async function runTwitterScraper() {
       throw new Error('Operation cancelled by user');
     }
 
+    // Save the profile up front so each page of tweets can be stored as it arrives
+    const user = await withRetry('Saving user profile', async () => {
+      const dbUser: Partial<DBUser> = {
+        username: targetUsername,
+        twitter_username: targetUsername,
+        profile_data: {
+          bio: profile.description,
+          name: profile.name,
+          id: profile.id,
+          createdAt: profile.createdAt
+        },
+        profile_picture_url: profile.profilePicture,
+        created_at: new Date(),
+        last_scraped: new Date()
+      };
+      await db!.saveUserProfile(targetUsername, dbUser);
+
+      const savedUser = await db!.getUserByUsername(targetUsername);
+      if (!savedUser) {
+        throw new Error('Failed to create user profile');
+      }
+      return savedUser;
+    });
+    scrapeUserId = user.id;
+
+    // An unfinished previous run leaves its cursor behind. Catch up on new tweets
+    // from the top first, then continue the older pages from that cursor.
+    const previousState = mode === 'incremental' ? await db.getScrapeState(user.id) : null;
+    const resumeCursor = previousState?.status !== 'complete' ? previousState?.cursor ?? undefined : undefined;
+    const latestStored = mode === 'incremental' ? await db.getLatestTweet(user.id) : null;
+
+    await db.saveScrapeState(user.id, { status: 'running', new_tweets: 0, known_tweets: 0, spec: scrapeSpec });
+
     // Start tweet collection
     parentPort!.postMessage({ 
       progress: 20, 
-      status: 'Starting tweet collection...',
+      status: latestStored
+        ? `Collecting tweets newer than ${new Date(latestStored.created_at).toISOString()}...`
+        : 'Starting tweet collection...',
       phase: 'posts',
-      scanProgress: { phase: 'posts', count: 0, total: maxTweets }
+      scanProgress: { phase: 'posts', count: 0, total: maxTweets, newCount: 0, knownCount: 0 }
     });
 
     // Use a Map to handle deduplication during collection
@@ -126,10 +189,20 @@ async function runTwitterScraper() {
     let hasNextPage = true;
     let nextCursor: string | undefined;
     let totalCollected = 0;
+    let newCount = 0;
+    let knownCount = 0;
     let batchCount = 0;
     let reachedEndOfTweets = false;
-
-    console.log('Starting tweet collection for:', targetUsername, 'with limit:', maxTweets, '(', MAX_BATCHES, 'batches of', BATCH_SIZE, 'tweets)');
+    let reachedStartDate = false;
+    let caughtUp = false;
+    let stoppedAtStoredTweets = false;
+    let resumePending = Boolean(resumeCursor);
+
+    console.log('Starting tweet collection for:', targetUsername, 'with limit:', maxTweets, '(', MAX_BATCHES, 'batches of', BATCH_SIZE, 'tweets)', {
+      mode,
+      latestStored: latestStored?.id,
+      resumeCursor
+    });
 
     while (hasNextPage && totalCollected < maxTweets && batchCount < MAX_BATCHES && !isTerminating) {
       batchCount++;
@@ -139,57 +212,116 @@ async function runTwitterScraper() {
       const response = await client.getUserTweets({
         userName: targetUsername,
         cursor: nextCursor,
-        includeReplies: true
+        includeReplies: true,
+        spec: scrapeSpec
       });
 
+      // Transform and deduplicate tweets
+      const validTweets = response.tweets.filter(tweet => tweet.id);
+      
+      // Calculate how many tweets we can still add without exceeding the limit
+      const remainingQuota = maxTweets - totalCollected;
+      const tweetsToAdd = validTweets
+        .slice(0, remainingQuota)
+        .filter(tweet => !tweetMap.has(tweet.id));
+
+      // Store the page right away so an interrupted run keeps what it fetched
+      const knownIds = await db.getExistingTweetIds(user.id, tweetsToAdd.map(tweet => tweet.id));
+      if (tweetsToAdd.length > 0) {
+        await withRetry(`Saving batch ${batchCount}`, () => db!.saveTweets(
+          user.id,
+          tweetsToAdd.map(tweet => ({
+            ...TwitterDataTransformer.toDBTweet(tweet, user.id),
+            created_at: formatDate(tweet.createdAt)
+          }) as DBTweet)
+        ));
+      }
+
+      for (const tweet of tweetsToAdd) {
+        tweetMap.set(tweet.id, tweet);
+        totalCollected++;
+        if (knownIds.has(tweet.id)) {
+          knownCount++;
+        } else {
+          newCount++;
+        }
+      }
+
       // Check if we've reached the end of available tweets
-      if (!response.hasNextPage || response.tweets.length === 0) {
+      const scannedCount = response.scannedCount ?? response.tweets.length;
+      const isLastPage = scannedCount === 0 || !response.hasNextPage;
+      if (isLastPage) {
         console.log('Reached end of tweets:', {
           hasNextPage: response.hasNextPage,
-          receivedTweets: response.tweets.length,
+          receivedTweets: scannedCount,
           totalCollected
         });
         reachedEndOfTweets = true;
-        break; // Added break to stop the loop when we get an empty batch
       }
 
-      // Transform and deduplicate tweets
-      const validTweets = response.tweets.filter(tweet => tweet.id);
-      
-      // Calculate how many tweets we can still add without exceeding the limit
-      const remainingQuota = maxTweets - totalCollected;
-      const tweetsToAdd = validTweets.slice(0, Math.min(remainingQuota, BATCH_SIZE));
-      
-      // Add new tweets to the map
-      for (const tweet of tweetsToAdd) {
-        if (!tweetMap.has(tweet.id)) {
-          tweetMap.set(tweet.id, tweet);
-          totalCollected++;
-        }
+      // Everything past the spec's start date is older still, including any resume range
+      if (response.pastStartDate) {
+        console.log('Reached spec start date:', { startDate: scrapeSpec.startDate, totalCollected });
+        reachedStartDate = true;
+        resumePending = false;
+      }
+
+      // In incremental mode, a page holding stored tweets means everything older is stored too
+      // (except the range an unfinished run left behind, which resumes from its cursor below)
+      const reachedStoredTweets = mode === 'incremental' && !caughtUp && knownIds.size > 0;
+      if (reachedStoredTweets) {
+        console.log('Reached previously stored tweets:', { batchNumber: batchCount, knownInBatch: knownIds.size });
+        caughtUp = true;
+      }
+
+      // Update pagination state
+      if ((reachedStoredTweets || isLastPage) && resumePending) {
+        nextCursor = resumeCursor;
+        resumePending = false;
+        reachedEndOfTweets = false;
+        hasNextPage = true;
+      } else {
+        nextCursor = response.nextCursor;
+        hasNextPage = response.hasNextPage && !isLastPage && !reachedStoredTweets && !reachedStartDate;
+        stoppedAtStoredTweets = reachedStoredTweets;
+      }
+      hasNextPage = hasNextPage && totalCollected < maxTweets && batchCount < MAX_BATCHES;
+
+      // Persist the cursor unless an older one is still waiting to be resumed
+      if (!resumePending) {
+        await db.saveScrapeState(user.id, {
+          cursor: hasNextPage ? nextCursor ?? null : null,
+          new_tweets: newCount,
+          known_tweets: knownCount
+        });
       }
 
       console.log('Collection progress:', {
         batchNumber: batchCount,
         batchSize: tweetsToAdd.length,
         totalCollected,
+        newCount,
+        knownCount,
         remainingQuota: maxTweets - totalCollected,
         remainingBatches: MAX_BATCHES - batchCount,
-        hasMore: response.hasNextPage && totalCollected < maxTweets && batchCount < MAX_BATCHES,
-        nextCursor: response.nextCursor,
-        reachedEndOfTweets: !response.hasNextPage || response.tweets.length === 0
+        hasMore: hasNextPage,
+        nextCursor,
+        reachedEndOfTweets
       });
 
       // Send progress update
       parentPort!.postMessage({
         progress: Math.min(80, 20 + Math.floor((batchCount / MAX_BATCHES) * 60)),
-        status: `Collecting tweets - Batch ${batchCount}/${MAX_BATCHES} (${totalCollected} tweets)`,
+        status: `Collecting tweets - Batch ${batchCount}/${MAX_BATCHES} (${newCount} new, ${knownCount} already known)`,
         phase: 'posts',
         scanProgress: { 
           phase: 'posts', 
           count: totalCollected,
           total: maxTweets,
           currentBatch: batchCount,
-          totalBatches: MAX_BATCHES
+          totalBatches: MAX_BATCHES,
+          newCount,
+          knownCount
         },
         tweets: tweetsToAdd,
         isChunk: true,
@@ -197,6 +329,10 @@ async function runTwitterScraper() {
         totalBatches: MAX_BATCHES
       });
 
+      if (scannedCount === 0) {
+        continue;
+      }
+
       // Get metrics for monitoring
       const metrics = client.getMetrics(`/user/tweets?userName=${targetUsername}`);
       if (metrics.rateLimitStatus?.remaining === 0) {
@@ -208,107 +344,57 @@ async function runTwitterScraper() {
         });
       }
 
-      // Update pagination state
-      hasNextPage = response.hasNextPage && totalCollected < maxTweets && batchCount < MAX_BATCHES;
-      nextCursor = response.nextCursor;
-
       // If we got fewer tweets than expected in a batch, we've likely reached the end
-      if (response.tweets.length < BATCH_SIZE) {
+      if (scannedCount < BATCH_SIZE) {
         console.log('Received partial batch:', {
           expectedBatchSize: BATCH_SIZE,
-          actualBatchSize: response.tweets.length,
+          actualBatchSize: scannedCount,
           totalCollected,
           currentBatch: batchCount
         });
-        reachedEndOfTweets = true;
       }
 
       // Add a small delay between requests
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (hasNextPage && client.sourceType === 'api') {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+
+    // Check for termination before recording completion
+    if (isTerminating) {
+      throw new Error('Operation cancelled by user');
     }
 
-    const completionStatus = reachedEndOfTweets 
-      ? `Reached end of available tweets at ${totalCollected} tweets (${batchCount} batches)` 
-      : batchCount >= MAX_BATCHES 
-        ? `Reached batch limit of ${MAX_BATCHES} batches (${totalCollected} tweets)`
-        : `Reached tweet limit of ${maxTweets} tweets (${batchCount} batches)`;
+    const completionStatus = stoppedAtStoredTweets
+      ? `Caught up with stored tweets: ${newCount} new, ${knownCount} already known (${batchCount} batches)`
+      : reachedStartDate
+        ? `Reached start date ${scrapeSpec.startDate?.slice(0, 10)} at ${totalCollected} tweets (${newCount} new, ${batchCount} batches)`
+        : reachedEndOfTweets 
+          ? `Reached end of available tweets at ${totalCollected} tweets (${newCount} new, ${batchCount} batches)` 
+          : batchCount >= MAX_BATCHES 
+            ? `Reached batch limit of ${MAX_BATCHES} batches (${totalCollected} tweets, ${newCount} new)`
+            : `Reached tweet limit of ${maxTweets} tweets (${newCount} new, ${batchCount} batches)`;
 
     console.log('Tweet collection completed:', {
       totalTweets: tweetMap.size,
+      newCount,
+      knownCount,
       totalBatches: batchCount,
       reachedBatchLimit: batchCount >= MAX_BATCHES,
       reachedTweetLimit: totalCollected >= maxTweets,
       reachedEndOfTweets,
+      caughtUp,
       completionReason: completionStatus
     });
 
+    // A resume cursor we never got to stays around for the next run
+    await db.saveScrapeState(user.id, resumePending
+      ? { status: 'interrupted', new_tweets: newCount, known_tweets: knownCount }
+      : { status: 'complete', cursor: null, new_tweets: newCount, known_tweets: knownCount });
+
     // Convert Map back to array
     const allTweets = Array.from(tweetMap.values());
 
-    // Check for termination before database operations
-    if (isTerminating) {
-      throw new Error('Operation cancelled by user');
-    }
-
-    // Create user profile with retry logic
-    let retryCount = 0;
-    const MAX_RETRIES = 3;
-    
-    while (retryCount < MAX_RETRIES) {
-      try {
-        // Create user profile
-        const dbUser: Partial<DBUser> = {
-          username: targetUsername,
-          twitter_username: targetUsername,
-          profile_data: {
-            bio: profile.description,
-            name: profile.name,
-            id: profile.id,
-            createdAt: profile.createdAt
-          },
-          profile_picture_url: profile.profilePicture,
-          created_at: new Date(),
-          last_scraped: new Date()
-        };
-
-        // Save user profile
-        await db.saveUserProfile(targetUsername, dbUser);
-
-        // Get user to get the ID
-        const user = await db.getUserByUsername(targetUsername);
-        if (!user) {
-          throw new Error('Failed to create user profile');
-        }
-
-        // Convert tweets to database format using transformer
-        const dbTweets: DBTweet[] = allTweets.map(tweet => ({
-          ...TwitterDataTransformer.toDBTweet(tweet, user.id),
-          created_at: formatDate(tweet.createdAt) // Now returns a Date object
-        }));
-
-        // Save tweets in smaller database batches with delay between batches
-        const DB_BATCH_SIZE = 50; // Reduced batch size
-        for (let i = 0; i < dbTweets.length; i += DB_BATCH_SIZE) {
-          const batch = dbTweets.slice(i, i + DB_BATCH_SIZE);
-          await db.saveTweets(user.id, batch);
-          // Add small delay between batches
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-        
-        break; // Success - exit retry loop
-      } catch (error) {
-        retryCount++;
-        console.error(`Database operation failed (attempt ${retryCount}/${MAX_RETRIES}):`, error);
-        
-        if (retryCount === MAX_RETRIES) {
-          throw error; // Re-throw if all retries failed
-        }
-        
-        // Wait before retrying (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000));
-      }
-    }
-
     // Send completion message
     console.log('Sending completion message:', {
       totalCollected,
@@ -328,12 +414,20 @@ async function runTwitterScraper() {
         count: totalCollected, 
         total: maxTweets,
         currentBatch: batchCount,
-        totalBatches: MAX_BATCHES
+        totalBatches: MAX_BATCHES,
+        newCount,
+        knownCount
       },
       tweets: allTweets.map(tweet => TwitterDataTransformer.toTweet(tweet))
     });
 
   } catch (error) {
+    // Keep the saved cursor so the next run can pick up where this one stopped
+    if (db && scrapeUserId) {
+      await db.saveScrapeState(scrapeUserId, { status: 'interrupted' })
+        .catch(stateError => console.error('Failed to record interrupted scrape:', stateError));
+    }
+
     // Send error message
     console.error('Worker error:', error);
     parentPort!.postMessage({
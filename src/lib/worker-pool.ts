@@ -1,69 +1,215 @@
 import { Worker } from 'worker_threads'
 import path from 'path'
-import { EventEmitter } from 'events'
-import type { WorkerMessage } from '@/lib/twitter/types'
+import os from 'os'
+import { randomUUID } from 'crypto'
+import type { WorkerMessage, TweetSourceConfig, ScrapeMode, ScrapeJobSpec } from '@/lib/twitter/types'
+import type { DBScrapeJob } from '@/lib/db/adapters/types'
+import { DuplicateError } from '@/lib/db/adapters/errors'
+import { getDefaultTweetSourceConfig } from '@/lib/twitter/sources'
+import { initDB } from '@/lib/db'
+import { ProgressBus } from '@/lib/progress-bus'
+import { isTweetMemoryEnabled, rebuildTweetMemory } from '@/lib/tweet-memory'
 
 export interface ScrapingJob {
   id: string
+  userId: string
   username: string
-  onProgress?: (data: WorkerMessage) => void
+  source?: TweetSourceConfig
+  mode?: ScrapeMode
+  spec?: ScrapeJobSpec
+  // The signed-in user who asked for it, when scraping an account they cloned
+  requestedBy?: string
 }
 
+// The user a job's progress belongs to: whoever started it
+export function jobRequesterId(job: DBScrapeJob): string {
+  return job.requested_by ?? job.user_id
+}
+
+export class ScrapeJobConflictError extends Error {
+  constructor(public readonly activeJobId?: string) {
+    super('A job for this user is already in progress.')
+    this.name = 'ScrapeJobConflictError'
+  }
+}
+
+const LEASE_MS = 30000              // Lease is reclaimable 30s after the last heartbeat
+const HEARTBEAT_INTERVAL_MS = 10000
+const POLL_INTERVAL_MS = 5000       // Picks up queued jobs and expired leases from other instances
+const RETRY_BASE_DELAY_MS = 30000   // Doubles with each failed attempt
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+interface ActiveJob {
+  worker: Worker
+  job: DBScrapeJob
+  heartbeat: NodeJS.Timeout
+  settled: boolean
+}
+
+/**
+ * Runs scrape jobs from the scrape_jobs table. Each instance leases jobs while it
+ * has free workers and keeps the lease alive with heartbeats, so a job held by a
+ * crashed instance is picked up again once its lease expires.
+ */
 export class WorkerPool {
+  private static instance: WorkerPool
+
+  private readonly workerId = `${os.hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`
   private workers: Worker[] = []
-  private queue: ScrapingJob[] = []
-  private activeJobs = new Map<string, { worker: Worker, job: ScrapingJob }>()
-  private events = new EventEmitter()
-  
+  private activeJobs = new Map<string, ActiveJob>()
+  private progressBus = ProgressBus.getInstance()
+  private pollTimer: NodeJS.Timeout | null = null
+  private isPolling = false
+  private stopped = false
+
   constructor(
     private maxWorkers: number = 16,  // Maximum 16 concurrent workers
     private maxQueueSize: number = 100 // Queue size for additional requests
   ) {}
 
-  public async addJob(job: ScrapingJob): Promise<void> {
-    // Check if queue is full
-    if (this.queue.length >= this.maxQueueSize) {
+  public static getInstance(): WorkerPool {
+    if (!WorkerPool.instance) {
+      WorkerPool.instance = new WorkerPool()
+      // Pick up jobs left queued or with expired leases by instances that went away,
+      // rather than waiting for the next addJob on this one
+      WorkerPool.instance.startPolling()
+      WorkerPool.instance.poll().catch(error => console.error('Scrape job poll failed:', error))
+    }
+    return WorkerPool.instance
+  }
+
+  public async addJob(job: ScrapingJob): Promise<DBScrapeJob> {
+    const db = await initDB()
+
+    // Check if queue is full. Concurrent requests can both pass this check, so
+    // maxQueueSize is a soft limit that may be overshot by a few jobs.
+    if (await db.getScrapeQueueLength() >= this.maxQueueSize) {
       throw new Error('Queue is full. Please try again later.')
     }
 
-    // Check if job is already running or queued
-    if (this.isJobActive(job.id) || this.queue.some(j => j.id === job.id)) {
-      throw new Error('A job for this user is already in progress.')
+    let record: DBScrapeJob
+    try {
+      record = await db.createScrapeJob({
+        id: job.id,
+        userId: job.userId,
+        username: job.username,
+        source: job.source,
+        mode: job.mode ?? 'incremental',
+        spec: job.spec ?? {},
+        requestedBy: job.requestedBy
+      })
+    } catch (error) {
+      // The partial unique index allows one queued/running job per user
+      if (error instanceof DuplicateError) {
+        const active = await db.getActiveScrapeJob(job.userId)
+        throw new ScrapeJobConflictError(active?.id)
+      }
+      throw error
     }
 
-    if (this.workers.length < this.maxWorkers && this.queue.length === 0) {
-      // Start the job immediately if we have capacity
-      await this.startWorker(job)
-    } else {
-      // Queue the job
-      this.queue.push(job)
-      console.log(`Job ${job.id} queued. Queue length: ${this.queue.length}/${this.maxQueueSize}`)
+    // First event, so clients can attach to the job's progress stream right away
+    await this.emit(record, {
+      type: 'progress',
+      progress: 0,
+      status: 'Job queued'
+    })
+
+    console.log(`Job ${record.id} queued for ${record.username}`)
+    this.startPolling()
+    await this.poll()
+    return record
+  }
+
+  // Publish to the job's progress stream (see /api/jobs/:id/events)
+  private emit(job: DBScrapeJob, message: WorkerMessage): Promise<void> {
+    return this.progressBus.publish(job.id, jobRequesterId(job), {
+      ...message,
+      jobId: job.id,
+      username: job.username
+    })
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => console.error('Scrape job poll failed:', error))
+    }, POLL_INTERVAL_MS)
+    // Don't keep the process alive just for polling
+    this.pollTimer.unref()
+  }
+
+  // Lease jobs until every worker slot is busy or nothing is left to run
+  private async poll(): Promise<void> {
+    if (this.isPolling) return
+    this.isPolling = true
+    try {
+      const db = await initDB()
+      while (!this.stopped && this.workers.length < this.maxWorkers) {
+        const job = await db.leaseNextScrapeJob(this.workerId, LEASE_MS)
+        if (!job) break
+
+        console.log(`Leased job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`)
+        try {
+          this.startWorker(job)
+        } catch (error) {
+          await this.handleFailure(job, error instanceof Error ? error.message : 'Failed to start worker')
+        }
+      }
+    } finally {
+      this.isPolling = false
     }
   }
 
-  private async startWorker(job: ScrapingJob): Promise<void> {
-    // Check for API key
-    if (!process.env.TWITTER_API_KEY) {
+  private startWorker(job: DBScrapeJob): void {
+    const source = job.source ?? getDefaultTweetSourceConfig()
+
+    // Check for API key (local sources don't need one)
+    if (source.type === 'api' && !process.env.TWITTER_API_KEY) {
       throw new Error('TWITTER_API_KEY environment variable is not set');
     }
 
     // Use absolute path to worker file
     const workerPath = path.join(process.cwd(), 'dist', 'lib', 'twitter', 'worker.js')
     console.log('Starting worker with path:', workerPath)
-    
+
     const worker = new Worker(workerPath, {
       workerData: {
         username: job.username,
-        apiKey: process.env.TWITTER_API_KEY
+        apiKey: process.env.TWITTER_API_KEY,
+        source,
+        mode: job.mode,
+        spec: job.spec
       },
       env: process.env // Pass environment variables to worker
     })
 
+    const heartbeat = setInterval(async () => {
+      try {
+        const db = await initDB()
+        const stillOwned = await db.heartbeatScrapeJob(job.id, this.workerId, LEASE_MS)
+        if (!stillOwned) {
+          // Cancelled, or another instance took over after a missed heartbeat.
+          // Whoever changed the job reports it on the progress stream.
+          console.warn(`Lost lease on job ${job.id}, stopping worker`)
+          const active = this.activeJobs.get(job.id)
+          if (active) active.settled = true
+          worker.postMessage({ type: 'terminate' })
+          await worker.terminate()
+        }
+      } catch (error) {
+        console.error(`Heartbeat failed for job ${job.id}:`, error)
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+
     this.workers.push(worker)
-    this.activeJobs.set(job.id, { worker, job })
+    this.activeJobs.set(job.id, { worker, job, heartbeat, settled: false })
 
     // Handle worker messages
-    worker.on('message', (message) => {
+    worker.on('message', (message: WorkerMessage) => {
       console.log(`Worker message received for job ${job.id}:`, {
         type: message.type,
         phase: message.phase,
@@ -71,88 +217,149 @@ export class WorkerPool {
         error: message.error
       });
 
-      if (job.onProgress) {
-        try {
-          job.onProgress(message)
-        } catch (error) {
-          console.error(`Error in onProgress handler for job ${job.id}:`, error);
-          // Try to send error through worker
-          worker.postMessage({ 
-            type: 'error',
-            error: 'Error processing worker message'
-          });
-        }
+      if (message.type === 'error') {
+        this.handleFailure(job, message.error || 'Unknown error')
+          .catch(error => console.error(`Failed to record failure for job ${job.id}:`, error))
+        return
       }
+
+      if (message.type === 'complete') {
+        this.handleCompletion(job, message)
+          .catch(error => console.error(`Failed to record completion for job ${job.id}:`, error))
+        return
+      }
+
+      this.emit(job, message)
+        .catch(error => console.error(`Failed to publish progress for job ${job.id}:`, error))
+      this.recordProgress(job, message)
     })
 
     // Handle worker completion
     worker.on('exit', async (code) => {
       console.log(`Worker for job ${job.id} exited with code ${code}`)
-      
-      // If worker exited with non-zero code and we haven't sent an error yet, send one
-      if (code !== 0 && job.onProgress) {
-        try {
-          job.onProgress({
-            type: 'error',
-            error: `Worker exited with code ${code}`,
-            progress: 0
-          });
-        } catch (error) {
-          console.error(`Error sending exit error for job ${job.id}:`, error);
-        }
+
+      // If worker exited with non-zero code and we haven't settled the job yet, record a failure
+      const active = this.activeJobs.get(job.id)
+      clearInterval(heartbeat)
+      if (code !== 0 && active && !active.settled) {
+        await this.handleFailure(job, `Worker exited with code ${code}`)
+          .catch(error => console.error(`Failed to record failure for job ${job.id}:`, error))
       }
 
       this.workers = this.workers.filter(w => w !== worker)
       this.activeJobs.delete(job.id)
 
       // Start next job if any in queue
-      if (this.queue.length > 0) {
-        const nextJob = this.queue.shift()!
-        await this.startWorker(nextJob)
-      }
+      this.poll().catch(error => console.error('Scrape job poll failed:', error))
     })
 
     // Handle worker errors
     worker.on('error', (error) => {
       console.error(`Worker error for job ${job.id}:`, error)
-      if (job.onProgress) {
-        try {
-          job.onProgress({ 
-            type: 'error',
-            error: error.message,
-            progress: 0
-          })
-        } catch (err) {
-          console.error(`Error sending error message for job ${job.id}:`, err);
-        }
-      }
+      this.handleFailure(job, error.message)
+        .catch(failure => console.error(`Failed to record failure for job ${job.id}:`, failure))
     })
   }
 
-  private isJobActive(jobId: string): boolean {
-    return this.activeJobs.has(jobId)
+  private recordProgress(job: DBScrapeJob, message: WorkerMessage): void {
+    if (message.progress === undefined && !message.scanProgress) return
+
+    initDB()
+      .then(db => db.updateScrapeJobProgress(job.id, this.workerId, {
+        progress: message.progress,
+        phase: message.phase,
+        statusMessage: message.status,
+        scanProgress: message.scanProgress
+      }))
+      .catch(error => console.error(`Failed to record progress for job ${job.id}:`, error))
+  }
+
+  private async handleCompletion(job: DBScrapeJob, message: WorkerMessage): Promise<void> {
+    const active = this.activeJobs.get(job.id)
+    if (active?.settled) return
+    if (active) active.settled = true
+
+    try {
+      const db = await initDB()
+      await db.updateScrapeJobProgress(job.id, this.workerId, { scanProgress: message.scanProgress })
+      await db.completeScrapeJob(job.id, this.workerId, message.status)
+    } catch (error) {
+      console.error(`Failed to record completion for job ${job.id}:`, error)
+    }
+
+    await this.emit(job, message)
+
+    // Chat recalls from the new tweets once they're indexed; the scrape doesn't wait for it
+    if (isTweetMemoryEnabled()) {
+      rebuildTweetMemory(job.username)
+        .catch(error => console.error(`Failed to rebuild tweet memory for ${job.username}:`, error))
+    }
+  }
+
+  // Requeue the job with a backoff while it has attempts left, otherwise report the error
+  private async handleFailure(job: DBScrapeJob, error: string): Promise<void> {
+    const active = this.activeJobs.get(job.id)
+    if (active?.settled) return
+    if (active) active.settled = true
+
+    let updated: DBScrapeJob | null = null
+    try {
+      const db = await initDB()
+      updated = await db.failScrapeJob(job.id, this.workerId, error, retryDelayMs(job.attempts))
+    } catch (dbError) {
+      console.error(`Failed to record failure for job ${job.id}:`, dbError)
+    }
+
+    if (updated?.status === 'queued') {
+      const delaySeconds = Math.round(retryDelayMs(job.attempts) / 1000)
+      console.warn(`Job ${job.id} failed (attempt ${updated.attempts}/${updated.max_attempts}), retrying in ${delaySeconds}s:`, error)
+      await this.emit(job, {
+        type: 'warning',
+        status: `Attempt ${updated.attempts} failed, retrying in ${delaySeconds}s...`,
+        error
+      })
+      return
+    }
+
+    await this.emit(job, {
+      type: 'error',
+      error,
+      progress: 0
+    })
   }
 
   public async shutdown(): Promise<void> {
-    // Terminate all workers
+    this.stopped = true
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+
+    // Terminate all workers; their leases expire and another instance picks the jobs up
+    for (const { heartbeat } of this.activeJobs.values()) {
+      clearInterval(heartbeat)
+    }
+    for (const active of this.activeJobs.values()) {
+      active.settled = true
+    }
     const terminations = this.workers.map(worker => worker.terminate())
     await Promise.all(terminations)
-    
+
     this.workers = []
-    this.queue = []
     this.activeJobs.clear()
   }
 
-  public getStatus(): {
+  public async getStatus(): Promise<{
     activeWorkers: number
     queueLength: number
     activeJobs: string[]
     maxWorkers: number
     maxQueueSize: number
-  } {
+  }> {
+    const db = await initDB()
     return {
       activeWorkers: this.workers.length,
-      queueLength: this.queue.length,
+      queueLength: await db.getScrapeQueueLength(),
       activeJobs: Array.from(this.activeJobs.keys()),
       maxWorkers: this.maxWorkers,
       maxQueueSize: this.maxQueueSize
@@ -160,46 +367,50 @@ export class WorkerPool {
   }
 
   public async terminateJob(jobId: string): Promise<void> {
+    const db = await initDB()
+    const job = await db.getScrapeJob(jobId)
+    if (!job || !(await db.cancelScrapeJob(jobId))) {
+      console.log(`Job ${jobId} is not queued or running`)
+      return
+    }
+
     // Find the active job
     const activeJob = this.activeJobs.get(jobId)
     if (activeJob) {
       console.log(`Terminating job ${jobId}`)
-      const { worker, job } = activeJob
-      
+      const { worker, heartbeat } = activeJob
+      activeJob.settled = true
+      clearInterval(heartbeat)
+
       try {
         // Send termination signal to worker
         worker.postMessage({ type: 'terminate' })
-        
+
         // Wait for worker to cleanup and terminate
         await Promise.race([
           worker.terminate(),
           new Promise(resolve => setTimeout(resolve, 5000)) // 5s timeout
         ])
-        
+
         // Clean up
         this.workers = this.workers.filter(w => w !== worker)
         this.activeJobs.delete(jobId)
-        
-        // Remove from queue if present
-        this.queue = this.queue.filter(j => j.id !== jobId)
-        
-        // Notify progress handler of termination
-        if (job.onProgress) {
-          job.onProgress({
-            error: 'Operation cancelled by user',
-            progress: 0
-          })
-        }
-        
+
         console.log(`Job ${jobId} terminated`)
       } catch (error) {
         console.error(`Error terminating job ${jobId}:`, error)
         throw error
       }
     } else {
-      // If job is in queue, remove it
-      this.queue = this.queue.filter(job => job.id !== jobId)
-      console.log(`Job ${jobId} not found in active jobs or queue`)
+      // Jobs running on another instance stop at their next heartbeat
+      console.log(`Job ${jobId} not running on this instance`)
     }
+
+    // Notify progress handlers of termination
+    await this.emit(job, {
+      type: 'error',
+      error: 'Operation cancelled by user',
+      progress: 0
+    })
   }
-}
\ No newline at end of file
+}
@@ -64,15 +64,17 @@ export async function middleware(request: NextRequest) {
       )
     }
 
-    // Check for cooldown routes
-    const cooldownType = Object.entries(COOLDOWN_ROUTES).find(([route]) => 
-      request.nextUrl.pathname.startsWith(route)
+    // Check for cooldown routes (only starting an operation counts, not polling its status)
+    const cooldownType = request.method === 'GET' ? undefined : Object.entries(COOLDOWN_ROUTES).find(([route]) => 
+      request.nextUrl.pathname === route
     )?.[1];
 
     if (cooldownType) {
-      // Check cooldown via API route
+      // Check cooldown via API route, for the cloned account if there is a target
+      const target = request.nextUrl.searchParams.get('target')
+      const targetParam = target ? `&target=${encodeURIComponent(target)}` : ''
       const cooldownResponse = await fetch(
-        `${request.nextUrl.origin}/api/cooldown?operation=${cooldownType}`,
+        `${request.nextUrl.origin}/api/cooldown?operation=${cooldownType}${targetParam}`,
         {
           headers: {
             'Cookie': request.headers.get('cookie') || '',
@@ -82,6 +84,14 @@ export async function middleware(request: NextRequest) {
       );
 
       const cooldownStatus = await cooldownResponse.json();
+
+      // Not the user's clone, or an invalid handle
+      if (cooldownResponse.status === 400 || cooldownResponse.status === 403) {
+        return NextResponse.json(
+          { error: cooldownStatus.error },
+          { status: cooldownResponse.status }
+        )
+      }
       
       if (!cooldownStatus.canProceed) {
         return NextResponse.json(
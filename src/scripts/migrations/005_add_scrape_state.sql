@@ -0,0 +1,10 @@
+-- Per-user scrape state so interrupted scrapes can resume from their last cursor
+CREATE TABLE scrape_state (
+  user_id VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  cursor TEXT,
+  status VARCHAR(50) NOT NULL DEFAULT 'running',
+  new_tweets INTEGER DEFAULT 0,
+  known_tweets INTEGER DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT valid_scrape_status CHECK (status IN ('running', 'interrupted', 'complete'))
+);
@@ -0,0 +1,3 @@
+-- Record the job spec (depth, date range, filters) used by the last scrape
+ALTER TABLE scrape_state
+ADD COLUMN spec JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,33 @@
+-- Durable scrape job queue. Workers lease jobs and renew the lease with heartbeats;
+-- a job whose lease expires (crash, deploy) is picked up again by the next poll.
+CREATE TABLE scrape_jobs (
+  id VARCHAR(255) PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  username VARCHAR(255) NOT NULL,
+  status VARCHAR(50) NOT NULL DEFAULT 'queued',
+  progress INTEGER DEFAULT 0,
+  phase VARCHAR(50),
+  status_message TEXT,
+  scan_progress JSONB,
+  source JSONB,
+  mode VARCHAR(50) NOT NULL DEFAULT 'incremental',
+  spec JSONB DEFAULT '{}'::jsonb,
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  error TEXT,
+  lease_owner VARCHAR(255),
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT valid_scrape_job_status CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'))
+);
+
+CREATE INDEX idx_scrape_jobs_status ON scrape_jobs(status, created_at);
+CREATE INDEX idx_scrape_jobs_user ON scrape_jobs(user_id, created_at DESC);
+
+-- One queued or running job per user
+CREATE UNIQUE INDEX idx_scrape_jobs_active_user ON scrape_jobs(user_id)
+  WHERE status IN ('queued', 'running');
@@ -0,0 +1,14 @@
+-- Progress events for scrape and analysis jobs, so a client that reconnects with
+-- Last-Event-ID can replay what it missed. Only the most recent events per job are kept.
+CREATE TABLE job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50),
+  payload JSONB NOT NULL,
+  terminal BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_job_events_job ON job_events(job_id, id);
+CREATE INDEX idx_job_events_created ON job_events(created_at);
@@ -0,0 +1,21 @@
+-- Opt-in automatic refresh: re-scrape every interval_days and re-analyze when at
+-- least min_new_tweets new tweets came in. Run by src/scripts/run-scheduler.ts.
+CREATE TABLE refresh_schedules (
+  user_id VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  enabled BOOLEAN DEFAULT true,
+  interval_days INTEGER NOT NULL DEFAULT 7,
+  min_new_tweets INTEGER NOT NULL DEFAULT 20,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_status VARCHAR(50),
+  last_error TEXT,
+  last_scrape_job_id VARCHAR(255),
+  last_new_tweets INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT valid_refresh_interval CHECK (interval_days BETWEEN 1 AND 90),
+  CONSTRAINT valid_refresh_min_new_tweets CHECK (min_new_tweets >= 0),
+  CONSTRAINT valid_refresh_status CHECK (last_status IN ('running', 'analyzed', 'skipped', 'failed'))
+);
+
+CREATE INDEX idx_refresh_schedules_due ON refresh_schedules(next_run_at) WHERE enabled;
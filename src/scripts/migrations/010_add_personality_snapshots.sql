@@ -0,0 +1,33 @@
+-- Every personality analysis is kept as an immutable snapshot so versions can be
+-- compared. analysis_data holds the full PersonalityAnalysis; the older columns
+-- stay filled in for existing readers.
+ALTER TABLE personality_analysis
+  ADD COLUMN version INTEGER,
+  ADD COLUMN analysis_data JSONB,
+  ADD COLUMN source VARCHAR(50) NOT NULL DEFAULT 'manual',
+  ADD COLUMN tweet_count INTEGER;
+
+-- Number any existing rows in the order they were written
+UPDATE personality_analysis pa SET version = numbered.version
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY analyzed_at, id) AS version
+  FROM personality_analysis
+) numbered
+WHERE pa.id = numbered.id;
+
+ALTER TABLE personality_analysis
+  ALTER COLUMN version SET NOT NULL,
+  ADD CONSTRAINT valid_personality_analysis_source CHECK (source IN ('manual', 'scheduled'));
+
+CREATE UNIQUE INDEX idx_personality_analysis_user_version ON personality_analysis(user_id, version);
+
+CREATE OR REPLACE FUNCTION prevent_personality_analysis_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'personality_analysis snapshots are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER personality_analysis_immutable
+  BEFORE UPDATE ON personality_analysis
+  FOR EACH ROW EXECUTE FUNCTION prevent_personality_analysis_update();
@@ -0,0 +1,30 @@
+-- Public accounts a user has cloned. Each target handle has a single owner, who
+-- can scrape, analyze and chat with it; the number of targets per owner is capped
+-- in the app (PERSONA_TARGET_LIMIT).
+CREATE TABLE persona_targets (
+  target_user_id VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  owner_user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT persona_target_not_self CHECK (target_user_id <> owner_user_id)
+);
+
+CREATE INDEX idx_persona_targets_owner ON persona_targets(owner_user_id, created_at);
+
+-- Who started a scrape. Differs from user_id when scraping a cloned account;
+-- progress events belong to the requester.
+ALTER TABLE scrape_jobs
+  ADD COLUMN requested_by VARCHAR(255) REFERENCES users(id) ON DELETE CASCADE;
+
+-- The persona a conversation talks to. Existing conversations were with the
+-- signed-in user's own clone.
+ALTER TABLE conversations
+  ADD COLUMN persona_username VARCHAR(255);
+
+UPDATE conversations c SET persona_username = u.username
+FROM users u
+WHERE u.id = c.user_id;
+
+ALTER TABLE conversations
+  ALTER COLUMN persona_username SET NOT NULL;
+
+CREATE INDEX idx_conversations_user_persona ON conversations(user_id, persona_username, updated_at DESC);
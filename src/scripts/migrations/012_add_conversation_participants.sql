@@ -0,0 +1,11 @@
+-- Group ("room") conversations between several clones. participants lists the
+-- persona usernames in speaking order; NULL means a one-on-one chat with
+-- persona_username. A room's persona_username is its first participant.
+ALTER TABLE conversations
+  ADD COLUMN participants TEXT[];
+
+ALTER TABLE conversations
+  ADD CONSTRAINT conversation_room_size CHECK (participants IS NULL OR cardinality(participants) >= 2);
+
+CREATE INDEX idx_conversations_user_rooms ON conversations(user_id, updated_at DESC)
+  WHERE participants IS NOT NULL;
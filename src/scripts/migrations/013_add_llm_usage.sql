@@ -0,0 +1,21 @@
+-- One row per LLM completion: who it was for, which model served it, the tokens
+-- it used and what it cost. cost_usd is computed from the app's price table at
+-- write time; estimated is set when the provider reported no usage and tokens
+-- were counted from the text instead.
+CREATE TABLE llm_usage (
+  id BIGSERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  task VARCHAR(50) NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  estimated BOOLEAN NOT NULL DEFAULT false,
+  downgraded BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_llm_usage_user_created ON llm_usage(user_id, created_at);
+CREATE INDEX idx_llm_usage_created ON llm_usage(created_at);
@@ -0,0 +1,13 @@
+-- Token buckets for rate limits shared by every app instance. key is
+-- "<namespace>:<identifier>"; tokens is the balance as of updated_at and refills
+-- continuously from there. last_allowed records whether the most recent request
+-- could take its tokens, so one upsert both refills and decides.
+CREATE TABLE rate_limit_buckets (
+  key VARCHAR(255) PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  last_allowed BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Idle buckets are full again and can be dropped
+CREATE INDEX idx_rate_limit_buckets_updated ON rate_limit_buckets(updated_at);
@@ -0,0 +1,22 @@
+-- Analysis chunks run in parallel and each one is saved as it finishes, so a
+-- retry can reuse the completed chunks and run only the failed ones. A job whose
+-- chunks didn't all succeed ends as 'partial'.
+ALTER TABLE analysis_queue
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE analysis_queue DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE analysis_queue
+  ADD CONSTRAINT valid_status CHECK (status IN ('pending', 'processing', 'completed', 'partial', 'failed'));
+
+-- attempts counts every time the chunk was started, across retries of the job
+ALTER TABLE analysis_chunks
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+-- One row per chunk of a job; keep the newest if earlier runs wrote duplicates
+DELETE FROM analysis_chunks a
+  USING analysis_chunks b
+  WHERE a.job_id = b.job_id
+    AND a.chunk_index = b.chunk_index
+    AND a.chunk_id < b.chunk_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_chunks_job_index ON analysis_chunks(job_id, chunk_index);
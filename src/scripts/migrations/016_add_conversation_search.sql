@@ -0,0 +1,14 @@
+-- Full-text search over a user's chats. Message content and conversation
+-- titles each get a generated tsvector, kept in step by Postgres on every
+-- write, with a GIN index to match against.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN (search_vector);
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS title_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(title, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_title_search ON conversations USING GIN (title_vector);
@@ -0,0 +1,29 @@
+-- Messages form a tree: each one follows its parent, so editing a message or
+-- regenerating a reply adds a sibling next to it instead of overwriting it.
+-- The conversation remembers the leaf on show; the path from the root down to
+-- it is the active branch.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(conversation_id, parent_id);
+
+-- Existing conversations become a single branch, in the order they were written
+UPDATE messages m
+  SET parent_id = ordered.previous_id
+  FROM (
+    SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+    FROM messages
+  ) ordered
+  WHERE m.id = ordered.id
+    AND ordered.previous_id IS NOT NULL;
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS active_leaf_id INTEGER REFERENCES messages(id) ON DELETE SET NULL;
+
+UPDATE conversations c
+  SET active_leaf_id = (
+    SELECT m.id FROM messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  );
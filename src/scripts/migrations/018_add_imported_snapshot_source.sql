@@ -0,0 +1,5 @@
+-- Analyses imported from a persona bundle are kept as snapshots like any other,
+-- marked so the history can tell them apart from ones analyzed here.
+ALTER TABLE personality_analysis
+  DROP CONSTRAINT valid_personality_analysis_source,
+  ADD CONSTRAINT valid_personality_analysis_source CHECK (source IN ('manual', 'scheduled', 'imported'));
@@ -0,0 +1,2 @@
+-- A failed attempt requeues the job with a delay; workers skip it until run_after.
+ALTER TABLE scrape_jobs ADD COLUMN run_after TIMESTAMP WITH TIME ZONE;
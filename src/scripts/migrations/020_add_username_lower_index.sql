@@ -0,0 +1,2 @@
+-- X handles are case-insensitive, so users are looked up by LOWER(username).
+CREATE INDEX idx_users_username_lower ON users(LOWER(username));
@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before anything that reads them at import time
+dotenv.config();
+
+/**
+ * Runs the profile refreshes that are due. Meant to be run from cron, e.g.
+ *
+ *   0 * * * * cd /path/to/app && npm run scheduler
+ *
+ * Scrapes run in worker threads from this process, so the worker must be built
+ * first (npm run build). Options: --limit <n> caps the refreshes per run (default 10).
+ */
+async function runScheduler() {
+  const limitIndex = process.argv.indexOf('--limit');
+  const limit = limitIndex !== -1 ? parseInt(process.argv[limitIndex + 1], 10) : 10;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('--limit must be a positive integer');
+  }
+
+  const { runDueRefreshes } = await import('../lib/scheduler/profile-refresh');
+  const { WorkerPool } = await import('../lib/worker-pool');
+
+  console.log(`Running due profile refreshes (limit ${limit})...`);
+  try {
+    const results = await runDueRefreshes({ limit });
+
+    for (const result of results) {
+      const details = result.status === 'failed'
+        ? result.error
+        : `${result.newTweets ?? 0} new tweets${result.cacheVersion ? `, cache v${result.cacheVersion}` : ''}`;
+      console.log(`  @${result.username ?? result.userId}: ${result.status} (${details})`);
+    }
+
+    const failed = results.filter(result => result.status === 'failed').length;
+    console.log(`Done: ${results.length - failed} succeeded, ${failed} failed`);
+    return failed;
+  } finally {
+    await WorkerPool.getInstance().shutdown();
+  }
+}
+
+runScheduler()
+  .then(failed => process.exit(failed > 0 ? 1 : 0))
+  .catch(error => {
+    console.error('Scheduler failed:', error);
+    process.exit(1);
+  });
@@ -9,42 +9,78 @@ interface BaseMetadata {
 interface ConversationMetadata extends BaseMetadata {
   lastMessagePreview?: string;
   messageCount?: number;
+  topic?: string;  // What a room's participants were asked to discuss
+  summary?: string;  // Rolling summary of older messages, written as the chat grows
+  summaryThroughId?: number;  // Last message the summary covers
+  summaryUpdatedAt?: Date;
 }
 
 // Message metadata extends base
 interface MessageMetadata extends BaseMetadata {
   isEdited?: boolean;
   editedAt?: Date;
+  speaker?: string;  // Who said it in a room: a persona username, or the user's own for interjections
+  turn?: number;     // Room turn number, counting only persona messages
+  cancelled?: boolean;  // Reply was stopped mid-stream; content is what had arrived
+  editedFrom?: number;  // The message this one was written as an edit of
 }
 
 // Core types
 interface Conversation {
   id: number;
   userId: string;
+  personaUsername: string;  // The clone this conversation talks to
+  participants: string[] | null;  // Room members in speaking order; null for one-on-one chats
+  activeLeafId: number | null;  // Last message of the branch on show
   title: string;
   createdAt: Date;
   updatedAt: Date;
   metadata: ConversationMetadata;
-  messages?: Message[];
+  messages?: Message[];  // The active branch, first message first
+}
+
+// The alternatives sharing a message's parent: edits of one turn, or regenerated replies
+interface MessageSiblings {
+  ids: number[];  // Oldest first, this message included
+  index: number;  // This message's position in ids
 }
 
 interface Message {
   id: number;
   conversationId: number;
+  parentId: number | null;  // The message this one follows; null for the first
   content: string;
   role: 'user' | 'assistant';
   createdAt: Date;
   metadata: MessageMetadata;
+  siblings?: MessageSiblings;  // Set on messages read as part of a branch
+}
+
+// One path through a conversation's message tree, named by its last message
+interface ConversationBranch {
+  leafId: number;
+  messageCount: number;
+  lastMessagePreview: string;
+  lastMessageAt: Date;
+  isActive: boolean;
 }
 
 // Operation types
 interface NewChatOptions {
   userId: string;
+  personaUsername?: string;  // Defaults to the user's own clone
   initialMessage?: string;
   title?: string;
   metadata?: Partial<ConversationMetadata>;
 }
 
+interface NewRoomOptions {
+  userId: string;
+  participants: string[];  // Persona usernames, in speaking order
+  topic: string;
+  title?: string;
+}
+
 interface UpdateConversationOptions {
   title?: string;
   metadata?: Partial<ConversationMetadata>;
@@ -55,26 +91,64 @@ interface AddMessageOptions {
   content: string;
   role: 'user' | 'assistant';
   metadata?: Partial<MessageMetadata>;
+  parentId?: number | null;  // Defaults to the end of the active branch; null starts a new first message
+}
+
+interface ConversationSearchOptions {
+  query: string;             // Web search syntax: words, "quoted phrases", -excluded, or
+  personaUsername?: string;  // Only one-on-one chats with this clone
+  from?: Date;               // Matches on or after
+  to?: Date;                 // Matches before
+  limit?: number;
+}
+
+// A matching message, or a conversation whose title matched when messageId is null
+interface ConversationSearchResult {
+  conversationId: number;
+  conversationTitle: string;
+  personaUsername: string;
+  participants: string[] | null;
+  messageId: number | null;
+  role: 'user' | 'assistant' | null;
+  createdAt: Date;
+  snippet: string;  // Matched words wrapped in <mark></mark>; the rest is plain text, not HTML
+  rank: number;
 }
 
 // Database operations interface
 interface ConversationOperations {
   // Conversation operations
-  createConversation(userId: string, initialMessage?: string): Promise<Conversation>;
+  createConversation(userId: string, initialMessage?: string, personaUsername?: string): Promise<Conversation>;
   getConversation(id: number, userId: string): Promise<Conversation>;
-  getUserConversations(userId: string): Promise<Conversation[]>;
+  getUserConversations(userId: string, personaUsername?: string): Promise<Conversation[]>;
+  getUserRooms(userId: string): Promise<Conversation[]>;
   updateConversation(id: number, userId: string, options: UpdateConversationOptions): Promise<Conversation>;
   deleteConversation(id: number, userId: string): Promise<void>;
   
   // Message operations
   addMessage(options: AddMessageOptions): Promise<Message>;
+  getMessage(id: number, userId: string): Promise<Message>;
   getMessages(conversationId: number, userId: string): Promise<Message[]>;
+  getMessageTree(conversationId: number, userId: string): Promise<Message[]>;
   updateMessage(id: number, userId: string, content: string): Promise<Message>;
+
+  // Branches
+  getBranches(conversationId: number, userId: string): Promise<ConversationBranch[]>;
+  switchBranch(conversationId: number, userId: string, messageId: number): Promise<Message[]>;
+
+  // Rolling summary of older messages, kept in the conversation's metadata
+  saveSummary(conversationId: number, userId: string, summary: string, throughMessageId: number): Promise<void>;
   
   // Active conversation handling
   startNewChat(options: NewChatOptions): Promise<Conversation>;
   setActiveConversation(userId: string, conversationId: number): Promise<void>;
-  getActiveConversation(userId: string): Promise<Conversation | null>;
+  getActiveConversation(userId: string, personaUsername?: string): Promise<Conversation | null>;
+
+  // Rooms
+  startRoomChat(options: NewRoomOptions): Promise<Conversation>;
+
+  // Search
+  searchConversations(userId: string, options: ConversationSearchOptions): Promise<ConversationSearchResult[]>;
 }
 
 // API response types
@@ -122,6 +196,22 @@ interface ConversationListResponse extends APIResponse<Conversation[]> {
   };
 }
 
+interface BranchListResponse extends APIResponse<ConversationBranch[]> {
+  metadata: {
+    timestamp: Date;
+    requestId: string;
+    conversationId: number;
+  };
+}
+
+interface ConversationSearchResponse extends APIResponse<ConversationSearchResult[]> {
+  metadata: {
+    timestamp: Date;
+    requestId: string;
+    totalCount: number;
+  };
+}
+
 // Error types
 class ConversationError extends Error {
   constructor(
@@ -141,7 +231,10 @@ export type {
   MessageMetadata,
   Conversation,
   Message,
+  MessageSiblings,
+  ConversationBranch,
   NewChatOptions,
+  NewRoomOptions,
   UpdateConversationOptions,
   AddMessageOptions,
   ConversationOperations,
@@ -150,6 +243,10 @@ export type {
   MessageResponse,
   ConversationListResponse,
   MessageListResponse,
+  BranchListResponse,
+  ConversationSearchOptions,
+  ConversationSearchResult,
+  ConversationSearchResponse,
 };
 
 export { ConversationError }; 
\ No newline at end of file
@@ -4,6 +4,9 @@ import type { Conversation, Message, ConversationMetadata, MessageMetadata } fro
 export interface ConversationRow {
   id: number;
   user_id: string;
+  persona_username: string;
+  participants: string[] | null;
+  active_leaf_id: number | null;
   title: string;
   created_at: Date;
   updated_at: Date;
@@ -13,6 +16,7 @@ export interface ConversationRow {
 export interface MessageRow {
   id: number;
   conversation_id: number;
+  parent_id: number | null;
   content: string;
   role: 'user' | 'assistant';
   created_at: Date;
@@ -51,6 +55,9 @@ export function conversationRowToModel(row: ConversationRow): Conversation {
   return {
     id: row.id,
     userId: row.user_id,
+    personaUsername: row.persona_username,
+    participants: row.participants ?? null,
+    activeLeafId: row.active_leaf_id ?? null,
     title: row.title,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -62,6 +69,7 @@ export function messageRowToModel(row: MessageRow): Message {
   return {
     id: row.id,
     conversationId: row.conversation_id,
+    parentId: row.parent_id ?? null,
     content: row.content,
     role: row.role,
     createdAt: row.created_at,
@@ -46,6 +46,7 @@ export interface Tweet {
   }
   images: string[]
   isReply: boolean
+  lang?: string  // Twitter's language tag, e.g. 'en'; 'und' when it couldn't tell
 }
 
 export interface PersonalityAnalysis {
@@ -93,10 +94,13 @@ export interface ScanProgress {
   currentBatch?: number
   totalBatches?: number
   message?: string
+  newCount?: number
+  knownCount?: number
 }
 
 export interface EventData {
   type?: 'complete' | 'error' | 'progress' | 'warning'
+  jobId?: string
   error?: string
   tweets?: Tweet[]
   username?: string